@@ -260,6 +260,13 @@ describe('Settings Persistence', () => {
       expect(getPreservedSettings()).toBeNull();
     });
 
+    it('should write kept settings to localStorage and clamp them to the slider range', () => {
+      saveSettings({ ...getDefaultSettings(), interval: 99, keepSettings: true });
+
+      expect(localStorage.getItem('bestgames.settings.aceOfShadows')).not.toBeNull();
+      expect(getPreservedSettings()!.interval).toBe(TIMING_SLIDER.max);
+    });
+
     it('should create a copy of settings, not a reference', () => {
       const settings: AceOfShadowsState = {
         ...getDefaultSettings(),
@@ -0,0 +1,41 @@
+/**
+ * Tests for the Asset Manifest
+ */
+import { readFileSync, statSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+import { describe, it, expect } from 'vitest';
+
+import { ASSET_MANIFEST } from '../../../config/assetManifest';
+
+const ROOT = process.cwd();
+
+/** File behind an asset URL: Vite-imported (/src/...) or served from public/ */
+function fileOf(src: string): string {
+  const path = decodeURIComponent(new URL(src, 'http://localhost/').pathname);
+  return path.startsWith('/src/') ? join(ROOT, path) : join(ROOT, 'public', path);
+}
+
+/** Page images a Spine atlas loads (first line of each page block) */
+function atlasPages(file: string): string[] {
+  return readFileSync(file, 'utf8')
+    .split(/\r?\n\r?\n/)
+    .map(block => block.trim().split(/\r?\n/)[0])
+    .filter(line => line?.endsWith('.png'))
+    .map(page => join(dirname(file), page));
+}
+
+describe('ASSET_MANIFEST', () => {
+  const entries = Object.values(ASSET_MANIFEST).flat();
+
+  it.each(entries.map(entry => [entry.alias, entry] as const))(
+    'should declare the download size of %s',
+    (_alias, entry) => {
+      const file = fileOf(entry.src);
+      const files = file.endsWith('.atlas') ? [file, ...atlasPages(file)] : [file];
+      const size = files.reduce((sum, path) => sum + statSync(path).size, 0);
+
+      expect(entry.bytes).toBe(size);
+    }
+  );
+});
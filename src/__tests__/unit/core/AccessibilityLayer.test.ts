@@ -0,0 +1,183 @@
+/**
+ * Tests for AccessibilityLayer
+ */
+import { Container } from 'pixi.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { Button } from '../../../components/Button';
+import { Dropdown } from '../../../components/Dropdown';
+import { Slider } from '../../../components/Slider';
+import { Toggle } from '../../../components/Toggle';
+import { AccessibilityLayer, type AccessibilityOptions } from '../../../core/AccessibilityLayer';
+import { FocusNavigator } from '../../../core/FocusNavigator';
+import { InputManager, type KeyBindings } from '../../../core/InputManager';
+
+const BINDINGS: KeyBindings = {
+  back: [],
+  confirm: ['Enter'],
+  advance: [],
+  'draw-from-stock': [],
+  'toggle-settings': [],
+  help: [],
+  'focus-up': ['ArrowUp'],
+  'focus-down': ['ArrowDown'],
+  'focus-left': ['ArrowLeft'],
+  'focus-right': ['ArrowRight'],
+  'previous-layout': [],
+  'next-layout': [],
+  screenshot: [],
+  'record-clip': [],
+  'toggle-inspector': [],
+};
+
+const OPTIONS: AccessibilityOptions = {
+  syncIntervalMs: 200,
+  announceDelayMs: 50,
+  rowTolerance: 12,
+};
+
+function mirror(): HTMLElement {
+  return document.getElementById('a11y-mirror')!;
+}
+
+describe('AccessibilityLayer', () => {
+  let input: InputManager;
+  let scene: Container;
+  let focus: FocusNavigator;
+  let layer: AccessibilityLayer;
+
+  beforeEach(() => {
+    localStorage.clear();
+    input = new InputManager(BINDINGS, { storageKey: 'test.a11y' });
+    const stage = new Container();
+    scene = new Container();
+    stage.addChild(scene);
+    focus = new FocusNavigator(input, stage, () => scene);
+    layer = new AccessibilityLayer(focus, () => scene, OPTIONS);
+  });
+
+  afterEach(() => {
+    layer.destroy();
+    focus.destroy();
+    input.destroy();
+    vi.useRealTimers();
+  });
+
+  it('should mirror each component with its role and label', () => {
+    const button = new Button({ label: '🔊', accessibleLabel: 'Mute sound', onClick: vi.fn() });
+    const toggle = new Toggle({ label: 'Shadows', value: true, onChange: vi.fn() });
+    const slider = new Slider({
+      label: 'Speed',
+      value: 1.5,
+      min: 0.5,
+      max: 3,
+      step: 0.5,
+      unit: 'x',
+      onChange: vi.fn(),
+    });
+    const dropdown = new Dropdown({
+      label: 'Layout',
+      options: [
+        { label: 'Classic', value: 'classic' },
+        { label: 'Crown', value: 'crown' },
+      ],
+      value: 'crown',
+      onChange: vi.fn(),
+    });
+    button.y = 0;
+    toggle.y = 100;
+    slider.y = 200;
+    dropdown.y = 300;
+    scene.addChild(dropdown, slider, toggle, button);
+
+    layer.sync();
+
+    const [mute, shadows, speed, layout] = Array.from(mirror().children) as HTMLElement[];
+    expect(mute.tagName).toBe('BUTTON');
+    expect(mute.textContent).toBe('Mute sound');
+    expect(shadows.getAttribute('role')).toBe('switch');
+    expect(shadows.getAttribute('aria-checked')).toBe('true');
+    expect((speed as HTMLInputElement).type).toBe('range');
+    expect((speed as HTMLInputElement).value).toBe('1.5');
+    expect(speed.getAttribute('aria-valuetext')).toBe('1.5x');
+    expect((layout as HTMLSelectElement).value).toBe('crown');
+    expect(layout.getAttribute('aria-label')).toBe('Layout');
+  });
+
+  it('should order controls by row, then along the row', () => {
+    const second = new Button({ label: 'Second', onClick: vi.fn() });
+    const first = new Button({ label: 'First', onClick: vi.fn() });
+    const third = new Button({ label: 'Third', onClick: vi.fn() });
+    second.position.set(300, 0);
+    first.position.set(0, 5);
+    third.position.set(0, 200);
+    scene.addChild(third, second, first);
+
+    layer.sync();
+
+    const labels = Array.from(mirror().children, element => element.textContent);
+    expect(labels).toEqual(['First', 'Second', 'Third']);
+  });
+
+  it('should pass mirror input back to the components', () => {
+    const onClick = vi.fn();
+    const onChange = vi.fn();
+    const button = new Button({ label: 'Play', onClick });
+    const slider = new Slider({ label: 'Speed', value: 1, min: 0, max: 2, step: 0.5, onChange });
+    slider.y = 100;
+    scene.addChild(button, slider);
+    layer.sync();
+    const [play, speed] = Array.from(mirror().children) as HTMLInputElement[];
+
+    play.click();
+    speed.value = '1.5';
+    speed.dispatchEvent(new Event('input'));
+
+    expect(onClick).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith(1.5);
+  });
+
+  it('should share focus with the focus navigator both ways', () => {
+    const top = new Button({ label: 'Top', onClick: vi.fn() });
+    const bottom = new Button({ label: 'Bottom', onClick: vi.fn() });
+    bottom.y = 200;
+    scene.addChild(top, bottom);
+    layer.sync();
+    const [topElement, bottomElement] = Array.from(mirror().children) as HTMLElement[];
+
+    bottomElement.focus();
+    expect(focus.focused).toBe(bottom);
+
+    input.trigger('focus-up');
+    expect(document.activeElement).toBe(topElement);
+
+    focus.clear();
+    expect(document.activeElement).toBe(document.body);
+  });
+
+  it('should drop controls of removed components', () => {
+    const button = new Button({ label: 'Play', onClick: vi.fn() });
+    scene.addChild(button);
+    layer.sync();
+
+    button.destroy();
+    layer.sync();
+
+    expect(mirror().children).toHaveLength(0);
+  });
+
+  it('should announce messages through the live region, repeats included', () => {
+    vi.useFakeTimers();
+    const region = document.getElementById('a11y-live')!;
+    expect(region.getAttribute('aria-live')).toBe('polite');
+
+    layer.announce('Sheldon: Hello');
+    vi.advanceTimersByTime(OPTIONS.announceDelayMs);
+    expect(region.textContent).toBe('Sheldon: Hello');
+
+    layer.announce('Sheldon: Hello');
+    expect(region.textContent).toBe('');
+    vi.advanceTimersByTime(OPTIONS.announceDelayMs);
+    expect(region.textContent).toBe('Sheldon: Hello');
+  });
+});
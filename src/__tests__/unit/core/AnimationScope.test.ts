@@ -0,0 +1,123 @@
+/**
+ * Tests for AnimationScope
+ */
+import gsap from 'gsap';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { AnimationScope } from '../../../core/AnimationScope';
+
+describe('AnimationScope', () => {
+  let scope: AnimationScope;
+
+  beforeEach(() => {
+    scope = new AnimationScope();
+  });
+
+  afterEach(() => {
+    scope.dispose();
+    gsap.globalTimeline.clear();
+  });
+
+  it('should kill its own animations and leave the others running', () => {
+    const mine = scope.to({ x: 0 }, { x: 1, duration: 1 });
+    const theirs = gsap.to({ x: 0 }, { x: 1, duration: 1 });
+
+    scope.kill();
+
+    expect(mine.parent).toBeNull();
+    expect(theirs.parent).toBe(gsap.globalTimeline);
+  });
+
+  it('should own the animations created in its callbacks', () => {
+    const target = { x: 0 };
+    let followUp: gsap.core.Tween | null = null;
+    scope.to(target, {
+      x: 1,
+      duration: 0,
+      onComplete: () => (followUp = gsap.to(target, { x: 2 })),
+    });
+    gsap.ticker.tick();
+
+    expect(followUp).not.toBeNull();
+    scope.killTweensOf(target);
+    expect(followUp!.parent).toBeNull();
+  });
+
+  it('should only kill its own tweens of a shared target', () => {
+    const target = { x: 0, y: 0 };
+    const mine = scope.to(target, { x: 1, duration: 1 });
+    const theirs = gsap.to(target, { y: 1, duration: 1 });
+
+    scope.killTweensOf(target);
+
+    expect(mine.parent).toBeNull();
+    expect(theirs.parent).toBe(gsap.globalTimeline);
+  });
+
+  it('should pause its animations, including new ones, until resumed', () => {
+    const before = scope.to({ x: 0 }, { x: 1, duration: 1 });
+    const paused = gsap.to({ x: 0 }, { x: 1, duration: 1, paused: true });
+    scope.add(() => paused);
+
+    scope.pause();
+    const during = scope.to({ x: 0 }, { x: 1, duration: 1 });
+
+    expect(before.paused()).toBe(true);
+    expect(during.paused()).toBe(true);
+    expect(scope.isPaused).toBe(true);
+
+    scope.resume();
+
+    expect(before.paused()).toBe(false);
+    expect(during.paused()).toBe(false);
+    // Paused by its creator, not the scope
+    expect(paused.paused()).toBe(true);
+  });
+
+  it('should scale the speed of its animations and its children', () => {
+    const child = scope.createChild();
+    const own = scope.to({ x: 0 }, { x: 1, duration: 1 });
+    const nested = child.to({ x: 0 }, { x: 1, duration: 1 });
+
+    scope.timeScale = 2;
+    child.timeScale = 0.5;
+
+    expect(own.timeScale()).toBe(2);
+    expect(nested.timeScale()).toBe(1);
+
+    scope.timeScale = 1;
+
+    expect(own.timeScale()).toBe(1);
+    expect(nested.timeScale()).toBe(0.5);
+  });
+
+  it('should skip to the end but keep endless loops running', () => {
+    const target = { x: 0 };
+    const timeline = scope.timeline().to(target, { x: 1, duration: 1 });
+    const loop = scope.to({ angle: 0 }, { angle: 360, duration: 1, repeat: -1 });
+
+    scope.skipToEnd();
+
+    expect(target.x).toBe(1);
+    expect(timeline.progress()).toBe(1);
+    expect(loop.parent).toBe(gsap.globalTimeline);
+  });
+
+  it('should pause, kill and forget children with the parent', () => {
+    const child = scope.createChild();
+    const tween = child.to({ x: 0 }, { x: 1, duration: 1 });
+
+    scope.pause();
+    expect(tween.paused()).toBe(true);
+    expect(child.isPaused).toBe(true);
+    scope.resume();
+
+    child.dispose();
+    const later = scope.createChild();
+    const other = later.to({ x: 0 }, { x: 1, duration: 1 });
+    scope.kill();
+
+    expect(tween.parent).toBeNull();
+    expect(other.parent).toBeNull();
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Tests for AssetLoader
+ */
+import { Assets, RenderTexture, Spritesheet, type ISpritesheetData } from 'pixi.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { AssetLoader, type LoadProgress } from '../../../core/AssetLoader';
+import { flushPromises } from '../../helpers/testUtils';
+
+/** Single-frame spritesheet data */
+function createSheetData(frame: string): ISpritesheetData {
+  return {
+    frames: {
+      [frame]: {
+        frame: { x: 0, y: 0, w: 4, h: 4 },
+        sourceSize: { w: 4, h: 4 },
+        spriteSourceSize: { x: 0, y: 0, w: 4, h: 4 },
+      },
+    },
+    animations: { idle: [frame] },
+    meta: { scale: '1' },
+  };
+}
+
+describe('AssetLoader', () => {
+  let loader: AssetLoader;
+  let load: ReturnType<typeof vi.spyOn>;
+  let unload: ReturnType<typeof vi.spyOn>;
+  let sheetCount = 0;
+  const owner = {};
+
+  beforeEach(() => {
+    Assets.cache.reset();
+    loader = new AssetLoader();
+
+    // Resolve every load with a tiny texture, kept outside Pixi's global texture cache
+    const textures = new Map<string, RenderTexture>();
+    load = vi.spyOn(Assets, 'load').mockImplementation((async (key: string) => {
+      const texture = RenderTexture.create({ width: 8, height: 8 });
+      textures.set(key, texture);
+      return texture;
+    }) as unknown as typeof Assets.load);
+    vi.spyOn(Assets, 'get').mockImplementation(((key: string) =>
+      textures.get(key)) as unknown as typeof Assets.get);
+    unload = vi.spyOn(Assets, 'unload').mockImplementation((async (key: string) => {
+      textures.get(key)?.destroy(true);
+      textures.delete(key);
+    }) as unknown as typeof Assets.unload);
+    vi.spyOn(Assets, 'add').mockImplementation(() => undefined);
+    vi.spyOn(Assets.resolver, 'hasKey').mockReturnValue(false);
+
+    // Frame names must be unique across tests (Pixi's global texture cache)
+    sheetCount++;
+    loader.addManifest({
+      menu: [{ alias: 'menu-bg', src: 'menu-bg.png' }],
+      game: [
+        { alias: 'menu-bg', src: 'menu-bg.png' },
+        {
+          alias: 'cards',
+          src: 'cards.png',
+          spritesheet: createSheetData(`card-${sheetCount}.png`),
+          framePrefix: 'deck-',
+        },
+      ],
+      empty: [],
+    });
+  });
+
+  afterEach(() => {
+    loader.destroy();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    Assets.cache.reset();
+  });
+
+  describe('loadBundle', () => {
+    it('should report progress after every file', async () => {
+      const updates: LoadProgress[] = [];
+      await loader.loadBundle('game', owner, progress => updates.push(progress));
+
+      expect(updates.map(update => update.loadedFiles)).toEqual([0, 1, 2]);
+      expect(updates.at(-1)?.progress).toBe(1);
+      expect(updates.at(-1)?.totalFiles).toBe(2);
+      expect(loader.isLoaded('game')).toBe(true);
+    });
+
+    it('should weight progress by the declared file sizes', async () => {
+      loader.addManifest({
+        sized: [
+          { alias: 'small', src: 'small.png', bytes: 100 },
+          { alias: 'large', src: 'large.png', bytes: 300 },
+        ],
+      });
+      const updates: LoadProgress[] = [];
+      await loader.loadBundle('sized', owner, progress => updates.push(progress));
+
+      expect(updates[0]).toMatchObject({ loadedBytes: 0, totalBytes: 400, progress: 0 });
+      expect(updates.map(update => update.progress)).toEqual([0, 0.25, 1]);
+      expect(updates.at(-1)?.loadedBytes).toBe(400);
+    });
+
+    it('should complete empty bundles immediately', async () => {
+      const onProgress = vi.fn();
+      await loader.loadBundle('empty', owner, onProgress);
+
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ progress: 1 }));
+    });
+
+    it('should load files shared between bundles only once', async () => {
+      await loader.loadBundle('menu', owner);
+      await loader.loadBundle('game', owner);
+
+      const menuLoads = load.mock.calls.filter(([key]) => key === 'menu-bg');
+      expect(menuLoads).toHaveLength(1);
+    });
+
+    it('should reject unknown bundles', async () => {
+      await expect(loader.loadBundle('missing', owner)).rejects.toThrow('Unknown bundle');
+    });
+
+    it('should retry files that failed to load', async () => {
+      load.mockRejectedValueOnce(new Error('offline'));
+
+      await expect(loader.loadBundle('menu', owner)).rejects.toThrow('offline');
+      expect(loader.isLoaded('menu')).toBe(false);
+
+      await loader.loadBundle('menu', owner);
+      expect(loader.isLoaded('menu')).toBe(true);
+    });
+  });
+
+  describe('spritesheets', () => {
+    it('should parse spritesheet entries with prefixed frame names', async () => {
+      await loader.loadBundle('game', owner);
+
+      const sheet = loader.getSpritesheet('cards');
+      expect(sheet).toBeInstanceOf(Spritesheet);
+      expect(Object.keys(sheet.textures)).toEqual([`deck-card-${sheetCount}.png`]);
+      expect(sheet.animations['idle']).toHaveLength(1);
+    });
+
+    it('should throw for spritesheets that are not loaded', () => {
+      expect(() => loader.getSpritesheet('cards')).toThrow('not loaded');
+    });
+  });
+
+  describe('lifecycle', () => {
+    /** One 8x8 RGBA texture */
+    const TEXTURE_BYTES = 8 * 8 * 4;
+
+    it('should report the memory of loaded textures', async () => {
+      expect(loader.textureMemory).toBe(0);
+
+      await loader.loadBundle('game', owner);
+
+      expect(loader.textureMemory).toBe(2 * TEXTURE_BYTES);
+    });
+
+    it('should unload files when their last owner releases them', async () => {
+      const other = {};
+      await loader.loadBundle('menu', owner);
+      await loader.loadBundle('game', other);
+
+      loader.release(other);
+      expect(loader.isLoaded('menu')).toBe(true);
+      expect(loader.isLoaded('game')).toBe(false);
+      expect(() => loader.getSpritesheet('cards')).toThrow('not loaded');
+      expect(loader.textureMemory).toBe(TEXTURE_BYTES);
+
+      loader.release(owner);
+      expect(loader.textureMemory).toBe(0);
+      expect(unload).toHaveBeenCalledWith('menu-bg');
+      expect(unload).toHaveBeenCalledWith('cards.png');
+    });
+
+    it('should count each owner only once per bundle', async () => {
+      await loader.loadBundle('menu', owner);
+      await loader.loadBundle('menu', owner);
+
+      loader.release(owner);
+
+      expect(loader.isLoaded('menu')).toBe(false);
+    });
+
+    it('should release a single bundle of an owner', async () => {
+      await loader.loadBundle('menu', owner);
+      await loader.loadBundle('game', owner);
+
+      loader.release(owner, 'game');
+
+      expect(loader.isLoaded('menu')).toBe(true);
+      expect(() => loader.getSpritesheet('cards')).toThrow('not loaded');
+    });
+
+    it('should reload files after they were unloaded', async () => {
+      await loader.loadBundle('menu', owner);
+      loader.release(owner);
+      await loader.loadBundle('menu', owner);
+
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(loader.isLoaded('menu')).toBe(true);
+    });
+
+    it('should unload files released while still loading', async () => {
+      const loading = loader.loadBundle('menu', owner);
+      loader.release(owner);
+      await loading;
+
+      expect(loader.isLoaded('menu')).toBe(false);
+      expect(unload).toHaveBeenCalledWith('menu-bg');
+    });
+
+    it('should keep unused files warm for keepWarmMs', async () => {
+      vi.useFakeTimers();
+      loader.keepWarmMs = 1000;
+      await loader.loadBundle('menu', owner);
+
+      loader.release(owner);
+      vi.advanceTimersByTime(999);
+      expect(loader.isLoaded('menu')).toBe(true);
+
+      vi.advanceTimersByTime(1);
+      expect(loader.isLoaded('menu')).toBe(false);
+    });
+
+    it('should cancel the pending unload when a file is used again', async () => {
+      vi.useFakeTimers();
+      loader.keepWarmMs = 1000;
+      await loader.loadBundle('menu', owner);
+
+      loader.release(owner);
+      await loader.loadBundle('menu', {});
+      vi.advanceTimersByTime(1000);
+
+      expect(loader.isLoaded('menu')).toBe(true);
+      expect(load).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('prefetch', () => {
+    it('should let a later loadBundle join the background load', async () => {
+      loader.prefetch('menu');
+      await loader.loadBundle('menu', owner);
+      await flushPromises();
+
+      expect(load).toHaveBeenCalledOnce();
+      expect(loader.getTexture('menu-bg')).toBeDefined();
+    });
+
+    it('should ignore unknown bundles', () => {
+      expect(() => loader.prefetch('missing')).not.toThrow();
+      expect(load).not.toHaveBeenCalled();
+    });
+
+    it('should unload prefetched bundles that are never opened', async () => {
+      vi.useFakeTimers();
+      loader.keepWarmMs = 1000;
+      loader.prefetch('menu');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(loader.isLoaded('menu')).toBe(true);
+
+      vi.advanceTimersByTime(1000);
+
+      expect(loader.isLoaded('menu')).toBe(false);
+    });
+  });
+});
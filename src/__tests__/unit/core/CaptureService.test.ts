@@ -0,0 +1,137 @@
+/**
+ * Tests for CaptureService
+ */
+import { Container, Rectangle, Ticker, type IRenderer } from 'pixi.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import {
+  CaptureService,
+  type CaptureOptions,
+  type CaptureSource,
+} from '../../../core/CaptureService';
+import { ErrorHandler } from '../../../core/ErrorHandler';
+
+const OPTIONS: CaptureOptions = {
+  screenshotScale: 2,
+  clipFrames: 3,
+  clipFormat: 'png',
+  mimeTypes: ['video/webm'],
+  videoBitsPerSecond: 1_000_000,
+  filePrefix: 'test',
+};
+
+/** Renderer stand-in: records renders and the PNG blobs it exports, in order */
+function createSource(): CaptureSource & { render: ReturnType<typeof vi.fn>; blobs: Blob[] } {
+  const blobs: Blob[] = [];
+  const render = vi.fn();
+  const renderer = {
+    resolution: 1.5,
+    background: { color: 0x123456 },
+    render,
+    extract: {
+      canvas: () => ({
+        toBlob: (callback: (blob: Blob) => void) => {
+          const blob = new Blob(['png'], { type: 'image/png' });
+          blobs.push(blob);
+          callback(blob);
+        },
+      }),
+    },
+  } as unknown as IRenderer;
+
+  const ticker = new Ticker();
+  ticker.autoStart = false;
+  return {
+    renderer,
+    stage: new Container(),
+    screen: new Rectangle(0, 0, 400, 300),
+    ticker,
+    render,
+    blobs,
+  };
+}
+
+/** Advance the ticker by a number of frames */
+function tick(ticker: Ticker, frames: number): void {
+  for (let i = 0; i < frames; i++) ticker.update(ticker.lastTime + 16);
+}
+
+describe('CaptureService', () => {
+  let source: ReturnType<typeof createSource>;
+  let capture: CaptureService;
+
+  beforeEach(() => {
+    source = createSource();
+    capture = new CaptureService(source, OPTIONS);
+  });
+
+  afterEach(() => {
+    capture.destroy();
+    source.ticker.destroy();
+  });
+
+  it('should render screenshots at the resolution multiple on the page background', async () => {
+    source.render.mockImplementation((stage: Container, { renderTexture }) => {
+      expect(stage).toBe(source.stage);
+      expect(renderTexture.width).toBe(400);
+      expect(renderTexture.height).toBe(300);
+      expect(renderTexture.baseTexture.resolution).toBe(3);
+      expect(renderTexture.baseTexture.clearColor).toBe(0x123456);
+    });
+
+    const blob = await capture.screenshot();
+
+    expect(source.render).toHaveBeenCalledTimes(1);
+    expect(blob).toBe(source.blobs[0]);
+  });
+
+  it('should hide excluded objects only while capturing', async () => {
+    const ring = new Container();
+    const hiddenAnyway = new Container();
+    hiddenAnyway.visible = false;
+    capture.exclude(ring);
+    capture.exclude(hiddenAnyway);
+    source.render.mockImplementation(() => {
+      expect(ring.visible).toBe(false);
+    });
+
+    await capture.screenshot(1);
+
+    expect(source.render).toHaveBeenCalledTimes(1);
+    expect(ring.visible).toBe(true);
+    expect(hiddenAnyway.visible).toBe(false);
+  });
+
+  it('should record numbered PNG frames, one per rendered frame', async () => {
+    const clip = capture.recordClip();
+    expect(capture.isRecording).toBe(true);
+
+    tick(source.ticker, 5);
+    const frames = await clip;
+
+    expect(frames).toEqual(source.blobs);
+    expect(frames).toHaveLength(3);
+    expect(capture.isRecording).toBe(false);
+  });
+
+  it('should record one clip at a time and stop early on request', async () => {
+    const clip = capture.recordClip({ frames: 10 });
+    await expect(capture.recordClip()).rejects.toThrow('already being recorded');
+
+    tick(source.ticker, 2);
+    capture.stopClip();
+    tick(source.ticker, 2);
+
+    expect(await clip).toHaveLength(2);
+  });
+
+  it('should report a clip format the browser cannot record', async () => {
+    const handle = vi.spyOn(ErrorHandler, 'handle').mockImplementation(() => undefined);
+
+    await expect(capture.recordClip({ format: 'webm' })).rejects.toThrow('not supported');
+    await capture.saveClip('webm');
+
+    expect(handle).toHaveBeenCalledWith(expect.any(Error), 'capture-clip', { format: 'webm' });
+    handle.mockRestore();
+  });
+});
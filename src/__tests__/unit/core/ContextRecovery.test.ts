@@ -0,0 +1,85 @@
+/**
+ * Tests for ContextRecovery
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { ContextRecovery } from '../../../core/ContextRecovery';
+
+function overlay(): HTMLElement | null {
+  return document.getElementById('context-recovery');
+}
+
+function fire(canvas: HTMLCanvasElement, type: string): Event {
+  const event = new Event(type, { cancelable: true });
+  canvas.dispatchEvent(event);
+  return event;
+}
+
+describe('ContextRecovery', () => {
+  let canvas: HTMLCanvasElement;
+  let recovery: ContextRecovery;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    canvas = document.createElement('canvas');
+    recovery = new ContextRecovery(canvas, { reloadPromptMs: 5000 });
+    recovery.start();
+  });
+
+  afterEach(() => {
+    recovery.destroy();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should cover the canvas and notify while the context is lost', () => {
+    const listener = vi.fn();
+    recovery.subscribe(listener);
+
+    const event = fire(canvas, 'webglcontextlost');
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(recovery.isLost).toBe(true);
+    expect(overlay()).not.toBeNull();
+    expect(listener).toHaveBeenCalledWith('lost');
+  });
+
+  it('should remove the overlay and notify once the context is restored', () => {
+    const listener = vi.fn();
+    recovery.subscribe(listener);
+
+    fire(canvas, 'webglcontextlost');
+    fire(canvas, 'webglcontextrestored');
+
+    expect(recovery.isLost).toBe(false);
+    expect(overlay()).toBeNull();
+    expect(listener.mock.calls).toEqual([['lost'], ['restored']]);
+  });
+
+  it('should offer a reload when the context stays lost', () => {
+    fire(canvas, 'webglcontextlost');
+    const reload = overlay()?.querySelector('button');
+
+    expect(reload?.hidden).toBe(true);
+    vi.advanceTimersByTime(5000);
+    expect(reload?.hidden).toBe(false);
+  });
+
+  it('should ignore repeated events and stop listening once destroyed', () => {
+    const listener = vi.fn();
+    recovery.subscribe(listener);
+
+    fire(canvas, 'webglcontextrestored');
+    fire(canvas, 'webglcontextlost');
+    fire(canvas, 'webglcontextlost');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(document.querySelectorAll('#context-recovery')).toHaveLength(1);
+
+    recovery.destroy();
+    expect(overlay()).toBeNull();
+    fire(canvas, 'webglcontextrestored');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
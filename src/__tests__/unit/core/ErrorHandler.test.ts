@@ -0,0 +1,120 @@
+/**
+ * Tests for ErrorHandler
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { ErrorHandler, type ErrorReport } from '../../../core/ErrorHandler';
+
+describe('ErrorHandler', () => {
+  let reports: ErrorReport[];
+  let removeReporter: () => void;
+
+  beforeEach(() => {
+    ErrorHandler.verbose = false;
+    reports = [];
+    removeReporter = ErrorHandler.addReporter({ report: report => reports.push(report) });
+  });
+
+  afterEach(() => {
+    removeReporter();
+    ErrorHandler.verbose = true;
+    vi.restoreAllMocks();
+  });
+
+  describe('handle', () => {
+    it('should forward errors with context and metadata to reporters', () => {
+      ErrorHandler.handle(new Error('boom'), 'api-fetch', { url: '/dialogue' });
+
+      expect(reports).toHaveLength(1);
+      expect(reports[0]).toMatchObject({
+        context: 'api-fetch',
+        message: 'boom',
+        metadata: { url: '/dialogue' },
+      });
+      expect(reports[0].stack).toContain('boom');
+    });
+
+    it('should report non-Error values as strings', () => {
+      ErrorHandler.handle('offline', 'asset-prefetch');
+
+      expect(reports[0].message).toBe('offline');
+      expect(reports[0].stack).toBeUndefined();
+    });
+
+    it('should report the same error object only once', () => {
+      const error = new Error('rethrown');
+
+      ErrorHandler.handle(error, 'scene-startup');
+      ErrorHandler.handle(error, 'route');
+
+      expect(reports).toHaveLength(1);
+      expect(reports[0].context).toBe('scene-startup');
+    });
+
+    it('should give reports increasing ids', () => {
+      ErrorHandler.handle(new Error('a'), 'test');
+      ErrorHandler.handle(new Error('b'), 'test');
+
+      expect(reports[1].id).toBeGreaterThan(reports[0].id);
+    });
+
+    it('should keep reporting when a reporter throws', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const removeBroken = ErrorHandler.addReporter({
+        report: () => {
+          throw new Error('reporter down');
+        },
+      });
+      const removeLast = ErrorHandler.addReporter({ report: report => reports.push(report) });
+
+      ErrorHandler.handle(new Error('boom'), 'test');
+
+      expect(reports).toHaveLength(2);
+      removeBroken();
+      removeLast();
+    });
+
+    it('should stop forwarding after the reporter is removed', () => {
+      removeReporter();
+
+      ErrorHandler.handle(new Error('boom'), 'test');
+
+      expect(reports).toHaveLength(0);
+    });
+  });
+
+  describe('installGlobalHandlers', () => {
+    /** Stand-in for window, so test errors don't reach the test runner's own handlers */
+    let target: EventTarget;
+
+    beforeEach(() => {
+      target = new EventTarget();
+    });
+
+    it('should route uncaught errors and unhandled rejections', () => {
+      const uninstall = ErrorHandler.installGlobalHandlers(target as Window);
+
+      target.dispatchEvent(
+        new ErrorEvent('error', { error: new Error('uncaught'), filename: 'main.ts', lineno: 3 })
+      );
+      const rejection = new Event('unhandledrejection') as PromiseRejectionEvent;
+      Object.defineProperty(rejection, 'reason', { value: new Error('rejected') });
+      target.dispatchEvent(rejection);
+      uninstall();
+
+      expect(reports.map(report => [report.context, report.message])).toEqual([
+        ['uncaught', 'uncaught'],
+        ['unhandled-rejection', 'rejected'],
+      ]);
+      expect(reports[0].metadata).toMatchObject({ source: 'main.ts', line: 3 });
+    });
+
+    it('should stop routing once uninstalled', () => {
+      ErrorHandler.installGlobalHandlers(target as Window)();
+
+      target.dispatchEvent(new ErrorEvent('error', { error: new Error('late') }));
+
+      expect(reports).toHaveLength(0);
+    });
+  });
+});
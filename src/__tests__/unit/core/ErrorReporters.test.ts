@@ -0,0 +1,88 @@
+/**
+ * Tests for the built-in error reporters
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import type { ErrorReport } from '../../../core/ErrorHandler';
+import { BufferReporter, HttpReporter, PostMessageReporter } from '../../../core/ErrorReporters';
+
+/** Report with the given id */
+function createReport(id: number, metadata?: Record<string, unknown>): ErrorReport {
+  return { id, timestamp: 0, context: 'test', message: `error ${id}`, metadata };
+}
+
+describe('ErrorReporters', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('BufferReporter', () => {
+    it('should keep only the most recent reports', () => {
+      const buffer = new BufferReporter(2);
+
+      buffer.report(createReport(1));
+      buffer.report(createReport(2));
+      buffer.report(createReport(3));
+
+      expect(buffer.entries.map(report => report.id)).toEqual([2, 3]);
+    });
+
+    it('should notify subscribers on report and clear', () => {
+      const buffer = new BufferReporter();
+      const listener = vi.fn();
+      buffer.subscribe(listener);
+
+      buffer.report(createReport(1));
+      buffer.clear();
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(buffer.entries).toHaveLength(0);
+    });
+
+    it('should export the log as JSON', () => {
+      const buffer = new BufferReporter();
+      buffer.report(createReport(1, { bundle: 'magic-words' }));
+
+      const exported = JSON.parse(buffer.exportJSON());
+
+      expect(exported.errors).toEqual([createReport(1, { bundle: 'magic-words' })]);
+      expect(exported.exportedAt).toEqual(expect.any(String));
+    });
+  });
+
+  describe('HttpReporter', () => {
+    it('should POST each report as JSON', () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response());
+      vi.stubGlobal('fetch', fetchMock);
+
+      new HttpReporter('http://localhost:4000/errors').report(createReport(1));
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:4000/errors',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify(createReport(1)) })
+      );
+    });
+
+    it('should swallow delivery failures', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+
+      expect(() => new HttpReporter('/errors').report(createReport(1))).not.toThrow();
+      await Promise.resolve();
+    });
+  });
+
+  describe('PostMessageReporter', () => {
+    it('should post plain-JSON reports to the target origin', () => {
+      const target = { postMessage: vi.fn() } as unknown as Window;
+
+      new PostMessageReporter(target, 'http://localhost:4000').report(
+        createReport(1, { scene: 'Ace', onDone: () => undefined })
+      );
+
+      expect(target.postMessage).toHaveBeenCalledWith(
+        { type: 'error-report', report: createReport(1, { scene: 'Ace' }) },
+        'http://localhost:4000'
+      );
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for FixedStepClock
+ */
+import { Ticker } from 'pixi.js';
+import { describe, it, expect, vi } from 'vitest';
+
+import { FixedStepClock, type FixedStepOptions } from '../../../core/FixedStepClock';
+
+const OPTIONS: FixedStepOptions = { stepMs: 10, maxStepsPerFrame: 5 };
+
+/** Falling body integrated once per step */
+function fallingBody(options: FixedStepOptions): { clock: FixedStepClock; state: { y: number } } {
+  const state = { y: 0, velocity: 0 };
+  const clock = new FixedStepClock(options, stepMs => {
+    state.velocity += 980 * (stepMs / 1000);
+    state.y += state.velocity * (stepMs / 1000);
+  });
+  return { clock, state };
+}
+
+describe('FixedStepClock', () => {
+  it('should run whole steps and carry the remainder over', () => {
+    const onStep = vi.fn();
+    const clock = new FixedStepClock(OPTIONS, onStep);
+
+    expect(clock.advance(25)).toBe(2);
+    expect(clock.alpha).toBeCloseTo(0.5);
+
+    expect(clock.advance(5)).toBe(1);
+    expect(clock.alpha).toBeCloseTo(0);
+    expect(onStep).toHaveBeenCalledWith(10);
+  });
+
+  it('should simulate the same at different frame rates', () => {
+    const at30Hz = fallingBody(OPTIONS);
+    const at144Hz = fallingBody(OPTIONS);
+
+    for (let i = 0; i < 30; i++) at30Hz.clock.advance(1000 / 30);
+    for (let i = 0; i < 144; i++) at144Hz.clock.advance(1000 / 144);
+
+    expect(at30Hz.state.y).toBeCloseTo(at144Hz.state.y, 5);
+  });
+
+  it('should cap the steps per frame and drop the backlog', () => {
+    const onStep = vi.fn();
+    const clock = new FixedStepClock(OPTIONS, onStep);
+
+    expect(clock.advance(1000)).toBe(5);
+    expect(clock.advance(0)).toBe(0);
+    expect(onStep).toHaveBeenCalledTimes(5);
+  });
+
+  it('should render every frame with the interpolation factor', () => {
+    const onRender = vi.fn();
+    const clock = new FixedStepClock(OPTIONS, vi.fn(), onRender);
+
+    clock.advance(3);
+    clock.advance(4);
+
+    expect(onRender.mock.calls.map(([alpha]) => alpha)).toEqual([
+      expect.closeTo(0.3),
+      expect.closeTo(0.7),
+    ]);
+  });
+
+  it('should step manually without a ticker', () => {
+    const stepped = fallingBody(OPTIONS);
+    const framed = fallingBody(OPTIONS);
+
+    stepped.clock.step(100);
+    for (let i = 0; i < 20; i++) framed.clock.advance(50);
+
+    expect(stepped.state.y).toBeGreaterThan(0);
+    expect(stepped.state.y).toBeCloseTo(framed.state.y, 5);
+  });
+
+  it('should follow an attached ticker until detached', () => {
+    const ticker = new Ticker();
+    ticker.autoStart = false;
+    const onStep = vi.fn();
+    const clock = new FixedStepClock(OPTIONS, onStep);
+
+    clock.attachTo(ticker);
+    ticker.update(ticker.lastTime + 20);
+    const steps = onStep.mock.calls.length;
+    clock.detach();
+    ticker.update(ticker.lastTime + 20);
+
+    expect(steps).toBeGreaterThan(0);
+    expect(onStep).toHaveBeenCalledTimes(steps);
+    ticker.destroy();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for FocusNavigator
+ */
+import { Container, Graphics, Ticker } from 'pixi.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { FocusNavigator, type Focusable } from '../../../core/FocusNavigator';
+import { InputManager, type KeyBindings } from '../../../core/InputManager';
+
+const BINDINGS: KeyBindings = {
+  back: [],
+  confirm: ['Enter'],
+  advance: [],
+  'draw-from-stock': [],
+  'toggle-settings': [],
+  help: [],
+  'focus-up': ['ArrowUp'],
+  'focus-down': ['ArrowDown'],
+  'focus-left': ['ArrowLeft'],
+  'focus-right': ['ArrowRight'],
+  'previous-layout': [],
+  'next-layout': [],
+  screenshot: [],
+  'record-clip': [],
+  'toggle-inspector': [],
+};
+
+/** 100x40 focusable box at (x, y) */
+function createItem(x: number, y: number): Focusable & { activate: ReturnType<typeof vi.fn> } {
+  const item = new Container() as Focusable & { activate: ReturnType<typeof vi.fn> };
+  const box = new Graphics();
+  box.beginFill(0xffffff);
+  box.drawRect(0, 0, 100, 40);
+  box.endFill();
+  item.addChild(box);
+  item.position.set(x, y);
+  item.activate = vi.fn();
+  item.focusActivate = item.activate;
+  item.setFocused = vi.fn();
+  return item;
+}
+
+describe('FocusNavigator', () => {
+  let input: InputManager;
+  let stage: Container;
+  let scene: Container;
+  let focus: FocusNavigator;
+  let ticker: Ticker;
+
+  beforeEach(() => {
+    localStorage.clear();
+    input = new InputManager(BINDINGS, { storageKey: 'test.focus' });
+    stage = new Container();
+    scene = new Container();
+    stage.addChild(scene);
+    focus = new FocusNavigator(input, stage, () => scene);
+    ticker = new Ticker();
+    ticker.autoStart = false;
+    focus.attachTo(ticker);
+  });
+
+  afterEach(() => {
+    focus.destroy();
+    ticker.destroy();
+    input.destroy();
+  });
+
+  it('should focus the top-left element first', () => {
+    const right = createItem(300, 0);
+    const left = createItem(0, 0);
+    scene.addChild(right, left);
+
+    input.trigger('focus-down');
+
+    expect(focus.focused).toBe(left);
+    expect(left.setFocused).toHaveBeenCalledWith(true);
+  });
+
+  it('should move to the nearest element in the pressed direction', () => {
+    const topLeft = createItem(0, 0);
+    const topRight = createItem(300, 0);
+    const below = createItem(20, 200);
+    const farBelow = createItem(0, 500);
+    scene.addChild(topLeft, topRight, below, farBelow);
+
+    input.trigger('focus-right');
+    input.trigger('focus-right');
+    expect(focus.focused).toBe(topRight);
+
+    input.trigger('focus-left');
+    input.trigger('focus-down');
+    expect(focus.focused).toBe(below);
+    expect(topLeft.setFocused).toHaveBeenLastCalledWith(false);
+  });
+
+  it('should find nested elements and skip hidden ones', () => {
+    const panel = new Container();
+    const hidden = createItem(0, 0);
+    hidden.visible = false;
+    const nested = createItem(0, 100);
+    panel.addChild(hidden, nested);
+    scene.addChild(panel);
+
+    input.trigger('focus-down');
+
+    expect(focus.focused).toBe(nested);
+  });
+
+  it('should activate the focused element on confirm and pass confirm on otherwise', () => {
+    const item = createItem(0, 0);
+    scene.addChild(item);
+
+    expect(input.trigger('confirm')).toBe(false);
+
+    input.trigger('focus-down');
+    expect(input.trigger('confirm')).toBe(true);
+    expect(item.activate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not handle focus moves when there is nothing to focus', () => {
+    expect(input.trigger('focus-up')).toBe(false);
+  });
+
+  it('should forward adjustments to the focused element', () => {
+    const slider = createItem(0, 0);
+    slider.focusAdjust = vi.fn();
+    scene.addChild(slider);
+
+    input.trigger('focus-down');
+    focus.adjust(0.1);
+
+    expect(slider.focusAdjust).toHaveBeenCalledWith(0.1);
+  });
+
+  it('should drop the focus once the element leaves the scene', () => {
+    const item = createItem(0, 0);
+    scene.addChild(item);
+    input.trigger('focus-down');
+
+    scene.removeChild(item);
+    ticker.update(performance.now() + 16);
+
+    expect(focus.focused).toBeNull();
+  });
+
+  it('should clear the focus on pointer input', () => {
+    scene.addChild(createItem(0, 0));
+    input.trigger('focus-down');
+
+    window.dispatchEvent(new Event('pointerdown'));
+
+    expect(focus.focused).toBeNull();
+  });
+});
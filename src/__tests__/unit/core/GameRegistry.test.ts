@@ -0,0 +1,110 @@
+/**
+ * Tests for GameRegistry
+ */
+import { describe, it, expect, vi } from 'vitest';
+
+import {
+  GameRegistry,
+  type GameDefinition,
+  type GameRegistryOptions,
+} from '../../../core/GameRegistry';
+
+const OPTIONS: GameRegistryOptions = {
+  disabled: [],
+  hidden: [],
+  categories: ['tasks', 'extras'],
+};
+
+function game(key: string, overrides: Partial<GameDefinition> = {}): GameDefinition {
+  return {
+    key,
+    titleKey: `${key}.title`,
+    descriptionKey: `${key}.description`,
+    thumbnailUrl: `${key}.png`,
+    bundle: key,
+    modes: ['literal', 'creative'],
+    createScene: vi.fn(),
+    ...overrides,
+  };
+}
+
+function keys(games: GameDefinition[]): string[] {
+  return games.map(({ key }) => key);
+}
+
+describe('GameRegistry', () => {
+  it('should look games up by key', () => {
+    const registry = new GameRegistry(OPTIONS);
+    const ace = game('ace');
+    registry.register([ace, game('magic')]);
+
+    expect(registry.get('ace')).toBe(ace);
+    expect(registry.get('chess')).toBeNull();
+  });
+
+  it('should replace a game registered again under the same key', () => {
+    const registry = new GameRegistry(OPTIONS);
+    const replacement = game('ace', { titleKey: 'ace.newTitle' });
+    registry.register([game('ace'), game('magic')]);
+    registry.register([replacement]);
+
+    expect(registry.get('ace')).toBe(replacement);
+    expect(keys(registry.listed())).toEqual(['ace', 'magic']);
+  });
+
+  it('should order listed games by category, then order, then registration', () => {
+    const registry = new GameRegistry(OPTIONS);
+    registry.register([
+      game('loose'),
+      game('bonus', { category: 'extras' }),
+      game('phoenix', { category: 'tasks', order: 3 }),
+      game('unranked', { category: 'tasks' }),
+      game('ace', { category: 'tasks', order: 1 }),
+      game('lab', { category: 'experiments' }),
+    ]);
+
+    expect(keys(registry.listed())).toEqual([
+      'ace',
+      'phoenix',
+      'unranked',
+      'bonus',
+      'lab',
+      'loose',
+    ]);
+  });
+
+  it('should group listed games into sections', () => {
+    const registry = new GameRegistry(OPTIONS);
+    registry.register([
+      game('bonus', { category: 'extras' }),
+      game('ace', { category: 'tasks' }),
+      game('magic', { category: 'tasks' }),
+      game('loose'),
+    ]);
+
+    expect(
+      registry.sections().map(({ category, games }) => ({ category, keys: keys(games) }))
+    ).toEqual([
+      { category: 'tasks', keys: ['ace', 'magic'] },
+      { category: 'extras', keys: ['bonus'] },
+      { category: null, keys: ['loose'] },
+    ]);
+  });
+
+  it('should keep hidden games routable but out of the menu', () => {
+    const registry = new GameRegistry({ ...OPTIONS, hidden: ['magic'] });
+    registry.register([game('ace'), game('magic')]);
+
+    expect(registry.get('magic')).not.toBeNull();
+    expect(keys(registry.listed())).toEqual(['ace']);
+  });
+
+  it('should leave disabled games out entirely', () => {
+    const registry = new GameRegistry({ ...OPTIONS, disabled: ['magic'] });
+    registry.register([game('ace'), game('magic')]);
+
+    expect(registry.get('magic')).toBeNull();
+    expect(keys(registry.listed())).toEqual(['ace']);
+    expect(registry.sections()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for GamepadInput
+ */
+import { Ticker } from 'pixi.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import type { FocusNavigator } from '../../../core/FocusNavigator';
+import { GamepadInput } from '../../../core/GamepadInput';
+import type { InputManager } from '../../../core/InputManager';
+
+describe('GamepadInput', () => {
+  let pad: { index: number; connected: boolean; buttons: { pressed: boolean }[]; axes: number[] };
+  let ticker: Ticker;
+  let now: number;
+  let trigger: ReturnType<typeof vi.fn>;
+  let adjust: ReturnType<typeof vi.fn>;
+  let gamepad: GamepadInput;
+
+  /** Run one 100ms frame */
+  function frame(): void {
+    now += 100;
+    ticker.update(now);
+  }
+
+  function setButton(index: number, pressed: boolean): void {
+    pad.buttons[index] = { pressed };
+  }
+
+  beforeEach(() => {
+    pad = {
+      index: 0,
+      connected: true,
+      buttons: Array.from({ length: 16 }, () => ({ pressed: false })),
+      axes: [0, 0, 0, 0],
+    };
+    vi.stubGlobal('navigator', { getGamepads: () => [pad, null] });
+
+    now = 1000;
+    ticker = new Ticker();
+    ticker.autoStart = false;
+    ticker.lastTime = now;
+
+    trigger = vi.fn().mockReturnValue(true);
+    adjust = vi.fn();
+    gamepad = new GamepadInput(
+      { trigger } as unknown as InputManager,
+      { adjust } as unknown as FocusNavigator,
+      {
+        buttons: { 0: ['confirm', 'advance'], 1: ['back'] },
+        stickDeadzone: 0.2,
+        sliderSpeed: 0.5,
+      }
+    );
+    gamepad.attachTo(ticker);
+  });
+
+  afterEach(() => {
+    gamepad.destroy();
+    ticker.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  it('should fire an action once per button press', () => {
+    setButton(1, true);
+    frame();
+    frame();
+    setButton(1, false);
+    frame();
+    setButton(1, true);
+    frame();
+
+    expect(trigger.mock.calls).toEqual([['back'], ['back']]);
+  });
+
+  it('should try the mapped actions in order until one is handled', () => {
+    trigger.mockImplementation((action: string) => action === 'advance');
+
+    setButton(0, true);
+    frame();
+
+    expect(trigger.mock.calls).toEqual([['confirm'], ['advance']]);
+  });
+
+  it('should drive the focused element with the stick outside the deadzone', () => {
+    pad.axes[0] = 0.1;
+    frame();
+    expect(adjust).not.toHaveBeenCalled();
+
+    pad.axes[2] = -1;
+    frame();
+
+    // Full deflection for 100ms at half a range per second
+    expect(adjust).toHaveBeenCalledTimes(1);
+    expect(adjust.mock.calls[0][0]).toBeCloseTo(-0.05);
+  });
+
+  it('should stop polling once destroyed', () => {
+    gamepad.destroy();
+
+    setButton(1, true);
+    frame();
+
+    expect(trigger).not.toHaveBeenCalled();
+  });
+});
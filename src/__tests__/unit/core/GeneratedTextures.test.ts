@@ -0,0 +1,92 @@
+/**
+ * Tests for GeneratedTextures
+ */
+import { Graphics, RenderTexture, type IRenderer } from 'pixi.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { ContextRecovery } from '../../../core/ContextRecovery';
+import { GeneratedTextures } from '../../../core/GeneratedTextures';
+
+/** Minimal stand-in for the renderer: records what is drawn and uploaded */
+function createMockRenderer() {
+  return {
+    generateTexture: vi.fn(() => RenderTexture.create({ width: 8, height: 8 })),
+    render: vi.fn(),
+    prepare: { upload: vi.fn(() => Promise.resolve()) },
+  };
+}
+
+function fire(canvas: HTMLCanvasElement, type: string): void {
+  canvas.dispatchEvent(new Event(type, { cancelable: true }));
+}
+
+function shadow(): Graphics {
+  return new Graphics().beginFill(0x000000, 0.3).drawRoundedRect(-4, -6, 80, 110, 8).endFill();
+}
+
+describe('GeneratedTextures', () => {
+  let canvas: HTMLCanvasElement;
+  let recovery: ContextRecovery;
+  let renderer: ReturnType<typeof createMockRenderer>;
+  let textures: GeneratedTextures;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    canvas = document.createElement('canvas');
+    recovery = new ContextRecovery(canvas, { reloadPromptMs: 5000 });
+    recovery.start();
+    renderer = createMockRenderer();
+    textures = new GeneratedTextures(renderer as unknown as IRenderer);
+    textures.attachTo(recovery);
+  });
+
+  afterEach(() => {
+    textures.destroy();
+    recovery.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it('should redraw a generated texture into the same texture once the context is restored', () => {
+    const graphics = shadow();
+    const texture = textures.render(graphics);
+
+    fire(canvas, 'webglcontextlost');
+    expect(renderer.render).not.toHaveBeenCalled();
+
+    fire(canvas, 'webglcontextrestored');
+    expect(renderer.render).toHaveBeenCalledOnce();
+    const [source, options] = renderer.render.mock.calls[0] as unknown as [
+      Graphics,
+      { renderTexture: RenderTexture; transform: { tx: number; ty: number } },
+    ];
+    expect(source).toBe(graphics);
+    expect(options.renderTexture).toBe(texture);
+    // Drawn at the offset generateTexture() used (the bounds start at -4, -6)
+    expect(options.transform.tx).toBe(4);
+    expect(options.transform.ty).toBe(6);
+  });
+
+  it('should upload canvas textures again once the context is restored', () => {
+    const texture = textures.fromCanvas(document.createElement('canvas'));
+
+    fire(canvas, 'webglcontextlost');
+    fire(canvas, 'webglcontextrestored');
+
+    expect(renderer.prepare.upload).toHaveBeenCalledWith(texture.baseTexture);
+  });
+
+  it('should forget a destroyed texture and destroy its source', () => {
+    const graphics = shadow();
+    const texture = textures.render(graphics);
+    expect(textures.size).toBe(1);
+
+    texture.destroy(true);
+
+    expect(textures.size).toBe(0);
+    expect(graphics.destroyed).toBe(true);
+    fire(canvas, 'webglcontextlost');
+    fire(canvas, 'webglcontextrestored');
+    expect(renderer.render).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for I18n
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { LOCALE_CATALOGS } from '../../../config/locales';
+import { I18N } from '../../../config/sharedSettings';
+import { I18n, detectTextDirection, type I18nOptions } from '../../../core/I18n';
+import { SettingsStore } from '../../../core/SettingsStore';
+
+const OPTIONS: I18nOptions = {
+  defaultLocale: 'en',
+  locales: {
+    en: { name: 'English', dir: 'ltr' },
+    es: { name: 'Español', dir: 'ltr' },
+    ar: { name: 'العربية', dir: 'rtl' },
+  },
+};
+
+const CATALOGS = {
+  en: {
+    greeting: 'Hello, {name}!',
+    onlyEnglish: 'Fallback',
+    cards: { one: '{count} card', other: '{count} cards' },
+  },
+  es: {
+    greeting: '¡Hola, {name}!',
+    cards: { one: '{count} carta', other: '{count} cartas' },
+  },
+  ar: {
+    cards: {
+      zero: 'لا بطاقات',
+      one: 'بطاقة واحدة',
+      two: 'بطاقتان',
+      few: '{count} بطاقات',
+      many: '{count} بطاقة',
+      other: '{count} بطاقة',
+    },
+  },
+};
+
+/** Instance persisting to its own store (the shared one allows one namespace per name) */
+function createI18n(): I18n {
+  return new I18n(OPTIONS, new SettingsStore({ storagePrefix: 'test' }));
+}
+
+describe('I18n', () => {
+  let i18n: I18n;
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(navigator, 'languages', 'get').mockReturnValue(['en-US']);
+    i18n = createI18n();
+    i18n.registerCatalogs(CATALOGS);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should interpolate params', () => {
+    expect(i18n.t('greeting', { name: 'Ada' })).toBe('Hello, Ada!');
+    expect(i18n.t('greeting')).toBe('Hello, {name}!');
+  });
+
+  it('should pick the plural form for the count', () => {
+    expect(i18n.t('cards', { count: 1 })).toBe('1 card');
+    expect(i18n.t('cards', { count: 3 })).toBe('3 cards');
+
+    i18n.setLocale('ar');
+    expect(i18n.t('cards', { count: 0 })).toBe('لا بطاقات');
+    expect(i18n.t('cards', { count: 2 })).toBe('بطاقتان');
+    expect(i18n.t('cards', { count: 5 })).toBe('5 بطاقات');
+    expect(i18n.t('cards', { count: 11 })).toBe('11 بطاقة');
+  });
+
+  it('should fall back to the default locale, then to the key', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    i18n.setLocale('es');
+
+    expect(i18n.t('onlyEnglish')).toBe('Fallback');
+    expect(i18n.t('missing.key')).toBe('missing.key');
+  });
+
+  it('should start from the browser language and ignore unsupported ones', () => {
+    vi.spyOn(navigator, 'languages', 'get').mockReturnValue(['fr-FR', 'es-MX']);
+
+    expect(createI18n().locale).toBe('es');
+  });
+
+  it('should persist the chosen locale', () => {
+    i18n.setLocale('es');
+    i18n.setLocale('xx');
+
+    expect(createI18n().locale).toBe('es');
+  });
+
+  it('should follow the browser when the stored locale is not supported', () => {
+    localStorage.setItem('test.locale', JSON.stringify({ version: 1, data: { locale: 'xx' } }));
+    vi.spyOn(navigator, 'languages', 'get').mockReturnValue(['es-ES']);
+
+    expect(createI18n().locale).toBe('es');
+  });
+
+  it('should notify subscribers and update the document direction', () => {
+    const listener = vi.fn();
+    const unsubscribe = i18n.subscribe(listener);
+
+    i18n.setLocale('ar');
+    i18n.setLocale('ar');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('ar');
+    expect(i18n.direction).toBe('rtl');
+    expect(document.documentElement.dir).toBe('rtl');
+    expect(document.documentElement.lang).toBe('ar');
+
+    unsubscribe();
+    i18n.setLocale('en');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('detectTextDirection', () => {
+  it('should follow the first strongly directional letter', () => {
+    expect(detectTextDirection('Hello مرحبا')).toBe('ltr');
+    expect(detectTextDirection('🎉 مرحبا Hello')).toBe('rtl');
+    expect(detectTextDirection('שלום')).toBe('rtl');
+    expect(detectTextDirection('42 🎉')).toBe('ltr');
+  });
+});
+
+describe('LOCALE_CATALOGS', () => {
+  const reference = Object.keys(LOCALE_CATALOGS.en).sort();
+
+  it('should have a catalog for every configured locale', () => {
+    expect(Object.keys(LOCALE_CATALOGS).sort()).toEqual(Object.keys(I18N.locales).sort());
+  });
+
+  it.each(Object.entries(LOCALE_CATALOGS))(
+    '%s should translate every English key',
+    (_, catalog) => {
+      expect(Object.keys(catalog).sort()).toEqual(reference);
+    }
+  );
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for InputCheatSheet
+ */
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+
+import { INPUT } from '../../../config/sharedSettings';
+import { LOCALE_CATALOGS } from '../../../config/locales';
+import { i18n } from '../../../core/I18n';
+import { InputCheatSheet } from '../../../core/InputCheatSheet';
+import { InputManager } from '../../../core/InputManager';
+
+function sheet(): HTMLElement {
+  return document.getElementById('input-help') as HTMLElement;
+}
+
+/** Action labels as listed */
+function labels(): string[] {
+  return Array.from(sheet().querySelectorAll('dt'), label => label.textContent ?? '');
+}
+
+describe('InputCheatSheet', () => {
+  let input: InputManager;
+  let cheatSheet: InputCheatSheet;
+
+  beforeAll(() => {
+    i18n.registerCatalogs(LOCALE_CATALOGS);
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    i18n.setLocale('en');
+    input = new InputManager({ ...INPUT.bindings, help: [] }, { storageKey: 'test.cheatSheet' });
+    input.start();
+    cheatSheet = new InputCheatSheet(input, INPUT.labelKeys);
+  });
+
+  afterEach(() => {
+    cheatSheet.destroy();
+    input.destroy();
+    i18n.setLocale('en');
+  });
+
+  it('should list every action with a translated label in the configured order', () => {
+    expect(sheet().querySelector('.input-help-header span')?.textContent).toBe(
+      'Keyboard shortcuts'
+    );
+    expect(labels()).toHaveLength(Object.keys(INPUT.labelKeys).length);
+    expect(labels()[0]).toBe('Back');
+    expect(sheet().querySelector('dd button')?.textContent).toBe('Esc / Backspace');
+  });
+
+  it('should relabel itself when the locale changes', () => {
+    i18n.setLocale('es');
+
+    expect(sheet().querySelector('.input-help-header span')?.textContent).toBe('Atajos de teclado');
+    expect(labels()[0]).toBe('Volver');
+    expect(sheet().querySelector('.input-help-hint')?.textContent).toContain('Esc cancela');
+  });
+
+  it('should show unbound actions and the key capture in the current locale', () => {
+    input.rebind('advance', []);
+    const [, , advance] = sheet().querySelectorAll<HTMLButtonElement>('dd button');
+    expect(advance.textContent).toBe('Unbound');
+
+    advance.click();
+
+    const [, , capturing] = sheet().querySelectorAll<HTMLButtonElement>('dd button');
+    expect(capturing.textContent).toBe('Press a key…');
+  });
+});
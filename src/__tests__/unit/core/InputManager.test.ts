@@ -0,0 +1,188 @@
+/**
+ * Tests for InputManager
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { InputManager, type KeyBindings } from '../../../core/InputManager';
+
+const STORAGE_KEY = 'test.keyBindings';
+
+const DEFAULTS: KeyBindings = {
+  back: ['Escape'],
+  confirm: ['Enter'],
+  advance: ['Space'],
+  'draw-from-stock': ['d'],
+  'toggle-settings': ['s'],
+  help: ['?'],
+  'focus-up': ['ArrowUp'],
+  'focus-down': ['ArrowDown'],
+  'focus-left': ['ArrowLeft'],
+  'focus-right': ['ArrowRight'],
+  'previous-layout': ['['],
+  'next-layout': [']'],
+  screenshot: ['F8'],
+  'record-clip': ['F9'],
+  'toggle-inspector': ['F2'],
+};
+
+describe('InputManager', () => {
+  let input: InputManager;
+  let blocked: boolean;
+
+  /** Dispatch a keydown and return it (to check defaultPrevented) */
+  function press(key: string, init: KeyboardEventInit = {}, target: EventTarget = window) {
+    const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+    target.dispatchEvent(event);
+    return event;
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    blocked = false;
+    input = new InputManager(DEFAULTS, { storageKey: STORAGE_KEY, isBlocked: () => blocked });
+    input.start();
+  });
+
+  afterEach(() => {
+    input.destroy();
+    vi.restoreAllMocks();
+  });
+
+  describe('dispatch', () => {
+    it('should call the handler of the bound action and prevent the default', () => {
+      const advance = vi.fn();
+      input.on('advance', advance);
+
+      const event = press(' ');
+
+      expect(advance).toHaveBeenCalledTimes(1);
+      expect(event.defaultPrevented).toBe(true);
+    });
+
+    it('should match letters regardless of case', () => {
+      const draw = vi.fn();
+      input.on('draw-from-stock', draw);
+
+      press('D', { shiftKey: true });
+
+      expect(draw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give the newest subscriber the key unless it declines', () => {
+      const calls: string[] = [];
+      input.on('back', () => {
+        calls.push('scene');
+      });
+      const removeOverlay = input.on('back', () => {
+        calls.push('overlay');
+      });
+      input.on('back', () => {
+        calls.push('hidden');
+        return false;
+      });
+
+      press('Escape');
+      removeOverlay();
+      press('Escape');
+
+      expect(calls).toEqual(['hidden', 'overlay', 'hidden', 'scene']);
+    });
+
+    it('should ignore keys typed into form fields, shortcuts and repeats', () => {
+      const confirm = vi.fn();
+      input.on('confirm', confirm);
+      const field = document.createElement('input');
+      document.body.appendChild(field);
+
+      press('Enter', {}, field);
+      press('Enter', { ctrlKey: true });
+      press('Enter', { repeat: true });
+      field.remove();
+
+      expect(confirm).not.toHaveBeenCalled();
+    });
+
+    it('should report whether a triggered action was handled', () => {
+      input.on('help', () => false);
+
+      expect(input.trigger('help')).toBe(false);
+
+      input.on('help', () => undefined);
+
+      expect(input.trigger('help')).toBe(true);
+    });
+
+    it('should not dispatch while blocked', () => {
+      const back = vi.fn();
+      input.on('back', back);
+      blocked = true;
+
+      const event = press('Escape');
+
+      expect(back).not.toHaveBeenCalled();
+      expect(event.defaultPrevented).toBe(false);
+    });
+  });
+
+  describe('bindings', () => {
+    it('should rebind an action and take the key away from other actions', () => {
+      const settings = vi.fn();
+      const advance = vi.fn();
+      input.on('toggle-settings', settings);
+      input.on('advance', advance);
+
+      input.rebind('toggle-settings', ['Space']);
+      press(' ');
+      press('s');
+
+      expect(settings).toHaveBeenCalledTimes(1);
+      expect(advance).not.toHaveBeenCalled();
+      expect(input.bindings.advance).toEqual([]);
+    });
+
+    it('should persist bindings and restore them in a new session', () => {
+      input.rebind('draw-from-stock', ['X']);
+
+      const next = new InputManager(DEFAULTS, { storageKey: STORAGE_KEY });
+
+      expect(next.bindings['draw-from-stock']).toEqual(['x']);
+      expect(next.bindings.back).toEqual(['Escape']);
+    });
+
+    it('should keep defaults for malformed entries and normalize stored keys', () => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ back: 'Escape', confirm: [' '] }));
+
+      const next = new InputManager(DEFAULTS, { storageKey: STORAGE_KEY });
+
+      expect(next.bindings.back).toEqual(['Escape']);
+      expect(next.bindings.confirm).toEqual(['Space']);
+    });
+
+    it('should reset to the defaults and notify subscribers', () => {
+      const listener = vi.fn();
+      input.subscribe(listener);
+      input.rebind('back', ['q']);
+
+      input.resetBindings();
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(input.bindings.back).toEqual(['Escape']);
+      expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    it('should hand the next key to a capture instead of dispatching it', () => {
+      const back = vi.fn();
+      const onKey = vi.fn();
+      input.on('back', back);
+
+      input.captureNextKey(onKey);
+      press('Escape');
+      input.captureNextKey(onKey);
+      press('K');
+
+      expect(onKey).toHaveBeenCalledTimes(1);
+      expect(onKey).toHaveBeenCalledWith('k');
+      expect(back).not.toHaveBeenCalled();
+    });
+  });
+});
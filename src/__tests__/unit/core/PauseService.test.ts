@@ -0,0 +1,98 @@
+/**
+ * Tests for PauseService
+ */
+import gsap from 'gsap';
+import { Ticker } from 'pixi.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { PauseService } from '../../../core/PauseService';
+
+/** Set document.hidden and fire visibilitychange */
+function setHidden(hidden: boolean): void {
+  Object.defineProperty(document, 'hidden', { configurable: true, value: hidden });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+describe('PauseService', () => {
+  let ticker: Ticker;
+  let service: PauseService;
+
+  beforeEach(() => {
+    ticker = new Ticker();
+    ticker.add(() => undefined);
+    ticker.start();
+    service = new PauseService([ticker], { pauseOnBlur: true });
+    service.start();
+  });
+
+  afterEach(() => {
+    service.destroy();
+    ticker.destroy();
+    gsap.globalTimeline.resume();
+    Object.defineProperty(document, 'hidden', { configurable: true, value: false });
+  });
+
+  it('should freeze tickers and GSAP while the tab is hidden', () => {
+    setHidden(true);
+
+    expect(service.paused).toBe(true);
+    expect(ticker.started).toBe(false);
+    expect(gsap.globalTimeline.paused()).toBe(true);
+
+    setHidden(false);
+
+    expect(service.paused).toBe(false);
+    expect(ticker.started).toBe(true);
+    expect(gsap.globalTimeline.paused()).toBe(false);
+  });
+
+  it('should pause on window blur', () => {
+    window.dispatchEvent(new Event('blur'));
+    expect(service.paused).toBe(true);
+
+    window.dispatchEvent(new Event('focus'));
+    expect(service.paused).toBe(false);
+  });
+
+  it('should stay paused until every reason is cleared', () => {
+    setHidden(true);
+    service.pause();
+
+    setHidden(false);
+    expect(service.paused).toBe(true);
+
+    service.resume();
+    expect(service.paused).toBe(false);
+  });
+
+  it('should notify listeners once per pause and resume', () => {
+    const listener = vi.fn();
+    service.subscribe(listener);
+
+    setHidden(true);
+    window.dispatchEvent(new Event('blur'));
+    setHidden(false);
+    window.dispatchEvent(new Event('focus'));
+
+    expect(listener.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('should not restart tickers that were already stopped', () => {
+    ticker.stop();
+
+    service.pause();
+    service.resume();
+
+    expect(ticker.started).toBe(false);
+  });
+
+  it('should stop notifying after unsubscribe', () => {
+    const listener = vi.fn();
+    const unsubscribe = service.subscribe(listener);
+    unsubscribe();
+
+    service.pause();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
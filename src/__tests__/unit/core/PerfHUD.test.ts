@@ -0,0 +1,110 @@
+/**
+ * Tests for PerfHUD
+ */
+import { Container, Ticker, type IRenderer } from 'pixi.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { PerfHUD } from '../../../core/PerfHUD';
+
+describe('PerfHUD', () => {
+  let hud: PerfHUD;
+  let ticker: Ticker;
+  let now: number;
+  let drawElements: ReturnType<typeof vi.fn>;
+  let gl: Pick<WebGLRenderingContext, 'drawElements' | 'drawArrays'>;
+
+  /** Run frames of the given length (ms) through the ticker */
+  function runFrames(count: number, frameMs = 16): void {
+    for (let i = 0; i < count; i++) {
+      now += frameMs;
+      ticker.update(now);
+    }
+  }
+
+  /** Text of the expanded rows, as "label value" */
+  function rows(): string[] {
+    return [...document.querySelectorAll('#perf-hud .perf-hud-row')].map(row =>
+      [...row.children].map(cell => cell.textContent).join(' ')
+    );
+  }
+
+  function toggle(): void {
+    document.getElementById('perf-hud')!.click();
+  }
+
+  beforeEach(() => {
+    now = 1000;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+
+    const stage = new Container();
+    stage.addChild(new Container(), new Container());
+
+    drawElements = vi.fn();
+    gl = { drawElements, drawArrays: vi.fn() };
+    const renderer = { gl } as unknown as IRenderer;
+
+    ticker = new Ticker();
+    ticker.autoStart = false;
+    ticker.lastTime = now;
+    hud = new PerfHUD();
+    hud.attachTo(ticker, { renderer, stage, textureMemory: () => 2 * 1024 * 1024 });
+  });
+
+  afterEach(() => {
+    hud.destroy();
+    ticker.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it('should show FPS collapsed', () => {
+    runFrames(40, 12.5);
+
+    expect(document.getElementById('perf-hud')!.textContent).toBe('FPS: 80');
+    expect(rows()).toEqual([]);
+  });
+
+  it('should show frame stats, draw calls, objects and texture memory when expanded', () => {
+    runFrames(9, 10);
+    gl.drawElements(0, 0, 0, 0);
+    gl.drawElements(0, 0, 0, 0);
+    runFrames(1, 30);
+    toggle();
+
+    expect(drawElements).toHaveBeenCalledTimes(2);
+    expect(rows()).toEqual([
+      'Frame ms 10.0 / 12.0 / 30.0',
+      'Draw calls 2',
+      'Objects 3',
+      'Textures 2.0 MB',
+    ]);
+  });
+
+  it('should show registered metrics with their budget state', () => {
+    let sprites = 8;
+    hud.registerMetric({ label: 'Sprites', read: () => sprites, max: 10 });
+    const remove = hud.registerMetric({ label: 'Mode', read: () => 'literal' });
+    toggle();
+
+    const spriteRow = (): HTMLElement =>
+      [...document.querySelectorAll<HTMLElement>('.perf-hud-row')].find(row =>
+        row.textContent?.startsWith('Sprites')
+      )!;
+    expect(rows()).toContain('Sprites 8 / 10');
+    expect(rows()).toContain('Mode literal');
+    expect(spriteRow().dataset.level).toBe('high');
+
+    sprites = 10;
+    remove();
+    runFrames(40);
+
+    expect(spriteRow().dataset.level).toBe('over');
+    expect(rows()).not.toContain('Mode literal');
+  });
+
+  it('should restore the renderer draw functions on destroy', () => {
+    hud.destroy();
+
+    expect(gl.drawElements).toBe(drawElements);
+    expect(document.getElementById('perf-hud')).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for PwaUpdater
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { PwaUpdater } from '../../../core/PwaUpdater';
+
+/** Minimal stand-in for a ServiceWorker going through its lifecycle */
+class FakeWorker extends EventTarget {
+  state = 'installing';
+  postMessage = vi.fn();
+
+  install(): void {
+    this.state = 'installed';
+    this.dispatchEvent(new Event('statechange'));
+  }
+}
+
+class FakeRegistration extends EventTarget {
+  installing: FakeWorker | null = null;
+  waiting: FakeWorker | null = null;
+  update = vi.fn(() => Promise.resolve());
+
+  /** A new build was found: its worker starts installing */
+  find(): FakeWorker {
+    this.installing = new FakeWorker();
+    this.dispatchEvent(new Event('updatefound'));
+    return this.installing;
+  }
+}
+
+class FakeContainer extends EventTarget {
+  controller: object | null = null;
+  registration = new FakeRegistration();
+  register = vi.fn(() => Promise.resolve(this.registration));
+}
+
+function prompt(): HTMLElement | null {
+  return document.getElementById('update-prompt');
+}
+
+describe('PwaUpdater', () => {
+  let container: FakeContainer;
+  let updater: PwaUpdater;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    container = new FakeContainer();
+    Object.defineProperty(navigator, 'serviceWorker', { value: container, configurable: true });
+    updater = new PwaUpdater({ scriptUrl: 'sw.js', updateCheckMs: 1000 });
+  });
+
+  afterEach(() => {
+    updater.destroy();
+    Reflect.deleteProperty(navigator, 'serviceWorker');
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should register the worker below the base URL', async () => {
+    await updater.start();
+
+    expect(container.register).toHaveBeenCalledWith('/sw.js');
+  });
+
+  it('should not prompt on the first install', async () => {
+    await updater.start();
+    container.registration.find().install();
+
+    expect(prompt()).toBeNull();
+  });
+
+  it('should prompt when a new build is installed and hand over on reload', async () => {
+    container.controller = {};
+    await updater.start();
+    const worker = container.registration.find();
+
+    expect(prompt()).toBeNull();
+    worker.install();
+    expect(prompt()).not.toBeNull();
+
+    prompt()?.querySelector('button')?.click();
+    expect(worker.postMessage).toHaveBeenCalledWith({ type: 'skip-waiting' });
+  });
+
+  it('should prompt for a worker left waiting by an earlier visit', async () => {
+    container.controller = {};
+    container.registration.waiting = new FakeWorker();
+    await updater.start();
+
+    expect(prompt()).not.toBeNull();
+  });
+
+  it('should check for updates periodically until destroyed', async () => {
+    await updater.start();
+
+    vi.advanceTimersByTime(2000);
+    expect(container.registration.update).toHaveBeenCalledTimes(2);
+
+    updater.destroy();
+    vi.advanceTimersByTime(2000);
+    expect(container.registration.update).toHaveBeenCalledTimes(2);
+  });
+});
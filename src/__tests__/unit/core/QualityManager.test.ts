@@ -0,0 +1,172 @@
+/**
+ * Tests for QualityManager
+ */
+import { Ticker } from 'pixi.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { QUALITY } from '../../../config/sharedSettings';
+import { QualityManager, type QualityOptions } from '../../../core/QualityManager';
+import { SettingsStore } from '../../../core/SettingsStore';
+
+const OPTIONS: QualityOptions = {
+  ...QUALITY,
+  smoothing: 1, // Average = last frame, so durations are easy to reason about
+  downgradeWorkMs: 25,
+  upgradeWorkMs: 18,
+  downgradeAfterMs: 1000,
+  upgradeAfterMs: 2000,
+  maxUpgradeAfterMs: 6000,
+  ignoreFrameMs: 250,
+};
+
+/** Manager persisting to its own store (the shared one allows one namespace per name) */
+function createQuality(): QualityManager {
+  return new QualityManager(OPTIONS, new SettingsStore({ storagePrefix: 'test' }));
+}
+
+/**
+ * Feed frames of one cost for a while
+ * @param intervalMs Frame interval (defaults to frames that work all the time they get)
+ */
+function run(quality: QualityManager, workMs: number, forMs: number, intervalMs = workMs): void {
+  for (let elapsed = 0; elapsed < forMs; elapsed += intervalMs) {
+    quality.recordFrame(workMs, intervalMs);
+  }
+}
+
+describe('QualityManager', () => {
+  let quality: QualityManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    quality = createQuality();
+  });
+
+  it('should start in auto mode on the best tier', () => {
+    expect(quality.mode).toBe('auto');
+    expect(quality.tier).toBe('high');
+    expect(quality.profile).toBe(OPTIONS.tiers.high);
+  });
+
+  it('should step down one tier once frames stay slow', () => {
+    const listener = vi.fn();
+    quality.subscribe(listener);
+
+    run(quality, 40, 800);
+    expect(quality.tier).toBe('high');
+
+    run(quality, 40, 400);
+    expect(quality.tier).toBe('medium');
+    expect(listener).toHaveBeenCalledWith(OPTIONS.tiers.medium, 'medium');
+
+    run(quality, 40, 1200);
+    expect(quality.tier).toBe('low');
+  });
+
+  it('should hold the tier while frames sit between the thresholds', () => {
+    run(quality, 40, 1200);
+    expect(quality.tier).toBe('medium');
+
+    run(quality, 20, 20000);
+
+    expect(quality.tier).toBe('medium');
+  });
+
+  it('should ignore hitches and short slow spells', () => {
+    quality.recordFrame(1000, 1000);
+    run(quality, 40, 600);
+    run(quality, 16, 100);
+    run(quality, 40, 600);
+
+    expect(quality.tier).toBe('high');
+  });
+
+  it('should step back up after a longer fast spell, waiting longer each time', () => {
+    run(quality, 40, 1200);
+    run(quality, 16, 3900);
+    expect(quality.tier).toBe('medium');
+
+    // First step down doubled the wait to 4s
+    run(quality, 16, 100);
+    expect(quality.tier).toBe('high');
+
+    run(quality, 40, 1200);
+    run(quality, 16, 5900);
+    expect(quality.tier).toBe('medium');
+
+    // Capped at maxUpgradeAfterMs
+    run(quality, 16, 100);
+    expect(quality.tier).toBe('high');
+  });
+
+  it('should step back up on a 50 Hz display once the frames are cheap again', () => {
+    run(quality, 40, 1200);
+    expect(quality.tier).toBe('medium');
+
+    // vsync holds every frame at 20 ms, but the work only takes 5
+    run(quality, 5, 4100, 20);
+
+    expect(quality.tier).toBe('high');
+  });
+
+  describe('on a ticker', () => {
+    let ticker: Ticker;
+    let now: number;
+
+    beforeEach(() => {
+      now = 0;
+      vi.spyOn(performance, 'now').mockImplementation(() => now);
+      ticker = new Ticker();
+      ticker.autoStart = false;
+      quality.attachTo(ticker);
+    });
+
+    afterEach(() => {
+      quality.destroy();
+      ticker.destroy();
+      vi.restoreAllMocks();
+    });
+
+    it('should time the work of the ticker listeners, not the frame interval', () => {
+      let workMs = 30;
+      ticker.add(() => (now += workMs));
+
+      for (let time = 0; time < 1200; time += 40) ticker.update(time);
+      expect(quality.tier).toBe('medium');
+
+      // Same 40 ms interval, cheap frames
+      workMs = 5;
+      for (let time = 1200; time < 6000; time += 40) ticker.update(time);
+      expect(quality.tier).toBe('high');
+    });
+  });
+
+  it('should pin a chosen tier, persist it and stop measuring', () => {
+    quality.setMode('low');
+    run(quality, 16, 20000);
+
+    expect(quality.tier).toBe('low');
+
+    const restored = createQuality();
+    expect(restored.mode).toBe('low');
+    expect(restored.tier).toBe('low');
+  });
+
+  it('should ignore a stored mode it does not know', () => {
+    localStorage.setItem('test.quality', JSON.stringify({ version: 1, data: { mode: 'turbo' } }));
+
+    expect(createQuality().mode).toBe('auto');
+  });
+
+  it('should measure again from the current tier when set back to auto', () => {
+    quality.setMode('medium');
+    quality.setMode('auto');
+    quality.setMode('turbo' as never);
+
+    expect(quality.mode).toBe('auto');
+    expect(quality.tier).toBe('medium');
+
+    run(quality, 40, 1200);
+    expect(quality.tier).toBe('low');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for Random
+ */
+import { describe, it, expect } from 'vitest';
+
+import { Random, createSeed } from '../../../core/Random';
+
+/** First few numbers of a generator */
+function sample(random: Random, count = 5): number[] {
+  return Array.from({ length: count }, () => random.next());
+}
+
+describe('Random', () => {
+  it('should replay the same sequence from the same seed', () => {
+    expect(sample(new Random('abc'))).toEqual(sample(new Random('abc')));
+    expect(sample(new Random('abc'))).not.toEqual(sample(new Random('abd')));
+  });
+
+  it('should stay within the requested ranges', () => {
+    const random = new Random('ranges');
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+
+      const int = random.int(6);
+      expect(Number.isInteger(int)).toBe(true);
+      expect(int).toBeGreaterThanOrEqual(0);
+      expect(int).toBeLessThan(6);
+
+      const ranged = random.range(-5, 5);
+      expect(ranged).toBeGreaterThanOrEqual(-5);
+      expect(ranged).toBeLessThan(5);
+    }
+  });
+
+  it('should shuffle reproducibly without losing elements', () => {
+    const deck = Array.from({ length: 52 }, (_, i) => i);
+
+    const first = new Random('deal').shuffle([...deck]);
+    const second = new Random('deal').shuffle([...deck]);
+
+    expect(first).toEqual(second);
+    expect(first).not.toEqual(deck);
+    expect([...first].sort((a, b) => a - b)).toEqual(deck);
+  });
+
+  it('should keep named streams independent of each other', () => {
+    const busy = new Random('run');
+    sample(busy.stream('particles'), 100);
+
+    const quiet = new Random('run');
+
+    expect(sample(busy.stream('deck'))).toEqual(sample(quiet.stream('deck')));
+    expect(busy.stream('deck')).toBe(busy.stream('deck'));
+  });
+
+  it('should honor chance() probabilities at the extremes', () => {
+    const random = new Random('chance');
+
+    expect(sample(random, 20).every(() => random.chance(1))).toBe(true);
+    expect(sample(random, 20).some(() => random.chance(0))).toBe(false);
+  });
+});
+
+describe('createSeed', () => {
+  it('should create short URL-safe seeds', () => {
+    const seed = createSeed();
+
+    expect(seed).toMatch(/^[0-9a-z]{1,7}$/);
+    expect(createSeed()).not.toBe(seed);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for Router
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { Router, formatRoute, parseRoute } from '../../../core/Router';
+
+describe('parseRoute', () => {
+  it('should parse segments and params', () => {
+    expect(parseRoute('#/ace/creative?layout=crown')).toEqual({
+      segments: ['ace', 'creative'],
+      params: { layout: 'crown' },
+    });
+  });
+
+  it('should resolve empty hashes to the root route', () => {
+    expect(parseRoute('')).toEqual({ segments: [], params: {} });
+    expect(parseRoute('#/')).toEqual({ segments: [], params: {} });
+  });
+
+  it('should ignore empty segments', () => {
+    expect(parseRoute('#//magic/').segments).toEqual(['magic']);
+  });
+
+  it('should keep malformed percent-encoding as typed instead of throwing', () => {
+    expect(parseRoute('#/ace%').segments).toEqual(['ace%']);
+    expect(parseRoute('#/ace/creative%E0?layout=%E0').segments).toEqual(['ace', 'creative%E0']);
+  });
+});
+
+describe('formatRoute', () => {
+  it('should round-trip with parseRoute', () => {
+    const hash = '#/ace/creative?layout=crown';
+    expect(formatRoute(parseRoute(hash))).toBe(hash);
+  });
+
+  it('should sort params so equal routes format the same', () => {
+    expect(formatRoute({ segments: ['x'], params: { b: '2', a: '1' } })).toBe('#/x?a=1&b=2');
+  });
+
+  it('should format the root route', () => {
+    expect(formatRoute({ segments: [], params: {} })).toBe('#/');
+  });
+});
+
+describe('Router', () => {
+  let onChange: ReturnType<typeof vi.fn>;
+  let router: Router;
+
+  beforeEach(() => {
+    window.history.replaceState(null, '', '#/ace/literal');
+    onChange = vi.fn();
+    router = new Router(onChange);
+  });
+
+  afterEach(() => {
+    router.destroy();
+    window.history.replaceState(null, '', '#/');
+  });
+
+  it('should dispatch the initial route on start', () => {
+    router.start();
+
+    expect(onChange).toHaveBeenCalledWith({ segments: ['ace', 'literal'], params: {} });
+  });
+
+  it('should update the URL on navigate without dispatching', () => {
+    router.start();
+    onChange.mockClear();
+
+    router.navigate({ segments: ['phoenix'], params: {} });
+
+    expect(window.location.hash).toBe('#/phoenix');
+    expect(router.current.segments).toEqual(['phoenix']);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should push history entries unless replace is set', () => {
+    router.start();
+    const length = window.history.length;
+
+    router.navigate({ segments: ['magic'], params: {} });
+    expect(window.history.length).toBe(length + 1);
+
+    router.navigate({ segments: ['magic', 'creative'], params: {} }, { replace: true });
+    expect(window.history.length).toBe(length + 1);
+    expect(window.location.hash).toBe('#/magic/creative');
+  });
+
+  it('should dispatch external location changes once', () => {
+    router.start();
+    onChange.mockClear();
+
+    window.history.replaceState(null, '', '#/magic');
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    window.dispatchEvent(new HashChangeEvent('hashchange'));
+
+    expect(onChange).toHaveBeenCalledOnce();
+    expect(onChange).toHaveBeenCalledWith({ segments: ['magic'], params: {} });
+  });
+
+  it('should start from a shared link with malformed percent-encoding', () => {
+    router.destroy();
+    window.history.replaceState(null, '', '#/ace/creative%E0');
+
+    router = new Router(onChange);
+    router.start();
+
+    expect(onChange).toHaveBeenCalledWith({ segments: ['ace', 'creative%E0'], params: {} });
+  });
+
+  it('should stop listening after destroy', () => {
+    router.start();
+    onChange.mockClear();
+    router.destroy();
+
+    window.history.replaceState(null, '', '#/magic');
+    window.dispatchEvent(new PopStateEvent('popstate'));
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Tests for SafeArea
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { NO_INSETS, rotateInsetsCounterClockwise, SafeArea } from '../../../core/SafeArea';
+
+describe('SafeArea', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read the env() insets back from the probe padding', () => {
+    const safeArea = new SafeArea();
+    vi.spyOn(window, 'getComputedStyle').mockReturnValue({
+      paddingLeft: '0px',
+      paddingRight: '0px',
+      paddingTop: '47px',
+      paddingBottom: '34px',
+    } as CSSStyleDeclaration);
+
+    expect(safeArea.insets).toEqual({ left: 0, right: 0, top: 47, bottom: 34 });
+    safeArea.destroy();
+  });
+
+  it('should report no insets where env() is unsupported', () => {
+    const safeArea = new SafeArea();
+
+    expect(safeArea.insets).toEqual(NO_INSETS);
+    safeArea.destroy();
+  });
+
+  it('should add one hidden probe and remove it on destroy', () => {
+    const safeArea = new SafeArea();
+    const before = document.body.childElementCount;
+
+    void safeArea.insets;
+    void safeArea.insets;
+    expect(document.body.childElementCount).toBe(before + 1);
+
+    safeArea.destroy();
+    expect(document.body.childElementCount).toBe(before);
+  });
+
+  it('should map physical edges to the sides of counter-clockwise-rotated content', () => {
+    // Portrait phone: notch on top, home indicator at the bottom
+    const rotated = rotateInsetsCounterClockwise({ left: 0, right: 0, top: 47, bottom: 34 });
+
+    expect(rotated).toEqual({ left: 34, right: 47, top: 0, bottom: 0 });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for SceneInspector
+ */
+import gsap from 'gsap';
+import { Container, Graphics, Ticker } from 'pixi.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { InputManager, type KeyBindings } from '../../../core/InputManager';
+import { SceneInspector } from '../../../core/SceneInspector';
+
+const BINDINGS: KeyBindings = {
+  back: [],
+  confirm: [],
+  advance: [],
+  'draw-from-stock': [],
+  'toggle-settings': [],
+  help: [],
+  'focus-up': [],
+  'focus-down': [],
+  'focus-left': [],
+  'focus-right': [],
+  'previous-layout': [],
+  'next-layout': [],
+  screenshot: [],
+  'record-clip': [],
+  'toggle-inspector': ['F2'],
+};
+
+/** 100x40 box at (x, y) */
+function createBox(name: string, x: number, y: number): Graphics {
+  const box = new Graphics();
+  box.beginFill(0xffffff);
+  box.drawRect(0, 0, 100, 40);
+  box.endFill();
+  box.name = name;
+  box.position.set(x, y);
+  return box;
+}
+
+function panel(): HTMLElement {
+  return document.getElementById('scene-inspector') as HTMLElement;
+}
+
+/** Tree rows as displayed (toggle, label, badges) */
+function rowTexts(): string[] {
+  return Array.from(panel().querySelectorAll('.scene-inspector-tree li'), row =>
+    (row.textContent ?? '').trim()
+  );
+}
+
+function row(label: string): HTMLElement {
+  const rows = panel().querySelectorAll<HTMLElement>('.scene-inspector-tree li');
+  const match = Array.from(rows).find(item => item.textContent?.includes(label));
+  if (!match) throw new Error(`No row for ${label}`);
+  return match;
+}
+
+describe('SceneInspector', () => {
+  let input: InputManager;
+  let stage: Container;
+  let scene: Container;
+  let ticker: Ticker;
+  let inspector: SceneInspector;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    input = new InputManager(BINDINGS, { storageKey: 'test.inspector' });
+    input.start();
+
+    stage = new Container();
+    scene = new Container();
+    scene.name = 'scene';
+    const wrapper = new Container();
+    wrapper.name = 'wrapper';
+    wrapper.addChild(createBox('first', 10, 20), createBox('second', 200, 20));
+    scene.addChild(wrapper);
+    stage.addChild(scene);
+
+    inspector = new SceneInspector(input, stage, () => scene, {
+      refreshMs: 250,
+      highlightColor: 0xff00ff,
+      maxChildren: 10,
+    });
+    ticker = new Ticker();
+    ticker.autoStart = false;
+    inspector.attachTo(ticker);
+  });
+
+  afterEach(() => {
+    inspector.destroy();
+    input.destroy();
+    ticker.destroy();
+    gsap.globalTimeline.clear();
+    vi.useRealTimers();
+  });
+
+  it('should toggle with its action and list the scene collapsed below the root', () => {
+    expect(inspector.isOpen).toBe(false);
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'F2' }));
+
+    expect(inspector.isOpen).toBe(true);
+    expect(rowTexts()).toEqual(['▾scene', '▸wrapper2']);
+  });
+
+  it('should expand a container from its toggle and keep up with the tree', () => {
+    inspector.setOpen(true);
+    row('wrapper').querySelector<HTMLElement>('.scene-inspector-toggle')?.click();
+    expect(rowTexts()).toEqual(['▾scene', '▾wrapper', 'first', 'second']);
+
+    const second = scene.getChildByName('second', true) as Graphics;
+    second.destroy();
+    vi.advanceTimersByTime(250);
+
+    expect(rowTexts()).toEqual(['▾scene', '▾wrapper', 'first']);
+  });
+
+  it('should outline the hovered node on the stage', () => {
+    inspector.setOpen(true);
+    inspector.select(scene.getChildByName('first', true));
+    row('second').dispatchEvent(new Event('pointerover', { bubbles: true }));
+
+    const outline = inspector.indicator;
+    expect(outline.visible).toBe(true);
+    expect(stage.children[stage.children.length - 1]).toBe(outline);
+    expect(outline.getBounds().x).toBeCloseTo(199, 0);
+
+    inspector.setOpen(false);
+    expect(outline.visible).toBe(false);
+  });
+
+  it('should edit the selected node live', () => {
+    const first = scene.getChildByName('first', true) as Graphics;
+    inspector.setOpen(true);
+    inspector.select(first);
+
+    const inputs = panel().querySelectorAll<HTMLInputElement>('.scene-inspector-fields input');
+    const [x] = inputs;
+    x.value = '42';
+    x.dispatchEvent(new Event('input'));
+    const visible = inputs[inputs.length - 1];
+    visible.checked = false;
+    visible.dispatchEvent(new Event('change'));
+
+    expect(first.x).toBe(42);
+    expect(first.visible).toBe(false);
+  });
+
+  it('should show the tweens running on a node', () => {
+    const first = scene.getChildByName('first', true) as Graphics;
+    gsap.to(first.scale, { x: 2, duration: 1 });
+    inspector.setOpen(true);
+    inspector.select(first);
+
+    expect(row('first').textContent).toContain('⟳1');
+    expect(panel().querySelector('.scene-inspector-details ul')?.textContent).toContain('x · 1s');
+  });
+
+  it('should summarise children beyond the listing limit', () => {
+    const pool = new Container();
+    pool.name = 'pool';
+    for (let i = 0; i < 15; i++) pool.addChild(new Container());
+    scene.addChild(pool);
+
+    inspector.setOpen(true);
+    inspector.select(pool.children[0]);
+
+    expect(rowTexts()).toContain('… 5 more');
+  });
+});
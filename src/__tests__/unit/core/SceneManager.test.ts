@@ -0,0 +1,259 @@
+/**
+ * Tests for SceneManager
+ */
+import { Container, Rectangle, RenderTexture, type Application as PixiApplication } from 'pixi.js';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { SceneManager, type Scene } from '../../../core/SceneManager';
+import { flushPromises } from '../../helpers/testUtils';
+
+/** Minimal stand-in for the PixiJS Application used by SceneManager */
+function createMockPixi() {
+  return {
+    stage: new Container(),
+    screen: new Rectangle(0, 0, 800, 600),
+    ticker: { add: vi.fn(), remove: vi.fn() },
+    renderer: {
+      resolution: 1,
+      generateTexture: vi.fn(() => RenderTexture.create({ width: 8, height: 8 })),
+    },
+  };
+}
+
+function createScene(name: string, log: string[]): Scene {
+  return {
+    container: new Container(),
+    onStart: vi.fn(() => {
+      log.push(`${name}:start`);
+    }),
+    onStop: vi.fn(() => {
+      log.push(`${name}:stop`);
+    }),
+    onPause: vi.fn(() => {
+      log.push(`${name}:pause`);
+    }),
+    onResume: vi.fn(() => {
+      log.push(`${name}:resume`);
+    }),
+    onUpdate: vi.fn(),
+    onResize: vi.fn(),
+    destroy: vi.fn(() => {
+      log.push(`${name}:destroy`);
+    }),
+  };
+}
+
+describe('SceneManager', () => {
+  let pixi: ReturnType<typeof createMockPixi>;
+  let manager: SceneManager;
+  let log: string[];
+
+  beforeEach(() => {
+    pixi = createMockPixi();
+    manager = new SceneManager(pixi as unknown as PixiApplication);
+    log = [];
+  });
+
+  describe('start without transition', () => {
+    it('should stop the previous scene before starting the next', async () => {
+      await manager.start(createScene('a', log));
+      await manager.start(createScene('b', log));
+
+      expect(log).toEqual(['a:start', 'a:stop', 'a:destroy', 'b:start']);
+      expect(pixi.stage.children).toHaveLength(1);
+    });
+  });
+
+  describe('start with transition', () => {
+    it('should keep both scenes mounted and block input during the effect', async () => {
+      const a = createScene('a', log);
+      const b = createScene('b', log);
+      await manager.start(a);
+
+      const navigation = manager.start(b, { type: 'crossfade', duration: 0.05 });
+      await flushPromises();
+
+      expect(pixi.stage.children).toContain(a.container);
+      expect(pixi.stage.children).toContain(b.container);
+      expect(pixi.stage.eventMode).toBe('none');
+      expect(manager.isTransitioning).toBe(true);
+
+      await navigation;
+
+      expect(pixi.stage.children).not.toContain(a.container);
+      expect(pixi.stage.eventMode).not.toBe('none');
+      expect(manager.isTransitioning).toBe(false);
+      expect(b.container.alpha).toBe(1);
+      expect(log).toEqual(['a:start', 'b:start', 'a:stop', 'a:destroy']);
+    });
+
+    it('should start the new scene before stopping the old one', async () => {
+      await manager.start(createScene('a', log));
+      await manager.start(createScene('b', log), { type: 'fade', duration: 0.02 });
+
+      expect(log.indexOf('b:start')).toBeLessThan(log.indexOf('a:stop'));
+    });
+
+    it('should clean up the iris mask when done', async () => {
+      const b = createScene('b', log);
+      await manager.start(createScene('a', log));
+      await manager.start(b, { type: 'iris', duration: 0.02 });
+
+      expect(b.container.mask).toBeNull();
+      expect(pixi.stage.children).toEqual([b.container]);
+    });
+
+    it('should restore positions after a slide', async () => {
+      const b = createScene('b', log);
+      await manager.start(createScene('a', log));
+      await manager.start(b, { type: 'slide', direction: 'right', duration: 0.02 });
+
+      expect(b.container.x).toBe(0);
+      expect(b.container.y).toBe(0);
+    });
+  });
+
+  describe('navigation during a transition', () => {
+    it('should fast-forward the running effect and skip superseded navigations', async () => {
+      const a = createScene('a', log);
+      const b = createScene('b', log);
+      const c = createScene('c', log);
+      const d = createScene('d', log);
+      await manager.start(a);
+
+      const toB = manager.start(b, { type: 'fade', duration: 10 });
+      await flushPromises();
+      const toC = manager.start(c, { type: 'fade', duration: 10 });
+      const toD = manager.start(d);
+
+      await Promise.all([toB, toC, toD]);
+
+      expect(c.onStart).not.toHaveBeenCalled();
+      expect(c.destroy).toHaveBeenCalled();
+      expect(manager.current).toBe(d);
+      expect(pixi.stage.children).toEqual([d.container]);
+      expect(pixi.stage.eventMode).not.toBe('none');
+    });
+  });
+
+  describe('scene stack', () => {
+    it('should pause the scene underneath when pushing', async () => {
+      const a = createScene('a', log);
+      const overlay = createScene('overlay', log);
+      await manager.start(a);
+      await manager.push(overlay);
+
+      expect(manager.current).toBe(overlay);
+      expect(manager.depth).toBe(2);
+      expect(log).toEqual(['a:start', 'a:pause', 'overlay:start']);
+      expect(a.container.interactiveChildren).toBe(false);
+      expect(pixi.stage.children).toEqual([a.container, overlay.container]);
+    });
+
+    it('should only update the top scene but resize every scene', async () => {
+      const a = createScene('a', log);
+      const overlay = createScene('overlay', log);
+      await manager.start(a);
+      await manager.push(overlay);
+
+      const update = pixi.ticker.add.mock.calls[0][0] as (delta: number) => void;
+      update(1);
+      manager.onResize();
+
+      expect(a.onUpdate).not.toHaveBeenCalled();
+      expect(overlay.onUpdate).toHaveBeenCalledWith(1);
+      expect(a.onResize).toHaveBeenCalled();
+      expect(overlay.onResize).toHaveBeenCalled();
+    });
+
+    it('should resume the scene underneath when popping', async () => {
+      const a = createScene('a', log);
+      const overlay = createScene('overlay', log);
+      await manager.start(a);
+      await manager.push(overlay, { type: 'crossfade', duration: 0.02 });
+      await manager.pop({ type: 'crossfade', duration: 0.02 });
+
+      expect(manager.current).toBe(a);
+      expect(log.slice(-3)).toEqual(['overlay:stop', 'overlay:destroy', 'a:resume']);
+      expect(a.container.interactiveChildren).toBe(true);
+      expect(pixi.stage.children).toEqual([a.container]);
+    });
+
+    it('should not pop the last scene', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const a = createScene('a', log);
+      await manager.start(a);
+      await manager.pop();
+
+      expect(manager.current).toBe(a);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('should replace only the top scene', async () => {
+      const a = createScene('a', log);
+      const b = createScene('b', log);
+      const c = createScene('c', log);
+      await manager.start(a);
+      await manager.push(b);
+      await manager.replace(c);
+
+      expect(manager.depth).toBe(2);
+      expect(manager.current).toBe(c);
+      expect(b.destroy).toHaveBeenCalled();
+      expect(a.onStop).not.toHaveBeenCalled();
+    });
+
+    it('should clear the whole stack on start', async () => {
+      const a = createScene('a', log);
+      const b = createScene('b', log);
+      const c = createScene('c', log);
+      await manager.start(a);
+      await manager.push(b);
+      await manager.start(c, { type: 'fade', duration: 0.02 });
+
+      expect(manager.depth).toBe(1);
+      expect(a.destroy).toHaveBeenCalled();
+      expect(b.destroy).toHaveBeenCalled();
+      expect(pixi.stage.children).toEqual([c.container]);
+    });
+  });
+
+  describe('transition (content swap)', () => {
+    it('should run the swap behind a snapshot and clean it up', async () => {
+      const a = createScene('a', log);
+      await manager.start(a);
+
+      const swap = vi.fn(() => {
+        expect(pixi.stage.eventMode).toBe('none');
+      });
+      await manager.transition(a, swap, { type: 'crossfade', duration: 0.02 });
+
+      expect(swap).toHaveBeenCalledOnce();
+      expect(pixi.renderer.generateTexture).toHaveBeenCalledOnce();
+      expect(pixi.stage.children).toEqual([a.container]);
+      expect(a.container.visible).toBe(true);
+    });
+
+    it('should ignore swaps requested by a scene that is no longer current', async () => {
+      const a = createScene('a', log);
+      await manager.start(a);
+      await manager.start(createScene('b', log));
+
+      const swap = vi.fn();
+      await manager.transition(a, swap, { type: 'fade' });
+
+      expect(swap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('destroy', () => {
+    it('should stop the current scene and detach from the ticker', async () => {
+      await manager.start(createScene('a', log));
+      manager.destroy();
+
+      expect(log).toEqual(['a:start', 'a:stop', 'a:destroy']);
+      expect(pixi.ticker.remove).toHaveBeenCalled();
+    });
+  });
+});
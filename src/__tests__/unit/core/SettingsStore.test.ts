@@ -0,0 +1,144 @@
+/**
+ * Tests for SettingsStore
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { ErrorHandler } from '../../../core/ErrorHandler';
+import { SettingsStore, validateSettings, type SettingsSchema } from '../../../core/SettingsStore';
+
+interface TestSettings {
+  speed: number;
+  mode: 'slow' | 'fast';
+  enabled: boolean;
+}
+
+const SCHEMA: SettingsSchema<TestSettings> = {
+  version: 2,
+  defaults: () => ({ speed: 1, mode: 'slow', enabled: false }),
+  rules: {
+    speed: { min: 0.5, max: 3 },
+    mode: { oneOf: ['slow', 'fast'] },
+  },
+  migrations: {
+    // v1 stored the speed as a percentage under another name
+    1: ({ speedPercent, ...rest }) => ({ ...rest, speed: Number(speedPercent) / 100 }),
+  },
+};
+
+const KEY = 'test.settings.game';
+
+describe('SettingsStore', () => {
+  let store: SettingsStore;
+
+  beforeEach(() => {
+    localStorage.clear();
+    store = new SettingsStore({ storagePrefix: 'test.settings' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return null until something is saved', () => {
+    expect(store.namespace('game', SCHEMA).load()).toBeNull();
+  });
+
+  it('should persist settings with the schema version', () => {
+    store.namespace('game', SCHEMA).save({ speed: 2, mode: 'fast', enabled: true });
+
+    expect(JSON.parse(localStorage.getItem(KEY)!)).toEqual({
+      version: 2,
+      data: { speed: 2, mode: 'fast', enabled: true },
+    });
+    const reloaded = new SettingsStore({ storagePrefix: 'test.settings' });
+    expect(reloaded.namespace('game', SCHEMA).load()).toEqual({
+      speed: 2,
+      mode: 'fast',
+      enabled: true,
+    });
+  });
+
+  it('should return copies', () => {
+    const settings = store.namespace('game', SCHEMA);
+    settings.save({ speed: 2, mode: 'fast', enabled: true });
+
+    settings.load()!.speed = 99;
+
+    expect(settings.load()!.speed).toBe(2);
+  });
+
+  it('should clamp, drop and default invalid stored fields', () => {
+    localStorage.setItem(
+      KEY,
+      JSON.stringify({ version: 2, data: { speed: 10, mode: 'warp', enabled: 'yes', extra: 1 } })
+    );
+
+    expect(store.namespace('game', SCHEMA).load()).toEqual({
+      speed: 3,
+      mode: 'slow',
+      enabled: false,
+    });
+  });
+
+  it('should migrate data written by older versions', () => {
+    localStorage.setItem(KEY, JSON.stringify({ version: 1, data: { speedPercent: 150 } }));
+
+    expect(store.namespace('game', SCHEMA).load()).toMatchObject({ speed: 1.5 });
+  });
+
+  it('should ignore data from newer versions or without a migration path', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    localStorage.setItem(KEY, JSON.stringify({ version: 3, data: { speed: 2 } }));
+    expect(store.namespace('game', SCHEMA).load()).toBeNull();
+
+    localStorage.setItem('test.settings.old', JSON.stringify({ version: 0, data: { speed: 2 } }));
+    expect(store.namespace('old', SCHEMA).load()).toBeNull();
+  });
+
+  it('should report unreadable data and fall back to nothing saved', () => {
+    const handle = vi.spyOn(ErrorHandler, 'handle').mockImplementation(() => undefined);
+    localStorage.setItem(KEY, '{not json');
+
+    expect(store.namespace('game', SCHEMA).load()).toBeNull();
+    expect(handle).toHaveBeenCalledWith(expect.anything(), 'settings-load', { storageKey: KEY });
+  });
+
+  it('should keep settings in memory when storage is unavailable', () => {
+    vi.spyOn(ErrorHandler, 'handle').mockImplementation(() => undefined);
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    const settings = store.namespace('game', SCHEMA);
+
+    settings.save({ speed: 2, mode: 'fast', enabled: true });
+
+    expect(settings.load()).toMatchObject({ speed: 2 });
+  });
+
+  it('should clear one namespace or all of them', () => {
+    const game = store.namespace('game', SCHEMA);
+    const other = store.namespace('other', SCHEMA);
+    game.save(SCHEMA.defaults());
+    other.save(SCHEMA.defaults());
+
+    game.clear();
+    expect(game.load()).toBeNull();
+    expect(localStorage.getItem(KEY)).toBeNull();
+    expect(other.load()).not.toBeNull();
+
+    store.clearAll();
+    expect(other.load()).toBeNull();
+  });
+
+  it('should reject a namespace registered twice', () => {
+    store.namespace('game', SCHEMA);
+
+    expect(() => store.namespace('game', SCHEMA)).toThrow('already registered');
+  });
+});
+
+describe('validateSettings', () => {
+  it('should reject non-finite numbers', () => {
+    expect(validateSettings(SCHEMA, { speed: Number.NaN }).speed).toBe(1);
+  });
+});
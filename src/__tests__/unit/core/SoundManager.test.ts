@@ -0,0 +1,224 @@
+/**
+ * Tests for SoundManager
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { ErrorHandler } from '../../../core/ErrorHandler';
+import { SoundManager, type SoundOptions } from '../../../core/SoundManager';
+
+const OPTIONS: SoundOptions = {
+  storageKey: 'test.sound',
+  defaults: {
+    muted: false,
+    buses: {
+      music: { volume: 0.5, muted: false },
+      sfx: { volume: 0.8, muted: false },
+      voice: { volume: 0.8, muted: false },
+    },
+  },
+};
+
+function createParam(): Record<string, unknown> {
+  return {
+    value: 1,
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn(),
+    exponentialRampToValueAtTime: vi.fn(),
+  };
+}
+
+function createNode(extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return { connect: vi.fn((target: unknown) => target), ...extra };
+}
+
+/** Minimal stand-in for the parts of AudioContext SoundManager uses */
+class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+
+  state = 'suspended';
+  currentTime = 0;
+  destination = createNode();
+  gains: Record<string, unknown>[] = [];
+  oscillators: Record<string, unknown>[] = [];
+  suspend = vi.fn(() => Promise.resolve());
+  resume = vi.fn(() => Promise.resolve());
+  close = vi.fn(() => Promise.resolve());
+
+  constructor() {
+    FakeAudioContext.instances.push(this);
+  }
+
+  createGain(): Record<string, unknown> {
+    const gain = createNode({ gain: createParam() });
+    this.gains.push(gain);
+    return gain;
+  }
+
+  createOscillator(): Record<string, unknown> {
+    const oscillator = createNode({ frequency: createParam(), start: vi.fn(), stop: vi.fn() });
+    this.oscillators.push(oscillator);
+    return oscillator;
+  }
+}
+
+describe('SoundManager', () => {
+  let sound: SoundManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    FakeAudioContext.instances = [];
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+
+    sound = new SoundManager(OPTIONS);
+    sound.registerBanks({
+      test: {
+        beep: {
+          bus: 'sfx',
+          layers: [{ kind: 'tone', frequency: 440, duration: 0.1 }],
+        },
+        chord: {
+          bus: 'voice',
+          layers: [
+            { kind: 'tone', frequency: 440, duration: 0.1 },
+            { kind: 'tone', frequency: 660, duration: 0.1, delay: 0.05 },
+          ],
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    sound.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  it('should create the audio context on first play and start one oscillator per tone', () => {
+    expect(FakeAudioContext.instances).toHaveLength(0);
+
+    sound.play('test', 'chord');
+
+    const [context] = FakeAudioContext.instances;
+    expect(context.oscillators).toHaveLength(2);
+    expect(context.oscillators[1].start).toHaveBeenCalledWith(0.05);
+  });
+
+  it('should scale the tone frequency by the playback rate', () => {
+    sound.play('test', 'beep', { rate: 2 });
+
+    const [oscillator] = FakeAudioContext.instances[0].oscillators;
+    const frequency = oscillator.frequency as Record<string, ReturnType<typeof vi.fn>>;
+    expect(frequency.setValueAtTime).toHaveBeenCalledWith(880, 0);
+  });
+
+  it('should ignore unknown sounds', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(() => sound.play('test', 'missing')).not.toThrow();
+    expect(() => sound.play('missing', 'beep')).not.toThrow();
+    expect(FakeAudioContext.instances).toHaveLength(0);
+  });
+
+  it('should not play while muted or while its bus is muted', () => {
+    sound.setMuted(true);
+    sound.play('test', 'beep');
+    expect(FakeAudioContext.instances).toHaveLength(0);
+
+    sound.setMuted(false);
+    sound.setBusMuted('sfx', true);
+    sound.play('test', 'beep');
+    sound.play('test', 'chord');
+
+    expect(FakeAudioContext.instances[0].oscillators).toHaveLength(2);
+  });
+
+  it('should persist the mixer state', () => {
+    sound.toggleMute();
+    sound.setBusVolume('music', 2);
+
+    const restored = new SoundManager(OPTIONS);
+
+    expect(restored.muted).toBe(true);
+    expect(restored.getBus('music').volume).toBe(1);
+    expect(restored.getBus('sfx').volume).toBe(0.8);
+  });
+
+  it('should fall back to defaults for malformed stored state', () => {
+    localStorage.setItem(OPTIONS.storageKey, JSON.stringify({ muted: 'yes', buses: { sfx: 5 } }));
+
+    const restored = new SoundManager(OPTIONS);
+
+    expect(restored.muted).toBe(false);
+    expect(restored.getBus('sfx')).toEqual({ volume: 0.8, muted: false });
+  });
+
+  it('should notify subscribers when the mixer changes', () => {
+    const listener = vi.fn();
+    const unsubscribe = sound.subscribe(listener);
+
+    sound.setBusVolume('voice', 0.3);
+    unsubscribe();
+    sound.setMuted(true);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should suspend the context and skip sounds while paused', () => {
+    sound.play('test', 'beep');
+    const [context] = FakeAudioContext.instances;
+
+    sound.suspend();
+    sound.play('test', 'beep');
+    expect(context.suspend).toHaveBeenCalled();
+    expect(context.oscillators).toHaveLength(1);
+
+    sound.resume();
+    sound.play('test', 'beep');
+    expect(context.resume).toHaveBeenCalled();
+    expect(context.oscillators).toHaveLength(2);
+  });
+
+  it('should report the HTTP status of a sound file that fails to load', async () => {
+    const handle = vi.spyOn(ErrorHandler, 'handle').mockImplementation(() => undefined);
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.resolve(new Response('<html></html>', { status: 404 })))
+    );
+    sound.registerBanks({
+      files: { click: { bus: 'sfx', layers: [{ kind: 'file', url: 'sounds/click.mp3' }] } },
+    });
+
+    await sound.preload('files');
+
+    expect(handle).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('404') }),
+      'sound-load',
+      { url: 'sounds/click.mp3' }
+    );
+    handle.mockRestore();
+  });
+
+  it('should retry a sound file after a failed load', async () => {
+    const handle = vi.spyOn(ErrorHandler, 'handle').mockImplementation(() => undefined);
+    const fetchFile = vi.fn(() => Promise.reject(new TypeError('offline')));
+    vi.stubGlobal('fetch', fetchFile);
+    sound.registerBanks({
+      files: { click: { bus: 'sfx', layers: [{ kind: 'file', url: 'sounds/click.mp3' }] } },
+    });
+
+    await sound.preload('files');
+    await sound.preload('files');
+
+    expect(fetchFile).toHaveBeenCalledTimes(2);
+    handle.mockRestore();
+  });
+
+  it('should resume the context on the first user gesture', () => {
+    sound.start();
+
+    window.dispatchEvent(new Event('pointerdown'));
+    window.dispatchEvent(new Event('keydown'));
+
+    const [context] = FakeAudioContext.instances;
+    expect(context.resume).toHaveBeenCalledTimes(1);
+  });
+});
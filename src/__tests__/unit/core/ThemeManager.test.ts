@@ -0,0 +1,169 @@
+/**
+ * Tests for ThemeManager
+ */
+import { Container } from 'pixi.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { Button } from '../../../components/Button';
+import {
+  BUILT_IN_THEMES,
+  DARK_THEME,
+  HIGH_CONTRAST_THEME,
+  LIGHT_THEME,
+} from '../../../config/themes';
+import { SettingsStore } from '../../../core/SettingsStore';
+import {
+  ThemeManager,
+  applyThemeToTree,
+  resolveColor,
+  type Theme,
+  type ThemeOptions,
+} from '../../../core/ThemeManager';
+
+const OPTIONS: ThemeOptions = {
+  defaultTheme: 'light',
+  mediaQueries: { highContrast: '(prefers-contrast: more)', dark: '(prefers-color-scheme: dark)' },
+  themes: BUILT_IN_THEMES,
+};
+
+/** Stub matchMedia so only the given queries match */
+function matchMediaFor(matching: string[]): typeof window.matchMedia {
+  return (query: string) => ({ matches: matching.includes(query) }) as MediaQueryList;
+}
+
+/** Manager persisting to its own store (the shared one allows one namespace per name) */
+function createThemes(): ThemeManager {
+  return new ThemeManager(OPTIONS, new SettingsStore({ storagePrefix: 'test' }));
+}
+
+describe('ThemeManager', () => {
+  let themes: ThemeManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    themes = createThemes();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should start from the default theme', () => {
+    expect(themes.name).toBe('light');
+    expect(themes.theme).toBe(LIGHT_THEME);
+    expect(themes.names).toEqual(['light', 'dark', 'highContrast']);
+  });
+
+  it('should follow the system preference on the first visit', () => {
+    vi.stubGlobal('matchMedia', matchMediaFor(['(prefers-color-scheme: dark)']));
+    expect(createThemes().name).toBe('dark');
+
+    vi.stubGlobal(
+      'matchMedia',
+      matchMediaFor(['(prefers-color-scheme: dark)', '(prefers-contrast: more)'])
+    );
+    expect(createThemes().name).toBe('highContrast');
+  });
+
+  it('should persist the chosen theme over the system preference', () => {
+    themes.setTheme('dark');
+    themes.setTheme('neon');
+    vi.stubGlobal('matchMedia', matchMediaFor(['(prefers-contrast: more)']));
+
+    expect(createThemes().name).toBe('dark');
+  });
+
+  it('should follow the system preference when the stored theme is unknown', () => {
+    localStorage.setItem('test.theme', JSON.stringify({ version: 1, data: { name: 'neon' } }));
+    vi.stubGlobal('matchMedia', matchMediaFor(['(prefers-color-scheme: dark)']));
+
+    expect(createThemes().name).toBe('dark');
+  });
+
+  it('should notify subscribers of switches', () => {
+    const listener = vi.fn();
+    const unsubscribe = themes.subscribe(listener);
+
+    themes.setTheme('dark');
+    themes.setTheme('dark');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(DARK_THEME);
+
+    unsubscribe();
+    themes.setTheme('light');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply game overrides until they are removed', () => {
+    const remove = themes.applyOverrides({ colors: { modeLiteral: 0x1565c0 } });
+
+    expect(themes.theme.colors.modeLiteral).toBe(0x1565c0);
+    expect(themes.theme.colors.modeCreative).toBe(LIGHT_THEME.colors.modeCreative);
+
+    // Overrides survive a theme switch
+    themes.setTheme('dark');
+    expect(themes.theme.colors.modeLiteral).toBe(0x1565c0);
+    expect(themes.theme.colors.panel).toBe(DARK_THEME.colors.panel);
+
+    remove();
+    expect(themes.theme).toBe(DARK_THEME);
+  });
+
+  it('should keep the overrides of the next game when a stale remover runs', () => {
+    const removeFirst = themes.applyOverrides({ colors: { modeLiteral: 0x1565c0 } });
+    themes.applyOverrides({ colors: { modeLiteral: 0xe65100 } });
+
+    removeFirst();
+
+    expect(themes.theme.colors.modeLiteral).toBe(0xe65100);
+  });
+
+  it('should ignore overrides in fixed themes', () => {
+    themes.setTheme('highContrast');
+    themes.applyOverrides({ colors: { modeLiteral: 0x1565c0 } });
+
+    expect(themes.theme).toBe(HIGH_CONTRAST_THEME);
+  });
+});
+
+describe('applyThemeToTree', () => {
+  it('should restyle every themeable on the tree', () => {
+    const root = new Container();
+    const nested = new Container();
+    const button = new Button({ label: 'Play', onClick: vi.fn() });
+    const applyTheme = vi.spyOn(button, 'applyTheme');
+    nested.addChild(button);
+    root.addChild(nested);
+
+    applyThemeToTree(root, DARK_THEME);
+
+    expect(applyTheme).toHaveBeenCalledWith(DARK_THEME);
+  });
+
+  it('should skip destroyed containers', () => {
+    const button = new Button({ label: 'Play', onClick: vi.fn() });
+    const applyTheme = vi.spyOn(button, 'applyTheme');
+    button.destroy();
+
+    applyThemeToTree(button, DARK_THEME);
+
+    expect(applyTheme).not.toHaveBeenCalled();
+  });
+});
+
+describe('resolveColor', () => {
+  it('should look up theme colors and pass fixed colors through', () => {
+    const theme: Theme = DARK_THEME;
+
+    expect(resolveColor('accent', theme)).toBe(DARK_THEME.colors.accent);
+    expect(resolveColor(0x123456, theme)).toBe(0x123456);
+    expect(resolveColor('#123456', theme)).toBe('#123456');
+  });
+});
+
+describe('BUILT_IN_THEMES', () => {
+  it.each(Object.entries(BUILT_IN_THEMES))('%s should define every color token', (_, theme) => {
+    expect(Object.keys(theme.colors).sort()).toEqual(Object.keys(LIGHT_THEME.colors).sort());
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tests for FlameSimulation
+ */
+import { describe, it, expect } from 'vitest';
+
+import { SIMULATION_CONFIG } from '../../../../config/phoenixFlameSettings';
+import {
+  FlameSimulation,
+  type FlightParams,
+  type ParticleBody,
+} from '../../../../modes/phoenixFlame/FlameSimulation';
+
+const PARAMS: FlightParams = {
+  gravity: 1200,
+  floorY: 600,
+  height: 100,
+  initialScale: 0.2,
+  peakScale: 0.6,
+};
+
+/** Particle launched up and to the right from the floor area */
+function launch(): ParticleBody {
+  return {
+    x: 400,
+    y: 500,
+    prevX: 400,
+    prevY: 500,
+    velocityX: 120,
+    velocityY: -700,
+    age: 0,
+    maxAge: 3,
+    scale: PARAMS.initialScale,
+  };
+}
+
+/** Simulation of one particle that records where it landed */
+function createFlight() {
+  const flying = new Set([launch()]);
+  const landings: { body: ParticleBody; floorY: number }[] = [];
+  const simulation = new FlameSimulation(SIMULATION_CONFIG, {
+    bodies: () => flying,
+    params: () => PARAMS,
+    onLand: (body, floorY) => {
+      flying.delete(body);
+      landings.push({ body: { ...body }, floorY });
+    },
+  });
+  return { simulation, flying, landings };
+}
+
+/** Feed frames of one length for a while */
+function run(simulation: FlameSimulation<ParticleBody>, frameMs: number, forMs: number): void {
+  const frames = Math.round(forMs / frameMs);
+  for (let i = 0; i < frames; i++) simulation.advance(frameMs);
+}
+
+/** Lowest point of a particle */
+function bottom(body: ParticleBody): number {
+  return body.y + (PARAMS.height * body.scale) / 2;
+}
+
+describe('FlameSimulation', () => {
+  it('should fly and land the same at 30 and 144 Hz', () => {
+    const at30Hz = createFlight();
+    const at144Hz = createFlight();
+
+    run(at30Hz.simulation, 1000 / 30, 500);
+    run(at144Hz.simulation, 1000 / 144, 500);
+    const [midair30] = at30Hz.flying;
+    const [midair144] = at144Hz.flying;
+    expect(midair30.y).toBeCloseTo(midair144.y, 5);
+    expect(midair30.scale).toBe(PARAMS.peakScale);
+
+    run(at30Hz.simulation, 1000 / 30, 1500);
+    run(at144Hz.simulation, 1000 / 144, 1500);
+    expect(at30Hz.landings).toHaveLength(1);
+    expect(at30Hz.landings[0].body.x).toBeCloseTo(at144Hz.landings[0].body.x, 5);
+    expect(at30Hz.landings[0].body.age).toBeCloseTo(at144Hz.landings[0].body.age, 5);
+  });
+
+  it('should land on the floor instead of tunnelling through it on a hitch', () => {
+    const smooth = createFlight();
+    const hitched = createFlight();
+    const stepMs = SIMULATION_CONFIG.stepMs;
+
+    // Just above the floor, then a 90 ms frame (within the step cap)
+    run(smooth.simulation, stepMs, 1200);
+    run(hitched.simulation, stepMs, 1200);
+    expect(hitched.landings).toHaveLength(0);
+    run(smooth.simulation, stepMs, 90);
+    hitched.simulation.advance(90);
+    expect(hitched.landings).toHaveLength(1);
+
+    const [landed] = hitched.landings;
+    expect(landed).toEqual(smooth.landings[0]);
+    expect(landed.floorY).toBe(PARAMS.floorY);
+    // Caught within one step of falling, not a whole frame's worth below the floor
+    const fallPerStep = (landed.body.velocityY * stepMs) / 1000;
+    expect(bottom(landed.body) - PARAMS.floorY).toBeLessThanOrEqual(fallPerStep);
+  });
+
+  it('should never leave a particle in flight below the floor', () => {
+    const { simulation, flying } = createFlight();
+
+    for (const frameMs of [16, 250, 7, 1000, 33, 16]) {
+      simulation.advance(frameMs);
+      for (const body of flying) expect(bottom(body)).toBeLessThan(PARAMS.floorY);
+    }
+  });
+
+  it('should step by hand without a ticker', () => {
+    const { simulation, flying } = createFlight();
+    const [body] = flying;
+
+    simulation.step(3);
+
+    expect(body.age).toBeCloseTo((3 * SIMULATION_CONFIG.stepMs) / 1000);
+    expect(body.prevY).toBeLessThan(500);
+    expect(body.y).toBeLessThan(body.prevY);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for MessageOverlayScene
+ */
+import { Container, Rectangle, type Application as PixiApplication } from 'pixi.js';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import type { Application } from '../../../core/Application';
+import { SceneManager, type Scene } from '../../../core/SceneManager';
+import { MessageOverlayScene } from '../../../scenes/MessageOverlayScene';
+
+/** Scene under the overlay */
+function createScene(): Scene {
+  return { container: new Container() };
+}
+
+describe('MessageOverlayScene', () => {
+  let scenes: SceneManager;
+  let app: Application;
+
+  beforeEach(async () => {
+    const pixi = {
+      stage: new Container(),
+      screen: new Rectangle(0, 0, 800, 600),
+      ticker: { add: vi.fn(), remove: vi.fn() },
+      renderer: { resolution: 1 },
+    };
+    scenes = new SceneManager(pixi as unknown as PixiApplication);
+    app = {
+      scenes,
+      input: { on: vi.fn(() => vi.fn()) },
+      width: 800,
+      height: 600,
+    } as unknown as Application;
+    await scenes.start(createScene());
+  });
+
+  it('should call onClose once after close() popped it', async () => {
+    const onClose = vi.fn();
+    const overlay = new MessageOverlayScene(app, { title: 'Won' }, onClose);
+    await scenes.push(overlay);
+
+    overlay.close();
+    await vi.waitFor(() => expect(onClose).toHaveBeenCalled());
+
+    expect(scenes.current).not.toBe(overlay);
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+
+  it('should call onClose when a new scene is started while it is open', async () => {
+    const onClose = vi.fn();
+    await scenes.push(new MessageOverlayScene(app, { title: 'Won' }, onClose));
+
+    await scenes.start(createScene());
+
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+});
@@ -1,19 +1,30 @@
 import { Container, Graphics, Text, TextStyle } from 'pixi.js';
 
+import type { Accessible, AccessibleInfo } from '../core/AccessibilityLayer';
+import {
+  resolveColor,
+  themeManager,
+  type ColorToken,
+  type Theme,
+  type Themeable,
+} from '../core/ThemeManager';
+
 export interface ButtonOptions {
   /** Button label text */
   label: string;
+  /** Name read by screen readers when the label isn't words (e.g. an icon) */
+  accessibleLabel?: string;
   /** Button width */
   width?: number;
   /** Button height */
   height?: number;
-  /** Background color */
-  backgroundColor?: number;
-  /** Text color */
-  textColor?: string;
+  /** Background color (default: the theme's button color) */
+  backgroundColor?: ColorToken;
+  /** Text color (default: the theme's text color) */
+  textColor?: ColorToken;
   /** Font size */
   fontSize?: number;
-  /** Corner radius */
+  /** Corner radius (default: the theme's button radius) */
   radius?: number;
   /** Click callback */
   onClick: () => void;
@@ -23,11 +34,19 @@ export interface ButtonOptions {
  * Button
  *
  * A simple, reusable button component with hover effects.
+ * Focusable: confirm clicks it, focus shows the hover look.
+ * Colors given as theme color names follow theme changes.
  */
-export class Button extends Container {
+export class Button extends Container implements Accessible, Themeable {
   private bg: Graphics;
   private label: Text;
-  private options: Required<ButtonOptions>;
+  private options: Required<Omit<ButtonOptions, 'accessibleLabel' | 'radius'>>;
+
+  /** Corner radius (null: the theme's) */
+  private radius: number | null;
+
+  /** Screen reader name (null: the label text) */
+  private accessibleLabel: string | null;
 
   constructor(options: ButtonOptions) {
     super();
@@ -37,14 +56,13 @@ export class Button extends Container {
       label: options.label,
       width: options.width ?? 200,
       height: options.height ?? 50,
-      backgroundColor: options.backgroundColor ?? 0x4a90d9,
-      textColor: options.textColor ?? '#ffffff',
+      backgroundColor: options.backgroundColor ?? 'button',
+      textColor: options.textColor ?? 'text',
       fontSize: options.fontSize ?? 18,
-      radius: options.radius ?? 12,
       onClick: options.onClick,
     };
-
-    const { width, height, backgroundColor, textColor, fontSize, radius, label } = this.options;
+    this.radius = options.radius ?? null;
+    this.accessibleLabel = options.accessibleLabel ?? null;
 
     // Make interactive
     this.eventMode = 'static';
@@ -52,23 +70,17 @@ export class Button extends Container {
 
     // Background
     this.bg = new Graphics();
-    this.bg.beginFill(backgroundColor);
-    this.bg.drawRoundedRect(-width / 2, -height / 2, width, height, radius);
-    this.bg.endFill();
     this.addChild(this.bg);
 
     // Label
-    const style = new TextStyle({
-      fontFamily: 'Arial, sans-serif',
-      fontSize,
-      fontWeight: 'bold',
-      fill: textColor,
-    });
-    this.label = new Text(label, style);
+    const style = new TextStyle({ fontSize: this.options.fontSize, fontWeight: 'bold' });
+    this.label = new Text(this.options.label, style);
     this.label.resolution = 2;
     this.label.anchor.set(0.5);
     this.addChild(this.label);
 
+    this.applyTheme(themeManager.theme);
+
     // Events
     this.on('pointerover', this.onPointerOver);
     this.on('pointerout', this.onPointerOut);
@@ -76,6 +88,24 @@ export class Button extends Container {
     this.on('pointerup', this.onPointerUp);
   }
 
+  applyTheme(theme: Theme): void {
+    const { width, height, backgroundColor, textColor } = this.options;
+
+    this.bg.clear();
+    this.bg.beginFill(resolveColor(backgroundColor, theme));
+    this.bg.drawRoundedRect(
+      -width / 2,
+      -height / 2,
+      width,
+      height,
+      this.radius ?? theme.radii.button
+    );
+    this.bg.endFill();
+
+    this.label.style.fontFamily = theme.typography.fontFamily;
+    this.label.style.fill = resolveColor(textColor, theme);
+  }
+
   private onPointerOver = (): void => {
     this.alpha = 0.85;
     this.scale.set(1.02);
@@ -94,4 +124,31 @@ export class Button extends Container {
     this.scale.set(1);
     this.options.onClick();
   };
+
+  /**
+   * Change the label text
+   */
+  setLabel(text: string): void {
+    this.label.text = text;
+  }
+
+  /**
+   * Change the screen reader name
+   */
+  setAccessibleLabel(text: string): void {
+    this.accessibleLabel = text;
+  }
+
+  getAccessibleInfo(): AccessibleInfo {
+    return { role: 'button', label: this.accessibleLabel ?? this.label.text };
+  }
+
+  focusActivate(): void {
+    this.options.onClick();
+  }
+
+  setFocused(focused: boolean): void {
+    if (focused) this.onPointerOver();
+    else this.onPointerOut();
+  }
 }
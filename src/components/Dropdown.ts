@@ -1,5 +1,8 @@
 import { Container, Graphics, Text, TextStyle } from 'pixi.js';
 
+import type { Accessible, AccessibleInfo } from '../core/AccessibilityLayer';
+import { themeManager, type Theme, type Themeable } from '../core/ThemeManager';
+
 export interface DropdownOption {
   label: string;
   value: string;
@@ -8,6 +11,8 @@ export interface DropdownOption {
 export interface DropdownOptions {
   /** Label shown above dropdown */
   label?: string;
+  /** Name read by screen readers (default: the label) */
+  accessibleLabel?: string;
   /** Available options */
   options: DropdownOption[];
   /** Currently selected value */
@@ -24,8 +29,9 @@ export interface DropdownOptions {
  * Dropdown Component
  *
  * A PixiJS-based dropdown/select component.
+ * Focusable: confirm picks the next option. Screen readers see it as a listbox.
  */
-export class Dropdown extends Container {
+export class Dropdown extends Container implements Accessible, Themeable {
   private options: Required<DropdownOptions>;
   private selectedIndex: number;
   private isOpen = false;
@@ -44,6 +50,7 @@ export class Dropdown extends Container {
 
     this.options = {
       label: options.label ?? '',
+      accessibleLabel: options.accessibleLabel ?? options.label ?? '',
       options: options.options,
       value: options.value,
       width: options.width ?? 150,
@@ -62,14 +69,7 @@ export class Dropdown extends Container {
 
     // Create label if provided
     if (this.options.label) {
-      this.labelText = new Text(
-        this.options.label,
-        new TextStyle({
-          fontFamily: 'Arial, sans-serif',
-          fontSize: fontSize,
-          fill: '#ffffff',
-        })
-      );
+      this.labelText = new Text(this.options.label, new TextStyle({ fontSize: fontSize }));
       this.labelText.resolution = 2;
       // Place label fully above the button with a small gap (no hard-coded overlap)
       this.labelText.anchor.set(0, 1);
@@ -84,31 +84,16 @@ export class Dropdown extends Container {
     this.addChild(this.button);
 
     this.buttonBg = new Graphics();
-    this.drawButtonBg(false);
     this.button.addChild(this.buttonBg);
 
-    this.buttonText = new Text(
-      this.getSelectedLabel(),
-      new TextStyle({
-        fontFamily: 'Arial, sans-serif',
-        fontSize: fontSize,
-        fill: '#ffffff',
-      })
-    );
+    this.buttonText = new Text(this.getSelectedLabel(), new TextStyle({ fontSize: fontSize }));
     this.buttonText.resolution = 2;
     this.buttonText.x = 10;
     this.buttonText.y = (this.itemHeight - this.buttonText.height) / 2;
     this.button.addChild(this.buttonText);
 
     // Arrow
-    this.arrow = new Text(
-      '▼',
-      new TextStyle({
-        fontFamily: 'Arial, sans-serif',
-        fontSize: arrowFontSize,
-        fill: '#ffffff',
-      })
-    );
+    this.arrow = new Text('▼', new TextStyle({ fontSize: arrowFontSize }));
     this.arrow.resolution = 2;
     // Keep arrow inside button bounds even with large fonts:
     // - center-anchor so we can position by padding
@@ -126,13 +111,28 @@ export class Dropdown extends Container {
       e.stopPropagation();
       this.toggleMenu();
     });
+
+    this.applyTheme(themeManager.theme);
+  }
+
+  applyTheme(theme: Theme): void {
+    // The open list was drawn with the old theme
+    if (this.isOpen) this.closeMenu();
+
+    for (const text of [this.labelText, this.buttonText, this.arrow]) {
+      if (!text) continue;
+      text.style.fontFamily = theme.typography.fontFamily;
+      text.style.fill = theme.colors.text;
+    }
+    this.drawButtonBg(false);
   }
 
   private drawButtonBg(hover: boolean): void {
+    const { colors, radii } = themeManager.theme;
     this.buttonBg.clear();
-    this.buttonBg.beginFill(hover ? 0x555555 : 0x444444);
-    this.buttonBg.lineStyle(1, 0x666666);
-    this.buttonBg.drawRoundedRect(0, 0, this.options.width, this.itemHeight, 6);
+    this.buttonBg.beginFill(hover ? colors.surfaceHover : colors.surfaceRaised);
+    this.buttonBg.lineStyle(1, colors.border);
+    this.buttonBg.drawRoundedRect(0, 0, this.options.width, this.itemHeight, radii.control);
     this.buttonBg.endFill();
   }
 
@@ -172,15 +172,16 @@ export class Dropdown extends Container {
       this.parent.zIndex = 1000;
     }
 
+    const { colors, radii } = themeManager.theme;
     const menuBg = new Graphics();
-    menuBg.beginFill(0x333333);
-    menuBg.lineStyle(1, 0x666666);
+    menuBg.beginFill(colors.surface);
+    menuBg.lineStyle(1, colors.border);
     menuBg.drawRoundedRect(
       0,
       0,
       this.options.width,
       this.options.options.length * this.itemHeight,
-      6
+      radii.control
     );
     menuBg.endFill();
     this.menu.addChild(menuBg);
@@ -223,9 +224,11 @@ export class Dropdown extends Container {
     const item = new Container();
 
     const isSelected = index === this.selectedIndex;
+    const { colors, typography } = themeManager.theme;
+    const idleColor = isSelected ? colors.accent : colors.surface;
 
     const bg = new Graphics();
-    bg.beginFill(isSelected ? 0xff671d : 0x333333);
+    bg.beginFill(idleColor);
     bg.drawRect(0, 0, this.options.width, this.itemHeight);
     bg.endFill();
     item.addChild(bg);
@@ -233,11 +236,7 @@ export class Dropdown extends Container {
     const fontSize = this.options.fontSize ?? 12;
     const text = new Text(
       option.label,
-      new TextStyle({
-        fontFamily: 'Arial, sans-serif',
-        fontSize: fontSize,
-        fill: '#ffffff',
-      })
+      new TextStyle({ fontFamily: typography.fontFamily, fontSize: fontSize, fill: colors.text })
     );
     text.resolution = 2;
     text.x = 10;
@@ -250,7 +249,7 @@ export class Dropdown extends Container {
     item.on('pointerover', () => {
       if (!isSelected) {
         bg.clear();
-        bg.beginFill(0x555555);
+        bg.beginFill(colors.surfaceHover);
         bg.drawRect(0, 0, this.options.width, this.itemHeight);
         bg.endFill();
       }
@@ -258,7 +257,7 @@ export class Dropdown extends Container {
 
     item.on('pointerout', () => {
       bg.clear();
-      bg.beginFill(isSelected ? 0xff671d : 0x333333);
+      bg.beginFill(idleColor);
       bg.drawRect(0, 0, this.options.width, this.itemHeight);
       bg.endFill();
     });
@@ -274,10 +273,32 @@ export class Dropdown extends Container {
   private selectOption(index: number): void {
     this.selectedIndex = index;
     this.buttonText.text = this.getSelectedLabel();
-    this.closeMenu();
+    if (this.isOpen) this.closeMenu();
     this.options.onChange(this.options.options[index].value);
   }
 
+  focusActivate(): void {
+    this.selectOption((this.selectedIndex + 1) % this.options.options.length);
+  }
+
+  setFocused(focused: boolean): void {
+    this.drawButtonBg(focused);
+  }
+
+  getAccessibleInfo(): AccessibleInfo {
+    return {
+      role: 'listbox',
+      label: this.options.accessibleLabel,
+      options: this.options.options,
+      value: this.value,
+    };
+  }
+
+  setAccessibleValue(value: string): void {
+    const index = this.options.options.findIndex(o => o.value === value);
+    if (index >= 0 && index !== this.selectedIndex) this.selectOption(index);
+  }
+
   /** Get current value */
   get value(): string {
     return this.options.options[this.selectedIndex]?.value ?? '';
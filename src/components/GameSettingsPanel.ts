@@ -1,6 +1,9 @@
 import { Container, Graphics } from 'pixi.js';
 
 import { SCENE_LAYOUT } from '../config/sharedSettings';
+import { i18n } from '../core/I18n';
+import type { SafeAreaInsets } from '../core/SafeArea';
+import { resolveColor, themeManager, type ColorToken, type Themeable } from '../core/ThemeManager';
 import type { DeviceState } from '../scenes/BaseGameScene';
 
 /**
@@ -15,8 +18,8 @@ export interface GameSettingsPanelConfig {
   radius: number;
   /** Background opacity (0-1) */
   backgroundAlpha: number;
-  /** Background color */
-  backgroundColor: number;
+  /** Background color (e.g. 'panel') */
+  backgroundColor: ColorToken;
   /** Design X position (center of panel) */
   designX: number;
   /** Design Y position (center of panel) */
@@ -31,6 +34,8 @@ export interface SettingsPanelContext {
   getDeviceState(): DeviceState;
   /** Get screen dimensions */
   getScreenSize(): { width: number; height: number };
+  /** Get notch / home indicator insets of the content's screen edges */
+  getSafeInsets(): SafeAreaInsets;
   /** Get game container for scale reference */
   getGameContainerScale(): number;
   /** Get game container Y position */
@@ -47,6 +52,8 @@ export interface SettingsPanelContext {
  * - Panel is centered at designX/designY by default
  * - Responsive scaling based on available screen space
  * - Device state change handling (phone/tablet/desktop)
+ * - Rebuilds its controls when the locale changes (labels come from t())
+ * - Redraws its background when the theme changes (controls restyle themselves)
  * - Consistent styling across all game tasks
  *
  * Subclasses implement:
@@ -56,7 +63,7 @@ export interface SettingsPanelContext {
  * Subclasses can override:
  * - scaleToFit(): Custom positioning logic (e.g., below content vs fixed position)
  */
-export abstract class GameSettingsPanel extends Container {
+export abstract class GameSettingsPanel extends Container implements Themeable {
   protected config: GameSettingsPanelConfig;
   protected context: SettingsPanelContext;
 
@@ -69,6 +76,9 @@ export abstract class GameSettingsPanel extends Container {
   /** Current device state */
   protected currentDeviceState: DeviceState;
 
+  /** Stops rebuilding on locale changes */
+  private unsubscribeLocale: () => void;
+
   constructor(config: GameSettingsPanelConfig, context: SettingsPanelContext) {
     super();
 
@@ -78,10 +88,12 @@ export abstract class GameSettingsPanel extends Container {
 
     // Create background panel
     this.panel = new Graphics();
+    this.panel.name = 'panel';
     this.addChild(this.panel);
 
     // Create content container
     this.content = new Container();
+    this.content.name = 'content';
     this.addChild(this.content);
 
     // Build controls (implemented by subclass)
@@ -97,6 +109,8 @@ export abstract class GameSettingsPanel extends Container {
 
     // Initial scaling (subclasses may override scaleToFit)
     requestAnimationFrame(() => this.scaleToFit());
+
+    this.unsubscribeLocale = i18n.subscribe(() => this.rebuild());
   }
 
   /**
@@ -120,7 +134,7 @@ export abstract class GameSettingsPanel extends Container {
     const { paddingX, paddingY, radius, backgroundColor, backgroundAlpha } = this.config;
 
     this.panel.clear();
-    this.panel.beginFill(backgroundColor, backgroundAlpha);
+    this.panel.beginFill(resolveColor(backgroundColor, themeManager.theme), backgroundAlpha);
     this.panel.drawRoundedRect(
       bounds.x - paddingX,
       bounds.y - paddingY,
@@ -131,6 +145,10 @@ export abstract class GameSettingsPanel extends Container {
     this.panel.endFill();
   }
 
+  applyTheme(): void {
+    this.updatePanelBackground();
+  }
+
   /**
    * Center the panel at origin (0,0) so that setting x/y positions the center.
    * This offsets both content and background so the visual center is at (0,0).
@@ -151,6 +169,13 @@ export abstract class GameSettingsPanel extends Container {
     this.content.y -= centerY;
   }
 
+  /**
+   * Show or hide the panel (keyboard 'toggle-settings' action)
+   */
+  public toggleVisible(): void {
+    this.visible = !this.visible;
+  }
+
   /**
    * Default: Scale panel to fit available screen space below game content.
    * Subclasses can override for different positioning (e.g., fixed top position).
@@ -165,6 +190,7 @@ export abstract class GameSettingsPanel extends Container {
     const minPadding = useCompactPadding
       ? SCENE_LAYOUT.screenPaddingPhone
       : SCENE_LAYOUT.screenPadding;
+    const insets = this.context.getSafeInsets();
 
     // Reset scale to measure actual size
     this.scale.set(1);
@@ -188,10 +214,11 @@ export abstract class GameSettingsPanel extends Container {
     const cardMargin = 20;
 
     const availableTop = contentBottomScreen + cardMargin;
-    const availableBottom = screenH - minPadding.bottom;
+    const availableBottom = screenH - minPadding.bottom - insets.bottom;
     const availableHeight = Math.max(0, availableBottom - availableTop);
 
-    const availableWidth = screenW - minPadding.left - minPadding.right;
+    const availableWidth =
+      screenW - minPadding.left - minPadding.right - insets.left - insets.right;
 
     // Calculate scale to fit
     const scaleX = availableWidth / currentPanelScreenWidth;
@@ -226,10 +253,15 @@ export abstract class GameSettingsPanel extends Container {
     if (newState === this.currentDeviceState) return;
 
     this.currentDeviceState = newState;
+    this.rebuild();
+  }
 
-    // Clear and rebuild controls
+  /**
+   * Clear and rebuild controls for the current device state
+   */
+  private rebuild(): void {
     this.content.removeChildren();
-    this.rebuildForDeviceState(newState);
+    this.rebuildForDeviceState(this.currentDeviceState);
     this.updatePanelBackground();
     this.centerPanelAtOrigin();
     this.scaleToFit();
@@ -239,6 +271,7 @@ export abstract class GameSettingsPanel extends Container {
    * Clean up resources
    */
   public destroy(options?: { children?: boolean }): void {
+    this.unsubscribeLocale();
     super.destroy(options ?? { children: true });
   }
 }
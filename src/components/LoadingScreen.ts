@@ -0,0 +1,125 @@
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+
+import type { LoadProgress } from '../core/AssetLoader';
+import { themeManager } from '../core/ThemeManager';
+
+export interface LoadingScreenOptions {
+  /** Headline (e.g. '🔥 Igniting...') */
+  title: string;
+  /** Progress bar width */
+  barWidth?: number;
+  /** Progress bar height */
+  barHeight?: number;
+  /** Fill color of the progress bar (defaults to the theme's progress color) */
+  barColor?: number;
+  /** Backdrop opacity (0 = transparent) */
+  backdropAlpha?: number;
+}
+
+/**
+ * LoadingScreen
+ *
+ * Shared loading UI for asset bundles: title, progress bar and a
+ * "files · size" detail line. Centered on (0, 0) - the owner positions it
+ * and calls resize() so the backdrop covers the screen.
+ */
+export class LoadingScreen extends Container {
+  private options: Required<LoadingScreenOptions>;
+  private backdrop: Graphics;
+  private barFill: Graphics;
+  private detail: Text;
+
+  constructor(options: LoadingScreenOptions) {
+    super();
+
+    this.options = {
+      title: options.title,
+      barWidth: options.barWidth ?? 320,
+      barHeight: options.barHeight ?? 12,
+      barColor: options.barColor ?? themeManager.theme.colors.progress,
+      backdropAlpha: options.backdropAlpha ?? 0.6,
+    };
+
+    const { title, barWidth, barHeight } = this.options;
+    const theme = themeManager.theme;
+
+    // Backdrop swallows input while loading
+    this.backdrop = new Graphics();
+    this.backdrop.eventMode = 'static';
+    this.addChild(this.backdrop);
+
+    const titleText = new Text(
+      title,
+      new TextStyle({
+        fontFamily: theme.typography.displayFontFamily,
+        fontSize: 32,
+        fill: theme.colors.text,
+        align: 'center',
+      })
+    );
+    titleText.anchor.set(0.5, 1);
+    titleText.y = -barHeight - 12;
+    this.addChild(titleText);
+
+    // Progress bar track
+    const track = new Graphics();
+    track.beginFill(theme.colors.knob, 0.15);
+    track.drawRoundedRect(-barWidth / 2, -barHeight / 2, barWidth, barHeight, barHeight / 2);
+    track.endFill();
+    this.addChild(track);
+
+    this.barFill = new Graphics();
+    this.addChild(this.barFill);
+
+    this.detail = new Text(
+      '',
+      new TextStyle({
+        fontFamily: theme.typography.fontFamily,
+        fontSize: 14,
+        fill: theme.colors.textMuted,
+        align: 'center',
+      })
+    );
+    this.detail.anchor.set(0.5, 0);
+    this.detail.y = barHeight + 8;
+    this.addChild(this.detail);
+  }
+
+  /**
+   * Update the bar and the detail line
+   */
+  setProgress(progress: LoadProgress): void {
+    const { barWidth, barHeight, barColor } = this.options;
+    const width = Math.max(barWidth * Math.min(progress.progress, 1), barHeight);
+
+    this.barFill.clear();
+    this.barFill.beginFill(barColor);
+    this.barFill.drawRoundedRect(-barWidth / 2, -barHeight / 2, width, barHeight, barHeight / 2);
+    this.barFill.endFill();
+
+    const files = `${progress.loadedFiles} / ${progress.totalFiles} files`;
+    this.detail.text =
+      progress.totalBytes > 0
+        ? `${files} · ${formatBytes(progress.loadedBytes)} / ${formatBytes(progress.totalBytes)}`
+        : files;
+  }
+
+  /**
+   * Cover a screen of the given size (the screen is centered on this container)
+   */
+  resize(width: number, height: number): void {
+    this.backdrop.clear();
+    this.backdrop.beginFill(themeManager.theme.colors.backdrop, this.options.backdropAlpha);
+    this.backdrop.drawRect(-width / 2, -height / 2, width, height);
+    this.backdrop.endFill();
+  }
+}
+
+/**
+ * Human-readable byte count (e.g. '1.4 MB')
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
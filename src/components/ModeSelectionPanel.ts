@@ -1,5 +1,7 @@
 import { Container, Graphics, Text, TextStyle } from 'pixi.js';
 
+import { resolveColor, themeManager, type ColorToken, type Themeable } from '../core/ThemeManager';
+
 import { Button } from './Button';
 
 /**
@@ -8,8 +10,8 @@ import { Button } from './Button';
 export interface ModeButtonConfig {
   /** Button label text */
   label: string;
-  /** Button background color */
-  backgroundColor: number;
+  /** Button background color (e.g. 'modeLiteral') */
+  backgroundColor: ColorToken;
   /** Callback when button is clicked */
   onClick: () => void;
 }
@@ -42,10 +44,10 @@ export interface ModeSelectionPanelConfig {
   buttonWidth?: number;
   /** Button height */
   buttonHeight?: number;
-  /** Panel corner radius */
+  /** Panel corner radius (default: the theme's dialog radius) */
   radius?: number;
-  /** Panel background color */
-  backgroundColor?: number;
+  /** Panel background color (default: the theme's panel color) */
+  backgroundColor?: ColorToken;
   /** Panel background opacity */
   backgroundAlpha?: number;
   /** Title font size */
@@ -69,8 +71,9 @@ export interface ModeSelectionPanelConfig {
  * - Vertically stacked buttons with custom labels/colors/callbacks
  * - Auto-sizing background panel
  * - Returns design bounds for responsive layout
+ * - Rebuilt in the new colors when the theme changes
  */
-export class ModeSelectionPanel extends Container {
+export class ModeSelectionPanel extends Container implements Themeable {
   private config: Required<ModeSelectionPanelConfig>;
   private panelBg: Graphics;
   private contentContainer: Container;
@@ -94,8 +97,8 @@ export class ModeSelectionPanel extends Container {
       buttonGap: config.buttonGap ?? 18,
       buttonWidth: config.buttonWidth ?? 320,
       buttonHeight: config.buttonHeight ?? 56,
-      radius: config.radius ?? 24,
-      backgroundColor: config.backgroundColor ?? 0x000000,
+      radius: config.radius ?? themeManager.theme.radii.dialog,
+      backgroundColor: config.backgroundColor ?? 'panel',
       backgroundAlpha: config.backgroundAlpha ?? 0.6,
       titleFontSize: config.titleFontSize ?? 36,
       descriptionFontSize: config.descriptionFontSize ?? 17,
@@ -119,6 +122,13 @@ export class ModeSelectionPanel extends Container {
     this.buildContent();
   }
 
+  applyTheme(): void {
+    for (const child of this.contentContainer.removeChildren()) {
+      child.destroy({ children: true });
+    }
+    this.buildContent();
+  }
+
   /**
    * Build the panel content (title + description + buttons)
    */
@@ -143,15 +153,16 @@ export class ModeSelectionPanel extends Container {
       buttonRadius,
       descriptionMaxWidth,
     } = this.config;
+    const { colors, typography } = themeManager.theme;
 
     // Title
     const titleStyle = new TextStyle({
-      fontFamily: 'Arial, sans-serif',
+      fontFamily: typography.fontFamily,
       fontSize: titleFontSize,
       fontWeight: 'bold',
-      fill: '#ffffff',
+      fill: colors.text,
       dropShadow: true,
-      dropShadowColor: '#000000',
+      dropShadowColor: colors.backdrop,
       dropShadowBlur: 4,
       dropShadowDistance: 2,
     });
@@ -170,9 +181,9 @@ export class ModeSelectionPanel extends Container {
       currentY += descriptionGap;
 
       const descStyle = new TextStyle({
-        fontFamily: 'Arial, sans-serif',
+        fontFamily: typography.fontFamily,
         fontSize: descriptionFontSize,
-        fill: '#e0e0e0',
+        fill: colors.textSecondary,
         align: 'center',
         wordWrap: true,
         wordWrapWidth: descriptionMaxWidth,
@@ -221,7 +232,7 @@ export class ModeSelectionPanel extends Container {
 
     // Draw panel background
     this.panelBg.clear();
-    this.panelBg.beginFill(backgroundColor, backgroundAlpha);
+    this.panelBg.beginFill(resolveColor(backgroundColor, themeManager.theme), backgroundAlpha);
     this.panelBg.drawRoundedRect(
       -this.panelWidth / 2,
       -this.panelHeight / 2,
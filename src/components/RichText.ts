@@ -1,5 +1,8 @@
 import { Container, Text, TextStyle, Sprite, Assets, Texture } from 'pixi.js';
 
+import { detectTextDirection, type TextDirection } from '../core/I18n';
+import { themeManager } from '../core/ThemeManager';
+
 /**
  * RichText Options
  */
@@ -10,14 +13,19 @@ export interface RichTextOptions {
   emojiMap: Map<string, string>;
   /** Font size for text */
   fontSize?: number;
-  /** Text color */
-  color?: string;
+  /** Text color (defaults to the theme's text color) */
+  color?: string | number;
   /** Max width before word wrap */
   maxWidth?: number;
   /** Emoji size (height, maintains aspect ratio) */
   emojiSize?: number;
-  /** Font family */
+  /** Font family (defaults to the theme's font) */
   fontFamily?: string;
+  /**
+   * Reading direction: 'rtl' flows words right to left and right-aligns lines.
+   * 'auto' (default) follows the first strongly directional letter of the text.
+   */
+  direction?: TextDirection | 'auto';
 }
 
 /**
@@ -33,6 +41,7 @@ interface Segment {
  *
  * Renders text with inline emoji images.
  * Parses {emojiName} patterns and replaces them with sprites.
+ * Right-to-left text (Arabic, Hebrew) is laid out right to left, emojis included.
  */
 export class RichText extends Container {
   private options: Required<RichTextOptions>;
@@ -42,12 +51,14 @@ export class RichText extends Container {
 
   constructor(options: RichTextOptions) {
     super();
+    const theme = themeManager.theme;
     this.options = {
       fontSize: 20,
-      color: '#ffffff',
+      color: theme.colors.text,
       maxWidth: 500,
       emojiSize: 24,
-      fontFamily: 'Arial, sans-serif',
+      fontFamily: theme.typography.fontFamily,
+      direction: 'auto',
       ...options,
     };
 
@@ -65,6 +76,24 @@ export class RichText extends Container {
     return this.isBuilt;
   }
 
+  /**
+   * Resolved reading direction
+   */
+  public get direction(): TextDirection {
+    const { direction } = this.options;
+    if (direction !== 'auto') return direction;
+    // Emoji placeholder names are not part of the sentence
+    const words = this.segments.filter(s => s.type === 'text').map(s => s.content);
+    return detectTextDirection(words.join(' '));
+  }
+
+  /**
+   * Text for screen readers: emojis are read by name
+   */
+  public get plainText(): string {
+    return this.segments.map(s => s.content).join('');
+  }
+
   /**
    * Build the rich text content
    */
@@ -144,7 +173,7 @@ export class RichText extends Container {
           // Emoji not found - show placeholder
           const placeholder = new Text(`[${segment.content}]`, {
             ...textStyle,
-            fill: '#888888',
+            fill: themeManager.theme.colors.textMuted,
             fontSize: fontSize * 0.8,
           });
           placeholder.resolution = 2;
@@ -162,6 +191,20 @@ export class RichText extends Container {
         }
       }
     }
+
+    if (this.direction === 'rtl') this.mirrorLines();
+  }
+
+  /**
+   * Mirror the left-to-right layout: each line starts at the right edge of the block
+   * (the block keeps its width, so callers position it the same way in both directions)
+   */
+  private mirrorLines(): void {
+    const items = this.children as (Text | Sprite)[];
+    const blockWidth = Math.max(0, ...items.map(child => child.x + child.width));
+    for (const child of items) {
+      child.x = blockWidth - child.x - child.width;
+    }
   }
 
   /**
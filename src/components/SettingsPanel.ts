@@ -1,20 +1,22 @@
 import { Container, Graphics } from 'pixi.js';
 
+import { resolveColor, themeManager, type ColorToken, type Themeable } from '../core/ThemeManager';
+
 /**
  * Configuration for SettingsPanel
  */
 export interface SettingsPanelConfig {
-  /** Horizontal padding around content */
+  /** Horizontal padding around content (default: the theme's panel padding) */
   paddingX?: number;
-  /** Vertical padding around content */
+  /** Vertical padding around content (default: the theme's panel padding) */
   paddingY?: number;
-  /** Corner radius of panel background */
+  /** Corner radius of panel background (default: the theme's panel radius) */
   radius?: number;
-  /** Background color */
-  backgroundColor?: number;
+  /** Background color (default: the theme's panel color) */
+  backgroundColor?: ColorToken;
   /** Background opacity */
   backgroundAlpha?: number;
-  /** Gap between cells */
+  /** Gap between cells (default: the theme's cell gap) */
   gap?: number;
   /** Row height */
   rowHeight?: number;
@@ -77,7 +79,7 @@ interface RowDefinition {
  * - Responsive support for portrait/landscape
  * - Scale-to-fit functionality
  */
-export class SettingsPanel extends Container {
+export class SettingsPanel extends Container implements Themeable {
   private config: Required<SettingsPanelConfig>;
   private panel: Graphics;
   private content: Container;
@@ -87,13 +89,14 @@ export class SettingsPanel extends Container {
   constructor(config: SettingsPanelConfig = {}) {
     super();
 
+    const { radii, spacing } = themeManager.theme;
     this.config = {
-      paddingX: config.paddingX ?? 13,
-      paddingY: config.paddingY ?? 13,
-      radius: config.radius ?? 12,
-      backgroundColor: config.backgroundColor ?? 0x000000,
+      paddingX: config.paddingX ?? spacing.panelPadding,
+      paddingY: config.paddingY ?? spacing.panelPadding,
+      radius: config.radius ?? radii.panel,
+      backgroundColor: config.backgroundColor ?? 'panel',
       backgroundAlpha: config.backgroundAlpha ?? 0.7,
-      gap: config.gap ?? 8,
+      gap: config.gap ?? spacing.cellGap,
       rowHeight: config.rowHeight ?? 45,
     };
 
@@ -191,7 +194,7 @@ export class SettingsPanel extends Container {
     const b = this.content.getLocalBounds();
 
     this.panel.clear();
-    this.panel.beginFill(backgroundColor, backgroundAlpha);
+    this.panel.beginFill(resolveColor(backgroundColor, themeManager.theme), backgroundAlpha);
     this.panel.drawRoundedRect(
       b.x - paddingX,
       b.y - paddingY,
@@ -202,6 +205,10 @@ export class SettingsPanel extends Container {
     this.panel.endFill();
   }
 
+  applyTheme(): void {
+    this.updatePanel();
+  }
+
   /**
    * Get the current configuration
    */
@@ -1,5 +1,8 @@
 import { Container, Graphics, Text, TextStyle, type FederatedPointerEvent } from 'pixi.js';
 
+import type { Accessible, AccessibleInfo } from '../core/AccessibilityLayer';
+import { themeManager, type Theme, type Themeable } from '../core/ThemeManager';
+
 export interface SliderOptions {
   /** Slider label */
   label: string;
@@ -27,8 +30,9 @@ export interface SliderOptions {
  * Slider
  *
  * A PixiJS-based slider component for controlling numeric values.
+ * Focusable: an analog stick moves the value while the slider has focus.
  */
-export class Slider extends Container {
+export class Slider extends Container implements Accessible, Themeable {
   private options: Required<SliderOptions>;
   private track: Graphics;
   private fill: Graphics;
@@ -37,6 +41,9 @@ export class Slider extends Container {
   private currentValue: number;
   private isDragging = false;
 
+  /** Stick movement not yet large enough for a whole step */
+  private pendingAdjust = 0;
+
   /** Track dimensions */
   private readonly trackHeight = 6;
   private readonly handleRadius = 10;
@@ -64,15 +71,7 @@ export class Slider extends Container {
     this.fill = new Graphics();
     this.handle = new Graphics();
     const fontSize = options.fontSize ?? 12;
-    this.labelText = new Text(
-      '',
-      new TextStyle({
-        fontFamily: 'Arial, sans-serif',
-        fontSize: fontSize,
-        fill: '#ffffff',
-        fontWeight: 'bold',
-      })
-    );
+    this.labelText = new Text('', new TextStyle({ fontSize: fontSize, fontWeight: 'bold' }));
     this.labelText.resolution = 2;
 
     this.addChild(this.track);
@@ -80,11 +79,17 @@ export class Slider extends Container {
     this.addChild(this.handle);
     this.addChild(this.labelText);
 
-    this.drawSlider();
+    this.applyTheme(themeManager.theme);
     this.updateLabel();
     this.setupInteraction();
   }
 
+  applyTheme(theme: Theme): void {
+    this.labelText.style.fontFamily = theme.typography.fontFamily;
+    this.labelText.style.fill = theme.colors.text;
+    this.drawSlider();
+  }
+
   /**
    * Draw the slider components
    */
@@ -93,7 +98,7 @@ export class Slider extends Container {
 
     // Track background
     this.track.clear();
-    this.track.beginFill(0x333333);
+    this.track.beginFill(themeManager.theme.colors.surface);
     this.track.drawRoundedRect(0, -this.trackHeight / 2, width, this.trackHeight, 3);
     this.track.endFill();
 
@@ -110,18 +115,19 @@ export class Slider extends Container {
    */
   private updateFillAndHandle(): void {
     const { width, min, max } = this.options;
+    const { colors } = themeManager.theme;
     const ratio = (this.currentValue - min) / (max - min);
     const handleX = ratio * width;
 
     // Fill bar
     this.fill.clear();
-    this.fill.beginFill(0xff671d);
+    this.fill.beginFill(colors.accent);
     this.fill.drawRoundedRect(0, -this.trackHeight / 2, handleX, this.trackHeight, 3);
     this.fill.endFill();
 
     // Handle
     this.handle.clear();
-    this.handle.beginFill(0xffffff);
+    this.handle.beginFill(colors.knob);
     this.handle.drawCircle(0, 0, this.handleRadius);
     this.handle.endFill();
     this.handle.x = handleX;
@@ -131,8 +137,12 @@ export class Slider extends Container {
    * Update the label text
    */
   private updateLabel(): void {
-    const { label, unit, decimals } = this.options;
-    this.labelText.text = `${label}: ${this.currentValue.toFixed(decimals)}${unit}`;
+    this.labelText.text = `${this.options.label}: ${this.formatValue()}`;
+  }
+
+  private formatValue(): string {
+    const { unit, decimals } = this.options;
+    return `${this.currentValue.toFixed(decimals)}${unit}`;
   }
 
   /**
@@ -179,7 +189,7 @@ export class Slider extends Container {
    * Update value based on pointer position
    */
   private updateValueFromPosition(globalX: number, globalY: number): void {
-    const { width, min, max, step } = this.options;
+    const { width, min, max } = this.options;
 
     // Convert global position to local
     // Important: use both x/y so this works when the slider (or parent scene) is rotated.
@@ -189,10 +199,17 @@ export class Slider extends Container {
     const ratio = Math.max(0, Math.min(1, localPos.x / width));
 
     // Calculate raw value
-    let newValue = min + ratio * (max - min);
+    this.applyValue(min + ratio * (max - min));
+  }
+
+  /**
+   * Snap a value to the step, clamp it and notify if it changed
+   */
+  private applyValue(rawValue: number): void {
+    const { min, max, step } = this.options;
 
     // Snap to step
-    newValue = Math.round(newValue / step) * step;
+    let newValue = Math.round(rawValue / step) * step;
 
     // Clamp to range
     newValue = Math.max(min, Math.min(max, newValue));
@@ -205,6 +222,36 @@ export class Slider extends Container {
     }
   }
 
+  focusAdjust(amount: number): void {
+    const { min, max, step } = this.options;
+
+    // Small per-frame moves add up until they reach a whole step
+    this.pendingAdjust += amount * (max - min);
+    const steps = Math.trunc(this.pendingAdjust / step);
+    if (steps === 0) return;
+
+    this.pendingAdjust -= steps * step;
+    this.applyValue(this.currentValue + steps * step);
+  }
+
+  getAccessibleInfo(): AccessibleInfo {
+    const { label, min, max, step } = this.options;
+    return {
+      role: 'slider',
+      label,
+      value: this.currentValue,
+      min,
+      max,
+      step,
+      valueText: this.formatValue(),
+    };
+  }
+
+  setAccessibleValue(value: string): void {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) this.applyValue(parsed);
+  }
+
   /**
    * Get current value
    */
@@ -1,6 +1,9 @@
 import { NineSlicePlane } from '@pixi/mesh-extras';
 import { Container, Graphics, Texture, Sprite, Assets } from 'pixi.js';
 
+import type { TextDirection } from '../core/I18n';
+import { themeManager, type Themeable } from '../core/ThemeManager';
+
 /**
  * SpeechBubble Options
  */
@@ -31,6 +34,8 @@ export interface SpeechBubbleOptions {
   tailTip?: { x: number; y: number };
   /** Tail side ('left' | 'right') */
   tailSide?: 'left' | 'right';
+  /** Reading direction of the content, used by alignInline() (default 'ltr') */
+  direction?: TextDirection;
   /** Tail configuration (only used if texture not provided) */
   tail?: {
     baseWidth: number;
@@ -43,9 +48,11 @@ export interface SpeechBubbleOptions {
 /**
  * SpeechBubble Component
  *
- * A reusable speech bubble using 9-slice scaling or graphics fallback
+ * A reusable speech bubble using 9-slice scaling or graphics fallback.
+ * Content is placed by the caller; alignInline() gives start/end positions that
+ * follow the bubble's reading direction (start is the right edge for RTL text).
  */
-export class SpeechBubble extends Container {
+export class SpeechBubble extends Container implements Themeable {
   private options: SpeechBubbleOptions;
   private background: Graphics | NineSlicePlane | Sprite | null = null;
   private texture: Texture | null = null;
@@ -59,6 +66,7 @@ export class SpeechBubble extends Container {
     // Default values
     this.options = {
       tailSide: 'right',
+      direction: 'ltr',
       sliceMargins: [20, 20, 20, 20], // Default margins for 9-slice
       textureDefaultTailSide: 'left',
       ...options,
@@ -163,6 +171,14 @@ export class SpeechBubble extends Container {
     this.draw();
   }
 
+  /**
+   * Redraw the graphics fallback in the theme's bubble colors
+   * (textured bubbles keep their texture)
+   */
+  applyTheme(): void {
+    this.draw();
+  }
+
   /**
    * Draw the speech bubble (graphics fallback)
    */
@@ -170,8 +186,7 @@ export class SpeechBubble extends Container {
     if (!(this.background instanceof Graphics)) return;
 
     const { width, height } = this.options;
-    const bgColor = 0xfff8e7;
-    const borderColor = 0xc4a574;
+    const { bubble: bgColor, bubbleBorder: borderColor } = themeManager.theme.colors;
     const borderWidth = 3;
     const radius = 20;
     const tail = this.options.tail || {
@@ -255,6 +270,24 @@ export class SpeechBubble extends Container {
     }
   }
 
+  /**
+   * Update the reading direction (e.g. when the next line is in another script)
+   */
+  public setDirection(direction: TextDirection): void {
+    this.options.direction = direction;
+  }
+
+  /**
+   * X of an item placed against the start or end edge of the bubble
+   * @param itemWidth Width of the item (its origin is its left edge)
+   * @param padding Distance from the bubble edge
+   * @param edge 'start' = reading start (left for LTR, right for RTL)
+   */
+  public alignInline(itemWidth: number, padding: number, edge: 'start' | 'end' = 'start'): number {
+    const atLeft = (edge === 'start') === (this.options.direction !== 'rtl');
+    return atLeft ? padding : this.options.width - padding - itemWidth;
+  }
+
   /**
    * Update size
    */
@@ -1,5 +1,8 @@
 import { Container, Graphics, Text, TextStyle } from 'pixi.js';
 
+import type { Accessible, AccessibleInfo } from '../core/AccessibilityLayer';
+import { themeManager, type Theme, type Themeable } from '../core/ThemeManager';
+
 export interface ToggleOptions {
   /** Toggle label */
   label: string;
@@ -19,8 +22,9 @@ export interface ToggleOptions {
  * Toggle
  *
  * A PixiJS-based toggle/checkbox component.
+ * Screen readers see it as a switch.
  */
-export class Toggle extends Container {
+export class Toggle extends Container implements Accessible, Themeable {
   private options: ToggleOptions;
   private bg: Graphics;
   private knob: Graphics;
@@ -40,41 +44,40 @@ export class Toggle extends Container {
     this.bg = new Graphics();
     this.knob = new Graphics();
     const fontSize = options.fontSize ?? 12;
-    this.labelText = new Text(
-      options.label,
-      new TextStyle({
-        fontFamily: 'Arial, sans-serif',
-        fontSize: fontSize,
-        fill: '#ffffff',
-        fontWeight: 'bold',
-      })
-    );
+    this.labelText = new Text(options.label, new TextStyle({ fontSize, fontWeight: 'bold' }));
     this.labelText.resolution = 2;
 
     this.addChild(this.bg);
     this.addChild(this.knob);
     this.addChild(this.labelText);
 
-    this.draw();
+    this.applyTheme(themeManager.theme);
     this.setupInteraction();
   }
 
+  applyTheme(theme: Theme): void {
+    this.labelText.style.fontFamily = theme.typography.fontFamily;
+    this.labelText.style.fill = theme.colors.text;
+    this.draw();
+  }
+
   private draw(): void {
     const isHorizontal = this.options.horizontal ?? false;
     const totalWidth = this.options.width ?? 200;
+    const { colors } = themeManager.theme;
 
     // Calculate track X position for horizontal layout
     const trackX = isHorizontal ? totalWidth - this.trackWidth : 0;
 
     // Track background
     this.bg.clear();
-    this.bg.beginFill(this.currentValue ? 0xff671d : 0x333333);
+    this.bg.beginFill(this.currentValue ? colors.accent : colors.surface);
     this.bg.drawRoundedRect(trackX, 0, this.trackWidth, this.trackHeight, this.trackHeight / 2);
     this.bg.endFill();
 
     // Knob
     this.knob.clear();
-    this.knob.beginFill(0xffffff);
+    this.knob.beginFill(colors.knob);
     this.knob.drawCircle(0, 0, this.knobRadius);
     this.knob.endFill();
 
@@ -126,6 +129,14 @@ export class Toggle extends Container {
     this.options.onChange(this.currentValue);
   };
 
+  focusActivate(): void {
+    this.onToggle();
+  }
+
+  getAccessibleInfo(): AccessibleInfo {
+    return { role: 'switch', label: this.options.label, checked: this.currentValue };
+  }
+
   get value(): boolean {
     return this.currentValue;
   }
@@ -5,6 +5,8 @@
  * All timing values in seconds, distances in pixels.
  */
 
+import { settingsStore, type SettingsSchema } from '../core/SettingsStore';
+
 /** Card stack configuration */
 export const CARD_CONFIG = {
   /** Pixels between cards in a stack */
@@ -70,7 +72,7 @@ export const TOGGLE_DEFAULTS = {
   realisticShadows: true,
   /** Animation mode: 'linear' or 'spiral' */
   animationMode: 'spiral' as 'linear' | 'spiral',
-  /** Keep settings between scene visits */
+  /** Keep settings between scene visits and page reloads */
   keepSettings: false,
 };
 
@@ -394,7 +396,7 @@ export const TRIPEAKS_CONFIG = {
 };
 
 /**
- * Runtime settings state - preserved between scene visits if keepSettings is true
+ * Runtime settings state - persisted (localStorage) while keepSettings is true
  */
 export interface AceOfShadowsState {
   interval: number;
@@ -408,26 +410,41 @@ export interface AceOfShadowsState {
   activeDeck: 'left' | 'right';
 }
 
-/** Singleton to hold preserved settings */
-let preservedSettings: AceOfShadowsState | null = null;
+/** Persisted settings schema, validated against the slider ranges */
+export const SETTINGS_SCHEMA: SettingsSchema<AceOfShadowsState> = {
+  version: 1,
+  defaults: getDefaultSettings,
+  rules: {
+    interval: TIMING_SLIDER,
+    duration: TIMING_SLIDER,
+    motionBlur: BLUR_SLIDER,
+    arcHeightA: ARC_SLIDER,
+    arcHeightB: ARC_SLIDER,
+    animationMode: { oneOf: ['linear', 'spiral'] },
+    activeDeck: { oneOf: ['left', 'right'] },
+  },
+};
+
+/** Stored settings (Literal Task) */
+const storedSettings = settingsStore.namespace('aceOfShadows', SETTINGS_SCHEMA);
 
 /** Get preserved settings or null if none/not keeping */
 export function getPreservedSettings(): AceOfShadowsState | null {
-  return preservedSettings;
+  return storedSettings.load();
 }
 
-/** Save current settings for next visit */
+/** Persist current settings, or forget them when keepSettings is off */
 export function saveSettings(settings: AceOfShadowsState): void {
   if (settings.keepSettings) {
-    preservedSettings = { ...settings };
+    storedSettings.save(settings);
   } else {
-    preservedSettings = null;
+    storedSettings.clear();
   }
 }
 
 /** Clear preserved settings */
 export function clearPreservedSettings(): void {
-  preservedSettings = null;
+  storedSettings.clear();
 }
 
 /** Get default settings */
@@ -0,0 +1,120 @@
+/**
+ * Asset Manifest
+ *
+ * Declarative list of asset bundles, one per game scene and one per mode.
+ * Bundles are loaded through AssetLoader (app.assets); files shared by several
+ * bundles (e.g. the flame spritesheet) are only downloaded and parsed once.
+ *
+ * Aliases are what scenes/modes pass to app.assets.getTexture()/getSpritesheet().
+ * `bytes` is the file size on disk, for the loading bar's byte progress
+ * (the manifest test fails when a file changes without its size).
+ */
+
+import bigbangBgPng from '../assets/sprites/bigbang-bg/bigbang-bg.png';
+import bigbangChars0Json from '../assets/sprites/bigbang-chars/bigbang-chars-0.json';
+import bigbangChars0Png from '../assets/sprites/bigbang-chars/bigbang-chars-0.png';
+import bigbangChars1Json from '../assets/sprites/bigbang-chars/bigbang-chars-1.json';
+import bigbangChars1Png from '../assets/sprites/bigbang-chars/bigbang-chars-1.png';
+import dialogBubblePng from '../assets/sprites/dialog/dialog-bubble.png';
+import flameEggSheetJson from '../assets/sprites/flame-egg-levels/flame-egg.json';
+import flameEggSheetPng from '../assets/sprites/flame-egg-levels/flame-egg.png';
+import flameSheetJson from '../assets/sprites/flame-hq/flames-hq-spritesheet.json';
+import flameSheetPng from '../assets/sprites/flame-hq/flames-hq.png';
+import flameLqSheetJson from '../assets/sprites/flame-lq/flame-spritesheet.json';
+import flameLqSheetPng from '../assets/sprites/flame-lq/Group 7 - 1.png';
+import phoenixFlameBgJpeg from '../assets/sprites/phoenix-flame/phoenix-flame-bg.jpeg';
+import aceSheetJson from '../assets/sprites/ultimate-minimalist-card-asset/ace-of-shadows-spritesheet.json';
+import aceSheetPng from '../assets/sprites/ultimate-minimalist-card-asset/ace-of-shadows-spritesheet.png';
+import type { AssetEntry, AssetManifest } from '../core/AssetLoader';
+
+// ============================================================
+// Shared entries
+// ============================================================
+
+const BIGBANG_BG: AssetEntry = { alias: 'bigbang-bg', src: bigbangBgPng, bytes: 2_539_119 };
+
+const FLAME_SPRITESHEET: AssetEntry = {
+  alias: 'phoenix-flame-spritesheet',
+  src: flameSheetPng,
+  spritesheet: flameSheetJson,
+  bytes: 594_122,
+};
+
+/** Small flame frames for the low quality tier (meta.scale displays them at the HQ size) */
+const FLAME_SPRITESHEET_LQ: AssetEntry = {
+  alias: 'phoenix-flame-spritesheet-lq',
+  src: flameLqSheetPng,
+  spritesheet: flameLqSheetJson,
+  // Same frame names as the HQ sheet
+  framePrefix: 'lq-',
+  bytes: 5_431,
+};
+
+// ============================================================
+// Bundles
+// ============================================================
+
+/**
+ * Every bundle in the app, keyed by bundle name
+ */
+export const ASSET_MANIFEST = {
+  /** Ace of Shadows scene: cards + castle background (one spritesheet) */
+  'ace-of-shadows': [
+    { alias: 'ace-of-shadows', src: aceSheetPng, spritesheet: aceSheetJson, bytes: 3_834_242 },
+  ],
+
+  /** Magic Words scene: selection screen background */
+  'magic-words': [BIGBANG_BG],
+
+  /** Magic Words creative: Big Bang cast, background and speech bubble */
+  'magic-words-creative': [
+    {
+      alias: 'bigbang-chars-0',
+      src: bigbangChars0Png,
+      spritesheet: bigbangChars0Json,
+      bytes: 3_119_481,
+    },
+    {
+      alias: 'bigbang-chars-1',
+      src: bigbangChars1Png,
+      spritesheet: bigbangChars1Json,
+      bytes: 3_228_884,
+    },
+    BIGBANG_BG,
+    { alias: 'dialog-bubble', src: dialogBubblePng, bytes: 37_870 },
+  ],
+
+  /** Phoenix Flame scene: selection screen background */
+  'phoenix-flame': [{ alias: 'phoenix-flame-bg', src: phoenixFlameBgJpeg, bytes: 134_129 }],
+
+  /** Phoenix Flame literal: HQ flame animation (+ LQ frames for the low quality tier) */
+  'phoenix-flame-literal': [FLAME_SPRITESHEET, FLAME_SPRITESHEET_LQ],
+
+  /** Phoenix Flame creative: flame + flame-egg evolution + Spine phoenix */
+  'phoenix-flame-creative': [
+    FLAME_SPRITESHEET,
+    {
+      alias: 'flame-egg-spritesheet',
+      src: flameEggSheetPng,
+      spritesheet: flameEggSheetJson,
+      // Avoids collisions with the Ace of Shadows frame names
+      framePrefix: 'flame-',
+      bytes: 1_400_290,
+    },
+    // public/spine/ is not processed by Vite - the atlas references phoenix.png by name
+    {
+      alias: 'phoenixSkeleton',
+      src: import.meta.env.BASE_URL + 'spine/phoenix.json',
+      bytes: 8_370,
+    },
+    {
+      alias: 'phoenixAtlas',
+      src: import.meta.env.BASE_URL + 'spine/phoenix.atlas',
+      // The atlas (659 B) and the page image it loads (phoenix.png)
+      bytes: 354_562,
+    },
+  ],
+} satisfies AssetManifest;
+
+/** Name of a bundle in ASSET_MANIFEST */
+export type AssetBundleName = keyof typeof ASSET_MANIFEST;
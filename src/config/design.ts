@@ -9,7 +9,7 @@ export const DESIGN = {
   /** Padding around the menu container */
   padding: 40,
 
-  /** Title bar (orange BESTGAMES banner) */
+  /** Title bar (BESTGAMES banner, brand color of the theme) */
   title: {
     fontSize: 42,
     paddingX: 20,
@@ -20,7 +20,21 @@ export const DESIGN = {
   /** Subtitle text */
   subtitle: {
     fontSize: 18,
-    marginBottom: 40,
+    marginBottom: 16,
+  },
+
+  /** Language, theme and quality dropdowns below the subtitle, side by side */
+  pickers: {
+    width: 160,
+    fontSize: 14,
+    gap: 12,
+    marginBottom: 28,
+  },
+
+  /** Menu section titles (only shown when the games span several categories) */
+  section: {
+    fontSize: 20,
+    marginBottom: 14,
   },
 
   /** Game thumbnail tiles */
@@ -36,9 +50,3 @@ export const DESIGN = {
     overlayButtonHeight: 44,
   },
 } as const;
-
-/** Orange brand color used for title bar and accents */
-export const BRAND_ORANGE = 0xf7941d;
-
-/** Orange color for "CLICK TO PLAY" text/icon */
-export const ACCENT_ORANGE = '#FF671D';
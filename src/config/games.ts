@@ -0,0 +1,64 @@
+/**
+ * Game Definitions
+ *
+ * One entry per game, registered with the GameRegistry (app.games) by the
+ * entry point. The main menu tiles and the #/<game>/<mode> routes are built
+ * from this list; GAMES in sharedSettings.ts hides or disables games per build.
+ *
+ * Scenes are imported dynamically so each game stays in its own chunk.
+ */
+
+import aceThumbUrl from '../assets/sprites/thumbnails/ace-of-shadows-thumbnail.png';
+import magicThumbUrl from '../assets/sprites/thumbnails/magic-words-thumbnail.png';
+import phoenixThumbUrl from '../assets/sprites/thumbnails/phoenix-flames-thumbnail.png';
+import type { GameDefinition } from '../core/GameRegistry';
+
+import type { AssetBundleName } from './assetManifest';
+
+/** Game definition whose bundle is checked against config/assetManifest.ts */
+type GameEntry = GameDefinition & { bundle: AssetBundleName };
+
+export const GAME_DEFINITIONS = [
+  {
+    key: 'ace',
+    titleKey: 'ace.title',
+    descriptionKey: 'ace.description',
+    thumbnailUrl: aceThumbUrl,
+    bundle: 'ace-of-shadows',
+    modes: ['literal', 'creative'],
+    category: 'menu.category.tasks',
+    order: 1,
+    createScene: async (app, game, hooks) => {
+      const { AceOfShadowsScene } = await import('../scenes/AceOfShadowsScene');
+      return new AceOfShadowsScene(app, game, hooks);
+    },
+  },
+  {
+    key: 'magic',
+    titleKey: 'magic.title',
+    descriptionKey: 'magic.description',
+    thumbnailUrl: magicThumbUrl,
+    bundle: 'magic-words',
+    modes: ['literal', 'creative'],
+    category: 'menu.category.tasks',
+    order: 2,
+    createScene: async (app, game, hooks) => {
+      const { MagicWordsScene } = await import('../scenes/MagicWordsScene');
+      return new MagicWordsScene(app, game, hooks);
+    },
+  },
+  {
+    key: 'phoenix',
+    titleKey: 'phoenix.title',
+    descriptionKey: 'phoenix.description',
+    thumbnailUrl: phoenixThumbUrl,
+    bundle: 'phoenix-flame',
+    modes: ['literal', 'creative'],
+    category: 'menu.category.tasks',
+    order: 3,
+    createScene: async (app, game, hooks) => {
+      const { PhoenixFlameScene } = await import('../scenes/PhoenixFlameScene');
+      return new PhoenixFlameScene(app, game, hooks);
+    },
+  },
+] satisfies GameEntry[];
@@ -0,0 +1,17 @@
+/**
+ * Locale Catalogs
+ *
+ * UI strings per locale (src/locales/<locale>.json), looked up through I18n by
+ * flat keys grouped by area: `common.*`, `menu.*`, then one prefix per game.
+ * Supported locales and their text direction are listed in I18N (sharedSettings).
+ *
+ * en.json is the reference catalog: add new keys there first. Keys missing from
+ * another locale fall back to English until they are translated.
+ */
+
+import type { LocaleCatalog } from '../core/I18n';
+import ar from '../locales/ar.json';
+import en from '../locales/en.json';
+import es from '../locales/es.json';
+
+export const LOCALE_CATALOGS = { en, es, ar } satisfies Record<string, LocaleCatalog>;
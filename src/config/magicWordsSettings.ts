@@ -4,6 +4,9 @@
  * Task 2: Text + inline emoji rendering system
  */
 
+import { settingsStore, type SettingsSchema } from '../core/SettingsStore';
+import type { ThemeOverrides } from '../core/ThemeManager';
+
 /** API endpoint for dialogue data */
 export const API_URL = 'https://private-624120-softgamesassignment.apiary-mock.com/v2/magicwords';
 
@@ -127,6 +130,10 @@ export const DIALOGUE_CONFIG = {
     sideOffset: 5,
     /** Y offset for avatar position (0 = default, negative = up, positive = down) */
     yOffset: 0,
+    /** Min Y offset for slider */
+    minYOffset: -300,
+    /** Max Y offset for slider */
+    maxYOffset: 300,
   },
   /** Dialog box size settings */
   dialogBox: {
@@ -169,6 +176,11 @@ export const SELECTION_PANEL = {
   buttonRadius: 12,
 };
 
+/** Theme tokens while Magic Words runs: blue "Literal Task" for text/dialogue */
+export const THEME_OVERRIDES = {
+  colors: { modeLiteral: 0x1565c0 },
+} satisfies ThemeOverrides;
+
 // ============================================================
 // Settings Panel UI
 // ============================================================
@@ -191,6 +203,13 @@ export const SETTINGS_PANEL_UI = {
   topOffset: 10,
 };
 
+/** Fake lag slider (seconds, for debugging the loading screen) */
+export const FAKE_LAG_SLIDER = {
+  min: 0,
+  max: 4,
+  step: 0.5,
+};
+
 // ============================================================
 // Presets
 // ============================================================
@@ -200,7 +219,8 @@ export interface DialoguePreset {
   dialogBox: number;
   avatarSize: number;
   yOffset: number;
-  label: string;
+  /** Catalog key of the dropdown label */
+  labelKey: string;
 }
 
 /** Available presets */
@@ -209,13 +229,13 @@ export const PRESETS: Record<string, DialoguePreset> = {
     dialogBox: 800,
     avatarSize: 500,
     yOffset: 0,
-    label: 'Option A (Default)',
+    labelKey: 'magic.preset.a',
   },
   B: {
     dialogBox: 1040,
     avatarSize: 360,
     yOffset: -150,
-    label: 'Option B (Compact)',
+    labelKey: 'magic.preset.b',
   },
 };
 
@@ -223,7 +243,7 @@ export const PRESETS: Record<string, DialoguePreset> = {
 // Settings Persistence
 // ============================================================
 
-/** Current settings state (persisted across scene visits) */
+/** Current settings state (persisted in localStorage while keepSettings is on) */
 export interface MagicWordsSettings {
   dialogBoxWidth: number;
   avatarSize: number;
@@ -246,22 +266,41 @@ export function getDefaultSettings(): MagicWordsSettings {
   };
 }
 
-/** Singleton for preserved settings (persists across scene visits) */
-let preservedSettings: Partial<MagicWordsSettings> | null = null;
+/** Persisted settings schema, validated against the slider ranges */
+export const SETTINGS_SCHEMA: SettingsSchema<MagicWordsSettings> = {
+  version: 1,
+  defaults: getDefaultSettings,
+  rules: {
+    dialogBoxWidth: {
+      min: DIALOGUE_CONFIG.dialogBox.minWidth,
+      max: DIALOGUE_CONFIG.dialogBox.maxWidth,
+    },
+    avatarSize: { min: DIALOGUE_CONFIG.avatar.minSize, max: DIALOGUE_CONFIG.avatar.maxSize },
+    avatarYOffset: {
+      min: DIALOGUE_CONFIG.avatar.minYOffset,
+      max: DIALOGUE_CONFIG.avatar.maxYOffset,
+    },
+    preset: { oneOf: Object.keys(PRESETS) },
+    fakeLag: FAKE_LAG_SLIDER,
+  },
+};
+
+/** Stored settings (Literal Task) */
+const storedSettings = settingsStore.namespace('magicWords', SETTINGS_SCHEMA);
 
 /** Get preserved settings if "Keep Settings" was enabled */
-export function getPreservedSettings(): Partial<MagicWordsSettings> | null {
-  return preservedSettings;
+export function getPreservedSettings(): MagicWordsSettings | null {
+  return storedSettings.load();
 }
 
 /** Save current settings (called when "Keep Settings" is on) */
 export function saveSettings(settings: Partial<MagicWordsSettings>): void {
-  preservedSettings = { ...preservedSettings, ...settings };
+  storedSettings.save({ ...getDefaultSettings(), ...storedSettings.load(), ...settings });
 }
 
 /** Clear preserved settings */
 export function clearPreservedSettings(): void {
-  preservedSettings = null;
+  storedSettings.clear();
 }
 
 // ============================================================
@@ -6,6 +6,10 @@
  * This config centralizes all flame animation settings and constraints.
  */
 
+import type { FixedStepOptions } from '../core/FixedStepClock';
+import { settingsStore, type SettingsSchema } from '../core/SettingsStore';
+import type { ThemeOverrides } from '../core/ThemeManager';
+
 // ============================================================
 // Sprite Budget (MUST NOT EXCEED 10)
 // ============================================================
@@ -32,6 +36,10 @@ export const FLAME_CONFIG = {
   /** Scale multiplier for the flame sprite (HQ flames are 192x1024, so smaller scale needed) */
   scale: 1.1,
 
+  /** Min/max flame scale for slider */
+  scaleMin: 0.1,
+  scaleMax: 1.5,
+
   /** Anchor point (0.5, 1.0 = bottom-center so scaling happens from base) */
   anchor: { x: 0.5, y: 1.0 },
 
@@ -43,6 +51,17 @@ export const FLAME_CONFIG = {
   frameHeight: 700,
 } as const;
 
+// ============================================================
+// Physics Clock (fixed timestep)
+// ============================================================
+export const SIMULATION_CONFIG = {
+  /** Physics step: 120 steps per second whatever the display refresh rate */
+  stepMs: 1000 / 120,
+
+  /** At most 100ms of physics per frame (long frames, the first frame after resuming) */
+  maxStepsPerFrame: 12,
+} satisfies FixedStepOptions;
+
 // ============================================================
 // Particle Settings (Emitter-based system)
 // ============================================================
@@ -165,6 +184,11 @@ export const SELECTION_PANEL = {
   buttonRadius: 10,
 } as const;
 
+/** Theme tokens while Phoenix Flame runs: deep orange "Literal Task" for fire */
+export const THEME_OVERRIDES = {
+  colors: { modeLiteral: 0xe65100 },
+} satisfies ThemeOverrides;
+
 // ============================================================
 // Design Bounds
 // ============================================================
@@ -174,3 +198,97 @@ export const DESIGN_BOUNDS = {
   width: 800,
   height: 720,
 } as const;
+
+// ============================================================
+// Settings Persistence
+// ============================================================
+
+/** Literal Task settings (persisted in localStorage while keepSettings is on) */
+export interface PhoenixFlameSettings {
+  scale: number;
+  particleMaxScale: number;
+  height: number;
+  spread: number;
+  floorOffset: number;
+  flameYOffset: number;
+  landingPause: number;
+  shrinkOffset: number;
+  bigFlamePivotOffset: number;
+  showPivotMarker: boolean;
+  spawnHeightRange: number;
+  gravity: number;
+  angleThreshold: number;
+  speedThreshold: number;
+  keepSettings: boolean;
+}
+
+/** Default settings values */
+export function getDefaultSettings(): PhoenixFlameSettings {
+  return {
+    scale: FLAME_CONFIG.scale,
+    particleMaxScale: PARTICLE_CONFIG.peakScale,
+    height: PARTICLE_CONFIG.heightMultiplier,
+    spread: PARTICLE_CONFIG.angleSpread,
+    floorOffset: PARTICLE_CONFIG.floorExtraOffset,
+    flameYOffset: PARTICLE_CONFIG.flameYOffset,
+    landingPause: PARTICLE_CONFIG.landingPause,
+    shrinkOffset: PARTICLE_CONFIG.shrinkOffset,
+    bigFlamePivotOffset: PARTICLE_CONFIG.bigFlamePivotOffset,
+    showPivotMarker: false,
+    spawnHeightRange: PARTICLE_CONFIG.spawnHeightRange,
+    gravity: PARTICLE_CONFIG.gravity,
+    angleThreshold: PARTICLE_CONFIG.angleThreshold,
+    speedThreshold: PARTICLE_CONFIG.speedThreshold,
+    keepSettings: false,
+  };
+}
+
+/** Persisted settings schema, validated against the slider ranges */
+export const SETTINGS_SCHEMA: SettingsSchema<PhoenixFlameSettings> = {
+  version: 1,
+  defaults: getDefaultSettings,
+  rules: {
+    scale: { min: FLAME_CONFIG.scaleMin, max: FLAME_CONFIG.scaleMax },
+    particleMaxScale: { min: PARTICLE_CONFIG.peakScaleMin, max: PARTICLE_CONFIG.peakScaleMax },
+    height: { min: PARTICLE_CONFIG.heightMultiplierMin, max: PARTICLE_CONFIG.heightMultiplierMax },
+    spread: { min: PARTICLE_CONFIG.angleSpreadMin, max: PARTICLE_CONFIG.angleSpreadMax },
+    floorOffset: { min: PARTICLE_CONFIG.floorOffsetMin, max: PARTICLE_CONFIG.floorOffsetMax },
+    flameYOffset: { min: PARTICLE_CONFIG.flameYOffsetMin, max: PARTICLE_CONFIG.flameYOffsetMax },
+    landingPause: { min: PARTICLE_CONFIG.landingPauseMin, max: PARTICLE_CONFIG.landingPauseMax },
+    shrinkOffset: { min: PARTICLE_CONFIG.shrinkOffsetMin, max: PARTICLE_CONFIG.shrinkOffsetMax },
+    bigFlamePivotOffset: {
+      min: PARTICLE_CONFIG.bigFlamePivotOffsetMin,
+      max: PARTICLE_CONFIG.bigFlamePivotOffsetMax,
+    },
+    spawnHeightRange: {
+      min: PARTICLE_CONFIG.spawnHeightRangeMin,
+      max: PARTICLE_CONFIG.spawnHeightRangeMax,
+    },
+    gravity: { min: PARTICLE_CONFIG.gravityMin, max: PARTICLE_CONFIG.gravityMax },
+    angleThreshold: {
+      min: PARTICLE_CONFIG.angleThresholdMin,
+      max: PARTICLE_CONFIG.angleThresholdMax,
+    },
+    speedThreshold: {
+      min: PARTICLE_CONFIG.speedThresholdMin,
+      max: PARTICLE_CONFIG.speedThresholdMax,
+    },
+  },
+};
+
+/** Stored settings (Literal Task) */
+const storedSettings = settingsStore.namespace('phoenixFlame', SETTINGS_SCHEMA);
+
+/** Get preserved settings or null if none/not keeping */
+export function getPreservedSettings(): PhoenixFlameSettings | null {
+  return storedSettings.load();
+}
+
+/** Persist current settings, or forget them when keepSettings is off */
+export function saveSettings(settings: PhoenixFlameSettings): void {
+  if (settings.keepSettings) {
+    storedSettings.save(settings);
+  } else {
+    storedSettings.clear();
+  }
+}
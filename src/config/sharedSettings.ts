@@ -5,6 +5,25 @@
  * Task-specific settings should be in their own config files.
  */
 
+import type { AccessibilityOptions } from '../core/AccessibilityLayer';
+import type { CaptureOptions } from '../core/CaptureService';
+import type { ContextRecoveryOptions } from '../core/ContextRecovery';
+import type { GamepadOptions } from '../core/GamepadInput';
+import type { GameRegistryOptions } from '../core/GameRegistry';
+import type { I18nOptions } from '../core/I18n';
+import type { InputAction, KeyBindings } from '../core/InputManager';
+import type { PauseOptions } from '../core/PauseService';
+import type { PwaOptions } from '../core/PwaUpdater';
+import type { QualityOptions } from '../core/QualityManager';
+import type { RandomOptions } from '../core/Random';
+import type { SceneInspectorOptions } from '../core/SceneInspector';
+import type { TransitionOptions } from '../core/SceneTransition';
+import type { SettingsStoreOptions } from '../core/SettingsStore';
+import type { SoundOptions } from '../core/SoundManager';
+import type { ThemeOptions } from '../core/ThemeManager';
+
+import { BUILT_IN_THEMES } from './themes';
+
 /**
  * Scene layout configuration (used by BaseGameScene layout logic)
  *
@@ -63,3 +82,372 @@ export interface ScreenPadding {
   top: number;
   bottom: number;
 }
+
+/**
+ * Transition presets used for navigation.
+ *
+ * Durations are in seconds. See SceneTransition for the available effects.
+ */
+export const SCENE_TRANSITIONS = {
+  /** Main menu → game scene */
+  enterGame: { type: 'iris', duration: 0.6 },
+
+  /** Game scene → main menu */
+  exitGame: { type: 'fade', duration: 0.4, color: 0x000000 },
+
+  /** Selection screen ↔ Literal/Creative mode inside a game scene */
+  subMode: { type: 'crossfade', duration: 0.35 },
+
+  /** Overlay pushed on top of a paused scene (win dialogs, messages) */
+  overlay: { type: 'crossfade', duration: 0.25 },
+} satisfies Record<string, TransitionOptions>;
+
+/**
+ * Asset lifecycle (see AssetLoader).
+ *
+ * Bundles are unloaded once no scene or mode uses them; keeping them warm for a
+ * while avoids re-downloading when the player bounces between games.
+ */
+export const ASSET_LIFECYCLE = {
+  /** Time (ms) an unused bundle stays loaded - also how long menu prefetches survive */
+  keepWarmMs: 30_000,
+};
+
+/**
+ * App-wide pause (see PauseService).
+ *
+ * The app always pauses while the tab is hidden; these tune the rest.
+ */
+export const PAUSE = {
+  /** Pause while another window has focus (the game is usually not being watched) */
+  pauseOnBlur: true,
+} satisfies PauseOptions;
+
+/**
+ * WebGL context loss (see ContextRecovery).
+ *
+ * The app pauses behind a "restoring graphics" overlay until the browser
+ * gives the context back, then resumes the current scene with its textures restored.
+ */
+export const CONTEXT_RECOVERY = {
+  /** Browsers usually restore within a second; after this, offer a reload */
+  reloadPromptMs: 5000,
+} satisfies ContextRecoveryOptions;
+
+/**
+ * Scene-graph inspector (see SceneInspector, dev builds only).
+ *
+ * F2 opens the live display tree of the current scene for layout debugging.
+ */
+export const SCENE_INSPECTOR = {
+  /** Re-read the tree four times a second (rebuilding the list every frame is too heavy) */
+  refreshMs: 250,
+  /** Magenta stands out against every theme */
+  highlightColor: 0xff00ff,
+  /** Enough for a card stack; particle pools get summarised */
+  maxChildren: 200,
+} satisfies SceneInspectorOptions;
+
+/**
+ * Offline support (see PwaUpdater and src/serviceWorker.ts).
+ *
+ * Production builds register a service worker that precaches the whole game;
+ * when a new build is deployed, an "update available" prompt offers a reload.
+ */
+export const PWA = {
+  /** Emitted by the service worker plugin in vite.config.ts */
+  scriptUrl: 'sw.js',
+  /** Check for a new build every 30 minutes */
+  updateCheckMs: 30 * 60 * 1000,
+} satisfies PwaOptions;
+
+/**
+ * Error reporting (see ErrorHandler and core/ErrorReporters.ts).
+ *
+ * Every handled error goes to the console and an in-memory log; the sinks below
+ * are opt-in through env vars so a local test server or harness can collect them.
+ */
+export const ERROR_REPORTING = {
+  /** Errors kept in the in-memory log (error console + JSON export) */
+  bufferSize: 100,
+
+  /** POST each report here as JSON (VITE_ERROR_ENDPOINT, e.g. http://localhost:4000/errors) */
+  httpEndpoint: (import.meta.env.VITE_ERROR_ENDPOINT as string | undefined) ?? '',
+
+  /** When embedded in an iframe, post reports to a parent with this origin (VITE_ERROR_PARENT_ORIGIN) */
+  parentOrigin: (import.meta.env.VITE_ERROR_PARENT_ORIGIN as string | undefined) ?? '',
+};
+
+/**
+ * Keyboard input (see InputManager).
+ *
+ * Keys are KeyboardEvent.key values with letters lowercased and ' ' as 'Space'.
+ * Players can rebind them from the cheat-sheet (press ?); their choice is stored locally.
+ */
+export const INPUT = {
+  /** localStorage key of the player's bindings */
+  storageKey: 'bestgames.keyBindings',
+
+  /** Default bindings */
+  bindings: {
+    back: ['Escape', 'Backspace'],
+    confirm: ['Enter'],
+    advance: ['Space'],
+    'draw-from-stock': ['d'],
+    'toggle-settings': ['s'],
+    help: ['?'],
+    'focus-up': ['ArrowUp'],
+    'focus-down': ['ArrowDown'],
+    'focus-left': ['ArrowLeft'],
+    'focus-right': ['ArrowRight'],
+    'previous-layout': ['['],
+    'next-layout': [']'],
+    screenshot: ['F8'],
+    'record-clip': ['F9'],
+    'toggle-inspector': ['F2'],
+  } satisfies KeyBindings,
+
+  /** Catalog keys of the cheat-sheet labels (also the listing order, see src/locales/) */
+  labelKeys: {
+    back: 'input.action.back',
+    confirm: 'input.action.confirm',
+    advance: 'input.action.advance',
+    'draw-from-stock': 'input.action.drawFromStock',
+    'toggle-settings': 'input.action.toggleSettings',
+    help: 'input.action.help',
+    'focus-up': 'input.action.focusUp',
+    'focus-down': 'input.action.focusDown',
+    'focus-left': 'input.action.focusLeft',
+    'focus-right': 'input.action.focusRight',
+    'previous-layout': 'input.action.previousLayout',
+    'next-layout': 'input.action.nextLayout',
+    screenshot: 'input.action.screenshot',
+    'record-clip': 'input.action.recordClip',
+    'toggle-inspector': 'input.action.toggleInspector',
+  } satisfies Record<InputAction, string>,
+};
+
+/**
+ * Gamepad input (see GamepadInput).
+ *
+ * Button indices follow the W3C "standard" mapping (Xbox layout names below).
+ * A button tries its actions in order until one is handled, so A presses the
+ * focused button and otherwise advances dialogue.
+ */
+export const GAMEPAD = {
+  buttons: {
+    /** A */
+    0: ['confirm', 'advance'],
+    /** B */
+    1: ['back'],
+    /** X */
+    2: ['draw-from-stock'],
+    /** Y */
+    3: ['toggle-settings'],
+    /** LB */
+    4: ['previous-layout'],
+    /** RB */
+    5: ['next-layout'],
+    /** View / Select */
+    8: ['help'],
+    /** D-pad */
+    12: ['focus-up'],
+    13: ['focus-down'],
+    14: ['focus-left'],
+    15: ['focus-right'],
+  },
+
+  /** Stick deflection (0-1) ignored around the center */
+  stickDeadzone: 0.25,
+
+  /** Share of a focused slider's range covered per second at full stick deflection */
+  sliderSpeed: 0.5,
+} satisfies GamepadOptions;
+
+/**
+ * Audio mixer (see SoundManager and config/soundBanks.ts).
+ *
+ * The player's mute and volume choices are stored locally and override these.
+ */
+export const SOUND = {
+  /** localStorage key of the player's mixer state */
+  storageKey: 'bestgames.sound',
+
+  /** Mixer state on first visit */
+  defaults: {
+    muted: false,
+    buses: {
+      music: { volume: 0.6, muted: false },
+      sfx: { volume: 0.8, muted: false },
+      voice: { volume: 0.8, muted: false },
+    },
+  },
+} satisfies SoundOptions;
+
+/**
+ * Persisted settings (see SettingsStore).
+ *
+ * Each namespace is saved under `${storagePrefix}.${namespace}`: a game's while
+ * its "Keep Settings" toggle is on, the app preferences (locale, theme, quality) whenever they change.
+ */
+export const SETTINGS_STORE = {
+  /** localStorage key prefix of the per-game settings */
+  storagePrefix: 'bestgames.settings',
+} satisfies SettingsStoreOptions;
+
+/**
+ * UI languages (see I18n and src/locales/).
+ *
+ * The first visit picks the browser language when it is supported; the
+ * player's choice from the main menu is stored locally and wins afterwards.
+ */
+export const I18N = {
+  /** SettingsStore namespace of the player's locale */
+  settingsNamespace: 'locale',
+
+  /** Fallback locale - its catalog must contain every key */
+  defaultLocale: 'en',
+
+  /** Supported locales, in picker order */
+  locales: {
+    en: { name: 'English', dir: 'ltr' },
+    es: { name: 'Español', dir: 'ltr' },
+    ar: { name: 'العربية', dir: 'rtl' },
+  },
+} satisfies I18nOptions;
+
+/**
+ * Screen reader support (see AccessibilityLayer).
+ */
+export const A11Y = {
+  /** The DOM mirror follows the scene five times per second */
+  syncIntervalMs: 200,
+
+  /** Live region is cleared this long before each announcement */
+  announceDelayMs: 50,
+
+  /** Elements whose tops are this close share a row in the tab order */
+  rowTolerance: 12,
+} satisfies AccessibilityOptions;
+
+/**
+ * UI themes (see ThemeManager and config/themes.ts).
+ *
+ * The first visit follows the system's contrast and color scheme preferences;
+ * the player's choice from the main menu is stored locally and wins afterwards.
+ */
+export const THEME = {
+  /** SettingsStore namespace of the player's theme */
+  settingsNamespace: 'theme',
+
+  /** Theme when nothing is stored and no preference matches */
+  defaultTheme: 'light',
+
+  /** System preferences, most specific first */
+  mediaQueries: {
+    highContrast: '(prefers-contrast: more)',
+    dark: '(prefers-color-scheme: dark)',
+  },
+
+  themes: BUILT_IN_THEMES,
+} satisfies ThemeOptions;
+
+/**
+ * Adaptive rendering quality (see QualityManager).
+ *
+ * 'auto' steps down after 2s under ~45 fps and back up after 8s above ~57 fps;
+ * the wait to step up doubles after each step down (up to a minute).
+ */
+export const QUALITY = {
+  /** SettingsStore namespace of the player's mode (auto, high, medium, low) */
+  settingsNamespace: 'quality',
+
+  tiers: {
+    high: { textures: 'hq', blur: true, motionBlur: true, resolutionScale: 1, particleScale: 1 },
+    medium: {
+      textures: 'hq',
+      blur: false,
+      motionBlur: false,
+      resolutionScale: 0.75,
+      particleScale: 0.67,
+    },
+    low: {
+      textures: 'lq',
+      blur: false,
+      motionBlur: false,
+      resolutionScale: 0.5,
+      particleScale: 0.34,
+    },
+  },
+
+  smoothing: 0.05,
+  /** 3/4 of a 60 Hz frame: GPU time and the browser's own work come on top of it */
+  downgradeWorkMs: 12,
+  upgradeWorkMs: 6,
+  downgradeAfterMs: 2000,
+  upgradeAfterMs: 8000,
+  maxUpgradeAfterMs: 60000,
+
+  /** Longer frames are loading hitches or the first frame after a pause */
+  ignoreFrameMs: 250,
+} satisfies QualityOptions;
+
+/**
+ * Seeded game randomness (see Random).
+ *
+ * Every sub-mode run gets a seed, shown in the perf HUD. Opening the sub-mode
+ * with `?seed=<seed>` (e.g. #/ace/creative?seed=1x2k9) or setting
+ * `seed` here replays the same deals and particle patterns.
+ */
+export const RANDOM = {
+  routeParam: 'seed',
+
+  /** Pin every run to one seed while debugging (null = a fresh seed per run) */
+  seed: null,
+} satisfies RandomOptions;
+
+/**
+ * Screenshots and clips (see CaptureService).
+ *
+ * F8 saves a screenshot, F9 records a clip (press again to stop early).
+ */
+export const CAPTURE = {
+  /** Screenshots at twice the canvas resolution (crisp marketing shots) */
+  screenshotScale: 2,
+
+  /** 5 seconds at 60 fps */
+  clipFrames: 300,
+
+  clipFormat: 'webm',
+
+  mimeTypes: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+
+  videoBitsPerSecond: 8_000_000,
+
+  filePrefix: 'bestgames',
+} satisfies CaptureOptions;
+
+/**
+ * Games in this build (see GameRegistry, definitions in config/games.ts).
+ *
+ * Comma-separated game keys in env vars switch games off per build, e.g.
+ * VITE_HIDDEN_GAMES=phoenix for a build that only links to it from elsewhere.
+ */
+export const GAMES = {
+  /** Left out entirely: not in the menu, its deep links open the menu (VITE_DISABLED_GAMES) */
+  disabled: keyList(import.meta.env.VITE_DISABLED_GAMES as string | undefined),
+
+  /** Not in the menu, still reachable through #/<key> (VITE_HIDDEN_GAMES) */
+  hidden: keyList(import.meta.env.VITE_HIDDEN_GAMES as string | undefined),
+
+  /** Menu sections, top to bottom (titles only show once there is more than one) */
+  categories: ['menu.category.tasks'],
+} satisfies GameRegistryOptions;
+
+/** 'a, b' -> ['a', 'b'] */
+function keyList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,120 @@
+/**
+ * Sound Banks
+ *
+ * One bank per game (plus shared UI sounds), played through SoundManager
+ * (app.sound) by bank + name. Scenes pick their bank with the soundBank option.
+ *
+ * The sounds are synthesized with Web Audio (tones and filtered noise), so no
+ * audio files ship with the build. A layer can point at a file instead:
+ * { kind: 'file', url: someImportedMp3 }.
+ */
+
+import type { SoundBank } from '../core/SoundManager';
+
+// ============================================================
+// Shared
+// ============================================================
+
+/** Buttons and other chrome */
+const UI: SoundBank = {
+  click: {
+    bus: 'sfx',
+    layers: [{ kind: 'tone', wave: 'triangle', frequency: 880, duration: 0.05, volume: 0.2 }],
+  },
+};
+
+// ============================================================
+// Games
+// ============================================================
+
+/** Ace of Shadows (card stacks + TriPeaks) */
+const ACE: SoundBank = {
+  /** Card leaves the stack */
+  'card-whoosh': {
+    bus: 'sfx',
+    layers: [
+      {
+        kind: 'noise',
+        filter: 'bandpass',
+        frequency: 600,
+        endFrequency: 2400,
+        duration: 0.3,
+        volume: 0.25,
+      },
+    ],
+  },
+
+  /** Card lands on a stack or pile */
+  'card-land': {
+    bus: 'sfx',
+    layers: [
+      { kind: 'noise', filter: 'lowpass', frequency: 1400, duration: 0.08, volume: 0.4 },
+      { kind: 'tone', frequency: 140, endFrequency: 80, duration: 0.08, volume: 0.3 },
+    ],
+  },
+
+  /** Card turned face up */
+  'card-flip': {
+    bus: 'sfx',
+    layers: [
+      {
+        kind: 'noise',
+        filter: 'highpass',
+        frequency: 2500,
+        endFrequency: 5000,
+        duration: 0.07,
+        volume: 0.3,
+      },
+    ],
+  },
+
+  /** TriPeaks cleared - rising arpeggio */
+  win: {
+    bus: 'sfx',
+    layers: [523, 659, 784, 1047].map((frequency, i) => ({
+      kind: 'tone' as const,
+      wave: 'triangle' as const,
+      frequency,
+      duration: 0.35,
+      volume: 0.3,
+      delay: i * 0.1,
+    })),
+  },
+};
+
+/** Magic Words (dialogue) */
+const MAGIC: SoundBank = {
+  /** Next dialogue line - a short voice-like blip */
+  'dialogue-advance': {
+    bus: 'voice',
+    layers: [
+      {
+        kind: 'tone',
+        wave: 'square',
+        frequency: 420,
+        endFrequency: 560,
+        duration: 0.07,
+        volume: 0.12,
+      },
+    ],
+  },
+};
+
+/** Phoenix Flame */
+const PHOENIX: SoundBank = {
+  /** Flame turned into an egg */
+  'egg-created': {
+    bus: 'sfx',
+    layers: [
+      { kind: 'tone', frequency: 660, endFrequency: 990, duration: 0.2, volume: 0.25 },
+      { kind: 'tone', frequency: 1320, duration: 0.25, volume: 0.15, delay: 0.12 },
+    ],
+  },
+};
+
+export const SOUND_BANKS: Record<string, SoundBank> = {
+  ui: UI,
+  'ace-of-shadows': ACE,
+  'magic-words': MAGIC,
+  'phoenix-flame': PHOENIX,
+};
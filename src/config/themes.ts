@@ -0,0 +1,123 @@
+/**
+ * Built-in Themes
+ *
+ * Design tokens (colors, fonts, corner radii, spacing) the shared components
+ * draw with. `light` is the original look; games adjust a few tokens with
+ * ThemeOverrides in their own config (e.g. MAGIC_WORDS_THEME). The player picks
+ * a theme under the main menu subtitle (THEME in sharedSettings).
+ */
+
+import type { Theme } from '../core/ThemeManager';
+
+const TYPOGRAPHY = {
+  fontFamily: 'Arial, sans-serif',
+  displayFontFamily: 'Georgia, serif',
+};
+
+const RADII = {
+  control: 6,
+  button: 12,
+  panel: 12,
+  dialog: 24,
+};
+
+const SPACING = {
+  panelPadding: 13,
+  cellGap: 8,
+};
+
+/** White menu page, dark translucent panels over the games */
+export const LIGHT_THEME: Theme = {
+  colors: {
+    background: 0xffffff,
+    textOnBackground: 0x666666,
+    brand: 0xf7941d,
+    textOnBrand: 0xffffff,
+    accent: 0xff671d,
+    panel: 0x000000,
+    surface: 0x333333,
+    surfaceRaised: 0x444444,
+    surfaceHover: 0x555555,
+    border: 0x666666,
+    text: 0xffffff,
+    textSecondary: 0xe0e0e0,
+    textMuted: 0xaaaaaa,
+    knob: 0xffffff,
+    button: 0x4a90d9,
+    modeLiteral: 0x2e7d32,
+    modeCreative: 0x7b1fa2,
+    backdrop: 0x000000,
+    focusRing: 0xffd27a,
+    progress: 0xffd27a,
+    highlight: 0xffd700,
+    error: 0xff6b6b,
+    bubble: 0xfff8e7,
+    bubbleBorder: 0xc4a574,
+  },
+  typography: TYPOGRAPHY,
+  radii: RADII,
+  spacing: SPACING,
+};
+
+/** Dark menu page and softer accents for low-light play */
+export const DARK_THEME: Theme = {
+  colors: {
+    ...LIGHT_THEME.colors,
+    background: 0x121212,
+    textOnBackground: 0xb0b0b0,
+    brand: 0xd97b0f,
+    panel: 0x101010,
+    surface: 0x2a2a2a,
+    surfaceRaised: 0x3a3a3a,
+    surfaceHover: 0x4a4a4a,
+    border: 0x5a5a5a,
+    textSecondary: 0xd0d0d0,
+    textMuted: 0x9a9a9a,
+    button: 0x3a78b8,
+    bubble: 0xe8e0cc,
+    bubbleBorder: 0x9c8258,
+  },
+  typography: TYPOGRAPHY,
+  radii: RADII,
+  spacing: SPACING,
+};
+
+/** Black and white with yellow accents; games can't override it */
+export const HIGH_CONTRAST_THEME: Theme = {
+  colors: {
+    background: 0x000000,
+    textOnBackground: 0xffffff,
+    brand: 0xffff00,
+    textOnBrand: 0x000000,
+    accent: 0xffff00,
+    panel: 0x000000,
+    surface: 0x000000,
+    surfaceRaised: 0x000000,
+    surfaceHover: 0x333333,
+    border: 0xffffff,
+    text: 0xffffff,
+    textSecondary: 0xffffff,
+    textMuted: 0xffffff,
+    knob: 0xffffff,
+    button: 0x0033cc,
+    modeLiteral: 0x006600,
+    modeCreative: 0x660099,
+    backdrop: 0x000000,
+    focusRing: 0x00ffff,
+    progress: 0xffff00,
+    highlight: 0xffff00,
+    error: 0xff8080,
+    bubble: 0xffffff,
+    bubbleBorder: 0x000000,
+  },
+  typography: { ...TYPOGRAPHY, fontFamily: 'Verdana, Arial, sans-serif' },
+  radii: RADII,
+  spacing: SPACING,
+  fixed: true,
+};
+
+export const BUILT_IN_THEMES = {
+  light: LIGHT_THEME,
+  dark: DARK_THEME,
+  highContrast: HIGH_CONTRAST_THEME,
+} satisfies Record<string, Theme>;
@@ -0,0 +1,310 @@
+import { UPDATE_PRIORITY, type Container, type Ticker } from 'pixi.js';
+
+import { findFocusables, type FocusNavigator, type Focusable } from './FocusNavigator';
+
+/**
+ * What a screen reader should know about a canvas element, by ARIA role
+ */
+export type AccessibleInfo =
+  | { role: 'button'; label: string }
+  | { role: 'switch'; label: string; checked: boolean }
+  | {
+      role: 'slider';
+      label: string;
+      value: number;
+      min: number;
+      max: number;
+      step: number;
+      /** Spoken form of the value, e.g. '1.5s' */
+      valueText: string;
+    }
+  | { role: 'listbox'; label: string; options: { label: string; value: string }[]; value: string };
+
+export type AccessibleRole = AccessibleInfo['role'];
+
+/**
+ * Focusable element that is mirrored into the DOM
+ * (Button, MenuTile, Slider, Toggle, Dropdown)
+ */
+export interface Accessible extends Focusable {
+  getAccessibleInfo(): AccessibleInfo;
+  /** Apply a value picked on the mirror (sliders and listboxes) */
+  setAccessibleValue?(value: string): void;
+}
+
+/**
+ * Accessibility layer options (see config/sharedSettings.ts)
+ */
+export interface AccessibilityOptions {
+  /** How often the mirror follows the scene (ms) */
+  syncIntervalMs: number;
+  /** Pause between clearing and filling the live region, so repeats are read again (ms) */
+  announceDelayMs: number;
+  /** Vertical distance under which two elements count as one row for tab order (px) */
+  rowTolerance: number;
+}
+
+interface MirrorEntry {
+  role: AccessibleRole;
+  element: HTMLElement;
+}
+
+/**
+ * AccessibilityLayer
+ *
+ * Screen readers can't see inside the canvas, so the interactive elements of
+ * the current scene are mirrored into transparent DOM controls laid over them:
+ * buttons and tiles become <button>, toggles role="switch", sliders
+ * <input type="range"> and dropdowns a listbox <select>.
+ *
+ * The mirror follows the scene a few times per second. Tab order is reading
+ * order (rows, then left to right - right to left in RTL locales), and focus
+ * is shared with FocusNavigator both ways: tabbing to a mirror control moves
+ * the canvas focus ring, arrow or gamepad moves focus the matching control.
+ * Activating a mirror control calls the element's own focus handlers.
+ *
+ * announce() reads a message through a polite live region (dialogue lines).
+ */
+export class AccessibilityLayer {
+  private focus: FocusNavigator;
+
+  /** Returns the container to mirror (the current scene) */
+  private getRoot: () => Container | null;
+
+  private options: AccessibilityOptions;
+
+  /** Holds the mirror controls, in tab order */
+  private root: HTMLDivElement;
+
+  /** Polite live region for announce() */
+  private liveRegion: HTMLDivElement;
+
+  /** Mirror control of each element */
+  private entries = new Map<Accessible, MirrorEntry>();
+
+  /** Ticker the mirror follows (set by attachTo) */
+  private ticker: Ticker | null = null;
+
+  /** Time since the last sync (ms) */
+  private sinceSync = 0;
+
+  private announceTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  private unsubscribeFocus: () => void;
+
+  constructor(
+    focus: FocusNavigator,
+    getRoot: () => Container | null,
+    options: AccessibilityOptions
+  ) {
+    this.focus = focus;
+    this.getRoot = getRoot;
+    this.options = options;
+
+    this.root = document.createElement('div');
+    this.root.id = 'a11y-mirror';
+
+    this.liveRegion = document.createElement('div');
+    this.liveRegion.id = 'a11y-live';
+    this.liveRegion.setAttribute('role', 'status');
+    this.liveRegion.setAttribute('aria-live', 'polite');
+
+    document.body.append(this.root, this.liveRegion);
+
+    this.unsubscribeFocus = focus.subscribe(item => this.syncDomFocus(item));
+  }
+
+  /**
+   * Follow the scene on a ticker
+   */
+  attachTo(ticker: Ticker): void {
+    this.ticker = ticker;
+    ticker.add(this.update, this, UPDATE_PRIORITY.UTILITY);
+  }
+
+  /**
+   * Read a message to screen reader users (without taking focus)
+   */
+  announce(message: string): void {
+    if (this.announceTimeout) clearTimeout(this.announceTimeout);
+    // Clear first: setting the same text again would not be read
+    this.liveRegion.textContent = '';
+    this.announceTimeout = setTimeout(() => {
+      this.announceTimeout = null;
+      this.liveRegion.textContent = message;
+    }, this.options.announceDelayMs);
+  }
+
+  /**
+   * Bring the mirror up to date with the current scene now
+   */
+  sync(): void {
+    this.sinceSync = 0;
+    const root = this.getRoot();
+    const items = root ? this.order(findFocusables(root).filter(isAccessible)) : [];
+
+    const ordered = items.map(item => {
+      const info = item.getAccessibleInfo();
+      let entry = this.entries.get(item);
+      if (!entry || entry.role !== info.role) {
+        entry = { role: info.role, element: this.createElement(item, info.role) };
+        this.entries.set(item, entry);
+      }
+      updateElement(entry.element, info);
+      placeElement(entry.element, item);
+      return entry.element;
+    });
+
+    for (const item of this.entries.keys()) {
+      if (!items.includes(item)) this.entries.delete(item);
+    }
+
+    const children = this.root.children;
+    const changed =
+      children.length !== ordered.length || ordered.some((element, i) => children[i] !== element);
+    if (changed) {
+      // Moving a focused control blurs it - give its focus back
+      const active = document.activeElement;
+      this.root.replaceChildren(...ordered);
+      if (active instanceof HTMLElement && ordered.includes(active)) {
+        active.focus({ preventScroll: true });
+      }
+    }
+
+    this.syncDomFocus(this.focus.focused);
+  }
+
+  /**
+   * Remove the mirror and the live region
+   */
+  destroy(): void {
+    this.ticker?.remove(this.update, this);
+    this.ticker = null;
+    if (this.announceTimeout) clearTimeout(this.announceTimeout);
+    this.unsubscribeFocus();
+    this.entries.clear();
+    this.root.remove();
+    this.liveRegion.remove();
+  }
+
+  private update(): void {
+    this.sinceSync += this.ticker?.deltaMS ?? 0;
+    if (this.sinceSync >= this.options.syncIntervalMs) this.sync();
+  }
+
+  /**
+   * Reading order: rows top to bottom, then along the row in the page direction
+   */
+  private order(items: Accessible[]): Accessible[] {
+    const rtl = document.documentElement.dir === 'rtl';
+    const positions = new Map(items.map(item => [item, item.getBounds()]));
+    return [...items].sort((a, b) => {
+      const boundsA = positions.get(a)!;
+      const boundsB = positions.get(b)!;
+      if (Math.abs(boundsA.y - boundsB.y) > this.options.rowTolerance) {
+        return boundsA.y - boundsB.y;
+      }
+      return rtl ? boundsB.x - boundsA.x : boundsA.x - boundsB.x;
+    });
+  }
+
+  private createElement(item: Accessible, role: AccessibleRole): HTMLElement {
+    let element: HTMLElement;
+
+    if (role === 'slider') {
+      const input = document.createElement('input');
+      input.type = 'range';
+      input.addEventListener('input', () => item.setAccessibleValue?.(input.value));
+      element = input;
+    } else if (role === 'listbox') {
+      const select = document.createElement('select');
+      select.addEventListener('change', () => item.setAccessibleValue?.(select.value));
+      element = select;
+    } else {
+      // Keyboard presses are handled by the confirm action (InputManager prevents
+      // the native click), so this only runs for pointer and screen reader clicks
+      const button = document.createElement('button');
+      button.type = 'button';
+      if (role === 'switch') button.setAttribute('role', 'switch');
+      button.addEventListener('click', () => {
+        item.focusActivate?.();
+        if (!item.destroyed) updateElement(button, item.getAccessibleInfo());
+      });
+      element = button;
+    }
+
+    element.addEventListener('focus', () => this.focus.focus(item));
+    return element;
+  }
+
+  /**
+   * Give DOM focus to the mirror of the canvas-focused element.
+   * Focus held by other page UI (cheat-sheet, error console) is left alone.
+   */
+  private syncDomFocus(item: Focusable | null): void {
+    const active = document.activeElement;
+    const ours = !active || active === document.body || this.root.contains(active);
+    if (!ours) return;
+
+    const element = item ? this.entries.get(item as Accessible)?.element : undefined;
+    if (element) {
+      if (active !== element) element.focus({ preventScroll: true });
+    } else if (active instanceof HTMLElement && this.root.contains(active)) {
+      active.blur();
+    }
+  }
+}
+
+function isAccessible(item: Focusable): item is Accessible {
+  return typeof (item as Accessible).getAccessibleInfo === 'function';
+}
+
+/**
+ * Copy an element's state onto its mirror control
+ */
+function updateElement(element: HTMLElement, info: AccessibleInfo): void {
+  switch (info.role) {
+    case 'button':
+    case 'switch':
+      if (element.textContent !== info.label) element.textContent = info.label;
+      if (info.role === 'switch') element.setAttribute('aria-checked', String(info.checked));
+      break;
+
+    case 'slider': {
+      const input = element as HTMLInputElement;
+      input.min = String(info.min);
+      input.max = String(info.max);
+      input.step = String(info.step);
+      input.value = String(info.value);
+      input.setAttribute('aria-label', info.label);
+      input.setAttribute('aria-valuetext', info.valueText);
+      break;
+    }
+
+    case 'listbox': {
+      const select = element as HTMLSelectElement;
+      const current = Array.from(select.options, option => `${option.value}:${option.text}`);
+      const next = info.options.map(option => `${option.value}:${option.label}`);
+      if (current.join('\n') !== next.join('\n')) {
+        select.replaceChildren(
+          ...info.options.map(option => new Option(option.label, option.value))
+        );
+      }
+      select.size = Math.max(2, info.options.length);
+      select.value = info.value;
+      select.setAttribute('aria-label', info.label);
+      break;
+    }
+  }
+}
+
+/**
+ * Lay a mirror control over its element (for touch exploration and magnifiers)
+ */
+function placeElement(element: HTMLElement, item: Container): void {
+  const bounds = item.getBounds();
+  element.style.left = `${bounds.x}px`;
+  element.style.top = `${bounds.y}px`;
+  element.style.width = `${bounds.width}px`;
+  element.style.height = `${bounds.height}px`;
+}
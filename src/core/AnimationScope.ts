@@ -0,0 +1,229 @@
+import gsap from 'gsap';
+
+type Animation = gsap.core.Animation;
+
+/**
+ * AnimationScope
+ *
+ * Owns the GSAP animations of a scene or game mode, so they can be paused,
+ * sped up, skipped to the end or killed together - without touching anyone
+ * else's (the global timeline belongs to PauseService).
+ *
+ * Animations created through the scope belong to it, and so do those created
+ * in their callbacks (gsap.context tracks them). Child scopes (the running
+ * sub-mode of a scene) follow their parent's pause and time scale, and are
+ * killed with it.
+ */
+export class AnimationScope {
+  private context: gsap.Context;
+
+  private parent: AnimationScope | null;
+
+  private children = new Set<AnimationScope>();
+
+  private paused = false;
+
+  /** Time scale of this scope alone (see timeScale) */
+  private ownTimeScale = 1;
+
+  /** Scope time scale already applied to each animation */
+  private appliedTimeScale = new WeakMap<Animation, number>();
+
+  /** Animations paused by the scope (resume() leaves the others alone) */
+  private held = new WeakSet<Animation>();
+
+  constructor(parent: AnimationScope | null = null) {
+    this.parent = parent;
+    this.context = gsap.context(() => undefined);
+  }
+
+  /**
+   * Scope for a part of this one (e.g. a scene's running sub-mode).
+   * Dispose it when that part ends; it is also killed with this scope.
+   */
+  createChild(): AnimationScope {
+    const child = new AnimationScope(this);
+    this.children.add(child);
+    return child;
+  }
+
+  /** gsap.to() owned by this scope */
+  to(targets: gsap.TweenTarget, vars: gsap.TweenVars): gsap.core.Tween {
+    return this.add(() => gsap.to(targets, vars));
+  }
+
+  /** gsap.from() owned by this scope */
+  from(targets: gsap.TweenTarget, vars: gsap.TweenVars): gsap.core.Tween {
+    return this.add(() => gsap.from(targets, vars));
+  }
+
+  /** gsap.fromTo() owned by this scope */
+  fromTo(
+    targets: gsap.TweenTarget,
+    fromVars: gsap.TweenVars,
+    toVars: gsap.TweenVars
+  ): gsap.core.Tween {
+    return this.add(() => gsap.fromTo(targets, fromVars, toVars));
+  }
+
+  /** gsap.timeline() owned by this scope (tweens added to it follow it) */
+  timeline(vars?: gsap.TimelineVars): gsap.core.Timeline {
+    return this.add(() => gsap.timeline(vars));
+  }
+
+  /** gsap.delayedCall() owned by this scope: paused, sped up and killed with it */
+  delayedCall(delay: number, callback: () => void): gsap.core.Tween {
+    return this.add(() => gsap.delayedCall(delay, callback));
+  }
+
+  /**
+   * Run code that creates animations (e.g. a helper calling gsap.to()) in this scope
+   * @returns What the code returned
+   */
+  add<T>(create: () => T): T {
+    let result!: T;
+    const run = (): void => {
+      result = this.context.add(create);
+    };
+
+    // Called from another scope's callback: gsap would file this scope under that
+    // one (and kill it with it) - a scope only belongs to its parent
+    const outer = gsap.context() as gsap.Context | undefined;
+    if (outer && outer !== this.context) outer.ignore(run);
+    else run();
+
+    this.sync();
+    return result;
+  }
+
+  /**
+   * Kill this scope's animations of the given targets (e.g. [sprite, sprite.scale])
+   */
+  killTweensOf(targets: gsap.TweenTarget): void {
+    for (const tween of gsap.getTweensOf(targets)) {
+      if (this.owns(tween)) tween.kill();
+    }
+  }
+
+  /**
+   * Jump the running animations to their end, firing their callbacks
+   * (e.g. to skip a dialogue line's entrance). Endless loops keep running.
+   */
+  skipToEnd(): void {
+    for (const animation of this.running()) {
+      if (animation.repeat() !== -1) animation.totalProgress(1);
+    }
+    for (const child of this.children) child.skipToEnd();
+  }
+
+  /**
+   * Freeze this scope's animations, including ones created while paused
+   */
+  pause(): void {
+    this.paused = true;
+    this.sync();
+  }
+
+  /**
+   * Let the animations paused by pause() run again
+   */
+  resume(): void {
+    this.paused = false;
+    this.sync();
+  }
+
+  /** Whether the scope (or a parent) is paused */
+  get isPaused(): boolean {
+    return this.paused || (this.parent?.isPaused ?? false);
+  }
+
+  /** Playback speed of this scope's animations (1 = normal, 2 = twice as fast; above 0) */
+  get timeScale(): number {
+    return this.ownTimeScale;
+  }
+
+  set timeScale(value: number) {
+    this.ownTimeScale = value;
+    this.sync();
+  }
+
+  /**
+   * Kill every animation of this scope and its children (the scope stays usable)
+   */
+  kill(): void {
+    for (const child of this.children) child.kill();
+    this.context.kill();
+  }
+
+  /**
+   * Kill everything and detach from the parent scope
+   */
+  dispose(): void {
+    for (const child of [...this.children]) child.dispose();
+    this.context.kill();
+    this.parent?.children.delete(this);
+    this.parent = null;
+  }
+
+  /** Speed from this scope and its parents */
+  private get effectiveTimeScale(): number {
+    return this.ownTimeScale * (this.parent?.effectiveTimeScale ?? 1);
+  }
+
+  /**
+   * Bring every running animation in line with the scope's pause and time scale
+   */
+  private sync(): void {
+    const paused = this.isPaused;
+    const timeScale = this.effectiveTimeScale;
+
+    for (const animation of this.running()) {
+      // Relative, so a speed the mode set on the animation itself is kept
+      const applied = this.appliedTimeScale.get(animation) ?? 1;
+      if (applied !== timeScale) {
+        animation.timeScale((animation.timeScale() * timeScale) / applied);
+        this.appliedTimeScale.set(animation, timeScale);
+      }
+
+      if (paused && !animation.paused()) {
+        animation.pause();
+        this.held.add(animation);
+      } else if (!paused && this.held.delete(animation)) {
+        animation.resume();
+      }
+    }
+    for (const child of this.children) child.sync();
+  }
+
+  /**
+   * Animations of this scope still running or waiting to start, outermost only
+   * (tweens inside a timeline follow it). Finished and killed ones are dropped
+   * from the context, which would otherwise keep every tween ever created.
+   */
+  private running(): Animation[] {
+    const data = this.context.data as unknown[];
+    const kept = data.filter(entry => !(entry instanceof gsap.core.Animation) || isAlive(entry));
+    data.splice(0, data.length, ...kept);
+
+    return kept.filter(
+      (entry): entry is Animation =>
+        entry instanceof gsap.core.Animation && entry.parent === gsap.globalTimeline
+    );
+  }
+
+  /** Whether an animation was created in this scope or a child (directly or in an owned timeline) */
+  private owns(animation: Animation): boolean {
+    const data = this.context.data as unknown[];
+    for (let current: Animation | null = animation; current; current = current.parent) {
+      if (data.includes(current)) return true;
+    }
+    return [...this.children].some(child => child.owns(animation));
+  }
+}
+
+/** Whether an animation is still on the global timeline (not finished or killed) */
+function isAlive(animation: Animation): boolean {
+  let root: Animation = animation;
+  while (root.parent) root = root.parent;
+  return root === gsap.globalTimeline;
+}
@@ -1,35 +1,7 @@
 /**
  * Animation and asset utility functions
  */
-import gsap from 'gsap';
-import { Container, type ISpritesheetData } from 'pixi.js';
-
-/**
- * Recursively kill all GSAP tweens on a container and all its descendants.
- * Also kills tweens on scale and position properties which GSAP often targets separately.
- *
- * Call this BEFORE destroying any containers to prevent "transform is null" errors.
- *
- * @param target - The container to recursively clean up
- */
-export function killTweensRecursive(target: Container): void {
-  // Kill tweens on the container itself and common animated properties
-  gsap.killTweensOf(target);
-  gsap.killTweensOf(target.scale);
-  gsap.killTweensOf(target.position);
-
-  // Recursively process all children
-  for (const child of target.children) {
-    if (child instanceof Container) {
-      killTweensRecursive(child);
-    } else {
-      // For non-container display objects (Sprites, Text, Graphics, etc.)
-      gsap.killTweensOf(child);
-      if ('scale' in child) gsap.killTweensOf(child.scale);
-      if ('position' in child) gsap.killTweensOf(child.position);
-    }
-  }
-}
+import { Rectangle, Texture, type AnimatedSprite, type ISpritesheetData } from 'pixi.js';
 
 /**
  * Prefix all frame names in a spritesheet JSON to avoid global texture cache collisions.
@@ -64,3 +36,46 @@ export function prefixSpritesheetFrames(data: ISpritesheetData, prefix: string):
     animations: newAnimations,
   };
 }
+
+/**
+ * Give frames the geometry of another animation's frames so they can replace them
+ * without touching sprite scales or anchors (e.g. LQ flames standing in for HQ ones).
+ *
+ * Each new texture has the reference frame's original size, with the frame drawn
+ * bottom-centered in the reference's trimmed area. The frames should already be
+ * displayed at the reference's size (spritesheet meta.scale).
+ *
+ * @param frames - Frames to align (their base texture is shared, not copied)
+ * @param reference - Frames to match, paired by index (repeated if shorter)
+ * @returns New textures - destroy them (not their base texture) when done
+ */
+export function alignFrames(frames: Texture[], reference: Texture[]): Texture[] {
+  return frames.map((texture, i) => {
+    const target = reference[i % reference.length];
+    const area = target.trim ?? new Rectangle(0, 0, target.orig.width, target.orig.height);
+    const { frame } = texture;
+    const trim = new Rectangle(
+      area.x + (area.width - frame.width) / 2,
+      area.y + area.height - frame.height,
+      frame.width,
+      frame.height
+    );
+    return new Texture(texture.baseTexture, frame.clone(), target.orig.clone(), trim);
+  });
+}
+
+/**
+ * Give an animated sprite other frames, keeping its place in the animation
+ * (the textures setter would rewind and stop it).
+ */
+export function swapTextures(sprite: AnimatedSprite, textures: Texture[]): void {
+  if (sprite.textures === textures) return;
+
+  const { currentFrame, playing } = sprite;
+  sprite.textures = textures;
+  if (playing) {
+    sprite.gotoAndPlay(currentFrame % textures.length);
+  } else {
+    sprite.gotoAndStop(currentFrame % textures.length);
+  }
+}
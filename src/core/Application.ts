@@ -1,28 +1,86 @@
-import { Application as PixiApplication } from 'pixi.js';
+import { Application as PixiApplication, Ticker } from 'pixi.js';
 
-import { FPSCounter } from './FPSCounter';
+import {
+  A11Y,
+  CAPTURE,
+  CONTEXT_RECOVERY,
+  GAMEPAD,
+  GAMES,
+  INPUT,
+  PAUSE,
+  QUALITY,
+  SOUND,
+} from '../config/sharedSettings';
+
+import { AccessibilityLayer } from './AccessibilityLayer';
+import { AssetLoader } from './AssetLoader';
+import { CaptureService } from './CaptureService';
+import { ContextRecovery, type ContextState } from './ContextRecovery';
+import { ErrorHandler } from './ErrorHandler';
+import { FocusNavigator } from './FocusNavigator';
+import { GamepadInput } from './GamepadInput';
+import { GameRegistry } from './GameRegistry';
+import { GeneratedTextures } from './GeneratedTextures';
+import { InputCheatSheet } from './InputCheatSheet';
+import { InputManager } from './InputManager';
+import { PauseService } from './PauseService';
+import { PerfHUD } from './PerfHUD';
+import { QualityManager, type QualityProfile } from './QualityManager';
+import { SafeArea } from './SafeArea';
 import { SceneManager } from './SceneManager';
+import { SoundManager } from './SoundManager';
+import { applyThemeToTree, themeManager, type Theme } from './ThemeManager';
 
 /**
  * Application
  *
  * Wrapper around PixiJS Application that handles:
  * - Canvas initialization and DOM insertion
- * - Responsive resizing
- * - FPS counter
+ * - Responsive resizing (plus the safe-area insets of notched screens)
+ * - Performance HUD (FPS, frame times, draw calls, custom metrics)
  * - Scene management
+ * - Asset bundle loading
+ * - Game registry (what the menu lists and the router opens)
+ * - Pausing while the tab is hidden or the window is blurred
+ * - Audio (sound banks, mixer buses, mute)
+ * - Keyboard and gamepad actions (rebindable, with a cheat-sheet on ?)
+ * - Focus navigation across buttons, tiles and sliders
+ * - Screen reader mirror of the interactive elements, plus a live region
+ * - Restyling the stage when the theme (or a game's theme overrides) changes
+ * - Adaptive quality: renderer resolution follows the quality tier
+ * - Screenshot and clip capture (F8 / F9)
+ * - WebGL context loss: paused behind an overlay, loaded and generated textures restored
  */
 export class Application {
   public readonly pixi: PixiApplication;
   public readonly scenes: SceneManager;
-  public readonly fpsCounter: FPSCounter;
+  public readonly perfHud: PerfHUD;
+  public readonly assets: AssetLoader;
+  public readonly games: GameRegistry;
+  public readonly pauseService: PauseService;
+  public readonly sound: SoundManager;
+  public readonly input: InputManager;
+  public readonly focus: FocusNavigator;
+  public readonly gamepad: GamepadInput;
+  public readonly a11y: AccessibilityLayer;
+  public readonly quality: QualityManager;
+  public readonly capture: CaptureService;
+  public readonly safeArea: SafeArea;
+  public readonly recovery: ContextRecovery;
+  public readonly generatedTextures: GeneratedTextures;
+
+  /** Keyboard shortcut overlay */
+  private inputHelp: InputCheatSheet;
 
   private resizeTimeout: ReturnType<typeof setTimeout> | null = null;
 
+  /** Stops restyling on theme changes */
+  private unsubscribeTheme: () => void;
+
   constructor() {
     // Initialize PixiJS
     this.pixi = new PixiApplication({
-      background: '#ffffff',
+      background: themeManager.theme.colors.background,
       resizeTo: window,
       antialias: true,
       resolution: window.devicePixelRatio || 1,
@@ -32,13 +90,86 @@ export class Application {
     // Add canvas to DOM
     document.body.appendChild(this.pixi.view as HTMLCanvasElement);
 
-    // Initialize FPS counter
-    this.fpsCounter = new FPSCounter();
-    this.fpsCounter.attachTo(this.pixi.ticker);
+    // Notch and home indicator insets, read by scene layout
+    this.safeArea = new SafeArea();
 
     // Initialize scene manager
     this.scenes = new SceneManager(this.pixi);
 
+    // Asset bundles are registered by the entry point (see config/assetManifest.ts)
+    this.assets = new AssetLoader();
+
+    // Games are registered by the entry point (see config/games.ts)
+    this.games = new GameRegistry(GAMES);
+
+    // Initialize performance HUD
+    this.perfHud = new PerfHUD();
+    this.perfHud.attachTo(this.pixi.ticker, {
+      renderer: this.pixi.renderer,
+      stage: this.pixi.stage,
+      textureMemory: () => this.assets.textureMemory,
+    });
+
+    // Sound banks are registered by the entry point (see config/soundBanks.ts)
+    this.sound = new SoundManager(SOUND);
+    this.sound.start();
+
+    // Freeze rendering, GSAP, audio and scene timers while nobody is watching.
+    // Ticker.shared drives AnimatedSprites and some mode game loops.
+    this.pauseService = new PauseService([this.pixi.ticker, Ticker.shared], PAUSE);
+    this.pauseService.subscribe(paused => this.scenes.setAppPaused(paused));
+    this.pauseService.subscribe(paused => (paused ? this.sound.suspend() : this.sound.resume()));
+    this.pauseService.start();
+
+    // Keyboard actions follow pointer input: nothing fires mid-transition
+    this.input = new InputManager(INPUT.bindings, {
+      storageKey: INPUT.storageKey,
+      isBlocked: () => this.scenes.isTransitioning,
+    });
+    this.input.start();
+    this.inputHelp = new InputCheatSheet(this.input, INPUT.labelKeys);
+
+    // Focus moves within whatever scene is on top (overlays included)
+    this.focus = new FocusNavigator(
+      this.input,
+      this.pixi.stage,
+      () => this.scenes.current?.container ?? null
+    );
+    this.focus.attachTo(this.pixi.ticker);
+    this.gamepad = new GamepadInput(this.input, this.focus, GAMEPAD);
+    this.gamepad.attachTo(this.pixi.ticker);
+
+    // Mirrors the same scene FocusNavigator searches
+    this.a11y = new AccessibilityLayer(
+      this.focus,
+      () => this.scenes.current?.container ?? null,
+      A11Y
+    );
+    this.a11y.attachTo(this.pixi.ticker);
+
+    this.unsubscribeTheme = themeManager.subscribe(this.onThemeChange);
+
+    // Measured on the render ticker: that is the one the renderer's cost shows up on
+    this.quality = new QualityManager(QUALITY);
+    this.quality.subscribe(this.applyQuality);
+    this.quality.attachTo(this.pixi.ticker);
+    this.applyQuality(this.quality.profile);
+    this.perfHud.registerMetric({ label: 'Quality', read: () => this.quality.tier });
+
+    // Captures show the game, not the keyboard focus
+    this.capture = new CaptureService(this.pixi, CAPTURE);
+    this.capture.exclude(this.focus.indicator);
+    this.input.on('screenshot', () => void this.capture.saveScreenshot());
+    this.input.on('record-clip', () => void this.capture.saveClip());
+
+    // Pixi restores a lost context itself; the app waits for it, paused behind an overlay.
+    // Textures the scenes generated are drawn again before the app resumes.
+    this.recovery = new ContextRecovery(this.pixi.view as HTMLCanvasElement, CONTEXT_RECOVERY);
+    this.generatedTextures = new GeneratedTextures(this.pixi.renderer);
+    this.generatedTextures.attachTo(this.recovery);
+    this.recovery.subscribe(this.onContextChange);
+    this.recovery.start();
+
     // Handle window resize
     window.addEventListener('resize', this.onResize);
   }
@@ -55,6 +186,45 @@ export class Application {
     }, 50);
   };
 
+  /**
+   * Restyle everything on the stage (scenes rebuild what they drew themselves)
+   */
+  private onThemeChange = (theme: Theme): void => {
+    this.pixi.renderer.background.color = theme.colors.background;
+    applyThemeToTree(this.pixi.stage, theme);
+  };
+
+  /**
+   * Render at a share of the device pixel ratio (CSS size is unchanged)
+   */
+  private applyQuality = (profile: QualityProfile): void => {
+    const resolution = (window.devicePixelRatio || 1) * profile.resolutionScale;
+    const renderer = this.pixi.renderer;
+    if (renderer.resolution === resolution) return;
+
+    renderer.resolution = resolution;
+    renderer.resize(this.pixi.screen.width, this.pixi.screen.height);
+  };
+
+  /**
+   * Pause while the WebGL context is lost; once it is back, upload the loaded
+   * assets right away instead of on first use, then resume the running scene
+   * (generatedTextures has redrawn its textures by then)
+   */
+  private onContextChange = (state: ContextState): void => {
+    if (state === 'lost') {
+      this.pauseService.pause('context-lost');
+      return;
+    }
+
+    for (const baseTexture of this.assets.baseTextures) {
+      this.pixi.renderer.prepare.upload(baseTexture).catch(error => {
+        ErrorHandler.handle(error, 'context-restore', { texture: baseTexture.cacheId });
+      });
+    }
+    this.pauseService.resume('context-lost');
+  };
+
   /**
    * Screen width (shortcut)
    * Falls back to window.innerWidth if PixiJS dimensions aren't ready
@@ -78,7 +248,21 @@ export class Application {
    */
   destroy(): void {
     window.removeEventListener('resize', this.onResize);
-    this.fpsCounter.destroy();
+    this.unsubscribeTheme();
+    this.quality.destroy();
+    this.capture.destroy();
+    this.safeArea.destroy();
+    this.generatedTextures.destroy();
+    this.recovery.destroy();
+    this.pauseService.destroy();
+    this.sound.destroy();
+    this.gamepad.destroy();
+    this.a11y.destroy();
+    this.focus.destroy();
+    this.inputHelp.destroy();
+    this.input.destroy();
+    this.perfHud.destroy();
+    this.assets.destroy();
     this.pixi.destroy(true);
   }
 }
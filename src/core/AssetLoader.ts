@@ -0,0 +1,361 @@
+import { Assets, Spritesheet, Texture, type BaseTexture, type ISpritesheetData } from 'pixi.js';
+
+import { prefixSpritesheetFrames } from './AnimationUtils';
+import { ErrorHandler } from './ErrorHandler';
+
+/**
+ * A single file in an asset bundle
+ */
+export interface AssetEntry {
+  /** Key used to look the asset up once loaded */
+  alias: string;
+  /** URL (Vite-imported asset or a path under public/) */
+  src: string;
+  /** Frame data - when set, the loaded texture is parsed into a Spritesheet */
+  spritesheet?: ISpritesheetData;
+  /** Prefix applied to frame names (avoids global texture cache collisions) */
+  framePrefix?: string;
+  /** Download size in bytes, weighting the file in the loading progress (0 when omitted) */
+  bytes?: number;
+}
+
+/** Bundle name → files that make up the bundle */
+export type AssetManifest = Record<string, AssetEntry[]>;
+
+/**
+ * Progress of a bundle load (reported after every file)
+ */
+export interface LoadProgress {
+  /** Files finished so far */
+  loadedFiles: number;
+  /** Files in the bundle */
+  totalFiles: number;
+  /** Declared bytes of the finished files */
+  loadedBytes: number;
+  /** Declared bytes of the bundle (0 when no file declares a size) */
+  totalBytes: number;
+  /** Completion ratio (0-1): by bytes when sizes are declared, by files otherwise */
+  progress: number;
+}
+
+/**
+ * AssetLoader
+ *
+ * Loads declarative asset bundles through PixiJS Assets:
+ * - Bundles are registered once from a manifest (see config/assetManifest.ts)
+ * - Files shared between bundles are loaded and parsed only once
+ * - prefetch() warms a bundle in the background; a later loadBundle() joins it
+ * - Parsed spritesheets live in Assets.cache so they survive Vite HMR reloads
+ *
+ * Files are reference-counted per owner (a scene or mode): loadBundle(name, owner)
+ * holds every file of the bundle until release(owner). A file nobody holds is kept
+ * warm for keepWarmMs, then unloaded and its GPU textures destroyed.
+ */
+export class AssetLoader {
+  /**
+   * How long (ms) unused files stay loaded before being unloaded.
+   * Covers quick re-entries and prefetched bundles that are not opened yet.
+   */
+  keepWarmMs = 0;
+
+  /** Registered bundles */
+  private bundles = new Map<string, AssetEntry[]>();
+
+  /** In-flight or finished file loads, by alias */
+  private entryLoads = new Map<string, Promise<void>>();
+
+  /** Base textures of each loaded file, by alias (for unloading and memory stats) */
+  private loadedEntries = new Map<string, BaseTexture[]>();
+
+  /** Bundles held by each owner */
+  private owners = new Map<object, Set<string>>();
+
+  /** Number of held bundles that contain each file, by alias */
+  private refCounts = new Map<string, number>();
+
+  /** Pending keep-warm unloads, by alias */
+  private unloadTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /**
+   * Register the bundles of a manifest
+   */
+  addManifest(manifest: AssetManifest): void {
+    for (const [name, entries] of Object.entries(manifest)) {
+      this.bundles.set(name, entries);
+    }
+  }
+
+  /**
+   * Whether every file of a bundle is ready
+   */
+  isLoaded(name: string): boolean {
+    const entries = this.bundles.get(name);
+    return !!entries && entries.every(entry => this.loadedEntries.has(entry.alias));
+  }
+
+  /**
+   * Estimated GPU memory (bytes) of all loaded textures, at 4 bytes per pixel
+   */
+  get textureMemory(): number {
+    let bytes = 0;
+    for (const baseTexture of this.baseTextures) {
+      bytes += baseTexture.realWidth * baseTexture.realHeight * 4;
+    }
+    return bytes;
+  }
+
+  /**
+   * Textures of every loaded file (each once, even when shared by several files)
+   */
+  get baseTextures(): BaseTexture[] {
+    return [...new Set([...this.loadedEntries.values()].flat())];
+  }
+
+  /**
+   * Load all files of a bundle.
+   * Already-loaded files count towards progress immediately.
+   * @param name Bundle name from the manifest
+   * @param owner Holds the files until release(owner); null loads them unowned (kept warm only)
+   * @param onProgress Called after each file finishes
+   */
+  async loadBundle(
+    name: string,
+    owner: object | null,
+    onProgress?: (progress: LoadProgress) => void
+  ): Promise<void> {
+    const entries = this.bundles.get(name);
+    if (!entries) {
+      throw new Error(`[AssetLoader] Unknown bundle "${name}"`);
+    }
+
+    if (owner) this.acquire(name, entries, owner);
+
+    const status: LoadProgress = {
+      loadedFiles: 0,
+      totalFiles: entries.length,
+      loadedBytes: 0,
+      totalBytes: entries.reduce((sum, entry) => sum + (entry.bytes ?? 0), 0),
+      progress: entries.length === 0 ? 1 : 0,
+    };
+    onProgress?.({ ...status });
+
+    await Promise.all(
+      entries.map(async entry => {
+        await this.loadEntry(entry);
+        status.loadedFiles++;
+        status.loadedBytes += entry.bytes ?? 0;
+        status.progress =
+          status.totalBytes > 0
+            ? status.loadedBytes / status.totalBytes
+            : status.loadedFiles / status.totalFiles;
+        onProgress?.({ ...status });
+      })
+    );
+  }
+
+  /**
+   * Drop an owner's hold on its bundles (or on a single bundle).
+   * Files no longer held by anyone are unloaded after keepWarmMs.
+   */
+  release(owner: object, name?: string): void {
+    const held = this.owners.get(owner);
+    if (!held) return;
+
+    const names = name === undefined ? [...held] : held.has(name) ? [name] : [];
+    for (const bundleName of names) {
+      held.delete(bundleName);
+      for (const entry of this.bundles.get(bundleName) ?? []) {
+        const count = (this.refCounts.get(entry.alias) ?? 0) - 1;
+        if (count > 0) {
+          this.refCounts.set(entry.alias, count);
+        } else {
+          this.refCounts.delete(entry.alias);
+          this.scheduleUnload(entry.alias);
+        }
+      }
+    }
+    if (held.size === 0) this.owners.delete(owner);
+  }
+
+  /**
+   * Start loading a bundle in the background (fire and forget).
+   * Failures are only logged - the real load will retry and surface them.
+   */
+  prefetch(name: string): void {
+    if (this.isLoaded(name) || !this.bundles.has(name)) return;
+
+    this.loadBundle(name, null).catch(error => {
+      ErrorHandler.handle(error, 'asset-prefetch', { bundle: name });
+    });
+  }
+
+  /**
+   * Get a loaded texture by alias
+   */
+  getTexture(alias: string): Texture {
+    const texture = Assets.get<Texture>(alias);
+    if (!texture) {
+      throw new Error(`[AssetLoader] Texture "${alias}" is not loaded`);
+    }
+    return texture;
+  }
+
+  /**
+   * Get a loaded (parsed) spritesheet by alias
+   */
+  getSpritesheet(alias: string): Spritesheet {
+    const sheet = Assets.cache.has(alias) ? Assets.cache.get(alias) : null;
+    if (!(sheet instanceof Spritesheet)) {
+      throw new Error(`[AssetLoader] Spritesheet "${alias}" is not loaded`);
+    }
+    return sheet;
+  }
+
+  /**
+   * Cancel pending unloads (loaded files stay in memory)
+   */
+  destroy(): void {
+    for (const timer of this.unloadTimers.values()) clearTimeout(timer);
+    this.unloadTimers.clear();
+  }
+
+  // ============================================================
+  // Reference counting
+  // ============================================================
+
+  private acquire(name: string, entries: AssetEntry[], owner: object): void {
+    let held = this.owners.get(owner);
+    if (!held) {
+      held = new Set();
+      this.owners.set(owner, held);
+    }
+    if (held.has(name)) return;
+
+    held.add(name);
+    for (const entry of entries) {
+      this.refCounts.set(entry.alias, (this.refCounts.get(entry.alias) ?? 0) + 1);
+      this.cancelUnload(entry.alias);
+    }
+  }
+
+  private scheduleUnload(alias: string): void {
+    this.cancelUnload(alias);
+    if (this.keepWarmMs <= 0) {
+      this.unloadEntry(alias);
+      return;
+    }
+    this.unloadTimers.set(
+      alias,
+      setTimeout(() => {
+        this.unloadTimers.delete(alias);
+        this.unloadEntry(alias);
+      }, this.keepWarmMs)
+    );
+  }
+
+  private cancelUnload(alias: string): void {
+    const timer = this.unloadTimers.get(alias);
+    if (timer === undefined) return;
+    clearTimeout(timer);
+    this.unloadTimers.delete(alias);
+  }
+
+  /**
+   * Unload a file nobody holds. Files still loading are unloaded once they finish.
+   */
+  private unloadEntry(alias: string): void {
+    if (this.refCounts.has(alias) || !this.loadedEntries.has(alias)) return;
+
+    const entry = this.findEntry(alias);
+    this.loadedEntries.delete(alias);
+    this.entryLoads.delete(alias);
+    if (!entry) return;
+
+    if (entry.spritesheet) {
+      // Frame textures first (removes them from the global texture cache), then the sheet image
+      const sheet = Assets.cache.get(alias);
+      if (sheet instanceof Spritesheet) sheet.destroy(false);
+      Assets.cache.remove(alias);
+    }
+
+    Assets.unload(entry.spritesheet ? entry.src : alias).catch(error => {
+      ErrorHandler.handle(error, 'asset-unload', { alias });
+    });
+    if (import.meta.env.DEV) console.log(`[AssetLoader] Unloaded ${alias}`);
+  }
+
+  private findEntry(alias: string): AssetEntry | undefined {
+    for (const entries of this.bundles.values()) {
+      const entry = entries.find(candidate => candidate.alias === alias);
+      if (entry) return entry;
+    }
+    return undefined;
+  }
+
+  // ============================================================
+  // Internals
+  // ============================================================
+
+  /**
+   * Load (and parse) a single file, sharing the work between bundles
+   */
+  private loadEntry(entry: AssetEntry): Promise<void> {
+    const existing = this.entryLoads.get(entry.alias);
+    if (existing) return existing;
+
+    const load = (entry.spritesheet ? this.loadSpritesheet(entry) : this.loadFile(entry)).then(
+      baseTextures => {
+        this.loadedEntries.set(entry.alias, baseTextures);
+        // Every owner let go while the file was loading
+        if (!this.refCounts.has(entry.alias)) this.scheduleUnload(entry.alias);
+      }
+    );
+    this.entryLoads.set(entry.alias, load);
+
+    // Forget failed loads so the next attempt can retry
+    load.catch(() => {
+      if (this.entryLoads.get(entry.alias) === load) this.entryLoads.delete(entry.alias);
+    });
+    return load;
+  }
+
+  private async loadFile(entry: AssetEntry): Promise<BaseTexture[]> {
+    // Re-adding an alias logs a warning, so only register it once
+    if (!Assets.resolver.hasKey(entry.alias)) {
+      Assets.add({ alias: entry.alias, src: entry.src });
+    }
+    return collectBaseTextures(await Assets.load(entry.alias));
+  }
+
+  private async loadSpritesheet(entry: AssetEntry): Promise<BaseTexture[]> {
+    // Parsed before this module was reloaded (HMR) - re-parsing would warn about duplicates
+    if (Assets.cache.has(entry.alias)) {
+      return collectBaseTextures(Assets.cache.get(entry.alias));
+    }
+
+    const texture = await Assets.load<Texture>(entry.src);
+    const data = entry.framePrefix
+      ? prefixSpritesheetFrames(entry.spritesheet!, entry.framePrefix)
+      : entry.spritesheet!;
+    const sheet = new Spritesheet(texture, data);
+    await sheet.parse();
+    Assets.cache.set(entry.alias, sheet);
+    return [sheet.baseTexture];
+  }
+}
+
+/**
+ * GPU textures backing a loaded asset: textures, spritesheets and
+ * Spine atlases (whose pages wrap a Pixi texture). Other assets have none.
+ */
+function collectBaseTextures(asset: unknown): BaseTexture[] {
+  if (asset instanceof Texture) return [asset.baseTexture];
+  if (asset instanceof Spritesheet) return [asset.baseTexture];
+
+  const pages = (asset as { pages?: { texture?: { texture?: unknown } | null }[] } | null)?.pages;
+  if (!Array.isArray(pages)) return [];
+  return pages
+    .map(page => page.texture?.texture)
+    .filter((texture): texture is Texture => texture instanceof Texture)
+    .map(texture => texture.baseTexture);
+}
@@ -0,0 +1,311 @@
+import {
+  RenderTexture,
+  UPDATE_PRIORITY,
+  type Container,
+  type DisplayObject,
+  type ICanvas,
+  type IRenderer,
+  type Rectangle,
+  type Ticker,
+} from 'pixi.js';
+
+import { ErrorHandler } from './ErrorHandler';
+
+/** Clip encoding: one WebM video, or one PNG per frame */
+export type ClipFormat = 'webm' | 'png';
+
+/**
+ * CaptureService options (see config/sharedSettings.ts)
+ */
+export interface CaptureOptions {
+  /** Screenshot size as a multiple of the canvas resolution */
+  screenshotScale: number;
+  /** Frames per clip */
+  clipFrames: number;
+  /** Default clip encoding */
+  clipFormat: ClipFormat;
+  /** WebM types to try, best first (the first one MediaRecorder supports is used) */
+  mimeTypes: string[];
+  /** WebM bitrate */
+  videoBitsPerSecond: number;
+  /** Start of downloaded file names */
+  filePrefix: string;
+}
+
+/**
+ * What a capture is taken from (a PixiJS Application fits)
+ */
+export interface CaptureSource {
+  renderer: IRenderer;
+  stage: Container;
+  screen: Rectangle;
+  ticker: Ticker;
+}
+
+export interface ClipOptions {
+  /** Number of frames to record (defaults to clipFrames) */
+  frames?: number;
+  /** Encoding (defaults to clipFormat) */
+  format?: ClipFormat;
+  /** Resolution multiple of PNG frames (defaults to 1) */
+  scale?: number;
+}
+
+/**
+ * CaptureService
+ *
+ * Exports what the canvas shows, for marketing shots and bug reports:
+ * - screenshot(): the current frame as a PNG, rendered at a resolution multiple
+ * - recordClip(): the next N rendered frames as a WebM (MediaRecorder) or as
+ *   numbered PNG frames
+ * - saveScreenshot() / saveClip(): the same, downloaded (bound to hotkeys)
+ *
+ * DOM overlays (perf HUD, error console) are never part of the canvas; display
+ * objects registered with exclude() (the focus ring) are hidden while capturing.
+ */
+export class CaptureService {
+  private source: CaptureSource;
+
+  private options: CaptureOptions;
+
+  /** Display objects kept out of captures */
+  private excluded = new Set<DisplayObject>();
+
+  /** Clip being recorded (one at a time) */
+  private recording: Promise<Blob[]> | null = null;
+
+  /** Ends the clip being recorded early */
+  private stopRecording: (() => void) | null = null;
+
+  constructor(source: CaptureSource, options: CaptureOptions) {
+    this.source = source;
+    this.options = options;
+  }
+
+  /** Whether a clip is being recorded */
+  get isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Keep a display object out of captures (e.g. the focus ring)
+   * @returns Function that includes it again
+   */
+  exclude(target: DisplayObject): () => void {
+    this.excluded.add(target);
+    return () => this.excluded.delete(target);
+  }
+
+  /**
+   * Render the current frame to a PNG
+   * @param scale Resolution multiple (2 = twice the canvas pixels in each direction)
+   */
+  screenshot(scale = this.options.screenshotScale): Promise<Blob> {
+    return toPngBlob(this.renderFrame(scale));
+  }
+
+  /**
+   * Record the next rendered frames
+   * @returns One WebM blob, or one PNG blob per frame
+   */
+  recordClip(options: ClipOptions = {}): Promise<Blob[]> {
+    if (this.recording) return Promise.reject(new Error('A clip is already being recorded'));
+
+    const frames = Math.max(1, options.frames ?? this.options.clipFrames);
+    const format = options.format ?? this.options.clipFormat;
+    const recording =
+      format === 'webm' ? this.recordWebM(frames) : this.recordFrames(frames, options.scale ?? 1);
+
+    this.recording = recording;
+    const done = (): void => {
+      this.recording = null;
+      this.stopRecording = null;
+    };
+    recording.then(done, done);
+    return recording;
+  }
+
+  /**
+   * Stop the clip being recorded; it resolves with the frames so far
+   */
+  stopClip(): void {
+    this.stopRecording?.();
+  }
+
+  /**
+   * Take a screenshot and download it
+   */
+  async saveScreenshot(): Promise<void> {
+    try {
+      download(await this.screenshot(), `${this.fileName()}.png`);
+    } catch (error) {
+      ErrorHandler.handle(error, 'capture-screenshot');
+    }
+  }
+
+  /**
+   * Record a clip and download it (pressing the hotkey again ends it early)
+   */
+  async saveClip(format = this.options.clipFormat): Promise<void> {
+    if (this.recording) {
+      this.stopClip();
+      return;
+    }
+
+    try {
+      if (import.meta.env.DEV) console.log(`[CaptureService] Recording ${format} clip`);
+      const blobs = await this.recordClip({ format });
+      const name = this.fileName();
+      if (format === 'webm') {
+        download(blobs[0], `${name}.webm`);
+      } else {
+        blobs.forEach((blob, i) => download(blob, `${name}-${String(i + 1).padStart(4, '0')}.png`));
+      }
+    } catch (error) {
+      ErrorHandler.handle(error, 'capture-clip', { format });
+    }
+  }
+
+  /**
+   * Stop any recording and forget the excluded objects
+   */
+  destroy(): void {
+    this.stopClip();
+    this.excluded.clear();
+  }
+
+  /**
+   * Render the stage into a canvas of its own (excluded objects hidden)
+   */
+  private renderFrame(scale: number): ICanvas {
+    const { renderer, stage, screen } = this.source;
+    const texture = RenderTexture.create({
+      width: screen.width,
+      height: screen.height,
+      resolution: renderer.resolution * scale,
+    });
+    // Render textures clear to transparent; a screenshot should look like the page
+    texture.baseTexture.clearColor = renderer.background.color;
+
+    const restore = this.hideExcluded();
+    try {
+      renderer.render(stage, { renderTexture: texture });
+      return renderer.extract.canvas(texture);
+    } finally {
+      restore();
+      texture.destroy(true);
+    }
+  }
+
+  /**
+   * Encode frames from the live canvas with MediaRecorder
+   */
+  private recordWebM(frames: number): Promise<Blob[]> {
+    const mimeType =
+      typeof MediaRecorder === 'undefined'
+        ? undefined
+        : this.options.mimeTypes.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) return Promise.reject(new Error('WebM recording is not supported'));
+
+    // Frames are requested after each render, so the clip has exactly the frames drawn
+    const stream = (this.source.renderer.view as HTMLCanvasElement).captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: this.options.videoBitsPerSecond,
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => chunks.push(event.data);
+
+    return new Promise((resolve, reject) => {
+      const restore = this.hideExcluded();
+      let remaining = frames;
+      let finished = false;
+
+      const finish = (): void => {
+        if (finished) return;
+        finished = true;
+        this.source.ticker.remove(onFrame);
+        restore();
+        if (recorder.state !== 'inactive') recorder.stop();
+      };
+      const onFrame = (): void => {
+        track.requestFrame();
+        if (--remaining <= 0) finish();
+      };
+
+      recorder.onstop = () => {
+        track.stop();
+        resolve([new Blob(chunks, { type: mimeType })]);
+      };
+      recorder.onerror = () => {
+        finish();
+        reject(new Error('WebM recording failed'));
+      };
+
+      this.stopRecording = finish;
+      recorder.start();
+      this.source.ticker.add(onFrame, undefined, UPDATE_PRIORITY.UTILITY);
+    });
+  }
+
+  /**
+   * Render every frame to a PNG, numbered in order
+   */
+  private recordFrames(frames: number, scale: number): Promise<Blob[]> {
+    const pending: Promise<Blob>[] = [];
+
+    return new Promise(resolve => {
+      const finish = (): void => {
+        this.source.ticker.remove(onFrame);
+        resolve(Promise.all(pending));
+      };
+      const onFrame = (): void => {
+        pending.push(toPngBlob(this.renderFrame(scale)));
+        if (pending.length >= frames) finish();
+      };
+
+      this.stopRecording = finish;
+      this.source.ticker.add(onFrame, undefined, UPDATE_PRIORITY.UTILITY);
+    });
+  }
+
+  /**
+   * Hide the excluded objects that are showing
+   * @returns Function that shows them again
+   */
+  private hideExcluded(): () => void {
+    const hidden = [...this.excluded].filter(target => !target.destroyed && target.visible);
+    for (const target of hidden) target.visible = false;
+    return () => {
+      for (const target of hidden) if (!target.destroyed) target.visible = true;
+    };
+  }
+
+  /** File name without extension, e.g. bestgames-2025-01-31T12-00-00-000Z */
+  private fileName(): string {
+    return `${this.options.filePrefix}-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  }
+}
+
+function toPngBlob(canvas: ICanvas): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    if (!canvas.toBlob) {
+      reject(new Error('Canvas cannot be exported'));
+      return;
+    }
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('PNG export failed'))),
+      'image/png'
+    );
+  });
+}
+
+function download(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
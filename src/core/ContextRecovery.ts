@@ -0,0 +1,134 @@
+import { t } from './I18n';
+
+/** Whether the WebGL context was just lost or is back */
+export type ContextState = 'lost' | 'restored';
+
+/** Called when the WebGL context is lost and when it is restored */
+export type ContextListener = (state: ContextState) => void;
+
+/**
+ * ContextRecovery options (see config/sharedSettings.ts)
+ */
+export interface ContextRecoveryOptions {
+  /** Offer a page reload when the context is still lost after this long (ms) */
+  reloadPromptMs: number;
+}
+
+/**
+ * ContextRecovery
+ *
+ * Watches the canvas for WebGL context loss, which low-memory mobile devices
+ * trigger when the GPU is reclaimed. Pixi asks the browser to restore the
+ * context; meanwhile a "restoring graphics" overlay replaces the black canvas,
+ * with a reload button if the context doesn't come back.
+ *
+ * Subscribers bring the content back once restored: textures with a CPU copy
+ * (loaded images, canvases, text) re-upload, render textures have to be drawn
+ * again (see Application and GeneratedTextures).
+ *
+ * Built from DOM elements, since the canvas can't draw while the context is lost.
+ */
+export class ContextRecovery {
+  private canvas: HTMLCanvasElement;
+
+  private options: ContextRecoveryOptions;
+
+  private listeners = new Set<ContextListener>();
+
+  private lost = false;
+
+  /** Overlay shown while the context is lost */
+  private overlay: HTMLDivElement | null = null;
+
+  private reloadPromptTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(canvas: HTMLCanvasElement, options: ContextRecoveryOptions) {
+    this.canvas = canvas;
+    this.options = options;
+  }
+
+  /**
+   * Start watching the canvas
+   */
+  start(): void {
+    this.canvas.addEventListener('webglcontextlost', this.onContextLost);
+    this.canvas.addEventListener('webglcontextrestored', this.onContextRestored);
+  }
+
+  /** Whether the context is lost right now */
+  get isLost(): boolean {
+    return this.lost;
+  }
+
+  /**
+   * Subscribe to context loss and restoration
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ContextListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Stop watching and remove the overlay
+   */
+  destroy(): void {
+    this.canvas.removeEventListener('webglcontextlost', this.onContextLost);
+    this.canvas.removeEventListener('webglcontextrestored', this.onContextRestored);
+    this.hideOverlay();
+    this.listeners.clear();
+  }
+
+  private onContextLost = (event: Event): void => {
+    // Without preventDefault the browser never restores the context
+    event.preventDefault();
+    if (this.lost) return;
+
+    this.lost = true;
+    if (import.meta.env.DEV) console.warn('[ContextRecovery] WebGL context lost');
+    this.showOverlay();
+    this.notify('lost');
+  };
+
+  private onContextRestored = (): void => {
+    if (!this.lost) return;
+
+    this.lost = false;
+    if (import.meta.env.DEV) console.log('[ContextRecovery] WebGL context restored');
+    this.hideOverlay();
+    this.notify('restored');
+  };
+
+  private notify(state: ContextState): void {
+    for (const listener of [...this.listeners]) listener(state);
+  }
+
+  private showOverlay(): void {
+    const overlay = document.createElement('div');
+    overlay.id = 'context-recovery';
+    overlay.setAttribute('role', 'status');
+
+    const message = document.createElement('p');
+    message.textContent = t('common.restoringGraphics');
+
+    const reload = document.createElement('button');
+    reload.textContent = t('common.reload');
+    reload.hidden = true;
+    reload.addEventListener('click', () => window.location.reload());
+
+    overlay.append(message, reload);
+    document.body.appendChild(overlay);
+    this.overlay = overlay;
+
+    this.reloadPromptTimeout = setTimeout(() => {
+      reload.hidden = false;
+    }, this.options.reloadPromptMs);
+  }
+
+  private hideOverlay(): void {
+    if (this.reloadPromptTimeout) clearTimeout(this.reloadPromptTimeout);
+    this.reloadPromptTimeout = null;
+    this.overlay?.remove();
+    this.overlay = null;
+  }
+}
@@ -0,0 +1,132 @@
+import type { ErrorReport } from './ErrorHandler';
+import type { BufferReporter } from './ErrorReporters';
+
+/**
+ * ErrorConsole
+ *
+ * Dev overlay for the in-memory error log. A badge in the bottom-left corner
+ * shows how many errors were handled; clicking it opens a panel listing them
+ * (newest first) with their context, metadata and stack, plus buttons to
+ * export the log as JSON or clear it.
+ *
+ * Built from DOM elements so it still works when rendering itself is broken.
+ */
+export class ErrorConsole {
+  private log: BufferReporter;
+  private element: HTMLDivElement;
+  private badge: HTMLButtonElement;
+  private panel: HTMLDivElement;
+  private title: HTMLSpanElement;
+  private list: HTMLOListElement;
+  private unsubscribe: () => void;
+
+  constructor(log: BufferReporter) {
+    this.log = log;
+
+    this.element = document.createElement('div');
+    this.element.id = 'error-console';
+
+    this.badge = document.createElement('button');
+    this.badge.className = 'error-console-badge';
+    this.badge.addEventListener('click', () => this.setOpen(true));
+
+    this.panel = document.createElement('div');
+    this.panel.className = 'error-console-panel';
+    this.panel.hidden = true;
+
+    const header = document.createElement('div');
+    header.className = 'error-console-header';
+    this.title = document.createElement('span');
+    header.append(
+      this.title,
+      createButton('Export JSON', this.exportLog),
+      createButton('Clear', () => this.log.clear()),
+      createButton('✕', () => this.setOpen(false))
+    );
+
+    this.list = document.createElement('ol');
+    this.panel.append(header, this.list);
+    this.element.append(this.badge, this.panel);
+    document.body.appendChild(this.element);
+
+    this.unsubscribe = log.subscribe(() => this.render());
+    this.render();
+  }
+
+  /**
+   * Remove the overlay
+   */
+  destroy(): void {
+    this.unsubscribe();
+    this.element.remove();
+  }
+
+  private setOpen(open: boolean): void {
+    this.panel.hidden = !open;
+    this.badge.hidden = open || this.log.entries.length === 0;
+  }
+
+  private render(): void {
+    const count = this.log.entries.length;
+    this.badge.textContent = `⚠ ${count} error${count === 1 ? '' : 's'}`;
+    this.badge.hidden = !this.panel.hidden || count === 0;
+    this.title.textContent = `Errors (${count})`;
+    this.list.replaceChildren(...[...this.log.entries].reverse().map(createEntry));
+  }
+
+  /**
+   * Download the log as a JSON file
+   */
+  private exportLog = (): void => {
+    const blob = new Blob([this.log.exportJSON()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `error-log-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+}
+
+function createButton(label: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.textContent = label;
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+/**
+ * One log entry: summary line, expandable to metadata and stack
+ */
+function createEntry(report: ErrorReport): HTMLLIElement {
+  const item = document.createElement('li');
+  const details = document.createElement('details');
+
+  const summary = document.createElement('summary');
+  const time = new Date(report.timestamp).toLocaleTimeString();
+  summary.textContent = `${time} [${report.context}] ${report.message}`;
+  details.appendChild(summary);
+
+  if (report.metadata) {
+    const metadata = document.createElement('pre');
+    metadata.textContent = safeStringify(report.metadata);
+    details.appendChild(metadata);
+  }
+  if (report.stack) {
+    const stack = document.createElement('pre');
+    stack.className = 'error-console-stack';
+    stack.textContent = report.stack;
+    details.appendChild(stack);
+  }
+
+  item.appendChild(details);
+  return item;
+}
+
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+}
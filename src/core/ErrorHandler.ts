@@ -1,44 +1,124 @@
+import { ConsoleReporter } from './ErrorReporters';
+
+/**
+ * A handled error, as passed to reporters
+ */
+export interface ErrorReport {
+  /** Increasing id (unique per page load) */
+  id: number;
+  /** When the error was handled (ms since epoch) */
+  timestamp: number;
+  /** Where it happened (e.g. 'scene-startup', 'api-fetch', 'uncaught') */
+  context: string;
+  message: string;
+  stack?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Destination for error reports (console, log buffer, remote sink...)
+ * See core/ErrorReporters.ts for the built-in ones.
+ */
+export interface ErrorReporter {
+  report(report: ErrorReport): void;
+}
+
 /**
  * ErrorHandler - Centralized error handling for the application
  *
  * Provides:
  * - Consistent error logging
  * - Error categorization by context
- * - Future-ready for external error reporting (Sentry, LogRocket, etc.)
+ * - Pluggable reporters (console, in-memory log, HTTP/postMessage sinks)
+ * - Routing of uncaught errors and unhandled rejections (installGlobalHandlers)
  */
 export class ErrorHandler {
   /** Whether to log errors to console (disable in tests) */
   static verbose = true;
 
+  /** Console output (toggled by `verbose`) */
+  private static consoleReporter = new ConsoleReporter();
+
+  /** Additional reporters */
+  private static reporters = new Set<ErrorReporter>();
+
+  /** Id of the last report */
+  private static lastId = 0;
+
+  /** Error objects already reported (e.g. logged by SceneManager, then rethrown) */
+  private static reported = new WeakSet<object>();
+
+  /**
+   * Send every handled error to a reporter as well
+   * @returns Function that removes the reporter
+   */
+  static addReporter(reporter: ErrorReporter): () => void {
+    this.reporters.add(reporter);
+    return () => {
+      this.reporters.delete(reporter);
+    };
+  }
+
   /**
    * Handle an error with context information.
-   * Logs to console and could be extended to send to external services.
+   * Logs to console and forwards it to every registered reporter.
+   * An error object that was already handled is not reported again.
    *
    * @param error The error that occurred
    * @param context A descriptive context (e.g., 'scene-startup', 'api-fetch')
    * @param metadata Optional additional data for debugging
    */
   static handle(error: unknown, context: string, metadata?: Record<string, unknown>): void {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    const errorStack = error instanceof Error ? error.stack : undefined;
+    // Rethrown errors reach several handlers - report each one once
+    if (typeof error === 'object' && error !== null) {
+      if (this.reported.has(error)) return;
+      this.reported.add(error);
+    }
+
+    const report: ErrorReport = {
+      id: ++this.lastId,
+      timestamp: Date.now(),
+      context,
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      metadata,
+    };
 
     if (this.verbose) {
-      console.error(`[${context}] ${errorMessage}`);
-      if (errorStack) {
-        console.error(errorStack);
-      }
-      if (metadata) {
-        console.error('Metadata:', metadata);
+      this.consoleReporter.report(report);
+    }
+    for (const reporter of this.reporters) {
+      try {
+        reporter.report(report);
+      } catch (reporterError) {
+        // Never let a broken reporter hide the original error (or recurse)
+        console.error('[ErrorHandler] Reporter failed:', reporterError);
       }
     }
+  }
+
+  /**
+   * Route uncaught errors and unhandled promise rejections through handle()
+   * @returns Function that removes the global listeners
+   */
+  static installGlobalHandlers(target: Window = window): () => void {
+    const onError = (event: ErrorEvent): void => {
+      this.handle(event.error ?? event.message, 'uncaught', {
+        source: event.filename,
+        line: event.lineno,
+        column: event.colno,
+      });
+    };
+    const onRejection = (event: PromiseRejectionEvent): void => {
+      this.handle(event.reason, 'unhandled-rejection');
+    };
 
-    // Future: Send to external error reporting service
-    // if (import.meta.env.PROD) {
-    //   Sentry.captureException(error, {
-    //     tags: { context },
-    //     extra: metadata,
-    //   });
-    // }
+    target.addEventListener('error', onError);
+    target.addEventListener('unhandledrejection', onRejection);
+    return () => {
+      target.removeEventListener('error', onError);
+      target.removeEventListener('unhandledrejection', onRejection);
+    };
   }
 
   /**
@@ -0,0 +1,143 @@
+import type { ErrorReport, ErrorReporter } from './ErrorHandler';
+
+/**
+ * Built-in error reporters (register them with ErrorHandler.addReporter)
+ *
+ * - ConsoleReporter: console.error output (used by ErrorHandler when verbose)
+ * - BufferReporter: in-memory ring buffer feeding the error console and JSON export
+ * - HttpReporter: POSTs each report as JSON (a local test server can receive them)
+ * - PostMessageReporter: posts each report to another window (e.g. a test harness parent frame)
+ */
+
+/**
+ * Writes reports to the browser console
+ */
+export class ConsoleReporter implements ErrorReporter {
+  report(report: ErrorReport): void {
+    console.error(`[${report.context}] ${report.message}`);
+    if (report.stack) {
+      console.error(report.stack);
+    }
+    if (report.metadata) {
+      console.error('Metadata:', report.metadata);
+    }
+  }
+}
+
+/**
+ * Keeps the most recent reports in memory
+ */
+export class BufferReporter implements ErrorReporter {
+  /** Maximum number of reports kept (oldest are dropped first) */
+  readonly capacity: number;
+
+  /** Stored reports, oldest first */
+  private reports: ErrorReport[] = [];
+
+  /** Change subscribers */
+  private listeners = new Set<() => void>();
+
+  constructor(capacity = 100) {
+    this.capacity = capacity;
+  }
+
+  report(report: ErrorReport): void {
+    this.reports.push(report);
+    if (this.reports.length > this.capacity) {
+      this.reports.splice(0, this.reports.length - this.capacity);
+    }
+    this.notify();
+  }
+
+  /**
+   * Stored reports, oldest first
+   */
+  get entries(): readonly ErrorReport[] {
+    return this.reports;
+  }
+
+  /**
+   * Forget all stored reports
+   */
+  clear(): void {
+    this.reports = [];
+    this.notify();
+  }
+
+  /**
+   * The log as pretty-printed JSON (for export)
+   */
+  exportJSON(): string {
+    return JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        userAgent: navigator.userAgent,
+        errors: this.reports,
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Get notified when reports are added or cleared
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+/**
+ * POSTs each report as JSON to an endpoint
+ */
+export class HttpReporter implements ErrorReporter {
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  report(report: ErrorReport): void {
+    // keepalive lets reports sent while the page unloads still arrive.
+    // Delivery failures are ignored - reporting them would loop back here.
+    fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(report),
+      keepalive: true,
+    }).catch(() => undefined);
+  }
+}
+
+/**
+ * Posts each report to another window as { type: 'error-report', report }
+ */
+export class PostMessageReporter implements ErrorReporter {
+  private target: Window;
+  private targetOrigin: string;
+
+  /**
+   * @param target Receiving window (e.g. window.parent)
+   * @param targetOrigin Origin the receiver must have - reports are not sent elsewhere
+   */
+  constructor(target: Window, targetOrigin: string) {
+    this.target = target;
+    this.targetOrigin = targetOrigin;
+  }
+
+  report(report: ErrorReport): void {
+    // Metadata may hold values that can't be cloned (functions, DOM nodes) - send plain JSON
+    const payload = JSON.parse(JSON.stringify(report)) as ErrorReport;
+    this.target.postMessage({ type: 'error-report', report: payload }, this.targetOrigin);
+  }
+}
@@ -0,0 +1,115 @@
+import type { Ticker } from 'pixi.js';
+
+/**
+ * FixedStepClock options (e.g. SIMULATION_CONFIG in config/phoenixFlameSettings.ts)
+ */
+export interface FixedStepOptions {
+  /** Simulated time per step (ms) */
+  stepMs: number;
+  /** Steps run at most per frame - time beyond that (hitches, resuming) is dropped */
+  maxStepsPerFrame: number;
+}
+
+/** Advances the simulation by one fixed step */
+export type StepCallback = (stepMs: number) => void;
+
+/**
+ * Draws the simulation between its last two steps
+ * @param alpha How far the frame is into the next step (0..1)
+ */
+export type RenderCallback = (alpha: number) => void;
+
+/**
+ * FixedStepClock
+ *
+ * Runs a simulation in fixed steps, however long the frames are: frame time
+ * goes into an accumulator and whole steps are taken out of it. Physics then
+ * behaves the same at 30 and 144 Hz, and a long frame becomes several small
+ * steps instead of one big one (nothing tunnels through the floor).
+ *
+ * The leftover time is handed to the render callback as an interpolation
+ * factor, so motion stays smooth when steps and frames don't line up.
+ * Without a ticker the clock is driven by advance() or step() (tests).
+ */
+export class FixedStepClock {
+  private options: FixedStepOptions;
+
+  private onStep: StepCallback;
+
+  private onRender: RenderCallback | null;
+
+  /** Frame time not simulated yet (ms, always below one step after advance) */
+  private accumulatorMs = 0;
+
+  /** Ticker driving the clock (set by attachTo) */
+  private ticker: Ticker | null = null;
+
+  constructor(options: FixedStepOptions, onStep: StepCallback, onRender?: RenderCallback) {
+    this.options = options;
+    this.onStep = onStep;
+    this.onRender = onRender ?? null;
+  }
+
+  /** Interpolation factor between the last two steps (0..1) */
+  get alpha(): number {
+    return this.accumulatorMs / this.options.stepMs;
+  }
+
+  /**
+   * Advance with every frame of a ticker (paused tickers simply stop the clock)
+   */
+  attachTo(ticker: Ticker): void {
+    this.detach();
+    this.ticker = ticker;
+    ticker.add(this.update, this);
+  }
+
+  /**
+   * Stop following the ticker (keeps the accumulated time)
+   */
+  detach(): void {
+    this.ticker?.remove(this.update, this);
+    this.ticker = null;
+  }
+
+  /**
+   * Simulate a frame: run the whole steps that fit into the accumulated time, then render
+   * @returns Number of steps run
+   */
+  advance(deltaMs: number): number {
+    const { stepMs, maxStepsPerFrame } = this.options;
+    this.accumulatorMs += Math.max(0, deltaMs);
+
+    let steps = 0;
+    while (this.accumulatorMs >= stepMs && steps < maxStepsPerFrame) {
+      this.onStep(stepMs);
+      this.accumulatorMs -= stepMs;
+      steps++;
+    }
+
+    // Too far behind: drop the backlog rather than spiral (keep the fraction for alpha)
+    if (this.accumulatorMs >= stepMs) this.accumulatorMs %= stepMs;
+
+    this.onRender?.(this.alpha);
+    return steps;
+  }
+
+  /**
+   * Run steps right away, independent of frame time (tests, debugging)
+   */
+  step(count = 1): void {
+    for (let i = 0; i < count; i++) this.onStep(this.options.stepMs);
+    this.onRender?.(this.alpha);
+  }
+
+  /**
+   * Forget accumulated time (e.g. when the simulation restarts)
+   */
+  reset(): void {
+    this.accumulatorMs = 0;
+  }
+
+  private update(): void {
+    if (this.ticker) this.advance(this.ticker.deltaMS);
+  }
+}
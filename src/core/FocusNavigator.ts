@@ -0,0 +1,280 @@
+import { Container, Graphics, UPDATE_PRIORITY, type Ticker } from 'pixi.js';
+
+import type { InputAction, InputManager } from './InputManager';
+import { themeManager } from './ThemeManager';
+
+/**
+ * UI element that can take focus (Button, MenuTile, Slider, Toggle, Dropdown).
+ * Anything with focusActivate or focusAdjust is picked up automatically.
+ */
+export interface Focusable extends Container {
+  /** Press the element (confirm while focused) */
+  focusActivate?(): void;
+  /** Move the element's value by a share of its range (-1..1), e.g. from an analog stick */
+  focusAdjust?(amount: number): void;
+  /** Show or clear the element's own focus state (usually its hover look) */
+  setFocused?(focused: boolean): void;
+}
+
+export type FocusListener = (focused: Focusable | null) => void;
+
+/** Directions of the focus actions */
+const DIRECTIONS: Partial<Record<InputAction, { x: number; y: number }>> = {
+  'focus-up': { x: 0, y: -1 },
+  'focus-down': { x: 0, y: 1 },
+  'focus-left': { x: -1, y: 0 },
+  'focus-right': { x: 1, y: 0 },
+};
+
+/** Focus ring look (color: the theme's focusRing) */
+const RING = {
+  width: 3,
+  padding: 6,
+  radius: 10,
+};
+
+/**
+ * FocusNavigator
+ *
+ * Spatial focus for keyboard and gamepad players:
+ * - focus-up/down/left/right move to the nearest focusable element of the
+ *   current scene in that direction (the first move focuses the top-left one)
+ * - confirm activates the focused element
+ * - adjust() drives the focused slider (analog sticks)
+ *
+ * Focusable elements are found in the scene's display tree, so scenes and
+ * modes don't register anything. A ring is drawn around the focused element;
+ * any pointer press hands control back to the mouse and clears the focus.
+ */
+export class FocusNavigator {
+  /** Returns the container to search (the current scene) */
+  private getRoot: () => Container | null;
+
+  /** Stage the focus ring is drawn on */
+  private stage: Container;
+
+  /** Focus ring graphic */
+  private ring: Graphics;
+
+  /** Currently focused element */
+  private current: Focusable | null = null;
+
+  /** Ticker the ring follows (set by attachTo) */
+  private ticker: Ticker | null = null;
+
+  private listeners = new Set<FocusListener>();
+
+  private unsubscribers: (() => void)[];
+
+  constructor(input: InputManager, stage: Container, getRoot: () => Container | null) {
+    this.stage = stage;
+    this.getRoot = getRoot;
+
+    this.ring = new Graphics();
+    this.ring.eventMode = 'none';
+    this.ring.visible = false;
+    stage.addChild(this.ring);
+
+    this.unsubscribers = [
+      ...Object.entries(DIRECTIONS).map(([action, direction]) =>
+        input.on(action as InputAction, () => this.move(direction.x, direction.y))
+      ),
+      input.on('confirm', () => {
+        if (!this.current?.focusActivate) return false;
+        this.current.focusActivate();
+      }),
+    ];
+
+    window.addEventListener('pointerdown', this.clear);
+  }
+
+  /**
+   * Keep the ring on the focused element every frame
+   */
+  attachTo(ticker: Ticker): void {
+    this.ticker = ticker;
+    ticker.add(this.update, this, UPDATE_PRIORITY.UTILITY);
+  }
+
+  /** Focus ring graphic (e.g. to keep it out of screenshots) */
+  get indicator(): Container {
+    return this.ring;
+  }
+
+  /**
+   * Focused element (null when nothing is focused)
+   */
+  get focused(): Focusable | null {
+    return this.current;
+  }
+
+  /**
+   * Focus an element directly (e.g. when its accessibility mirror gets DOM focus)
+   */
+  focus(item: Focusable | null): void {
+    this.setFocus(item);
+  }
+
+  /**
+   * Listen for focus changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: FocusListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Move the focused element's value (no-op unless it is adjustable)
+   * @param amount Share of its range, negative to decrease
+   */
+  adjust(amount: number): void {
+    this.current?.focusAdjust?.(amount);
+  }
+
+  /**
+   * Move focus in a direction
+   * @returns Whether there was anything to focus
+   */
+  move(dx: number, dy: number): boolean {
+    const candidates = this.collect();
+    if (candidates.length === 0) return false;
+
+    if (!this.current || !candidates.includes(this.current)) {
+      // Start at the top-left element
+      const first = candidates.reduce((best, item) => {
+        const a = center(item);
+        const b = center(best);
+        return a.y + a.x * 0.5 < b.y + b.x * 0.5 ? item : best;
+      });
+      this.setFocus(first);
+      return true;
+    }
+
+    const from = center(this.current);
+    let best: Focusable | null = null;
+    let bestScore = Infinity;
+    for (const item of candidates) {
+      if (item === this.current) continue;
+      const to = center(item);
+      const along = (to.x - from.x) * dx + (to.y - from.y) * dy;
+      if (along <= 0) continue;
+
+      // Prefer elements straight ahead over closer ones off to the side
+      const across = Math.abs((to.x - from.x) * dy) + Math.abs((to.y - from.y) * dx);
+      const score = along + across * 2;
+      if (score < bestScore) {
+        bestScore = score;
+        best = item;
+      }
+    }
+
+    if (best) this.setFocus(best);
+    return true;
+  }
+
+  /**
+   * Drop focus and hide the ring
+   */
+  clear = (): void => {
+    this.setFocus(null);
+  };
+
+  /**
+   * Stop following input and remove the ring
+   */
+  destroy(): void {
+    this.ticker?.remove(this.update, this);
+    this.ticker = null;
+    window.removeEventListener('pointerdown', this.clear);
+    for (const unsubscribe of this.unsubscribers) unsubscribe();
+    this.listeners.clear();
+    this.current = null;
+    this.ring.destroy();
+  }
+
+  private setFocus(item: Focusable | null): void {
+    if (item === this.current) return;
+    if (this.current && !this.current.destroyed) this.current.setFocused?.(false);
+    this.current = item;
+    item?.setFocused?.(true);
+    this.update();
+    for (const listener of this.listeners) listener(item);
+  }
+
+  private update(): void {
+    const item = this.current;
+    if (item && (item.destroyed || !item.worldVisible || !this.isInRoot(item))) {
+      this.current = null;
+    }
+
+    this.ring.visible = this.current !== null;
+    if (!this.current) return;
+
+    // Scenes are added to the stage over time - stay on top of them
+    if (this.stage.children[this.stage.children.length - 1] !== this.ring) {
+      this.stage.addChild(this.ring);
+    }
+
+    const bounds = this.current.getBounds();
+    const { padding, radius, width } = RING;
+    const color = themeManager.theme.colors.focusRing;
+    this.ring.clear();
+    this.ring.lineStyle(width, color);
+    this.ring.drawRoundedRect(
+      bounds.x - padding,
+      bounds.y - padding,
+      bounds.width + padding * 2,
+      bounds.height + padding * 2,
+      radius
+    );
+  }
+
+  /**
+   * Visible focusable elements of the current scene
+   */
+  private collect(): Focusable[] {
+    const root = this.getRoot();
+    return root ? findFocusables(root) : [];
+  }
+
+  private isInRoot(item: Container): boolean {
+    const root = this.getRoot();
+    for (let node: Container | null = item; node; node = node.parent) {
+      if (node === root) return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Visible, interactive focusable elements under root, in display order
+ * (the children of a focusable element are not searched)
+ */
+export function findFocusables(root: Container): Focusable[] {
+  const found: Focusable[] = [];
+  const visit = (node: Container): void => {
+    if (!node.visible || !node.interactiveChildren || node.eventMode === 'none') return;
+    if (isFocusable(node)) {
+      found.push(node);
+      return;
+    }
+    for (const child of node.children) {
+      if (child instanceof Container) visit(child);
+    }
+  };
+  visit(root);
+  return found;
+}
+
+function isFocusable(node: Container): node is Focusable {
+  const candidate = node as Focusable;
+  return (
+    typeof candidate.focusActivate === 'function' || typeof candidate.focusAdjust === 'function'
+  );
+}
+
+function center(item: Container): { x: number; y: number } {
+  const bounds = item.getBounds();
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+}
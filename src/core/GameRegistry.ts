@@ -0,0 +1,156 @@
+import type { Application } from './Application';
+import type { Scene } from './SceneManager';
+
+/**
+ * GameRegistry options (see config/sharedSettings.ts)
+ */
+export interface GameRegistryOptions {
+  /** Games left out of this build: not routable, not in the menu */
+  disabled: string[];
+  /** Games kept out of the menu but still reachable through a deep link */
+  hidden: string[];
+  /** Menu sections in display order (catalog keys; unlisted ones come last) */
+  categories: string[];
+}
+
+/**
+ * Scene of a registered game (BaseGameScene implements it)
+ */
+export interface GameScene extends Scene {
+  /** Show a sub-mode (null = mode selection); modes not in the definition fall back to the selection */
+  openRoute(mode: string | null, params: Record<string, string>): Promise<void>;
+}
+
+/**
+ * Callbacks a game scene is created with
+ */
+export interface GameSceneHooks {
+  /** Leave the game (back to the main menu) */
+  onBack: () => void;
+  /** The scene entered or left a sub-mode (keeps the URL in sync) */
+  onRouteChange: (mode: string | null, params: Record<string, string>) => void;
+}
+
+/**
+ * Everything the menu and the router need to know about a game
+ */
+export interface GameDefinition {
+  /** Route segment and stable id (#/<key>/<mode>) */
+  key: string;
+  /** Catalog key of the game name */
+  titleKey: string;
+  /** Catalog key of the task description (mode selection screen) */
+  descriptionKey: string;
+  thumbnailUrl: string;
+  /** Scene bundle, prefetched when the menu tile is hovered or pressed */
+  bundle: string;
+  /** Sub-modes the game can be opened in (route check and scene routing) */
+  modes: readonly string[];
+  /** Catalog key of the menu section (games without one come last) */
+  category?: string;
+  /** Position within the section (lower first, then registration order) */
+  order?: number;
+  /**
+   * Load the scene code and create the scene (keep the import dynamic: one chunk per game)
+   * @param game This definition, handed to the scene (title, description, modes)
+   */
+  createScene: (
+    app: Application,
+    game: GameDefinition,
+    hooks: GameSceneHooks
+  ) => Promise<GameScene>;
+}
+
+/**
+ * Games of one menu section
+ */
+export interface GameSection {
+  /** Catalog key of the section title (null for games without a category) */
+  category: string | null;
+  games: GameDefinition[];
+}
+
+/**
+ * GameRegistry
+ *
+ * The games this build ships. The main menu lists them and the router opens
+ * them by key, so adding a game means registering one definition (see
+ * config/games.ts) instead of editing the menu and the router.
+ *
+ * Per build, games can be disabled (gone entirely) or hidden (deep link only)
+ * through the options.
+ */
+export class GameRegistry {
+  private options: GameRegistryOptions;
+
+  /** Registered games by key, in registration order */
+  private games = new Map<string, GameDefinition>();
+
+  constructor(options: GameRegistryOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Register games (a key registered again replaces the earlier definition)
+   */
+  register(definitions: readonly GameDefinition[]): void {
+    for (const definition of definitions) {
+      this.games.set(definition.key, definition);
+    }
+  }
+
+  /**
+   * Definition of an enabled game (null when unknown or disabled)
+   */
+  get(key: string): GameDefinition | null {
+    if (this.options.disabled.includes(key)) return null;
+    return this.games.get(key) ?? null;
+  }
+
+  /**
+   * Games shown in the menu: enabled, not hidden, ordered by section then order
+   */
+  listed(): GameDefinition[] {
+    const registered = [...this.games.values()];
+    const rank = (game: GameDefinition): number => this.categoryRank(game, registered);
+    return registered
+      .filter(
+        ({ key }) => !this.options.disabled.includes(key) && !this.options.hidden.includes(key)
+      )
+      .sort(
+        (a, b) =>
+          rank(a) - rank(b) ||
+          (a.order ?? Infinity) - (b.order ?? Infinity) ||
+          registered.indexOf(a) - registered.indexOf(b)
+      );
+  }
+
+  /**
+   * Listed games grouped into menu sections, in display order
+   */
+  sections(): GameSection[] {
+    const sections: GameSection[] = [];
+    for (const game of this.listed()) {
+      const category = game.category ?? null;
+      const section = sections.find(s => s.category === category);
+      if (section) {
+        section.games.push(game);
+      } else {
+        sections.push({ category, games: [game] });
+      }
+    }
+    return sections;
+  }
+
+  /**
+   * Section position: configured categories first, then unlisted ones in
+   * registration order, then games without a category
+   */
+  private categoryRank({ category }: GameDefinition, registered: GameDefinition[]): number {
+    if (category === undefined) return Infinity;
+    const { categories } = this.options;
+    const index = categories.indexOf(category);
+    if (index !== -1) return index;
+    return categories.length + registered.findIndex(game => game.category === category);
+  }
+}
@@ -0,0 +1,101 @@
+import { UPDATE_PRIORITY, type Ticker } from 'pixi.js';
+
+import type { FocusNavigator } from './FocusNavigator';
+import type { InputAction, InputManager } from './InputManager';
+
+/**
+ * Gamepad mapping (see config/sharedSettings.ts)
+ */
+export interface GamepadOptions {
+  /** Actions per standard-mapping button index, tried in order until one is handled */
+  buttons: Partial<Record<number, InputAction[]>>;
+  /** Stick deflection (0-1) ignored around the center */
+  stickDeadzone: number;
+  /** Share of a focused slider's range covered per second at full deflection */
+  sliderSpeed: number;
+}
+
+/**
+ * GamepadInput
+ *
+ * Polls the Gamepad API on a Pixi ticker (so it pauses with the app):
+ * - Button presses fire InputManager actions (once per press, no repeat)
+ * - Either analog stick's horizontal axis drives the focused slider
+ *
+ * Every connected pad is read, so any controller can take over.
+ */
+export class GamepadInput {
+  private input: InputManager;
+  private focus: FocusNavigator;
+  private options: GamepadOptions;
+
+  /** Button states of the previous poll, per pad index */
+  private previous = new Map<number, boolean[]>();
+
+  /** Ticker polling the pads (set by attachTo) */
+  private ticker: Ticker | null = null;
+
+  constructor(input: InputManager, focus: FocusNavigator, options: GamepadOptions) {
+    this.input = input;
+    this.focus = focus;
+    this.options = options;
+  }
+
+  /**
+   * Start polling every frame
+   */
+  attachTo(ticker: Ticker): void {
+    this.ticker = ticker;
+    ticker.add(this.poll, this, UPDATE_PRIORITY.INTERACTION);
+  }
+
+  /**
+   * Stop polling
+   */
+  destroy(): void {
+    this.ticker?.remove(this.poll, this);
+    this.ticker = null;
+    this.previous.clear();
+  }
+
+  private poll(): void {
+    // Not available in insecure contexts and some embedded browsers
+    const pads = navigator.getGamepads?.() ?? [];
+
+    for (const pad of pads) {
+      if (!pad?.connected) continue;
+
+      const pressed = pad.buttons.map(button => button.pressed);
+      const before = this.previous.get(pad.index) ?? [];
+      pressed.forEach((down, index) => {
+        if (down && !before[index]) this.press(index);
+      });
+      this.previous.set(pad.index, pressed);
+
+      this.readStick(pad);
+    }
+  }
+
+  private press(button: number): void {
+    const actions = this.options.buttons[button] ?? [];
+    for (const action of actions) {
+      if (this.input.trigger(action)) return;
+    }
+  }
+
+  /**
+   * Adjust the focused slider with whichever stick (left x / right x) is pushed further
+   */
+  private readStick(pad: Gamepad): void {
+    const x = [pad.axes[0] ?? 0, pad.axes[2] ?? 0].reduce((a, b) =>
+      Math.abs(b) > Math.abs(a) ? b : a
+    );
+    const { stickDeadzone, sliderSpeed } = this.options;
+    if (Math.abs(x) <= stickDeadzone) return;
+
+    // Rescale so movement starts from zero at the edge of the deadzone
+    const strength = (Math.abs(x) - stickDeadzone) / (1 - stickDeadzone);
+    const seconds = (this.ticker?.deltaMS ?? 0) / 1000;
+    this.focus.adjust(Math.sign(x) * strength * sliderSpeed * seconds);
+  }
+}
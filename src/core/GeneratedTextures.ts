@@ -0,0 +1,130 @@
+import {
+  Matrix,
+  Texture,
+  Transform,
+  type BaseTexture,
+  type Container,
+  type IRenderer,
+  type Rectangle,
+  type RenderTexture,
+} from 'pixi.js';
+
+import type { ContextRecovery } from './ContextRecovery';
+import { ErrorHandler } from './ErrorHandler';
+
+/** A generated texture and what it is brought back from */
+type GeneratedTexture =
+  | { texture: RenderTexture; source: Container; region: Rectangle }
+  | { texture: Texture; canvas: HTMLCanvasElement };
+
+/**
+ * GeneratedTextures
+ *
+ * Registry of the textures the game draws itself: display objects rendered
+ * into a texture (card shadows) and canvases (the Phoenix radial shadow).
+ * A WebGL context loss takes their GPU copies away, and a render texture has
+ * no CPU copy to upload again, so the registry keeps each source and, once the
+ * context is restored, renders it into the same texture again and re-uploads
+ * the canvases. Sprites keep their textures, so the running scene carries on.
+ *
+ * A texture leaves the registry when it is destroyed; its source goes with it.
+ */
+export class GeneratedTextures {
+  private renderer: IRenderer;
+
+  /** Live textures by base texture */
+  private entries = new Map<BaseTexture, GeneratedTexture>();
+
+  /** Stops listening to the ContextRecovery (set by attachTo) */
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(renderer: IRenderer) {
+    this.renderer = renderer;
+  }
+
+  /** Number of live generated textures */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Restore the textures whenever the context comes back
+   */
+  attachTo(recovery: ContextRecovery): void {
+    this.unsubscribe?.();
+    this.unsubscribe = recovery.subscribe(state => {
+      if (state === 'restored') this.restore();
+    });
+  }
+
+  /**
+   * Render a display object into a texture (e.g. a Graphics into a card shadow).
+   * The source is kept to draw the texture again after a context loss and is
+   * destroyed with the texture - don't destroy it yourself.
+   */
+  render(source: Container): RenderTexture {
+    const region = source.getLocalBounds(undefined, true).clone();
+    const texture = this.renderer.generateTexture(source, { region });
+    this.track({ texture, source, region });
+    return texture;
+  }
+
+  /**
+   * Texture of a canvas drawn by the game (uploaded again after a context loss)
+   */
+  fromCanvas(canvas: HTMLCanvasElement): Texture {
+    const texture = Texture.from(canvas);
+    this.track({ texture, canvas });
+    return texture;
+  }
+
+  /**
+   * Draw every render texture again and re-upload the canvases
+   * (the renderer must have its context back)
+   */
+  restore(): void {
+    for (const entry of this.entries.values()) {
+      if ('source' in entry) {
+        this.redraw(entry.texture, entry.source, entry.region);
+        continue;
+      }
+      this.renderer.prepare.upload(entry.texture.baseTexture).catch(error => {
+        ErrorHandler.handle(error, 'context-restore', { texture: 'canvas' });
+      });
+    }
+  }
+
+  /**
+   * Stop listening (the textures belong to their owners, who destroy them)
+   */
+  destroy(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.entries.clear();
+  }
+
+  private track(entry: GeneratedTexture): void {
+    const { baseTexture } = entry.texture;
+    this.entries.set(baseTexture, entry);
+    baseTexture.once('destroyed', () => {
+      this.entries.delete(baseTexture);
+      if ('source' in entry) entry.source.destroy();
+    });
+  }
+
+  /** Render the source the way renderer.generateTexture() did (own transform ignored) */
+  private redraw(texture: RenderTexture, source: Container, region: Rectangle): void {
+    const transform = source.transform;
+    source.transform = new Transform();
+    try {
+      this.renderer.render(source, {
+        renderTexture: texture,
+        transform: new Matrix(1, 0, 0, 1, -region.x, -region.y),
+        clear: true,
+        skipUpdateTransform: !!source.parent,
+      });
+    } finally {
+      source.transform = transform;
+    }
+  }
+}
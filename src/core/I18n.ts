@@ -0,0 +1,243 @@
+import { I18N } from '../config/sharedSettings';
+
+import { settingsStore, type SettingsNamespace, type SettingsStore } from './SettingsStore';
+
+/**
+ * Text direction of a locale
+ */
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * One catalog entry: plain text, or one text per plural category
+ * (`one`, `other`, ... as returned by Intl.PluralRules; `other` is required)
+ */
+export type Translation =
+  | string
+  | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+/**
+ * Flat key -> translation map of one locale (see src/locales/*.json)
+ */
+export type LocaleCatalog = Record<string, Translation>;
+
+/**
+ * Values substituted into `{name}` placeholders; `count` also selects the plural form
+ */
+export type TranslationParams = Record<string, string | number>;
+
+export type LocaleListener = (locale: string) => void;
+
+/**
+ * Supported locale as listed in config
+ */
+export interface LocaleInfo {
+  /** Name shown in the locale picker, in the locale itself */
+  name: string;
+  dir: TextDirection;
+}
+
+/**
+ * I18n options (see config/sharedSettings.ts)
+ */
+export interface I18nOptions {
+  /** SettingsStore namespace of the player's locale */
+  settingsNamespace: string;
+  /** Locale used when nothing matches, and for keys missing from other catalogs */
+  defaultLocale: string;
+  /** Supported locales by BCP 47 tag */
+  locales: Record<string, LocaleInfo>;
+}
+
+/** What is persisted: the player's locale ('' = none, follow the browser) */
+interface LocaleSettings {
+  locale: string;
+}
+
+/**
+ * I18n
+ *
+ * Looks up UI strings in per-locale catalogs, with `{name}` interpolation and
+ * plural forms picked by `params.count`. The locale can change at runtime:
+ * subscribers (main menu, scenes, settings panels) rebuild their text.
+ *
+ * A key missing from the current catalog falls back to the default locale, then
+ * to the key itself, so an incomplete translation never blanks the UI.
+ */
+export class I18n {
+  private options: I18nOptions;
+
+  /** Persisted locale (validated against the supported locales on load) */
+  private settings: SettingsNamespace<LocaleSettings>;
+
+  /** Catalogs by locale */
+  private catalogs = new Map<string, LocaleCatalog>();
+
+  /** Plural rules by locale (created on first use) */
+  private pluralRules = new Map<string, Intl.PluralRules>();
+
+  private listeners = new Set<LocaleListener>();
+
+  /** Keys already reported missing (DEV) */
+  private reportedMissing = new Set<string>();
+
+  private currentLocale: string;
+
+  /**
+   * @param store Store the locale is persisted in (tests pass their own)
+   */
+  constructor(options: I18nOptions, store: SettingsStore = settingsStore) {
+    this.options = options;
+    this.settings = store.namespace<LocaleSettings>(options.settingsNamespace, {
+      version: 1,
+      defaults: () => ({ locale: '' }),
+      rules: { locale: { oneOf: Object.keys(options.locales) } },
+    });
+    this.currentLocale = this.detectLocale();
+    this.applyDocumentLocale();
+  }
+
+  /** Current locale tag */
+  get locale(): string {
+    return this.currentLocale;
+  }
+
+  /** Text direction of the current locale */
+  get direction(): TextDirection {
+    return this.options.locales[this.currentLocale]?.dir ?? 'ltr';
+  }
+
+  /** Supported locales, in config order */
+  get locales(): { code: string; name: string }[] {
+    return Object.entries(this.options.locales).map(([code, info]) => ({
+      code,
+      name: info.name,
+    }));
+  }
+
+  /**
+   * Add catalogs (merged into any already registered for the same locale)
+   */
+  registerCatalogs(catalogs: Record<string, LocaleCatalog>): void {
+    for (const [locale, catalog] of Object.entries(catalogs)) {
+      this.catalogs.set(locale, { ...this.catalogs.get(locale), ...catalog });
+    }
+  }
+
+  /**
+   * Switch locale, persist the choice and notify subscribers
+   * (unsupported locales are ignored)
+   */
+  setLocale(locale: string): void {
+    if (!(locale in this.options.locales) || locale === this.currentLocale) return;
+
+    this.currentLocale = locale;
+    this.applyDocumentLocale();
+    this.settings.save({ locale });
+    for (const listener of this.listeners) listener(locale);
+  }
+
+  /**
+   * Listen for locale changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: LocaleListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Translated text of `key`
+   */
+  t(key: string, params?: TranslationParams): string {
+    const entry = this.lookup(key);
+    if (entry === undefined) return key;
+
+    const text = typeof entry === 'string' ? entry : this.selectPlural(entry, params?.count);
+    return params ? interpolate(text, params) : text;
+  }
+
+  private lookup(key: string): Translation | undefined {
+    const entry =
+      this.catalogs.get(this.currentLocale)?.[key] ??
+      this.catalogs.get(this.options.defaultLocale)?.[key];
+
+    if (entry === undefined && import.meta.env.DEV && !this.reportedMissing.has(key)) {
+      this.reportedMissing.add(key);
+      console.warn(`[I18n] Missing translation "${key}" (${this.currentLocale})`);
+    }
+    return entry;
+  }
+
+  private selectPlural(entry: Exclude<Translation, string>, count: unknown): string {
+    if (typeof count !== 'number') return entry.other;
+
+    let rules = this.pluralRules.get(this.currentLocale);
+    if (!rules) {
+      rules = new Intl.PluralRules(this.currentLocale);
+      this.pluralRules.set(this.currentLocale, rules);
+    }
+    // Exact zero gets its own form when the catalog has one, even in languages without it
+    if (count === 0 && entry.zero !== undefined) return entry.zero;
+    return entry[rules.select(count)] ?? entry.other;
+  }
+
+  /**
+   * Stored choice, then the browser's language, then the default locale
+   */
+  private detectLocale(): string {
+    const supported = (locale: string): boolean => locale in this.options.locales;
+
+    const stored = this.settings.load()?.locale;
+    if (stored) return stored;
+
+    for (const language of navigator.languages ?? [navigator.language]) {
+      if (supported(language)) return language;
+      const base = language.split('-')[0];
+      if (supported(base)) return base;
+    }
+    return this.options.defaultLocale;
+  }
+
+  /** Let the browser (screen readers, form controls) know the page language */
+  private applyDocumentLocale(): void {
+    document.documentElement.lang = this.currentLocale;
+    document.documentElement.dir = this.direction;
+  }
+}
+
+/**
+ * Replace `{name}` placeholders (unknown names are left as they are)
+ */
+export function interpolate(text: string, params: TranslationParams): string {
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/** Letters of right-to-left scripts (Hebrew, Arabic, Syriac, Thaana, N'Ko and their presentation forms) */
+const RTL_LETTER = /[\u0590-\u07ff\u08a0-\u08ff\ufb1d-\ufdff\ufe70-\ufefc]/;
+
+/** Letters of common left-to-right scripts (Latin, Greek, Cyrillic) */
+const LTR_LETTER = /[A-Za-z\u00c0-\u024f\u0370-\u03ff\u0400-\u04ff]/;
+
+/**
+ * Direction of a text, from its first strongly directional letter
+ * (text without letters, e.g. only digits and emoji, is 'ltr')
+ */
+export function detectTextDirection(text: string): TextDirection {
+  for (const char of text) {
+    if (RTL_LETTER.test(char)) return 'rtl';
+    if (LTR_LETTER.test(char)) return 'ltr';
+  }
+  return 'ltr';
+}
+
+/** Shared instance the UI translates with */
+export const i18n = new I18n(I18N);
+
+/**
+ * Shorthand for i18n.t()
+ */
+export function t(key: string, params?: TranslationParams): string {
+  return i18n.t(key, params);
+}
@@ -0,0 +1,152 @@
+import { i18n, t } from './I18n';
+import type { InputAction, InputManager } from './InputManager';
+
+/**
+ * InputCheatSheet
+ *
+ * Keyboard shortcut overlay, toggled by the 'help' action (? by default).
+ * Lists every action with its keys; clicking a key button waits for the next
+ * key press and binds the action to it. Changes go through InputManager, so
+ * they are persisted and the list stays in sync. Relabels itself on locale change.
+ */
+export class InputCheatSheet {
+  private input: InputManager;
+  /** Catalog keys of the action labels (also the listing order) */
+  private labelKeys: Record<InputAction, string>;
+  private element: HTMLDivElement;
+  private title: HTMLSpanElement;
+  private resetButton: HTMLButtonElement;
+  private hint: HTMLParagraphElement;
+  private list: HTMLDListElement;
+
+  /** Action waiting for its new key (null when not rebinding) */
+  private rebinding: InputAction | null = null;
+
+  /** Cancels the pending key capture */
+  private cancelCapture: (() => void) | null = null;
+
+  /** Unsubscribes the 'back' handler that closes the sheet while open */
+  private removeCloseHandler: (() => void) | null = null;
+
+  private unsubscribers: (() => void)[];
+
+  constructor(input: InputManager, labelKeys: Record<InputAction, string>) {
+    this.input = input;
+    this.labelKeys = labelKeys;
+
+    this.element = document.createElement('div');
+    this.element.id = 'input-help';
+    this.element.hidden = true;
+
+    const header = document.createElement('div');
+    header.className = 'input-help-header';
+    this.title = document.createElement('span');
+    this.resetButton = createButton('', () => this.input.resetBindings());
+    header.append(
+      this.title,
+      this.resetButton,
+      createButton('✕', () => this.setOpen(false))
+    );
+
+    this.hint = document.createElement('p');
+    this.hint.className = 'input-help-hint';
+
+    this.list = document.createElement('dl');
+    this.element.append(header, this.hint, this.list);
+    document.body.appendChild(this.element);
+
+    this.unsubscribers = [
+      input.on('help', () => this.setOpen(this.element.hidden)),
+      input.subscribe(() => this.render()),
+      i18n.subscribe(() => this.render()),
+    ];
+    this.render();
+  }
+
+  /**
+   * Remove the overlay
+   */
+  destroy(): void {
+    this.setOpen(false);
+    for (const unsubscribe of this.unsubscribers) unsubscribe();
+    this.element.remove();
+  }
+
+  private setOpen(open: boolean): void {
+    this.element.hidden = !open;
+    this.stopRebinding();
+
+    this.removeCloseHandler?.();
+    // Subscribed last, so Esc closes the sheet instead of leaving the scene
+    this.removeCloseHandler = open ? this.input.on('back', () => this.setOpen(false)) : null;
+  }
+
+  private startRebinding(action: InputAction): void {
+    this.stopRebinding();
+    this.rebinding = action;
+    this.cancelCapture = this.input.captureNextKey(key => {
+      this.rebinding = null;
+      this.cancelCapture = null;
+      this.input.rebind(action, [key]);
+    });
+    this.render();
+  }
+
+  private stopRebinding(): void {
+    this.cancelCapture?.();
+    this.cancelCapture = null;
+    if (this.rebinding) {
+      this.rebinding = null;
+      this.render();
+    }
+  }
+
+  private render(): void {
+    this.title.textContent = t('input.title');
+    this.resetButton.textContent = t('input.reset');
+    this.hint.textContent = t('input.hint');
+
+    const bindings = this.input.bindings;
+    const rows = (Object.keys(this.labelKeys) as InputAction[]).flatMap(action => {
+      const label = document.createElement('dt');
+      label.textContent = t(this.labelKeys[action]);
+
+      const keys = document.createElement('dd');
+      const button = createButton(
+        this.rebinding === action ? t('input.pressKey') : formatKeys(bindings[action]),
+        () => this.startRebinding(action)
+      );
+      button.className = 'input-help-key';
+      keys.appendChild(button);
+
+      return [label, keys];
+    });
+    this.list.replaceChildren(...rows);
+  }
+}
+
+function createButton(label: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.textContent = label;
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+/**
+ * Display form of bound keys, e.g. ['Escape', 'd'] → 'Esc / D'
+ */
+function formatKeys(keys: string[]): string {
+  if (keys.length === 0) return t('input.unbound');
+  return keys
+    .map(key => KEY_NAMES[key] ?? (key.length === 1 ? key.toUpperCase() : key))
+    .join(' / ');
+}
+
+/** Short display names for long key values */
+const KEY_NAMES: Record<string, string> = {
+  Escape: 'Esc',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+};
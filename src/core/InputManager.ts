@@ -0,0 +1,275 @@
+import { ErrorHandler } from './ErrorHandler';
+
+/** Named keyboard actions scenes and modes can subscribe to */
+export type InputAction =
+  | 'back'
+  | 'confirm'
+  | 'advance'
+  | 'draw-from-stock'
+  | 'toggle-settings'
+  | 'help'
+  | 'focus-up'
+  | 'focus-down'
+  | 'focus-left'
+  | 'focus-right'
+  | 'previous-layout'
+  | 'next-layout'
+  | 'screenshot'
+  | 'record-clip'
+  | 'toggle-inspector';
+
+/** Keys bound to each action (normalized KeyboardEvent.key values, see normalizeKey) */
+export type KeyBindings = Record<InputAction, string[]>;
+
+/**
+ * Handles an action.
+ * Return false to pass it on to older subscribers (e.g. a scene that isn't on top).
+ */
+export type ActionHandler = () => boolean | void;
+
+/**
+ * Input options (see config/sharedSettings.ts)
+ */
+export interface InputOptions {
+  /** localStorage key for user bindings */
+  storageKey: string;
+  /** While this returns true no action fires (e.g. during scene transitions) */
+  isBlocked?: () => boolean;
+}
+
+/**
+ * InputManager
+ *
+ * Maps keyboard keys to named actions:
+ * - Scenes and modes subscribe with on() and unsubscribe when they stop
+ * - The newest subscriber gets the action first; it may decline by returning false
+ * - Bindings can be changed at runtime and are persisted in localStorage
+ * - Other devices (see GamepadInput) fire actions through trigger()
+ *
+ * Keys typed into form fields and browser shortcuts (Ctrl/Alt/Meta) are ignored.
+ */
+export class InputManager {
+  /** Factory bindings */
+  private defaults: KeyBindings;
+
+  /** Behaviour options */
+  private options: InputOptions;
+
+  /** Current bindings (defaults merged with the stored user bindings) */
+  private current: KeyBindings;
+
+  /** Subscribers per action, oldest first */
+  private handlers = new Map<InputAction, ActionHandler[]>();
+
+  /** Binding change subscribers */
+  private listeners = new Set<() => void>();
+
+  /** Pending captureNextKey() callback */
+  private capture: ((key: string) => void) | null = null;
+
+  /** Element receiving keydown events (set by start()) */
+  private target: EventTarget | null = null;
+
+  constructor(defaults: KeyBindings, options: InputOptions) {
+    this.defaults = defaults;
+    this.options = options;
+    this.current = this.loadBindings();
+  }
+
+  /**
+   * Start listening for keys
+   */
+  start(target: EventTarget = window): void {
+    this.target = target;
+    target.addEventListener('keydown', this.onKeyDown as EventListener);
+  }
+
+  /**
+   * Subscribe to an action
+   * @returns Unsubscribe function
+   */
+  on(action: InputAction, handler: ActionHandler): () => void {
+    const handlers = this.handlers.get(action) ?? [];
+    handlers.push(handler);
+    this.handlers.set(action, handlers);
+
+    return () => {
+      const index = handlers.indexOf(handler);
+      if (index !== -1) handlers.splice(index, 1);
+    };
+  }
+
+  /**
+   * Fire an action as if one of its keys was pressed
+   * @returns Whether a subscriber handled it
+   */
+  trigger(action: InputAction): boolean {
+    if (this.options.isBlocked?.()) return false;
+
+    // Newest subscriber first (overlays and modes subscribe after their scene)
+    const handlers = [...(this.handlers.get(action) ?? [])].reverse();
+    return handlers.some(handler => handler() !== false);
+  }
+
+  /**
+   * Current bindings
+   */
+  get bindings(): Readonly<KeyBindings> {
+    return this.current;
+  }
+
+  /**
+   * Bind an action to new keys (persisted).
+   * Keys taken from other actions are removed there, so a key never fires two actions.
+   */
+  rebind(action: InputAction, keys: string[]): void {
+    const normalized = keys.map(normalizeKey);
+    const next = { ...this.current };
+    for (const other of Object.keys(next) as InputAction[]) {
+      next[other] = next[other].filter(key => !normalized.includes(key));
+    }
+    next[action] = normalized;
+
+    this.current = next;
+    this.saveBindings();
+    this.notify();
+  }
+
+  /**
+   * Restore the default bindings and forget the stored ones
+   */
+  resetBindings(): void {
+    this.current = cloneBindings(this.defaults);
+    try {
+      localStorage.removeItem(this.options.storageKey);
+    } catch {
+      // Storage unavailable (private mode) - nothing was persisted
+    }
+    this.notify();
+  }
+
+  /**
+   * Get notified when bindings change
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Hand the next key press to a callback instead of dispatching it (for rebinding UIs).
+   * Escape cancels the capture without calling back.
+   * @returns Function that cancels the capture
+   */
+  captureNextKey(onKey: (key: string) => void): () => void {
+    this.capture = onKey;
+    return () => {
+      if (this.capture === onKey) this.capture = null;
+    };
+  }
+
+  /**
+   * Stop listening and drop all subscribers
+   */
+  destroy(): void {
+    this.target?.removeEventListener('keydown', this.onKeyDown as EventListener);
+    this.target = null;
+    this.handlers.clear();
+    this.listeners.clear();
+    this.capture = null;
+  }
+
+  private onKeyDown = (event: KeyboardEvent): void => {
+    if (event.ctrlKey || event.altKey || event.metaKey || isEditable(event.target)) return;
+
+    const key = normalizeKey(event.key);
+
+    if (this.capture) {
+      const onKey = this.capture;
+      this.capture = null;
+      event.preventDefault();
+      if (key !== 'Escape') onKey(key);
+      return;
+    }
+
+    if (event.repeat) return;
+
+    const action = this.actionFor(key);
+    if (action && this.trigger(action)) {
+      // Keep Space from scrolling, Backspace from navigating, etc.
+      event.preventDefault();
+    }
+  };
+
+  private actionFor(key: string): InputAction | null {
+    for (const action of Object.keys(this.current) as InputAction[]) {
+      if (this.current[action].includes(key)) return action;
+    }
+    return null;
+  }
+
+  /**
+   * Defaults with the stored user bindings applied (unknown or malformed entries are ignored)
+   */
+  private loadBindings(): KeyBindings {
+    const bindings = cloneBindings(this.defaults);
+    try {
+      const stored = localStorage.getItem(this.options.storageKey);
+      if (!stored) return bindings;
+
+      const parsed = JSON.parse(stored) as Record<string, unknown>;
+      for (const action of Object.keys(bindings) as InputAction[]) {
+        const keys = parsed[action];
+        if (Array.isArray(keys) && keys.every(key => typeof key === 'string')) {
+          bindings[action] = keys.map(normalizeKey);
+        }
+      }
+    } catch (error) {
+      ErrorHandler.handle(error, 'input-bindings', { storageKey: this.options.storageKey });
+    }
+    return bindings;
+  }
+
+  private saveBindings(): void {
+    try {
+      localStorage.setItem(this.options.storageKey, JSON.stringify(this.current));
+    } catch (error) {
+      ErrorHandler.handle(error, 'input-bindings', { storageKey: this.options.storageKey });
+    }
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+/**
+ * Binding name of a KeyboardEvent.key value: letters are lowercased, ' ' becomes 'Space'
+ */
+export function normalizeKey(key: string): string {
+  if (key === ' ') return 'Space';
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+function cloneBindings(bindings: KeyBindings): KeyBindings {
+  const clone = {} as KeyBindings;
+  for (const action of Object.keys(bindings) as InputAction[]) {
+    clone[action] = [...bindings[action]];
+  }
+  return clone;
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
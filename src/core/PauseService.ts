@@ -0,0 +1,145 @@
+import gsap from 'gsap';
+import type { Ticker } from 'pixi.js';
+
+/** Called whenever the app as a whole pauses or resumes */
+export type PauseListener = (paused: boolean) => void;
+
+/**
+ * Pause behaviour (see config/sharedSettings.ts)
+ */
+export interface PauseOptions {
+  /** Also pause when the window loses focus (not only when the tab is hidden) */
+  pauseOnBlur: boolean;
+}
+
+/**
+ * PauseService
+ *
+ * Freezes the whole app while the tab is hidden (and optionally while the
+ * window is blurred):
+ * - Stops the given Pixi tickers and the GSAP global timeline together
+ * - Notifies listeners so scenes and modes can suspend their own timers
+ *
+ * Restarted tickers reset their clock and GSAP smooths lag, so the first
+ * frame after resuming is a normal one rather than the whole hidden time.
+ *
+ * Pauses are tracked by reason ('hidden', 'blur', or anything passed to
+ * pause()); the app only resumes once every reason is cleared.
+ */
+export class PauseService {
+  /** Tickers to freeze */
+  private tickers: Ticker[];
+
+  /** Behaviour options */
+  private options: PauseOptions;
+
+  /** Active pause reasons */
+  private reasons = new Set<string>();
+
+  /** Tickers that were running when the pause began (only these are restarted) */
+  private stoppedTickers: Ticker[] = [];
+
+  /** Pause/resume subscribers */
+  private listeners = new Set<PauseListener>();
+
+  constructor(tickers: Ticker[], options: PauseOptions) {
+    this.tickers = tickers;
+    this.options = options;
+  }
+
+  /**
+   * Start following page visibility (and focus)
+   */
+  start(): void {
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+    if (this.options.pauseOnBlur) {
+      window.addEventListener('blur', this.onBlur);
+      window.addEventListener('focus', this.onFocus);
+    }
+
+    if (document.hidden) this.pause('hidden');
+  }
+
+  /**
+   * Whether the app is currently paused
+   */
+  get paused(): boolean {
+    return this.reasons.size > 0;
+  }
+
+  /**
+   * Pause for a reason (no-op if that reason is already active)
+   */
+  pause(reason = 'manual'): void {
+    if (this.reasons.has(reason)) return;
+
+    const wasPaused = this.paused;
+    this.reasons.add(reason);
+    if (!wasPaused) this.apply(true);
+  }
+
+  /**
+   * Clear a pause reason; resumes once no reasons remain
+   */
+  resume(reason = 'manual'): void {
+    if (!this.reasons.delete(reason)) return;
+    if (!this.paused) this.apply(false);
+  }
+
+  /**
+   * Subscribe to pause/resume
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: PauseListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Stop listening to the page (does not resume)
+   */
+  destroy(): void {
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    window.removeEventListener('blur', this.onBlur);
+    window.removeEventListener('focus', this.onFocus);
+    this.listeners.clear();
+  }
+
+  // ============================================================
+  // Internals
+  // ============================================================
+
+  private apply(paused: boolean): void {
+    if (paused) {
+      this.stoppedTickers = this.tickers.filter(ticker => ticker.started);
+      for (const ticker of this.stoppedTickers) ticker.stop();
+      gsap.globalTimeline.pause();
+    } else {
+      gsap.globalTimeline.resume();
+      for (const ticker of this.stoppedTickers) ticker.start();
+      this.stoppedTickers = [];
+    }
+
+    if (import.meta.env.DEV) console.log(`[PauseService] ${paused ? 'Paused' : 'Resumed'}`);
+
+    for (const listener of this.listeners) {
+      listener(paused);
+    }
+  }
+
+  private onVisibilityChange = (): void => {
+    if (document.hidden) {
+      this.pause('hidden');
+    } else {
+      this.resume('hidden');
+    }
+  };
+
+  private onBlur = (): void => {
+    this.pause('blur');
+  };
+
+  private onFocus = (): void => {
+    this.resume('blur');
+  };
+}
@@ -0,0 +1,308 @@
+import { UPDATE_PRIORITY, type Container, type IRenderer, type Ticker } from 'pixi.js';
+
+/**
+ * A custom counter shown in the expanded HUD (registered by scenes/modes)
+ */
+export interface PerfMetric {
+  /** Row label */
+  label: string;
+  /** Current value - only read while the HUD is expanded */
+  read: () => number | string;
+  /** Budget for numeric values: shown as "value / max", amber from 80%, red at the limit */
+  max?: number;
+}
+
+/**
+ * What the HUD measures besides frame timing
+ */
+export interface PerfHUDSources {
+  /** Renderer whose draw calls are counted (WebGL only) */
+  renderer: IRenderer;
+  /** Root of the display list (for the display-object count) */
+  stage: Container;
+  /** Estimated texture memory in bytes */
+  textureMemory: () => number;
+}
+
+/** One line of the expanded view */
+interface StatRow {
+  label: string;
+  value: string;
+  /** Tooltip explaining the value */
+  hint?: string;
+  /** Budget state (styled by CSS) */
+  level?: 'high' | 'over';
+}
+
+/** Frames kept for the graph and the min/avg/p95 stats */
+const HISTORY_FRAMES = 120;
+
+/** How often the text is refreshed (ms) */
+const REFRESH_MS = 500;
+
+/** Graph size (CSS pixels) */
+const GRAPH_WIDTH = HISTORY_FRAMES;
+const GRAPH_HEIGHT = 40;
+
+/** Frame time at the top of the graph (ms) - two 60 Hz frames */
+const GRAPH_MAX_MS = 1000 / 30;
+
+/**
+ * PerfHUD
+ *
+ * Performance overlay in the top-right corner. Collapsed it shows FPS only;
+ * clicking it expands a frame-time graph, min/avg/p95 frame time, draw calls,
+ * display objects, texture memory and any metrics registered by the active
+ * scene or mode (e.g. the Phoenix sprite budget).
+ *
+ * Uses DOM elements (not PixiJS text) so it's always visible regardless
+ * of scene state or canvas transformations, and never adds to the numbers
+ * it measures.
+ */
+export class PerfHUD {
+  private element: HTMLDivElement;
+  private summary: HTMLDivElement;
+  private details: HTMLDivElement;
+  private stats: HTMLDivElement;
+  private graph: HTMLCanvasElement;
+
+  /** Ring buffer of recent frame times (ms) */
+  private frameTimes = new Float32Array(HISTORY_FRAMES);
+  private frameIndex = 0;
+  private recordedFrames = 0;
+
+  /** Frames since the last refresh */
+  private framesSinceRefresh = 0;
+  private lastRefresh = performance.now();
+
+  /** Draw calls issued since the previous frame finished */
+  private pendingDrawCalls = 0;
+  private lastDrawCalls = 0;
+
+  /** Restores the renderer's patched draw functions */
+  private unpatchDrawCalls: (() => void) | null = null;
+
+  private sources: PerfHUDSources | null = null;
+  private ticker: Ticker | null = null;
+  private metrics = new Set<PerfMetric>();
+  private expanded = false;
+
+  constructor() {
+    this.element = document.createElement('div');
+    this.element.id = 'perf-hud';
+    this.element.title = 'Click for performance details';
+    this.element.addEventListener('click', this.toggle);
+
+    this.summary = document.createElement('div');
+    this.summary.textContent = 'FPS: --';
+
+    this.details = document.createElement('div');
+    this.details.className = 'perf-hud-details';
+    this.details.hidden = true;
+
+    this.graph = document.createElement('canvas');
+    this.graph.width = GRAPH_WIDTH;
+    this.graph.height = GRAPH_HEIGHT;
+
+    this.stats = document.createElement('div');
+
+    this.details.append(this.graph, this.stats);
+    this.element.append(this.summary, this.details);
+    document.body.appendChild(this.element);
+  }
+
+  /**
+   * Attach to a PixiJS ticker and the things to measure.
+   * Runs after the render pass so each sample covers a complete frame.
+   */
+  attachTo(ticker: Ticker, sources: PerfHUDSources): void {
+    this.ticker = ticker;
+    this.sources = sources;
+    this.unpatchDrawCalls = countDrawCalls(sources.renderer, () => this.pendingDrawCalls++);
+    ticker.add(this.update, undefined, UPDATE_PRIORITY.UTILITY);
+  }
+
+  /**
+   * Show a custom counter in the expanded view
+   * @returns Function that removes the metric again
+   */
+  registerMetric(metric: PerfMetric): () => void {
+    this.metrics.add(metric);
+    return () => {
+      this.metrics.delete(metric);
+    };
+  }
+
+  /**
+   * Remove the HUD from the DOM and detach from the ticker
+   */
+  destroy(): void {
+    this.ticker?.remove(this.update);
+    this.unpatchDrawCalls?.();
+    this.metrics.clear();
+    this.element.remove();
+  }
+
+  // ============================================================
+  // Sampling
+  // ============================================================
+
+  private update = (): void => {
+    this.frameTimes[this.frameIndex] = this.ticker?.elapsedMS ?? 0;
+    this.frameIndex = (this.frameIndex + 1) % HISTORY_FRAMES;
+    this.recordedFrames = Math.min(this.recordedFrames + 1, HISTORY_FRAMES);
+
+    this.lastDrawCalls = this.pendingDrawCalls;
+    this.pendingDrawCalls = 0;
+
+    this.framesSinceRefresh++;
+    const now = performance.now();
+    if (now - this.lastRefresh >= REFRESH_MS) {
+      const fps = Math.round((this.framesSinceRefresh * 1000) / (now - this.lastRefresh));
+      this.summary.textContent = `FPS: ${fps}`;
+      this.framesSinceRefresh = 0;
+      this.lastRefresh = now;
+
+      if (this.expanded) this.refreshDetails();
+    }
+  };
+
+  /** Recorded frame times, oldest first */
+  private getFrameTimes(): number[] {
+    const times: number[] = [];
+    const start = this.recordedFrames < HISTORY_FRAMES ? 0 : this.frameIndex;
+    for (let i = 0; i < this.recordedFrames; i++) {
+      times.push(this.frameTimes[(start + i) % HISTORY_FRAMES]);
+    }
+    return times;
+  }
+
+  // ============================================================
+  // Display
+  // ============================================================
+
+  private toggle = (): void => {
+    this.expanded = !this.expanded;
+    this.details.hidden = !this.expanded;
+    this.element.classList.toggle('expanded', this.expanded);
+    if (this.expanded) this.refreshDetails();
+  };
+
+  private refreshDetails(): void {
+    const times = this.getFrameTimes();
+    this.drawGraph(times);
+
+    const rows: StatRow[] = [];
+    if (times.length > 0) {
+      const sorted = [...times].sort((a, b) => a - b);
+      const avg = times.reduce((sum, time) => sum + time, 0) / times.length;
+      const p95 = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))];
+      rows.push({
+        label: 'Frame ms',
+        value: `${sorted[0].toFixed(1)} / ${avg.toFixed(1)} / ${p95.toFixed(1)}`,
+        hint: 'min / avg / p95',
+      });
+    }
+
+    if (this.sources) {
+      const drawCalls = this.unpatchDrawCalls ? String(this.lastDrawCalls) : 'n/a';
+      rows.push({ label: 'Draw calls', value: drawCalls });
+      rows.push({ label: 'Objects', value: String(countDisplayObjects(this.sources.stage)) });
+      rows.push({ label: 'Textures', value: formatMegabytes(this.sources.textureMemory()) });
+    }
+
+    for (const metric of this.metrics) {
+      rows.push(readMetric(metric));
+    }
+
+    this.stats.replaceChildren(
+      ...rows.map(({ label, value, hint, level }) => {
+        const row = document.createElement('div');
+        row.className = 'perf-hud-row';
+        if (hint) row.title = hint;
+        if (level) row.dataset.level = level;
+        const labelSpan = document.createElement('span');
+        labelSpan.textContent = label;
+        const valueSpan = document.createElement('span');
+        valueSpan.textContent = value;
+        row.append(labelSpan, valueSpan);
+        return row;
+      })
+    );
+  }
+
+  private drawGraph(times: number[]): void {
+    const ctx = this.graph.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, GRAPH_WIDTH, GRAPH_HEIGHT);
+
+    // 60 FPS guide line
+    const targetY = GRAPH_HEIGHT - (GRAPH_HEIGHT * (1000 / 60)) / GRAPH_MAX_MS;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.fillRect(0, targetY, GRAPH_WIDTH, 1);
+
+    const offset = GRAPH_WIDTH - times.length;
+    times.forEach((time, i) => {
+      const height = Math.min(GRAPH_HEIGHT, (GRAPH_HEIGHT * time) / GRAPH_MAX_MS);
+      ctx.fillStyle = time > 1000 / 30 ? '#ff4444' : time > 1000 / 55 ? '#ffaa00' : '#44ff44';
+      ctx.fillRect(offset + i, GRAPH_HEIGHT - height, 1, height);
+    });
+  }
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/**
+ * Count WebGL draw calls by wrapping the context's draw functions.
+ * @returns Restore function, or null for renderers without a WebGL context
+ */
+function countDrawCalls(renderer: IRenderer, onDraw: () => void): (() => void) | null {
+  const gl = (renderer as { gl?: WebGLRenderingContext }).gl;
+  if (!gl) return null;
+
+  const names = ['drawElements', 'drawArrays'] as const;
+  const originals = names.map(name => gl[name]);
+  for (const [i, name] of names.entries()) {
+    const original = originals[i] as (...args: unknown[]) => void;
+    (gl as unknown as Record<string, unknown>)[name] = (...args: unknown[]) => {
+      onDraw();
+      original.apply(gl, args);
+    };
+  }
+
+  return () => {
+    for (const [i, name] of names.entries()) {
+      (gl as unknown as Record<string, unknown>)[name] = originals[i];
+    }
+  };
+}
+
+function countDisplayObjects(root: Container): number {
+  let count = 1;
+  for (const child of root.children) {
+    count += 'children' in child ? countDisplayObjects(child as Container) : 1;
+  }
+  return count;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Read a custom metric; budgeted values turn amber from 80% and red at the limit
+ */
+function readMetric(metric: PerfMetric): StatRow {
+  const value = metric.read();
+  if (metric.max === undefined) return { label: metric.label, value: String(value) };
+
+  const ratio = Number(value) / metric.max;
+  return {
+    label: metric.label,
+    value: `${value} / ${metric.max}`,
+    level: ratio >= 1 ? 'over' : ratio >= 0.8 ? 'high' : undefined,
+  };
+}
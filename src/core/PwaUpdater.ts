@@ -0,0 +1,126 @@
+import { t } from './I18n';
+
+/**
+ * PwaUpdater options (see config/sharedSettings.ts)
+ */
+export interface PwaOptions {
+  /** Service worker script, relative to the app's base URL */
+  scriptUrl: string;
+  /** How often an open page checks for a new build (ms) - booth devices stay open all day */
+  updateCheckMs: number;
+}
+
+/**
+ * PwaUpdater
+ *
+ * Registers the service worker (src/serviceWorker.ts) and tells the player
+ * when a new build is deployed: once the new worker has precached it, an
+ * "update available" prompt offers a reload. Accepting lets the waiting
+ * worker take over and reloads the page; dismissing keeps the running build
+ * until the next visit.
+ *
+ * Built from DOM elements, like the other page overlays.
+ */
+export class PwaUpdater {
+  private options: PwaOptions;
+
+  private registration: ServiceWorkerRegistration | null = null;
+
+  /** Prompt shown while an update waits */
+  private prompt: HTMLDivElement | null = null;
+
+  /** Set once the player accepted the update (the next controller change reloads) */
+  private reloading = false;
+
+  private updateInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: PwaOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Register the worker and start watching for updates (does nothing where
+   * service workers are unsupported)
+   */
+  async start(): Promise<void> {
+    if (!('serviceWorker' in navigator)) return;
+
+    const container = navigator.serviceWorker;
+    const registration = await container.register(
+      import.meta.env.BASE_URL + this.options.scriptUrl
+    );
+    this.registration = registration;
+
+    // Installed during an earlier visit, still waiting for this page to let it in
+    if (registration.waiting && container.controller) this.showPrompt(registration.waiting);
+
+    registration.addEventListener('updatefound', this.onUpdateFound);
+    container.addEventListener('controllerchange', this.onControllerChange);
+    this.updateInterval = setInterval(() => {
+      // Offline checks simply fail - try again next time
+      registration.update().catch(() => undefined);
+    }, this.options.updateCheckMs);
+  }
+
+  /**
+   * Stop checking for updates and remove the prompt
+   */
+  destroy(): void {
+    if (this.updateInterval) clearInterval(this.updateInterval);
+    this.updateInterval = null;
+    this.registration?.removeEventListener('updatefound', this.onUpdateFound);
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.removeEventListener('controllerchange', this.onControllerChange);
+    }
+    this.hidePrompt();
+  }
+
+  private onUpdateFound = (): void => {
+    const worker = this.registration?.installing;
+    if (!worker) return;
+
+    worker.addEventListener('statechange', () => {
+      // Without a controller this is the first install - there is nothing to update
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+        this.showPrompt(worker);
+      }
+    });
+  };
+
+  private onControllerChange = (): void => {
+    // The first install also claims the page; only an accepted update reloads
+    if (this.reloading) window.location.reload();
+  };
+
+  private showPrompt(worker: ServiceWorker): void {
+    this.hidePrompt();
+
+    const prompt = document.createElement('div');
+    prompt.id = 'update-prompt';
+    prompt.setAttribute('role', 'status');
+
+    const message = document.createElement('span');
+    message.textContent = t('common.updateAvailable');
+
+    const reload = document.createElement('button');
+    reload.textContent = t('common.reload');
+    reload.addEventListener('click', () => {
+      this.reloading = true;
+      worker.postMessage({ type: 'skip-waiting' });
+    });
+
+    const dismiss = document.createElement('button');
+    dismiss.textContent = '✕';
+    dismiss.setAttribute('aria-label', t('common.later'));
+    dismiss.addEventListener('click', () => this.hidePrompt());
+
+    prompt.append(message, reload, dismiss);
+    document.body.appendChild(prompt);
+    this.prompt = prompt;
+  }
+
+  private hidePrompt(): void {
+    this.prompt?.remove();
+    this.prompt = null;
+  }
+}
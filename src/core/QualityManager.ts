@@ -0,0 +1,254 @@
+import { UPDATE_PRIORITY, type Ticker } from 'pixi.js';
+
+import { settingsStore, type SettingsNamespace, type SettingsStore } from './SettingsStore';
+
+/**
+ * Quality tier, best first
+ */
+export type QualityTier = 'high' | 'medium' | 'low';
+
+/**
+ * Player's choice: a fixed tier, or 'auto' to follow the frame timing
+ */
+export type QualityMode = QualityTier | 'auto';
+
+/**
+ * What each tier turns on or down
+ */
+export interface QualityProfile {
+  /** Flame spritesheet: high-resolution frames or the small LQ sheet */
+  textures: 'hq' | 'lq';
+  /** Blurred backgrounds (BlurFilter) */
+  blur: boolean;
+  /** Motion blur on moving cards */
+  motionBlur: boolean;
+  /** Share of the device pixel ratio the canvas renders at (1 = full) */
+  resolutionScale: number;
+  /** Share of the particle budget that may be used (0..1) */
+  particleScale: number;
+}
+
+export type QualityListener = (profile: QualityProfile, tier: QualityTier) => void;
+
+/**
+ * QualityManager options (see config/sharedSettings.ts)
+ */
+export interface QualityOptions {
+  /** SettingsStore namespace of the player's mode */
+  settingsNamespace: string;
+  /** Profiles by tier */
+  tiers: Record<QualityTier, QualityProfile>;
+  /** Weight of each new frame in the running average (0..1, smaller = smoother) */
+  smoothing: number;
+  /** Average work per frame (updates + render) above which the tier steps down (ms) */
+  downgradeWorkMs: number;
+  /** Average work per frame below which the tier steps up (ms) - lower than downgradeWorkMs */
+  upgradeWorkMs: number;
+  /** How long the average must stay too slow before stepping down (ms) */
+  downgradeAfterMs: number;
+  /** How long the average must stay fast before stepping up (ms) */
+  upgradeAfterMs: number;
+  /** Cap for upgradeAfterMs, which doubles after every step down (ms) */
+  maxUpgradeAfterMs: number;
+  /** Frame intervals longer than this are hitches (loading, tab switch) and not measured (ms) */
+  ignoreFrameMs: number;
+}
+
+/** Tiers from best to cheapest */
+const TIERS: readonly QualityTier[] = ['high', 'medium', 'low'];
+
+const MODES: readonly QualityMode[] = ['auto', ...TIERS];
+
+/** What is persisted: the player's mode */
+interface QualitySettings {
+  mode: QualityMode;
+}
+
+/**
+ * QualityManager
+ *
+ * Picks the rendering quality tier. In 'auto' mode it keeps a running average
+ * of the time each frame spends working (ticker updates and render, timed from
+ * the first ticker listener to the last) and steps one tier down when the
+ * average stays over budget, or one tier up when it stays comfortably under it.
+ * The frame interval would not do: vsync caps it at the display's refresh
+ * interval, whatever the frame cost. The gap between the two
+ * thresholds, the longer wait before stepping up, and an upgrade wait that
+ * doubles after each step down keep the tier from flapping on a device that
+ * sits right at the limit. The player can also pin a tier (stored locally).
+ *
+ * Subscribers apply the profile: the Application lowers the renderer
+ * resolution, scenes and modes drop blur and swap textures.
+ */
+export class QualityManager {
+  private options: QualityOptions;
+
+  /** Persisted mode (validated against MODES on load) */
+  private settings: SettingsNamespace<QualitySettings>;
+
+  private listeners = new Set<QualityListener>();
+
+  private currentMode: QualityMode;
+
+  private currentTier: QualityTier;
+
+  /** Ticker the frame timing is read from (set by attachTo) */
+  private ticker: Ticker | null = null;
+
+  /** When the current frame's work started (performance.now(), null between frames) */
+  private frameStart: number | null = null;
+
+  /** Running average of the work per frame (ms, 0 = no frame measured yet) */
+  private averageWorkMs = 0;
+
+  /** How long the average has been over / under budget (ms) */
+  private slowForMs = 0;
+  private fastForMs = 0;
+
+  /** Current wait before stepping up (ms) */
+  private upgradeAfterMs: number;
+
+  /**
+   * @param store Store the mode is persisted in (tests pass their own)
+   */
+  constructor(options: QualityOptions, store: SettingsStore = settingsStore) {
+    this.options = options;
+    this.settings = store.namespace<QualitySettings>(options.settingsNamespace, {
+      version: 1,
+      defaults: () => ({ mode: 'auto' }),
+      rules: { mode: { oneOf: MODES } },
+    });
+    this.upgradeAfterMs = options.upgradeAfterMs;
+    this.currentMode = this.settings.load()?.mode ?? 'auto';
+    this.currentTier = this.currentMode === 'auto' ? TIERS[0] : this.currentMode;
+  }
+
+  /** Player's choice */
+  get mode(): QualityMode {
+    return this.currentMode;
+  }
+
+  /** Tier in use */
+  get tier(): QualityTier {
+    return this.currentTier;
+  }
+
+  /** Profile of the tier in use */
+  get profile(): QualityProfile {
+    return this.options.tiers[this.currentTier];
+  }
+
+  /** Selectable modes, 'auto' first */
+  get modes(): readonly QualityMode[] {
+    return MODES;
+  }
+
+  /**
+   * Measure frames on a ticker: from before its first listener to after the
+   * render (Application renders at UPDATE_PRIORITY.LOW)
+   */
+  attachTo(ticker: Ticker): void {
+    this.ticker = ticker;
+    ticker.add(this.startFrame, this, UPDATE_PRIORITY.INTERACTION);
+    ticker.add(this.endFrame, this, UPDATE_PRIORITY.UTILITY);
+  }
+
+  /**
+   * Pin a tier or go back to 'auto' (persisted; unknown modes are ignored).
+   * 'auto' starts measuring again from the tier in use.
+   */
+  setMode(mode: QualityMode): void {
+    if (!MODES.includes(mode) || mode === this.currentMode) return;
+
+    this.currentMode = mode;
+    this.settings.save({ mode });
+
+    this.resetMeasurement();
+    this.upgradeAfterMs = this.options.upgradeAfterMs;
+    if (mode !== 'auto') this.setTier(mode);
+  }
+
+  /**
+   * Feed one frame (called by the ticker; public for tests)
+   * @param workMs Time the frame spent on updates and rendering
+   * @param intervalMs Time since the previous frame (how long the measurement lasted)
+   */
+  recordFrame(workMs: number, intervalMs: number): void {
+    if (this.currentMode !== 'auto' || intervalMs <= 0 || intervalMs > this.options.ignoreFrameMs) {
+      return;
+    }
+
+    const { smoothing, downgradeWorkMs, upgradeWorkMs } = this.options;
+    this.averageWorkMs =
+      this.averageWorkMs === 0
+        ? workMs
+        : this.averageWorkMs + (workMs - this.averageWorkMs) * smoothing;
+
+    if (this.averageWorkMs > downgradeWorkMs) {
+      this.slowForMs += intervalMs;
+      this.fastForMs = 0;
+    } else if (this.averageWorkMs < upgradeWorkMs) {
+      this.fastForMs += intervalMs;
+      this.slowForMs = 0;
+    } else {
+      this.slowForMs = 0;
+      this.fastForMs = 0;
+    }
+
+    const index = TIERS.indexOf(this.currentTier);
+    if (this.slowForMs >= this.options.downgradeAfterMs && index < TIERS.length - 1) {
+      // Stepping back up gets harder each time this tier proved too much
+      this.upgradeAfterMs = Math.min(this.upgradeAfterMs * 2, this.options.maxUpgradeAfterMs);
+      this.resetMeasurement();
+      this.setTier(TIERS[index + 1]);
+    } else if (this.fastForMs >= this.upgradeAfterMs && index > 0) {
+      this.resetMeasurement();
+      this.setTier(TIERS[index - 1]);
+    }
+  }
+
+  /**
+   * Listen for tier changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: QualityListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Stop measuring and drop all listeners
+   */
+  destroy(): void {
+    this.ticker?.remove(this.startFrame, this);
+    this.ticker?.remove(this.endFrame, this);
+    this.ticker = null;
+    this.listeners.clear();
+  }
+
+  private startFrame(): void {
+    this.frameStart = performance.now();
+  }
+
+  private endFrame(): void {
+    if (this.ticker && this.frameStart !== null) {
+      this.recordFrame(performance.now() - this.frameStart, this.ticker.deltaMS);
+    }
+    this.frameStart = null;
+  }
+
+  private setTier(tier: QualityTier): void {
+    if (tier === this.currentTier) return;
+
+    this.currentTier = tier;
+    if (import.meta.env.DEV) console.log(`[QualityManager] Tier: ${tier}`);
+    for (const listener of this.listeners) listener(this.profile, tier);
+  }
+
+  /** The new tier's frame times start from scratch */
+  private resetMeasurement(): void {
+    this.averageWorkMs = 0;
+    this.slowForMs = 0;
+    this.fastForMs = 0;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Random options (see config/sharedSettings.ts)
+ */
+export interface RandomOptions {
+  /** Route param that starts a sub-mode with a given seed (#/game/mode?seed=abc) */
+  routeParam: string;
+  /** Seed for every run when no route param is given (null = a fresh seed per run) */
+  seed: string | null;
+}
+
+/**
+ * Random
+ *
+ * Seedable PRNG (mulberry32) for game randomness. The same seed always
+ * produces the same sequence, so a deal or a particle pattern can be
+ * replayed by starting the mode with the seed shown in the perf HUD.
+ *
+ * Named sub-streams (`stream('deck')`) are seeded from the parent seed and
+ * the name, so drawing more numbers in one system (particles) never shifts
+ * another (the deal).
+ */
+export class Random {
+  /** Seed this generator started from */
+  readonly seed: string;
+
+  private state: number;
+
+  private streams = new Map<string, Random>();
+
+  constructor(seed: string) {
+    this.seed = seed;
+    this.state = hashSeed(seed);
+  }
+
+  /**
+   * Float in [0, 1) - drop-in for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [0, max)
+   */
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * True with the given probability (0..1)
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Random element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /**
+   * Shuffle an array in place (Fisher-Yates)
+   * @returns The same array
+   */
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = this.int(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  /**
+   * Named sub-stream (the same name returns the same generator)
+   */
+  stream(name: string): Random {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new Random(`${this.seed}/${name}`);
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+}
+
+/**
+ * Fresh seed for a run: short, so it can be read off the HUD and typed into a URL
+ */
+export function createSeed(): string {
+  return crypto.getRandomValues(new Uint32Array(1))[0].toString(36);
+}
+
+/** FNV-1a hash of the seed string (32-bit generator state) */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return hash | 0;
+}
@@ -0,0 +1,140 @@
+/**
+ * A parsed hash route.
+ *
+ * '#/ace/creative?layout=crown' → { segments: ['ace', 'creative'], params: { layout: 'crown' } }
+ */
+export interface Route {
+  /** Path segments (empty for the main menu) */
+  segments: string[];
+  /** Query parameters */
+  params: Record<string, string>;
+}
+
+/** Options for Router.navigate() */
+export interface NavigateOptions {
+  /** Replace the current history entry instead of pushing a new one */
+  replace?: boolean;
+}
+
+/**
+ * Parse a location hash into a Route.
+ * Unknown or empty hashes resolve to the root route.
+ */
+export function parseRoute(hash: string): Route {
+  const raw = hash.replace(/^#\/?/, '');
+  const queryIndex = raw.indexOf('?');
+  const path = queryIndex >= 0 ? raw.slice(0, queryIndex) : raw;
+  const query = queryIndex >= 0 ? raw.slice(queryIndex + 1) : '';
+
+  const segments = path.split('/').filter(Boolean).map(decodeSegment);
+
+  // URLSearchParams never throws: malformed escapes in the query come out as U+FFFD
+  const params: Record<string, string> = {};
+  new URLSearchParams(query).forEach((value, key) => {
+    params[key] = value;
+  });
+
+  return { segments, params };
+}
+
+/**
+ * Decode a path segment; malformed escapes ('ace%', '%E0') stay as typed
+ * instead of throwing from a shared link
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Format a Route back into a location hash (always starts with '#/').
+ * Params are sorted so equal routes always produce the same hash.
+ */
+export function formatRoute(route: Route): string {
+  const path = route.segments.map(segment => encodeURIComponent(segment)).join('/');
+  const query = new URLSearchParams(
+    Object.entries(route.params).sort(([a], [b]) => a.localeCompare(b))
+  ).toString();
+  return `#/${path}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Router
+ *
+ * Hash-based routing on top of the History API:
+ * - navigate() records where the user is (pushState/replaceState, no dispatch)
+ * - Browser back/forward and manual URL edits are dispatched to onChange
+ *
+ * Hash routing keeps deep links working on static hosting (GitHub Pages)
+ * without any server-side rewrites.
+ */
+export class Router {
+  /** Called when the location changes outside of navigate() */
+  private onChange: (route: Route) => void;
+
+  /** Hash we last pushed or dispatched - used to ignore duplicate events */
+  private currentHash: string;
+
+  constructor(onChange: (route: Route) => void) {
+    this.onChange = onChange;
+    this.currentHash = formatRoute(parseRoute(window.location.hash));
+  }
+
+  /**
+   * Start listening and dispatch the initial route (deep link)
+   */
+  start(): void {
+    window.addEventListener('popstate', this.onLocationChange);
+    window.addEventListener('hashchange', this.onLocationChange);
+
+    const route = parseRoute(window.location.hash);
+    this.currentHash = formatRoute(route);
+    window.history.replaceState(window.history.state, '', this.currentHash);
+    this.onChange(route);
+  }
+
+  /**
+   * Record a navigation in the URL without dispatching it
+   */
+  navigate(route: Route, options: NavigateOptions = {}): void {
+    const hash = formatRoute(route);
+    if (hash === this.currentHash) return;
+
+    this.currentHash = hash;
+    if (options.replace) {
+      window.history.replaceState(null, '', hash);
+    } else {
+      window.history.pushState(null, '', hash);
+    }
+  }
+
+  /**
+   * Route currently shown in the address bar
+   */
+  get current(): Route {
+    return parseRoute(this.currentHash);
+  }
+
+  /**
+   * Handle back/forward and manual hash edits
+   */
+  private onLocationChange = (): void => {
+    const route = parseRoute(window.location.hash);
+    const hash = formatRoute(route);
+    if (hash === this.currentHash) return;
+
+    this.currentHash = hash;
+    this.onChange(route);
+  };
+
+  /**
+   * Clean up
+   */
+  destroy(): void {
+    window.removeEventListener('popstate', this.onLocationChange);
+    window.removeEventListener('hashchange', this.onLocationChange);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Distance from each screen edge to the area not covered by a notch, rounded
+ * corners or the home indicator (CSS pixels)
+ */
+export interface SafeAreaInsets {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+/** Insets of a screen without cut-outs */
+export const NO_INSETS: Readonly<SafeAreaInsets> = { left: 0, right: 0, top: 0, bottom: 0 };
+
+/**
+ * SafeArea
+ *
+ * Reads the CSS `env(safe-area-inset-*)` values, which are only exposed to
+ * stylesheets: a hidden probe element is padded with them and its computed
+ * padding is read back. The values are non-zero only when the page opts in
+ * with `viewport-fit=cover` (see index.html).
+ *
+ * Insets are measured on every read, so a layout pass after a resize or
+ * rotation always sees the current ones.
+ */
+export class SafeArea {
+  private probe: HTMLDivElement | null = null;
+
+  /**
+   * Current insets of the physical screen edges
+   */
+  get insets(): SafeAreaInsets {
+    const style = getComputedStyle(this.getProbe());
+    return {
+      left: parseFloat(style.paddingLeft) || 0,
+      right: parseFloat(style.paddingRight) || 0,
+      top: parseFloat(style.paddingTop) || 0,
+      bottom: parseFloat(style.paddingBottom) || 0,
+    };
+  }
+
+  /**
+   * Remove the probe element
+   */
+  destroy(): void {
+    this.probe?.remove();
+    this.probe = null;
+  }
+
+  private getProbe(): HTMLDivElement {
+    if (this.probe) return this.probe;
+
+    const probe = document.createElement('div');
+    probe.setAttribute('aria-hidden', 'true');
+    probe.style.cssText = [
+      'position: fixed',
+      'visibility: hidden',
+      'pointer-events: none',
+      'padding-left: env(safe-area-inset-left)',
+      'padding-right: env(safe-area-inset-right)',
+      'padding-top: env(safe-area-inset-top)',
+      'padding-bottom: env(safe-area-inset-bottom)',
+    ].join(';');
+    document.body.appendChild(probe);
+    this.probe = probe;
+    return probe;
+  }
+}
+
+/**
+ * Insets as seen by content rotated 90° counter-clockwise (BaseGameScene's orientation
+ * rotation, `rotation = -Math.PI / 2`): the content's top is the physical left edge,
+ * its left the physical bottom.
+ */
+export function rotateInsetsCounterClockwise(insets: SafeAreaInsets): SafeAreaInsets {
+  return {
+    left: insets.bottom,
+    right: insets.top,
+    top: insets.left,
+    bottom: insets.right,
+  };
+}
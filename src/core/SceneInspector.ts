@@ -0,0 +1,445 @@
+import gsap from 'gsap';
+import {
+  Container,
+  Graphics,
+  Text,
+  UPDATE_PRIORITY,
+  type DisplayObject,
+  type Ticker,
+} from 'pixi.js';
+
+import type { InputManager } from './InputManager';
+
+/**
+ * SceneInspector options (see config/sharedSettings.ts)
+ */
+export interface SceneInspectorOptions {
+  /** How often the open panel re-reads the tree (ms) */
+  refreshMs: number;
+  /** Outline of the hovered (or selected) node on the canvas */
+  highlightColor: number;
+  /** Children listed per node; the rest are summarised (particle pools run into hundreds) */
+  maxChildren: number;
+}
+
+/** A transform value of the selected node, editable from the panel */
+interface TransformField {
+  label: string;
+  step: number;
+  read(node: DisplayObject): number;
+  write(node: DisplayObject, value: number): void;
+}
+
+const TRANSFORM_FIELDS: TransformField[] = [
+  { label: 'x', step: 1, read: node => node.x, write: (node, value) => void (node.x = value) },
+  { label: 'y', step: 1, read: node => node.y, write: (node, value) => void (node.y = value) },
+  {
+    label: 'scale.x',
+    step: 0.05,
+    read: node => node.scale.x,
+    write: (node, value) => void (node.scale.x = value),
+  },
+  {
+    label: 'scale.y',
+    step: 0.05,
+    read: node => node.scale.y,
+    write: (node, value) => void (node.scale.y = value),
+  },
+  {
+    label: 'angle',
+    step: 1,
+    read: node => node.angle,
+    write: (node, value) => void (node.angle = value),
+  },
+  {
+    label: 'pivot.x',
+    step: 1,
+    read: node => node.pivot.x,
+    write: (node, value) => void (node.pivot.x = value),
+  },
+  {
+    label: 'pivot.y',
+    step: 1,
+    read: node => node.pivot.y,
+    write: (node, value) => void (node.pivot.y = value),
+  },
+  {
+    label: 'alpha',
+    step: 0.05,
+    read: node => node.alpha,
+    write: (node, value) => void (node.alpha = value),
+  },
+];
+
+/** Tween vars that configure the tween rather than name a tweened property */
+const TWEEN_SETTINGS = new Set([
+  'delay',
+  'duration',
+  'ease',
+  'id',
+  'immediateRender',
+  'overwrite',
+  'paused',
+  'repeat',
+  'repeatDelay',
+  'stagger',
+  'yoyo',
+]);
+
+/**
+ * SceneInspector
+ *
+ * Dev overlay showing the live display tree of the current scene, toggled by
+ * the 'toggle-inspector' action (F2 by default):
+ * - One row per node: name (class name when unnamed), hidden state, running tweens
+ * - Hovering a row outlines the node's bounds on the canvas
+ * - Selecting a row shows its bounds, event mode and tweens, with its
+ *   transform (position, scale, angle, pivot, alpha, visible) editable live
+ *
+ * Built from DOM elements, so it never shows up in the tree it inspects.
+ */
+export class SceneInspector {
+  private stage: Container;
+
+  /** Root of the listed tree (the current scene's container) */
+  private getRoot: () => Container | null;
+
+  private options: SceneInspectorOptions;
+
+  private element: HTMLDivElement;
+  private tree: HTMLOListElement;
+  private details: HTMLDivElement;
+
+  /** Bounds outline on the canvas */
+  private outline: Graphics;
+
+  /** Node of each listed row (a row's data-index) */
+  private rows: DisplayObject[] = [];
+
+  /** Containers whose children are listed */
+  private expanded = new WeakSet<Container>();
+
+  private selected: DisplayObject | null = null;
+  private hovered: DisplayObject | null = null;
+
+  /** Ticker the outline follows (set by attachTo) */
+  private ticker: Ticker | null = null;
+
+  private refreshInterval: ReturnType<typeof setInterval> | null = null;
+
+  private unsubscribe: () => void;
+
+  constructor(
+    input: InputManager,
+    stage: Container,
+    getRoot: () => Container | null,
+    options: SceneInspectorOptions
+  ) {
+    this.stage = stage;
+    this.getRoot = getRoot;
+    this.options = options;
+
+    this.outline = new Graphics();
+    this.outline.eventMode = 'none';
+    this.outline.visible = false;
+    stage.addChild(this.outline);
+
+    this.element = document.createElement('div');
+    this.element.id = 'scene-inspector';
+    this.element.hidden = true;
+
+    const header = document.createElement('div');
+    header.className = 'scene-inspector-header';
+    const title = document.createElement('span');
+    title.textContent = 'Scene inspector';
+    const close = document.createElement('button');
+    close.textContent = '✕';
+    close.addEventListener('click', () => this.setOpen(false));
+    header.append(title, close);
+
+    this.tree = document.createElement('ol');
+    this.tree.className = 'scene-inspector-tree';
+    this.tree.addEventListener('click', this.onTreeClick);
+    this.tree.addEventListener('pointerover', this.onTreeHover);
+    this.tree.addEventListener('pointerleave', () => this.setHovered(null));
+
+    this.details = document.createElement('div');
+    this.details.className = 'scene-inspector-details';
+
+    this.element.append(header, this.tree, this.details);
+    document.body.appendChild(this.element);
+
+    this.unsubscribe = input.on('toggle-inspector', () => this.setOpen(this.element.hidden));
+  }
+
+  /**
+   * Keep the outline on the hovered node every frame
+   */
+  attachTo(ticker: Ticker): void {
+    this.ticker = ticker;
+    ticker.add(this.updateOutline, this, UPDATE_PRIORITY.UTILITY);
+  }
+
+  /** Bounds outline (e.g. to keep it out of screenshots) */
+  get indicator(): Container {
+    return this.outline;
+  }
+
+  /** Whether the panel is open */
+  get isOpen(): boolean {
+    return !this.element.hidden;
+  }
+
+  /**
+   * Show or hide the panel
+   */
+  setOpen(open: boolean): void {
+    this.element.hidden = !open;
+    if (this.refreshInterval) clearInterval(this.refreshInterval);
+    this.refreshInterval = null;
+
+    if (open) {
+      this.refresh();
+      this.refreshInterval = setInterval(() => this.refresh(), this.options.refreshMs);
+    } else {
+      this.hovered = null;
+      this.updateOutline();
+    }
+  }
+
+  /**
+   * Select a node (its details are shown below the tree; null clears)
+   */
+  select(node: DisplayObject | null): void {
+    this.selected = node;
+    // Reveal it in the tree
+    for (let parent = node?.parent; parent; parent = parent.parent) this.expanded.add(parent);
+    this.refresh();
+  }
+
+  /**
+   * Remove the panel and the outline
+   */
+  destroy(): void {
+    this.setOpen(false);
+    this.unsubscribe();
+    this.ticker?.remove(this.updateOutline, this);
+    this.outline.destroy();
+    this.element.remove();
+  }
+
+  /**
+   * Re-read the tree and the selected node
+   */
+  private refresh(): void {
+    const root = this.getRoot();
+    if (this.selected && !isInTree(this.selected, root)) this.selected = null;
+    if (this.hovered && !isInTree(this.hovered, root)) this.hovered = null;
+
+    this.rows = [];
+    const items: HTMLLIElement[] = [];
+    if (root) {
+      this.expanded.add(root);
+      this.listNode(root, 0, items);
+    }
+    this.tree.replaceChildren(...items);
+
+    // Don't overwrite a value being typed
+    if (!this.details.contains(document.activeElement)) this.renderDetails();
+  }
+
+  private listNode(node: DisplayObject, depth: number, items: HTMLLIElement[]): void {
+    const children = node instanceof Container ? node.children : [];
+    const open = children.length > 0 && this.expanded.has(node as Container);
+
+    const item = document.createElement('li');
+    item.dataset.index = String(this.rows.length);
+    item.style.paddingLeft = `${depth * 12}px`;
+    item.classList.toggle('is-selected', node === this.selected);
+    item.classList.toggle('is-hidden', !node.visible);
+
+    const toggle = document.createElement('span');
+    toggle.className = 'scene-inspector-toggle';
+    toggle.textContent = children.length === 0 ? ' ' : open ? '▾' : '▸';
+
+    const label = document.createElement('span');
+    label.textContent = describeNode(node);
+
+    item.append(toggle, label);
+    const tweens = tweensOf(node).length;
+    if (tweens > 0) item.append(createBadge(`⟳${tweens}`));
+    if (children.length > 0 && !open) item.append(createBadge(String(children.length)));
+
+    this.rows.push(node);
+    items.push(item);
+    if (!open) return;
+
+    const shown = children.slice(0, this.options.maxChildren);
+    for (const child of shown) this.listNode(child, depth + 1, items);
+    if (children.length > shown.length) {
+      const more = document.createElement('li');
+      more.className = 'scene-inspector-more';
+      more.style.paddingLeft = `${(depth + 1) * 12}px`;
+      more.textContent = `… ${children.length - shown.length} more`;
+      items.push(more);
+    }
+  }
+
+  private renderDetails(): void {
+    const node = this.selected;
+    if (!node) {
+      this.details.replaceChildren();
+      return;
+    }
+
+    const bounds = node.getBounds();
+    const info = document.createElement('dl');
+    appendInfo(info, 'Node', describeNode(node));
+    appendInfo(
+      info,
+      'Bounds',
+      `${round(bounds.x)}, ${round(bounds.y)}  ${round(bounds.width)} × ${round(bounds.height)}`
+    );
+    appendInfo(info, 'Event mode', node.eventMode ?? 'auto');
+    appendInfo(info, 'World visible', String(node.worldVisible));
+
+    const fields = document.createElement('div');
+    fields.className = 'scene-inspector-fields';
+    for (const field of TRANSFORM_FIELDS) fields.append(createFieldInput(node, field));
+    fields.append(createVisibleInput(node));
+
+    const tweens = document.createElement('ul');
+    for (const tween of tweensOf(node)) {
+      const entry = document.createElement('li');
+      entry.textContent = describeTween(tween);
+      tweens.append(entry);
+    }
+
+    this.details.replaceChildren(info, fields, tweens);
+  }
+
+  private onTreeClick = (event: MouseEvent): void => {
+    const node = this.rowNode(event.target);
+    if (!node) return;
+
+    const isToggle = (event.target as HTMLElement).classList.contains('scene-inspector-toggle');
+    if (isToggle && node instanceof Container) {
+      if (this.expanded.has(node)) this.expanded.delete(node);
+      else this.expanded.add(node);
+      this.refresh();
+      return;
+    }
+    this.select(node);
+  };
+
+  private onTreeHover = (event: PointerEvent): void => {
+    this.setHovered(this.rowNode(event.target));
+  };
+
+  /** Node of the row an event happened in */
+  private rowNode(target: EventTarget | null): DisplayObject | null {
+    const row = target instanceof Element ? target.closest<HTMLElement>('li[data-index]') : null;
+    return row ? (this.rows[Number(row.dataset.index)] ?? null) : null;
+  }
+
+  private setHovered(node: DisplayObject | null): void {
+    this.hovered = node;
+    this.updateOutline();
+  }
+
+  private updateOutline(): void {
+    const node = this.isOpen ? (this.hovered ?? this.selected) : null;
+    this.outline.visible = node !== null && !node.destroyed;
+    if (!node || node.destroyed) return;
+
+    // Scenes are added to the stage over time - stay on top of them
+    if (this.stage.children[this.stage.children.length - 1] !== this.outline) {
+      this.stage.addChild(this.outline);
+    }
+
+    const bounds = node.getBounds();
+    this.outline.clear();
+    this.outline.beginFill(this.options.highlightColor, 0.15);
+    this.outline.lineStyle(2, this.options.highlightColor);
+    this.outline.drawRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    this.outline.endFill();
+  }
+}
+
+/** Whether a node is still attached below the listed root */
+function isInTree(node: DisplayObject, root: Container | null): boolean {
+  if (node.destroyed) return false;
+  for (let current: DisplayObject | null = node; current; current = current.parent) {
+    if (current === root) return true;
+  }
+  return false;
+}
+
+/** Row label: name (class name when unnamed), plus the start of a Text's string */
+function describeNode(node: DisplayObject): string {
+  const label = node.name || node.constructor.name;
+  if (!(node instanceof Text)) return label;
+
+  const text = node.text.replace(/\s+/g, ' ');
+  return `${label} "${text.length > 24 ? `${text.slice(0, 24)}…` : text}"`;
+}
+
+/** Tweens animating a node or one of its points */
+function tweensOf(node: DisplayObject): gsap.core.Tween[] {
+  if (node.destroyed) return [];
+  return gsap.getTweensOf([node, node.position, node.scale, node.pivot, node.skew]);
+}
+
+/** Tweened properties, duration and progress (e.g. "x, alpha · 0.6s · 40%") */
+function describeTween(tween: gsap.core.Tween): string {
+  const properties = Object.keys(tween.vars).filter(
+    key => !TWEEN_SETTINGS.has(key) && !key.startsWith('on')
+  );
+  const state = tween.isActive() ? `${Math.round(tween.progress() * 100)}%` : 'waiting';
+  return `${properties.join(', ')} · ${tween.duration()}s · ${state}`;
+}
+
+function createFieldInput(node: DisplayObject, field: TransformField): HTMLLabelElement {
+  const label = document.createElement('label');
+  const input = document.createElement('input');
+  input.type = 'number';
+  input.step = String(field.step);
+  input.value = String(round(field.read(node)));
+  input.addEventListener('input', () => {
+    const value = input.valueAsNumber;
+    if (Number.isFinite(value)) field.write(node, value);
+  });
+  label.append(field.label, input);
+  return label;
+}
+
+function createVisibleInput(node: DisplayObject): HTMLLabelElement {
+  const label = document.createElement('label');
+  const input = document.createElement('input');
+  input.type = 'checkbox';
+  input.checked = node.visible;
+  input.addEventListener('change', () => {
+    node.visible = input.checked;
+  });
+  label.append('visible', input);
+  return label;
+}
+
+function appendInfo(list: HTMLDListElement, term: string, value: string): void {
+  const dt = document.createElement('dt');
+  dt.textContent = term;
+  const dd = document.createElement('dd');
+  dd.textContent = value;
+  list.append(dt, dd);
+}
+
+function createBadge(text: string): HTMLSpanElement {
+  const badge = document.createElement('span');
+  badge.className = 'scene-inspector-badge';
+  badge.textContent = text;
+  return badge;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
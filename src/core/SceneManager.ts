@@ -1,4 +1,7 @@
-import type { Application as PixiApplication, Container } from 'pixi.js';
+import { Sprite, type Application as PixiApplication, type Container } from 'pixi.js';
+
+import { ErrorHandler } from './ErrorHandler';
+import { SceneTransition, type TransitionOptions } from './SceneTransition';
 
 /**
  * Scene Interface
@@ -15,9 +18,21 @@ export interface Scene {
   /** Called when the scene is removed from the stage */
   onStop?(): void;
 
-  /** Called when the window is resized */
+  /** Called when the window is resized (also while paused under an overlay) */
   onResize?(): void;
 
+  /** Called when another scene is pushed on top of this one */
+  onPause?(): void;
+
+  /** Called when the scene above this one is popped */
+  onResume?(): void;
+
+  /** Called when the whole app pauses (tab hidden, window blurred) - suspend timers */
+  onAppPause?(): void;
+
+  /** Called when the whole app resumes */
+  onAppResume?(): void;
+
   /** Called every frame (optional, for animations) */
   onUpdate?(delta: number): void;
 
@@ -30,12 +45,35 @@ export interface Scene {
  *
  * Handles scene lifecycle:
  * - Loading/unloading scenes
+ * - Scene stack: overlays are pushed above a paused scene and popped off again
+ * - Animated transitions between scenes (and between content inside a scene)
  * - Resize propagation
  * - Frame updates
+ *
+ * Navigations are serialized. While one is in flight, input on the stage is
+ * blocked; start() fast-forwards the running effect and supersedes anything
+ * still waiting in the queue.
  */
 export class SceneManager {
   private pixi: PixiApplication;
-  private currentScene: Scene | null = null;
+
+  /** Scene stack - the last entry is the active scene, the rest are paused */
+  private stack: Scene[] = [];
+
+  /** Scenes being transitioned away from (still rendered and updated) */
+  private outgoingScenes: Scene[] = [];
+
+  /** Effect currently playing (null when idle) */
+  private activeTransition: SceneTransition | null = null;
+
+  /** Tail of the navigation queue */
+  private queue: Promise<void> = Promise.resolve();
+
+  /** Incremented per start() call so queued navigations can detect they were superseded */
+  private navigationId = 0;
+
+  /** Stage event mode saved while input is blocked (null when not blocked) */
+  private savedEventMode: Container['eventMode'] | null = null;
 
   constructor(pixi: PixiApplication) {
     this.pixi = pixi;
@@ -45,29 +83,285 @@ export class SceneManager {
   }
 
   /**
-   * Switch to a new scene
+   * Switch to a new scene, clearing the whole stack
    * Handles async onStart() with proper error handling
+   * @param scene Scene to show
+   * @param transition Optional effect; without one the old scenes are removed immediately
+   */
+  async start(scene: Scene, transition?: TransitionOptions): Promise<void> {
+    const id = ++this.navigationId;
+
+    // Don't make the new navigation wait for an effect nobody will see through
+    this.activeTransition?.finish();
+
+    await this.enqueue(async () => {
+      if (id !== this.navigationId) {
+        // A newer navigation was requested while this one was queued
+        scene.destroy?.();
+        return;
+      }
+      await this.switchTo(scene, id, [...this.stack], transition);
+    });
+  }
+
+  /**
+   * Replace only the top of the stack (paused scenes underneath stay paused)
+   * @param scene Scene to show in place of the current one
+   * @param transition Optional effect between the old and new top scene
+   */
+  async replace(scene: Scene, transition?: TransitionOptions): Promise<void> {
+    const id = this.navigationId;
+
+    await this.enqueue(async () => {
+      if (id !== this.navigationId) {
+        scene.destroy?.();
+        return;
+      }
+      const top = this.current;
+      await this.switchTo(scene, id, top ? [top] : [], transition);
+    });
+  }
+
+  /**
+   * Push a scene above the current one.
+   * The current scene is paused: it keeps rendering and receiving resize,
+   * but gets no updates or input until the pushed scene is popped.
+   * @param scene Overlay scene to show
+   * @param transition Optional entrance effect (only the pushed scene is animated)
+   */
+  async push(scene: Scene, transition?: TransitionOptions): Promise<void> {
+    const id = this.navigationId;
+
+    await this.enqueue(async () => {
+      if (id !== this.navigationId) {
+        scene.destroy?.();
+        return;
+      }
+
+      this.setInputBlocked(true);
+
+      const below = this.current;
+      if (below) this.pause(below);
+
+      this.stack.push(scene);
+      if (transition) scene.container.visible = false;
+      this.pixi.stage.addChild(scene.container);
+
+      try {
+        await scene.onStart?.();
+        if (transition) {
+          await this.playTransition(null, scene.container, transition);
+        }
+      } catch (error) {
+        ErrorHandler.handle(error, 'scene-startup', { scene: scene.constructor.name });
+        throw error;
+      } finally {
+        scene.container.visible = true;
+        this.setInputBlocked(false);
+      }
+
+      requestAnimationFrame(() => {
+        scene.onResize?.();
+      });
+    });
+  }
+
+  /**
+   * Pop the top scene and resume the one underneath.
+   * The bottom scene can't be popped - use start() to replace it.
+   * @param transition Optional exit effect (only the popped scene is animated)
+   */
+  async pop(transition?: TransitionOptions): Promise<void> {
+    const id = this.navigationId;
+
+    await this.enqueue(async () => {
+      if (id !== this.navigationId) return;
+      if (this.stack.length < 2) {
+        console.warn('[SceneManager] pop() ignored - nothing to pop back to');
+        return;
+      }
+
+      this.setInputBlocked(true);
+      const top = this.stack.pop()!;
+
+      try {
+        if (transition) {
+          const hide = new SceneTransition(this.pixi.stage, transition);
+          this.activeTransition = hide;
+          await hide.hide(top.container, this.pixi.screen);
+        }
+      } finally {
+        this.activeTransition = null;
+        this.teardown(top);
+        const below = this.current;
+        if (below) this.resume(below);
+        this.setInputBlocked(false);
+      }
+    });
+  }
+
+  /**
+   * Swap content inside the current scene behind a transition.
+   * The outgoing frame is captured to a texture so both states are visible
+   * during the effect, regardless of how the swap rearranges the scene.
+   * @param scene Scene requesting the swap (ignored if it is no longer current)
+   * @param swap Replaces the scene content (can be async)
+   * @param transition Effect to play once the swap is done
+   */
+  async transition(
+    scene: Scene,
+    swap: () => void | Promise<void>,
+    transition: TransitionOptions
+  ): Promise<void> {
+    const id = this.navigationId;
+    this.activeTransition?.finish();
+
+    await this.enqueue(async () => {
+      if (scene !== this.current) return;
+
+      this.setInputBlocked(true);
+      const snapshot = this.captureSnapshot(scene.container);
+      scene.container.visible = false;
+
+      try {
+        await swap();
+        if (scene === this.current && id === this.navigationId) {
+          await this.playTransition(snapshot, scene.container, transition);
+        }
+      } finally {
+        scene.container.visible = true;
+        snapshot.destroy({ texture: true, baseTexture: true });
+        this.setInputBlocked(false);
+      }
+    });
+  }
+
+  /**
+   * Called when window resizes
+   */
+  onResize(): void {
+    for (const scene of this.outgoingScenes) scene.onResize?.();
+    for (const scene of this.stack) scene.onResize?.();
+  }
+
+  /**
+   * Forward an app-wide pause/resume to every live scene
+   * (scenes under an overlay may still run their own timers)
    */
-  async start(scene: Scene): Promise<void> {
-    // Stop and remove current scene
-    if (this.currentScene) {
-      this.currentScene.onStop?.();
-      this.pixi.stage.removeChild(this.currentScene.container);
-      this.currentScene.destroy?.();
+  setAppPaused(paused: boolean): void {
+    for (const scene of [...this.outgoingScenes, ...this.stack]) {
+      if (paused) {
+        scene.onAppPause?.();
+      } else {
+        scene.onAppResume?.();
+      }
     }
+  }
+
+  /**
+   * Called every frame (paused scenes are skipped)
+   */
+  private update = (delta: number): void => {
+    for (const scene of this.outgoingScenes) scene.onUpdate?.(delta);
+    this.current?.onUpdate?.(delta);
+  };
+
+  /**
+   * Get the current (top) scene
+   */
+  get current(): Scene | null {
+    return this.stack[this.stack.length - 1] ?? null;
+  }
+
+  /**
+   * Number of scenes on the stack
+   */
+  get depth(): number {
+    return this.stack.length;
+  }
 
-    // Set and start new scene
-    this.currentScene = scene;
+  /**
+   * Whether a navigation or transition is in progress
+   */
+  get isTransitioning(): boolean {
+    return this.savedEventMode !== null;
+  }
+
+  /**
+   * Clean up
+   */
+  destroy(): void {
+    this.navigationId++;
+    this.activeTransition?.finish();
+    for (const scene of this.outgoingScenes) this.teardown(scene);
+    this.outgoingScenes = [];
+    while (this.stack.length > 0) {
+      const scene = this.stack.pop()!;
+      scene.onStop?.();
+      scene.destroy?.();
+    }
+    this.pixi.ticker.remove(this.update);
+  }
+
+  // ============================================================
+  // Internals
+  // ============================================================
+
+  /**
+   * Run a navigation task after every previously queued one has settled
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    // Keep the queue alive if a task fails - the caller still sees the rejection
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Put a scene on top of the stack in place of the given outgoing scenes
+   */
+  private async switchTo(
+    scene: Scene,
+    id: number,
+    outgoing: Scene[],
+    transition?: TransitionOptions
+  ): Promise<void> {
+    const animated = transition !== undefined && transition.type !== 'none';
+    const previousTop = outgoing[outgoing.length - 1] ?? null;
+
+    this.setInputBlocked(true);
+    this.stack = this.stack.filter(entry => !outgoing.includes(entry));
+
+    // Without an effect, keep the original behaviour: old scenes go first
+    if (!animated) {
+      for (const entry of [...outgoing].reverse()) this.teardown(entry);
+    } else {
+      this.outgoingScenes = outgoing;
+    }
+
+    // Set and start new scene (hidden until its effect starts)
+    this.stack.push(scene);
+    if (animated) scene.container.visible = false;
     this.pixi.stage.addChild(scene.container);
 
     try {
       // Await onStart if it returns a Promise
       await scene.onStart?.();
+
+      // Skip the effect if another navigation is already waiting
+      if (animated && id === this.navigationId) {
+        await this.playTransition(previousTop?.container ?? null, scene.container, transition);
+      }
     } catch (error) {
-      console.error('[SceneManager] Scene startup failed:', error);
+      ErrorHandler.handle(error, 'scene-startup', { scene: scene.constructor.name });
       // Scene is still mounted - let it handle its own error state
       // Re-throw so callers can also handle if needed
       throw error;
+    } finally {
+      scene.container.visible = true;
+      for (const entry of [...this.outgoingScenes].reverse()) this.teardown(entry);
+      this.outgoingScenes = [];
+      this.setInputBlocked(false);
     }
 
     // Trigger resize after a frame to ensure dimensions are ready
@@ -77,36 +371,71 @@ export class SceneManager {
     });
   }
 
+  private async playTransition(
+    from: Container | null,
+    to: Container,
+    options: TransitionOptions
+  ): Promise<void> {
+    const transition = new SceneTransition(this.pixi.stage, options);
+    this.activeTransition = transition;
+    try {
+      await transition.play(from, to, this.pixi.screen);
+    } finally {
+      if (this.activeTransition === transition) this.activeTransition = null;
+    }
+  }
+
   /**
-   * Called when window resizes
+   * Freeze a scene that is being covered by another one
    */
-  onResize(): void {
-    this.currentScene?.onResize?.();
+  private pause(scene: Scene): void {
+    scene.container.interactiveChildren = false;
+    scene.onPause?.();
   }
 
   /**
-   * Called every frame
+   * Hand control back to a scene that was covered
    */
-  private update = (delta: number): void => {
-    this.currentScene?.onUpdate?.(delta);
-  };
+  private resume(scene: Scene): void {
+    scene.container.interactiveChildren = true;
+    scene.onResume?.();
+  }
 
   /**
-   * Get the current scene
+   * Stop, unmount and destroy a scene
    */
-  get current(): Scene | null {
-    return this.currentScene;
+  private teardown(scene: Scene): void {
+    scene.onStop?.();
+    this.pixi.stage.removeChild(scene.container);
+    scene.destroy?.();
   }
 
   /**
-   * Clean up
+   * Render a container's current on-screen state into a sprite on top of the stage
    */
-  destroy(): void {
-    if (this.currentScene) {
-      this.currentScene.onStop?.();
-      this.currentScene.destroy?.();
-      this.currentScene = null;
+  private captureSnapshot(target: Container): Sprite {
+    const texture = this.pixi.renderer.generateTexture(target, {
+      region: this.pixi.screen,
+      resolution: this.pixi.renderer.resolution,
+    });
+    const snapshot = new Sprite(texture);
+    this.pixi.stage.addChild(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Block (or restore) pointer input on the whole stage
+   */
+  private setInputBlocked(blocked: boolean): void {
+    const stage = this.pixi.stage;
+    if (blocked) {
+      if (this.savedEventMode === null) {
+        this.savedEventMode = stage.eventMode;
+        stage.eventMode = 'none';
+      }
+    } else if (this.savedEventMode !== null) {
+      stage.eventMode = this.savedEventMode;
+      this.savedEventMode = null;
     }
-    this.pixi.ticker.remove(this.update);
   }
 }
@@ -0,0 +1,334 @@
+import gsap from 'gsap';
+import { Graphics, type Container } from 'pixi.js';
+
+/** Built-in transition effects */
+export type TransitionType = 'none' | 'fade' | 'slide' | 'crossfade' | 'iris';
+
+/** Direction the incoming content travels towards (for 'slide') */
+export type SlideDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * Transition options accepted by SceneManager.start() and SceneManager.transition()
+ */
+export interface TransitionOptions {
+  /** Effect to play */
+  type: TransitionType;
+  /** Total duration in seconds (default: 0.5) */
+  duration?: number;
+  /** Overlay color for 'fade' (default: black) */
+  color?: number;
+  /** Travel direction for 'slide' (default: 'left') */
+  direction?: SlideDirection;
+  /** GSAP ease (default: 'power2.inOut') */
+  ease?: string;
+}
+
+/** Snapshot of the properties a transition is allowed to touch */
+interface DisplayState {
+  x: number;
+  y: number;
+  alpha: number;
+}
+
+/**
+ * SceneTransition
+ *
+ * Plays a single animated hand-over between two containers on the stage.
+ * Both containers stay mounted for the whole effect; the caller decides
+ * what happens to the outgoing one afterwards.
+ *
+ * - fade: color overlay fades in, content swaps underneath, overlay fades out
+ * - crossfade: outgoing fades out while incoming fades in
+ * - slide: incoming pushes the outgoing off-screen
+ * - iris: incoming is revealed through a growing circular mask
+ *
+ * A running transition can be fast-forwarded with finish(), which is how
+ * SceneManager cancels an effect when another navigation is requested.
+ */
+export class SceneTransition {
+  private readonly stage: Container;
+  private readonly options: TransitionOptions;
+
+  /** Timeline driving the effect (null when idle) */
+  private timeline: gsap.core.Timeline | null = null;
+
+  /** Completion handler for the running effect (null when idle) */
+  private complete: (() => void) | null = null;
+
+  /** Color overlay used by 'fade' */
+  private overlay: Graphics | null = null;
+
+  /** Circular mask used by 'iris' */
+  private irisMask: Graphics | null = null;
+
+  constructor(stage: Container, options: TransitionOptions) {
+    this.stage = stage;
+    this.options = options;
+  }
+
+  /** Whether the effect is currently playing */
+  get isPlaying(): boolean {
+    return this.timeline !== null;
+  }
+
+  /**
+   * Play the transition.
+   * @param from Outgoing container (null when there is nothing to transition from)
+   * @param to Incoming container
+   * @param screen Screen size used to size overlays, masks and slide offsets
+   * @returns Resolves once the effect completes (or is fast-forwarded)
+   */
+  play(
+    from: Container | null,
+    to: Container,
+    screen: { width: number; height: number }
+  ): Promise<void> {
+    const duration = this.options.duration ?? 0.5;
+    if (this.options.type === 'none' || duration <= 0) {
+      to.visible = true;
+      return Promise.resolve();
+    }
+
+    // Incoming content must render above the outgoing content
+    if (from && from.parent && from.parent === to.parent) {
+      const parent = from.parent;
+      if (parent.getChildIndex(from) > parent.getChildIndex(to)) {
+        parent.swapChildren(from, to);
+      }
+    }
+
+    const fromState = from ? this.captureState(from) : null;
+    const toState = this.captureState(to);
+
+    return new Promise(resolve => {
+      const timeline = gsap.timeline();
+      this.track(timeline, () => {
+        this.removeHelpers(to);
+        this.restoreState(to, toState, true);
+        if (from && fromState) this.restoreState(from, fromState, false);
+        resolve();
+      });
+      timeline.eventCallback('onComplete', () => this.complete?.());
+
+      this.buildEffect(timeline, this.options.type, from, to, screen, duration);
+    });
+  }
+
+  /**
+   * Take a single container off screen by playing its entrance effect backwards.
+   * Whatever is underneath is left untouched (used when popping overlays).
+   * 'fade' behaves like 'crossfade' here - a color flash makes no sense for a
+   * container that is only partially covering the screen.
+   * @param target Container to hide (left invisible afterwards)
+   * @param screen Screen size used to size masks and slide offsets
+   */
+  hide(target: Container, screen: { width: number; height: number }): Promise<void> {
+    const duration = this.options.duration ?? 0.5;
+    if (this.options.type === 'none' || duration <= 0) {
+      target.visible = false;
+      return Promise.resolve();
+    }
+
+    const state = this.captureState(target);
+    const type = this.options.type === 'fade' ? 'crossfade' : this.options.type;
+
+    return new Promise(resolve => {
+      const timeline = gsap.timeline();
+      this.track(timeline, () => {
+        this.removeHelpers(target);
+        this.restoreState(target, state, false);
+        resolve();
+      });
+      timeline.eventCallback('onReverseComplete', () => this.complete?.());
+
+      this.buildEffect(timeline, type, null, target, screen, duration);
+      timeline.reverse(0);
+    });
+  }
+
+  /**
+   * Jump to the end of the effect.
+   * Completion runs synchronously, so play()/hide() resolve right away.
+   */
+  finish(): void {
+    const timeline = this.timeline;
+    if (!timeline) return;
+    timeline.progress(timeline.reversed() ? 0 : 1);
+    this.complete?.();
+  }
+
+  /**
+   * Register the running timeline and its (run-once) completion handler
+   */
+  private track(timeline: gsap.core.Timeline, onDone: () => void): void {
+    this.timeline = timeline;
+    this.complete = () => {
+      if (this.timeline !== timeline) return;
+      this.timeline = null;
+      this.complete = null;
+      timeline.kill();
+      onDone();
+    };
+  }
+
+  private buildEffect(
+    timeline: gsap.core.Timeline,
+    type: TransitionType,
+    from: Container | null,
+    to: Container,
+    screen: { width: number; height: number },
+    duration: number
+  ): void {
+    const ease = this.options.ease ?? 'power2.inOut';
+
+    switch (type) {
+      case 'fade':
+        this.buildFade(timeline, from, to, screen, duration, ease);
+        break;
+      case 'crossfade':
+        this.buildCrossfade(timeline, from, to, duration, ease);
+        break;
+      case 'slide':
+        this.buildSlide(timeline, from, to, screen, duration, ease);
+        break;
+      case 'iris':
+        this.buildIris(timeline, to, screen, duration, ease);
+        break;
+    }
+  }
+
+  // ============================================================
+  // Effects
+  // ============================================================
+
+  private buildFade(
+    timeline: gsap.core.Timeline,
+    from: Container | null,
+    to: Container,
+    screen: { width: number; height: number },
+    duration: number,
+    ease: string
+  ): void {
+    this.overlay = new Graphics();
+    this.overlay.beginFill(this.options.color ?? 0x000000);
+    this.overlay.drawRect(0, 0, screen.width, screen.height);
+    this.overlay.endFill();
+    this.overlay.alpha = from ? 0 : 1;
+    this.stage.addChild(this.overlay);
+
+    to.visible = !from;
+
+    if (from) {
+      timeline.to(this.overlay, { alpha: 1, duration: duration / 2, ease });
+      timeline.call(() => {
+        from.visible = false;
+        to.visible = true;
+      });
+    }
+    timeline.to(this.overlay, { alpha: 0, duration: from ? duration / 2 : duration, ease });
+  }
+
+  private buildCrossfade(
+    timeline: gsap.core.Timeline,
+    from: Container | null,
+    to: Container,
+    duration: number,
+    ease: string
+  ): void {
+    to.visible = true;
+    to.alpha = 0;
+    timeline.to(to, { alpha: 1, duration, ease }, 0);
+    if (from) {
+      timeline.to(from, { alpha: 0, duration, ease }, 0);
+    }
+  }
+
+  private buildSlide(
+    timeline: gsap.core.Timeline,
+    from: Container | null,
+    to: Container,
+    screen: { width: number; height: number },
+    duration: number,
+    ease: string
+  ): void {
+    const direction = this.options.direction ?? 'left';
+    const axis = direction === 'left' || direction === 'right' ? 'x' : 'y';
+    const distance = axis === 'x' ? screen.width : screen.height;
+    // 'left'/'up' means content travels towards negative coordinates
+    const sign = direction === 'left' || direction === 'up' ? -1 : 1;
+
+    to.visible = true;
+    const toTarget = to[axis];
+    to[axis] = toTarget - sign * distance;
+    timeline.to(to, { [axis]: toTarget, duration, ease }, 0);
+
+    if (from) {
+      timeline.to(from, { [axis]: from[axis] + sign * distance, duration, ease }, 0);
+    }
+  }
+
+  private buildIris(
+    timeline: gsap.core.Timeline,
+    to: Container,
+    screen: { width: number; height: number },
+    duration: number,
+    ease: string
+  ): void {
+    const centerX = screen.width / 2;
+    const centerY = screen.height / 2;
+    const maxRadius = Math.hypot(centerX, centerY);
+
+    const mask = new Graphics();
+    this.irisMask = mask;
+    this.stage.addChild(mask);
+
+    to.visible = true;
+    to.mask = mask;
+
+    const iris = { radius: 0 };
+    const draw = (): void => {
+      mask.clear();
+      mask.beginFill(0xffffff);
+      mask.drawCircle(centerX, centerY, Math.max(iris.radius, 0.01));
+      mask.endFill();
+    };
+    draw();
+
+    timeline.to(iris, { radius: maxRadius, duration, ease, onUpdate: draw }, 0);
+  }
+
+  // ============================================================
+  // State
+  // ============================================================
+
+  private captureState(target: Container): DisplayState {
+    return { x: target.x, y: target.y, alpha: target.alpha };
+  }
+
+  /**
+   * Remove the overlay/mask created by the effect
+   */
+  private removeHelpers(target: Container): void {
+    if (this.overlay) {
+      this.overlay.destroy();
+      this.overlay = null;
+    }
+
+    if (this.irisMask) {
+      if (target.mask === this.irisMask) target.mask = null;
+      this.irisMask.destroy();
+      this.irisMask = null;
+    }
+  }
+
+  /**
+   * Put back the properties an effect animated.
+   * Outgoing containers stay hidden so they can't flash before their owner removes them.
+   */
+  private restoreState(target: Container, state: DisplayState, visible: boolean): void {
+    if (target.destroyed) return;
+    target.position.set(state.x, state.y);
+    target.alpha = state.alpha;
+    target.visible = visible;
+  }
+}
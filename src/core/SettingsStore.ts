@@ -0,0 +1,208 @@
+import { SETTINGS_STORE } from '../config/sharedSettings';
+
+import { ErrorHandler } from './ErrorHandler';
+
+/**
+ * Allowed values of one setting: a numeric range (values are clamped) or a fixed set
+ */
+export type SettingRule = { min: number; max: number } | { oneOf: readonly (string | number)[] };
+
+/**
+ * Upgrades stored data of one schema version to the next
+ */
+export type SettingsMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Shape and history of a settings namespace
+ */
+export interface SettingsSchema<T extends object> {
+  /** Current version - bump it (and add a migration) when fields are renamed or change meaning */
+  version: number;
+  /** Factory defaults; they also define each field's type */
+  defaults: () => T;
+  /** Range or allowed values per field (usually the matching slider constants) */
+  rules?: { [K in keyof T]?: SettingRule };
+  /** migrations[n] turns version n data into version n + 1 */
+  migrations?: Record<number, SettingsMigration>;
+}
+
+/**
+ * Store options (see config/sharedSettings.ts)
+ */
+export interface SettingsStoreOptions {
+  /** localStorage key prefix, one key per namespace (`${prefix}.${namespace}`) */
+  storagePrefix: string;
+}
+
+/** What is written to localStorage */
+interface StoredSettings {
+  version: number;
+  data: Record<string, unknown>;
+}
+
+/**
+ * One game's persisted settings
+ *
+ * Reads are validated against the schema: unknown fields are dropped, fields of
+ * the wrong type fall back to their default and numbers are clamped to their rule.
+ * A copy is kept in memory, so settings survive scene visits even where
+ * localStorage is unavailable (private mode, blocked storage).
+ */
+export class SettingsNamespace<T extends object> {
+  private storageKey: string;
+  private schema: SettingsSchema<T>;
+
+  /** In-memory copy (undefined until first read from storage) */
+  private current: T | null | undefined = undefined;
+
+  constructor(storageKey: string, schema: SettingsSchema<T>) {
+    this.storageKey = storageKey;
+    this.schema = schema;
+  }
+
+  /**
+   * Saved settings (a copy), or null when nothing is saved
+   */
+  load(): T | null {
+    if (this.current === undefined) this.current = this.read();
+    return this.current ? { ...this.current } : null;
+  }
+
+  /**
+   * Validate and persist settings
+   */
+  save(settings: T): void {
+    this.current = validateSettings(this.schema, settings as Record<string, unknown>);
+    try {
+      const stored = { version: this.schema.version, data: this.current };
+      localStorage.setItem(this.storageKey, JSON.stringify(stored));
+    } catch (error) {
+      ErrorHandler.handle(error, 'settings-save', { storageKey: this.storageKey });
+    }
+  }
+
+  /**
+   * Forget saved settings (next load() returns null)
+   */
+  clear(): void {
+    this.current = null;
+    try {
+      localStorage.removeItem(this.storageKey);
+    } catch {
+      // Storage unavailable (private mode) - nothing was persisted
+    }
+  }
+
+  private read(): T | null {
+    let stored: StoredSettings;
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      if (!raw) return null;
+      stored = JSON.parse(raw) as StoredSettings;
+    } catch (error) {
+      ErrorHandler.handle(error, 'settings-load', { storageKey: this.storageKey });
+      return null;
+    }
+
+    const data = this.migrate(stored);
+    return data ? validateSettings(this.schema, data) : null;
+  }
+
+  /**
+   * Bring stored data up to the current schema version (null when it can't be)
+   */
+  private migrate(stored: StoredSettings): Record<string, unknown> | null {
+    const { version, migrations = {} } = this.schema;
+    if (typeof stored?.data !== 'object' || stored.data === null) return null;
+    if (!Number.isInteger(stored.version) || stored.version > version) {
+      // Written by a newer build (or garbage) - safer to start from defaults
+      if (import.meta.env.DEV) {
+        console.warn(`[SettingsStore] Ignoring ${this.storageKey} v${stored.version}`);
+      }
+      return null;
+    }
+
+    let data = stored.data;
+    for (let from = stored.version; from < version; from++) {
+      const migration = migrations[from];
+      if (!migration) {
+        if (import.meta.env.DEV) {
+          console.warn(`[SettingsStore] No migration for ${this.storageKey} v${from}`);
+        }
+        return null;
+      }
+      data = migration(data);
+    }
+    return data;
+  }
+}
+
+/**
+ * SettingsStore
+ *
+ * Typed, versioned settings persisted in localStorage, one namespace per game.
+ * Game configs register their namespace once (see config/aceOfShadowsSettings.ts)
+ * and expose load/save helpers to their modes.
+ */
+export class SettingsStore {
+  private options: SettingsStoreOptions;
+
+  /** Registered namespaces by name */
+  private namespaces = new Map<string, SettingsNamespace<object>>();
+
+  constructor(options: SettingsStoreOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Register a namespace
+   * @throws When the name is already taken (two games would overwrite each other)
+   */
+  namespace<T extends object>(name: string, schema: SettingsSchema<T>): SettingsNamespace<T> {
+    if (this.namespaces.has(name)) {
+      throw new Error(`Settings namespace "${name}" is already registered`);
+    }
+    const namespace = new SettingsNamespace(`${this.options.storagePrefix}.${name}`, schema);
+    this.namespaces.set(name, namespace as SettingsNamespace<object>);
+    return namespace;
+  }
+
+  /**
+   * Forget the saved settings of every namespace
+   */
+  clearAll(): void {
+    for (const namespace of this.namespaces.values()) {
+      namespace.clear();
+    }
+  }
+}
+
+/**
+ * Defaults overlaid with the valid fields of `data`
+ */
+export function validateSettings<T extends object>(
+  schema: SettingsSchema<T>,
+  data: Record<string, unknown>
+): T {
+  const result = schema.defaults();
+  const rules = (schema.rules ?? {}) as Record<string, SettingRule | undefined>;
+
+  for (const [key, fallback] of Object.entries(result) as [string, unknown][]) {
+    const value = data[key];
+    if (typeof value !== typeof fallback) continue;
+    if (typeof value === 'number' && !Number.isFinite(value)) continue;
+
+    const rule = rules[key];
+    if (rule && 'oneOf' in rule && !rule.oneOf.includes(value as string | number)) continue;
+    if (rule && 'min' in rule && typeof value === 'number') {
+      (result as Record<string, unknown>)[key] = Math.max(rule.min, Math.min(rule.max, value));
+      continue;
+    }
+
+    (result as Record<string, unknown>)[key] = value;
+  }
+  return result;
+}
+
+/** Shared store the game configs register their namespaces in */
+export const settingsStore = new SettingsStore(SETTINGS_STORE);
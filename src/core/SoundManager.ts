@@ -0,0 +1,509 @@
+import { ErrorHandler } from './ErrorHandler';
+
+/** Mixer buses every sound is routed through */
+export type SoundBus = 'music' | 'sfx' | 'voice';
+
+/** Synthesized oscillator tone (pitch can glide to endFrequency) */
+export interface ToneLayer {
+  kind: 'tone';
+  wave?: OscillatorType;
+  frequency: number;
+  endFrequency?: number;
+  /** Seconds */
+  duration: number;
+  volume?: number;
+  /** Seconds after the sound starts */
+  delay?: number;
+}
+
+/** Filtered white noise (whooshes, thuds, flicks) */
+export interface NoiseLayer {
+  kind: 'noise';
+  filter?: BiquadFilterType;
+  frequency: number;
+  endFrequency?: number;
+  /** Seconds */
+  duration: number;
+  volume?: number;
+  /** Seconds after the sound starts */
+  delay?: number;
+}
+
+/** Audio file, decoded once and cached */
+export interface FileLayer {
+  kind: 'file';
+  url: string;
+  loop?: boolean;
+  volume?: number;
+  /** Seconds after the sound starts */
+  delay?: number;
+}
+
+export type SoundLayer = ToneLayer | NoiseLayer | FileLayer;
+
+/** One named sound: layers played together on a bus */
+export interface SoundDefinition {
+  bus: SoundBus;
+  layers: SoundLayer[];
+}
+
+/** Sounds of one game (or the shared UI), by name */
+export type SoundBank = Record<string, SoundDefinition>;
+
+/** Per-play tweaks */
+export interface PlayOptions {
+  /** Volume multiplier (default 1) */
+  volume?: number;
+  /** Pitch/speed multiplier (default 1) */
+  rate?: number;
+}
+
+/** Volume and mute of one bus */
+export interface BusState {
+  volume: number;
+  muted: boolean;
+}
+
+/** Persisted mixer state */
+export interface MixerState {
+  muted: boolean;
+  buses: Record<SoundBus, BusState>;
+}
+
+/**
+ * Sound options (see config/sharedSettings.ts)
+ */
+export interface SoundOptions {
+  /** localStorage key for the mixer state */
+  storageKey: string;
+  /** Mixer state before the player changes anything */
+  defaults: MixerState;
+}
+
+const BUSES: readonly SoundBus[] = ['music', 'sfx', 'voice'];
+
+/** Fade used to avoid clicks when sounds start */
+const ATTACK_SECONDS = 0.005;
+
+/**
+ * SoundManager
+ *
+ * Web Audio playback for the whole app:
+ * - Sound banks per game (register them once, play by bank + name)
+ * - music / sfx / voice buses with volume and mute, plus a master mute
+ * - Mixer state is persisted in localStorage
+ * - suspend()/resume() follow the app pause (tab hidden, window blurred)
+ *
+ * The AudioContext is created on first use and resumed on the first pointer
+ * or key press, since browsers block audio until the user interacts.
+ */
+export class SoundManager {
+  /** Behaviour options */
+  private options: SoundOptions;
+
+  /** Current mixer state */
+  private state: MixerState;
+
+  /** Registered banks by name */
+  private banks = new Map<string, SoundBank>();
+
+  /** Lazily created audio graph */
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private busNodes = new Map<SoundBus, GainNode>();
+
+  /** Shared white noise for noise layers */
+  private noiseBuffer: AudioBuffer | null = null;
+
+  /** Decoded audio files by URL */
+  private buffers = new Map<string, Promise<AudioBuffer | null>>();
+
+  /** Whether the app is paused (nothing plays) */
+  private suspended = false;
+
+  /** Mixer change subscribers */
+  private listeners = new Set<() => void>();
+
+  constructor(options: SoundOptions) {
+    this.options = options;
+    this.state = this.loadState();
+  }
+
+  /**
+   * Start listening for the first user gesture (unlocks audio)
+   */
+  start(): void {
+    window.addEventListener('pointerdown', this.unlock);
+    window.addEventListener('keydown', this.unlock);
+  }
+
+  /**
+   * Register sound banks by name
+   */
+  registerBanks(banks: Record<string, SoundBank>): void {
+    for (const [name, bank] of Object.entries(banks)) {
+      this.banks.set(name, bank);
+    }
+  }
+
+  /**
+   * Play a sound (silently ignored while muted, paused or when the sound is unknown)
+   */
+  play(bank: string, name: string, options: PlayOptions = {}): void {
+    const definition = this.banks.get(bank)?.[name];
+    if (!definition) {
+      if (import.meta.env.DEV) console.warn(`[SoundManager] Unknown sound ${bank}/${name}`);
+      return;
+    }
+
+    const bus = this.state.buses[definition.bus];
+    if (this.suspended || this.state.muted || bus.muted || bus.volume <= 0) return;
+
+    const context = this.getContext();
+    if (!context) return;
+
+    const start = context.currentTime;
+    for (const layer of definition.layers) {
+      const when = start + (layer.delay ?? 0);
+      const volume = (layer.volume ?? 1) * (options.volume ?? 1);
+      const output = this.busNodes.get(definition.bus)!;
+      const rate = options.rate ?? 1;
+
+      switch (layer.kind) {
+        case 'tone':
+          this.playTone(context, layer, when, volume, rate, output);
+          break;
+        case 'noise':
+          this.playNoise(context, layer, when, volume, rate, output);
+          break;
+        case 'file':
+          this.playFile(context, layer, when, volume, rate, output);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Decode the audio files of a bank ahead of time
+   */
+  async preload(bank: string): Promise<void> {
+    const context = this.getContext();
+    if (!context) return;
+
+    const files = Object.values(this.banks.get(bank) ?? {})
+      .flatMap(definition => definition.layers)
+      .filter((layer): layer is FileLayer => layer.kind === 'file');
+    await Promise.all(files.map(layer => this.loadBuffer(context, layer.url)));
+  }
+
+  /**
+   * Whether everything is muted
+   */
+  get muted(): boolean {
+    return this.state.muted;
+  }
+
+  /**
+   * Mute or unmute everything (persisted)
+   */
+  setMuted(muted: boolean): void {
+    this.state.muted = muted;
+    this.applyMixer();
+  }
+
+  /**
+   * Flip the master mute
+   */
+  toggleMute(): void {
+    this.setMuted(!this.state.muted);
+  }
+
+  /**
+   * Volume and mute of a bus
+   */
+  getBus(bus: SoundBus): Readonly<BusState> {
+    return this.state.buses[bus];
+  }
+
+  /**
+   * Set a bus volume (0-1, persisted)
+   */
+  setBusVolume(bus: SoundBus, volume: number): void {
+    this.state.buses[bus].volume = Math.max(0, Math.min(1, volume));
+    this.applyMixer();
+  }
+
+  /**
+   * Mute or unmute a bus (persisted)
+   */
+  setBusMuted(bus: SoundBus, muted: boolean): void {
+    this.state.buses[bus].muted = muted;
+    this.applyMixer();
+  }
+
+  /**
+   * Get notified when the mixer changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Silence everything until resume() (app paused)
+   */
+  suspend(): void {
+    this.suspended = true;
+    void this.context?.suspend();
+  }
+
+  /**
+   * Continue after suspend()
+   */
+  resume(): void {
+    this.suspended = false;
+    void this.context?.resume();
+  }
+
+  /**
+   * Close the audio context
+   */
+  destroy(): void {
+    window.removeEventListener('pointerdown', this.unlock);
+    window.removeEventListener('keydown', this.unlock);
+    void this.context?.close();
+    this.context = null;
+    this.master = null;
+    this.busNodes.clear();
+    this.noiseBuffer = null;
+    this.buffers.clear();
+    this.listeners.clear();
+  }
+
+  // ============================================================
+  // Audio graph
+  // ============================================================
+
+  /**
+   * The audio context, created on first use (null where Web Audio is unavailable)
+   */
+  private getContext(): AudioContext | null {
+    if (this.context) return this.context;
+    if (typeof AudioContext === 'undefined') return null;
+
+    const context = new AudioContext();
+    this.master = context.createGain();
+    this.master.connect(context.destination);
+    for (const bus of BUSES) {
+      const node = context.createGain();
+      node.connect(this.master);
+      this.busNodes.set(bus, node);
+    }
+
+    this.context = context;
+    this.applyGains();
+    if (this.suspended) void context.suspend();
+    return context;
+  }
+
+  /**
+   * Browsers only allow audio after a user gesture - resume on the first one
+   */
+  private unlock = (): void => {
+    if (this.suspended) return;
+    const context = this.getContext();
+    if (context?.state === 'suspended') void context.resume();
+    window.removeEventListener('pointerdown', this.unlock);
+    window.removeEventListener('keydown', this.unlock);
+  };
+
+  private playTone(
+    context: AudioContext,
+    layer: ToneLayer,
+    when: number,
+    volume: number,
+    rate: number,
+    output: AudioNode
+  ): void {
+    const oscillator = context.createOscillator();
+    oscillator.type = layer.wave ?? 'sine';
+    oscillator.frequency.setValueAtTime(layer.frequency * rate, when);
+    if (layer.endFrequency) {
+      oscillator.frequency.exponentialRampToValueAtTime(
+        layer.endFrequency * rate,
+        when + layer.duration
+      );
+    }
+
+    const envelope = createEnvelope(context, when, layer.duration, volume);
+    oscillator.connect(envelope).connect(output);
+    oscillator.start(when);
+    oscillator.stop(when + layer.duration);
+  }
+
+  private playNoise(
+    context: AudioContext,
+    layer: NoiseLayer,
+    when: number,
+    volume: number,
+    rate: number,
+    output: AudioNode
+  ): void {
+    const source = context.createBufferSource();
+    source.buffer = this.getNoiseBuffer(context);
+    source.loop = true;
+
+    const filter = context.createBiquadFilter();
+    filter.type = layer.filter ?? 'bandpass';
+    filter.frequency.setValueAtTime(layer.frequency * rate, when);
+    if (layer.endFrequency) {
+      filter.frequency.exponentialRampToValueAtTime(
+        layer.endFrequency * rate,
+        when + layer.duration
+      );
+    }
+
+    const envelope = createEnvelope(context, when, layer.duration, volume);
+    source.connect(filter).connect(envelope).connect(output);
+    source.start(when);
+    source.stop(when + layer.duration);
+  }
+
+  private playFile(
+    context: AudioContext,
+    layer: FileLayer,
+    when: number,
+    volume: number,
+    rate: number,
+    output: AudioNode
+  ): void {
+    void this.loadBuffer(context, layer.url).then(buffer => {
+      // The context may have been closed while decoding
+      if (!buffer || context !== this.context) return;
+
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.loop = layer.loop ?? false;
+      source.playbackRate.value = rate;
+
+      const gain = context.createGain();
+      gain.gain.value = volume;
+      source.connect(gain).connect(output);
+      source.start(Math.max(when, context.currentTime));
+    });
+  }
+
+  private loadBuffer(context: AudioContext, url: string): Promise<AudioBuffer | null> {
+    let buffer = this.buffers.get(url);
+    if (!buffer) {
+      buffer = fetch(url)
+        .then(response => {
+          // A 404 or an offline fallback page would otherwise fail as an opaque decode error
+          if (!response.ok) {
+            throw new Error(`[SoundManager] Failed to load ${url}: ${response.status}`);
+          }
+          return response.arrayBuffer();
+        })
+        .then(data => context.decodeAudioData(data))
+        .catch(error => {
+          ErrorHandler.handle(error, 'sound-load', { url });
+          // Forget the failure so the next play retries (the network may be back by then)
+          this.buffers.delete(url);
+          return null;
+        });
+      this.buffers.set(url, buffer);
+    }
+    return buffer;
+  }
+
+  private getNoiseBuffer(context: AudioContext): AudioBuffer {
+    if (!this.noiseBuffer) {
+      const buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+      const data = buffer.getChannelData(0);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = Math.random() * 2 - 1;
+      }
+      this.noiseBuffer = buffer;
+    }
+    return this.noiseBuffer;
+  }
+
+  // ============================================================
+  // Mixer state
+  // ============================================================
+
+  private applyMixer(): void {
+    this.applyGains();
+    this.saveState();
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  private applyGains(): void {
+    if (!this.master) return;
+    this.master.gain.value = this.state.muted ? 0 : 1;
+    for (const bus of BUSES) {
+      const { volume, muted } = this.state.buses[bus];
+      this.busNodes.get(bus)!.gain.value = muted ? 0 : volume;
+    }
+  }
+
+  /**
+   * Defaults with the stored mixer state applied (malformed entries are ignored)
+   */
+  private loadState(): MixerState {
+    const { defaults } = this.options;
+    const state: MixerState = {
+      muted: defaults.muted,
+      buses: {
+        music: { ...defaults.buses.music },
+        sfx: { ...defaults.buses.sfx },
+        voice: { ...defaults.buses.voice },
+      },
+    };
+
+    try {
+      const stored = localStorage.getItem(this.options.storageKey);
+      if (!stored) return state;
+
+      const parsed = JSON.parse(stored) as Partial<MixerState>;
+      if (typeof parsed.muted === 'boolean') state.muted = parsed.muted;
+      for (const bus of BUSES) {
+        const saved = parsed.buses?.[bus];
+        if (typeof saved?.volume === 'number') state.buses[bus].volume = saved.volume;
+        if (typeof saved?.muted === 'boolean') state.buses[bus].muted = saved.muted;
+      }
+    } catch (error) {
+      ErrorHandler.handle(error, 'sound-settings', { storageKey: this.options.storageKey });
+    }
+    return state;
+  }
+
+  private saveState(): void {
+    try {
+      localStorage.setItem(this.options.storageKey, JSON.stringify(this.state));
+    } catch (error) {
+      ErrorHandler.handle(error, 'sound-settings', { storageKey: this.options.storageKey });
+    }
+  }
+}
+
+/**
+ * Gain node that fades in quickly and decays to silence over the duration
+ */
+function createEnvelope(
+  context: AudioContext,
+  when: number,
+  duration: number,
+  volume: number
+): GainNode {
+  const envelope = context.createGain();
+  envelope.gain.setValueAtTime(0, when);
+  envelope.gain.linearRampToValueAtTime(volume, when + ATTACK_SECONDS);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, when + duration);
+  return envelope;
+}
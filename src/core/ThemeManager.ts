@@ -0,0 +1,293 @@
+import { Container } from 'pixi.js';
+
+import { THEME } from '../config/sharedSettings';
+
+import { settingsStore, type SettingsNamespace, type SettingsStore } from './SettingsStore';
+
+/**
+ * Color tokens (PixiJS numbers, also accepted as Text fills)
+ */
+export interface ThemeColors {
+  /** Page behind the main menu */
+  background: number;
+  /** Text drawn straight on the background (menu subtitle) */
+  textOnBackground: number;
+  /** Brand banner (main menu title) */
+  brand: number;
+  /** Text on the brand banner */
+  textOnBrand: number;
+  /** Active toggles, slider fill, selected options, "CLICK TO PLAY" */
+  accent: number;
+  /** Panels over the game (settings, mode selection) and floating buttons */
+  panel: number;
+  /** Control tracks, open dropdown lists */
+  surface: number;
+  /** Raised controls (dropdown button) */
+  surfaceRaised: number;
+  /** Hovered or focused controls */
+  surfaceHover: number;
+  /** Control outlines */
+  border: number;
+  /** Text on panels and controls */
+  text: number;
+  /** Secondary text on panels (descriptions) */
+  textSecondary: number;
+  /** Hints and details (progress, missing emojis) */
+  textMuted: number;
+  /** Slider handle, toggle knob */
+  knob: number;
+  /** Default button background */
+  button: number;
+  /** "Literal Task" button of the mode selection */
+  modeLiteral: number;
+  /** "Creative Take" button of the mode selection */
+  modeCreative: number;
+  /** Dimmed backdrop under overlays and loading screens */
+  backdrop: number;
+  /** Keyboard/gamepad focus ring */
+  focusRing: number;
+  /** Loading progress bar */
+  progress: number;
+  /** Win and notice titles */
+  highlight: number;
+  /** Error messages */
+  error: number;
+  /** Drawn speech bubbles (no texture) */
+  bubble: number;
+  bubbleBorder: number;
+}
+
+export interface ThemeTypography {
+  /** UI text */
+  fontFamily: string;
+  /** Headlines of loading screens */
+  displayFontFamily: string;
+}
+
+export interface ThemeRadii {
+  /** Small controls (dropdowns) */
+  control: number;
+  /** Buttons */
+  button: number;
+  /** Settings panels */
+  panel: number;
+  /** Mode selection panels and other dialogs */
+  dialog: number;
+}
+
+export interface ThemeSpacing {
+  /** Padding inside settings panels */
+  panelPadding: number;
+  /** Gap between settings cells */
+  cellGap: number;
+}
+
+/**
+ * Design tokens the UI components draw with (see config/themes.ts)
+ */
+export interface Theme {
+  colors: ThemeColors;
+  typography: ThemeTypography;
+  radii: ThemeRadii;
+  spacing: ThemeSpacing;
+  /** Ignore per-game overrides (a high-contrast theme must stay high contrast) */
+  fixed?: boolean;
+}
+
+/**
+ * Tokens a game replaces while its scene is running
+ */
+export interface ThemeOverrides {
+  colors?: Partial<ThemeColors>;
+  typography?: Partial<ThemeTypography>;
+  radii?: Partial<ThemeRadii>;
+  spacing?: Partial<ThemeSpacing>;
+}
+
+export type ThemeColorName = keyof ThemeColors;
+
+/**
+ * A theme color by name, or a fixed color (number or CSS hex) that ignores the theme
+ */
+export type ColorToken = ThemeColorName | number | `#${string}`;
+
+export type ThemeListener = (theme: Theme) => void;
+
+/**
+ * Display object that redraws itself when the theme changes.
+ * Anything on the stage with applyTheme is restyled automatically.
+ */
+export interface Themeable extends Container {
+  applyTheme(theme: Theme): void;
+}
+
+/**
+ * ThemeManager options (see config/sharedSettings.ts)
+ */
+export interface ThemeOptions {
+  /** SettingsStore namespace of the player's theme */
+  settingsNamespace: string;
+  /** Theme used when nothing is stored and no media query matches */
+  defaultTheme: string;
+  /** Media query per theme, checked in order on the first visit (e.g. prefers-contrast) */
+  mediaQueries: Record<string, string>;
+  /** Built-in themes by name */
+  themes: Record<string, Theme>;
+}
+
+/** What is persisted: the player's theme ('' = none, follow the system) */
+interface ThemeSettings {
+  name: string;
+}
+
+/**
+ * ThemeManager
+ *
+ * Holds the current theme (light, dark, high contrast), the player's choice
+ * persisted like the locale, plus the overrides of the running game.
+ * Components read `themeManager.theme` when they draw; on a change the
+ * Application calls applyTheme() on every Themeable on the stage, and
+ * subscribers (main menu) rebuild what they drew themselves.
+ */
+export class ThemeManager {
+  private options: ThemeOptions;
+
+  /** Persisted theme name (validated against the built-in themes on load) */
+  private settings: SettingsNamespace<ThemeSettings>;
+
+  private listeners = new Set<ThemeListener>();
+
+  private currentName: string;
+
+  /** Overrides of the running game (null outside games) */
+  private overrides: ThemeOverrides | null = null;
+
+  /** Current theme with the overrides applied */
+  private resolved: Theme;
+
+  /**
+   * @param store Store the theme is persisted in (tests pass their own)
+   */
+  constructor(options: ThemeOptions, store: SettingsStore = settingsStore) {
+    this.options = options;
+    this.settings = store.namespace<ThemeSettings>(options.settingsNamespace, {
+      version: 1,
+      defaults: () => ({ name: '' }),
+      rules: { name: { oneOf: Object.keys(options.themes) } },
+    });
+    this.currentName = this.detectTheme();
+    this.resolved = this.resolve();
+  }
+
+  /** Current theme name */
+  get name(): string {
+    return this.currentName;
+  }
+
+  /** Current theme, game overrides included */
+  get theme(): Theme {
+    return this.resolved;
+  }
+
+  /** Built-in theme names, in config order */
+  get names(): string[] {
+    return Object.keys(this.options.themes);
+  }
+
+  /**
+   * Switch theme, persist the choice and notify subscribers
+   * (unknown themes are ignored)
+   */
+  setTheme(name: string): void {
+    if (!(name in this.options.themes) || name === this.currentName) return;
+
+    this.currentName = name;
+    this.settings.save({ name });
+    this.update();
+  }
+
+  /**
+   * Apply a game's overrides on top of the current theme
+   * @returns Function that removes them (no-op once other overrides replaced them)
+   */
+  applyOverrides(overrides: ThemeOverrides): () => void {
+    this.overrides = overrides;
+    this.update();
+    return () => {
+      if (this.overrides !== overrides) return;
+      this.overrides = null;
+      this.update();
+    };
+  }
+
+  /**
+   * Listen for theme changes (switches and game overrides)
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ThemeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private update(): void {
+    this.resolved = this.resolve();
+    for (const listener of this.listeners) listener(this.resolved);
+  }
+
+  private resolve(): Theme {
+    const base = this.options.themes[this.currentName];
+    const overrides = this.overrides;
+    if (!overrides || base.fixed) return base;
+
+    return {
+      ...base,
+      colors: { ...base.colors, ...overrides.colors },
+      typography: { ...base.typography, ...overrides.typography },
+      radii: { ...base.radii, ...overrides.radii },
+      spacing: { ...base.spacing, ...overrides.spacing },
+    };
+  }
+
+  /**
+   * Stored choice, then the system preference, then the default theme
+   */
+  private detectTheme(): string {
+    const stored = this.settings.load()?.name;
+    if (stored) return stored;
+
+    if (typeof window.matchMedia === 'function') {
+      for (const [name, query] of Object.entries(this.options.mediaQueries)) {
+        if (name in this.options.themes && window.matchMedia(query).matches) return name;
+      }
+    }
+    return this.options.defaultTheme;
+  }
+}
+
+/**
+ * Call applyTheme() on every Themeable under root (root included)
+ */
+export function applyThemeToTree(root: Container, theme: Theme): void {
+  if (root.destroyed) return;
+  if (isThemeable(root)) root.applyTheme(theme);
+  // Copy: applyTheme may rebuild children
+  for (const child of [...root.children]) {
+    if (child instanceof Container) applyThemeToTree(child, theme);
+  }
+}
+
+/**
+ * Color of a token in a theme
+ */
+export function resolveColor(token: ColorToken, theme: Theme): number | string {
+  return typeof token === 'number' || token.startsWith('#')
+    ? token
+    : theme.colors[token as ThemeColorName];
+}
+
+function isThemeable(node: Container): node is Themeable {
+  return typeof (node as Themeable).applyTheme === 'function';
+}
+
+/** Shared instance the UI draws with */
+export const themeManager = new ThemeManager(THEME);
@@ -4,6 +4,114 @@
 export { Application } from './Application';
 export { SceneManager } from './SceneManager';
 export type { Scene } from './SceneManager';
-export { FPSCounter } from './FPSCounter';
+export { SceneTransition } from './SceneTransition';
+export type { TransitionOptions, TransitionType, SlideDirection } from './SceneTransition';
+export { Router, parseRoute, formatRoute } from './Router';
+export type { Route, NavigateOptions } from './Router';
+export { SafeArea, NO_INSETS, rotateInsetsCounterClockwise } from './SafeArea';
+export type { SafeAreaInsets } from './SafeArea';
+export { AssetLoader } from './AssetLoader';
+export type { AssetEntry, AssetManifest, LoadProgress } from './AssetLoader';
+export { GameRegistry } from './GameRegistry';
+export type {
+  GameDefinition,
+  GameRegistryOptions,
+  GameScene,
+  GameSceneHooks,
+  GameSection,
+} from './GameRegistry';
+export { PauseService } from './PauseService';
+export type { PauseListener, PauseOptions } from './PauseService';
+export { AnimationScope } from './AnimationScope';
+export { InputManager, normalizeKey } from './InputManager';
+export type { ActionHandler, InputAction, InputOptions, KeyBindings } from './InputManager';
+export { InputCheatSheet } from './InputCheatSheet';
+export { FocusNavigator, findFocusables } from './FocusNavigator';
+export type { Focusable, FocusListener } from './FocusNavigator';
+export { AccessibilityLayer } from './AccessibilityLayer';
+export type {
+  Accessible,
+  AccessibleInfo,
+  AccessibleRole,
+  AccessibilityOptions,
+} from './AccessibilityLayer';
+export { GamepadInput } from './GamepadInput';
+export type { GamepadOptions } from './GamepadInput';
+export { SoundManager } from './SoundManager';
+export type {
+  BusState,
+  FileLayer,
+  MixerState,
+  NoiseLayer,
+  PlayOptions,
+  SoundBank,
+  SoundBus,
+  SoundDefinition,
+  SoundLayer,
+  SoundOptions,
+  ToneLayer,
+} from './SoundManager';
+export { SettingsNamespace, SettingsStore, settingsStore, validateSettings } from './SettingsStore';
+export type {
+  SettingRule,
+  SettingsMigration,
+  SettingsSchema,
+  SettingsStoreOptions,
+} from './SettingsStore';
+export { detectTextDirection, I18n, i18n, interpolate, t } from './I18n';
+export type {
+  I18nOptions,
+  LocaleCatalog,
+  LocaleInfo,
+  LocaleListener,
+  TextDirection,
+  Translation,
+  TranslationParams,
+} from './I18n';
+export { CaptureService } from './CaptureService';
+export type { CaptureOptions, CaptureSource, ClipFormat, ClipOptions } from './CaptureService';
+export { FixedStepClock } from './FixedStepClock';
+export type { FixedStepOptions, RenderCallback, StepCallback } from './FixedStepClock';
+export { Random, createSeed } from './Random';
+export type { RandomOptions } from './Random';
+export { ContextRecovery } from './ContextRecovery';
+export type { ContextListener, ContextRecoveryOptions, ContextState } from './ContextRecovery';
+export { GeneratedTextures } from './GeneratedTextures';
+export { PwaUpdater } from './PwaUpdater';
+export type { PwaOptions } from './PwaUpdater';
+export { SceneInspector } from './SceneInspector';
+export type { SceneInspectorOptions } from './SceneInspector';
+export { PerfHUD } from './PerfHUD';
+export type { PerfMetric, PerfHUDSources } from './PerfHUD';
 export { ErrorHandler } from './ErrorHandler';
-export { killTweensRecursive, prefixSpritesheetFrames } from './AnimationUtils';
+export type { ErrorReport, ErrorReporter } from './ErrorHandler';
+export {
+  BufferReporter,
+  ConsoleReporter,
+  HttpReporter,
+  PostMessageReporter,
+} from './ErrorReporters';
+export { ErrorConsole } from './ErrorConsole';
+export { alignFrames, prefixSpritesheetFrames, swapTextures } from './AnimationUtils';
+export { ThemeManager, themeManager, applyThemeToTree, resolveColor } from './ThemeManager';
+export type {
+  ColorToken,
+  Theme,
+  ThemeColorName,
+  ThemeColors,
+  ThemeListener,
+  ThemeOptions,
+  ThemeOverrides,
+  ThemeRadii,
+  ThemeSpacing,
+  Themeable,
+  ThemeTypography,
+} from './ThemeManager';
+export { QualityManager } from './QualityManager';
+export type {
+  QualityListener,
+  QualityMode,
+  QualityOptions,
+  QualityProfile,
+  QualityTier,
+} from './QualityManager';
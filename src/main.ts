@@ -10,51 +10,174 @@
  */
 
 import './style.css';
-import { Application } from './core';
+import { ASSET_MANIFEST } from './config/assetManifest';
+import { GAME_DEFINITIONS } from './config/games';
+import { LOCALE_CATALOGS } from './config/locales';
+import {
+  ASSET_LIFECYCLE,
+  ERROR_REPORTING,
+  PWA,
+  SCENE_INSPECTOR,
+  SCENE_TRANSITIONS,
+} from './config/sharedSettings';
+import { SOUND_BANKS } from './config/soundBanks';
+import {
+  Application,
+  BufferReporter,
+  ErrorConsole,
+  ErrorHandler,
+  HttpReporter,
+  i18n,
+  PostMessageReporter,
+  PwaUpdater,
+  Router,
+  SceneInspector,
+  type GameDefinition,
+  type GameScene,
+  type GameSceneHooks,
+  type Route,
+} from './core';
 import { MainMenuScene } from './scenes/MainMenuScene';
 
+const MENU_ROUTE: Route = { segments: [], params: {} };
+
+// Error reporting first, so startup failures are captured too
+const errorLog = new BufferReporter(ERROR_REPORTING.bufferSize);
+const errorReportingCleanups = [
+  ErrorHandler.addReporter(errorLog),
+  ErrorHandler.installGlobalHandlers(),
+];
+if (ERROR_REPORTING.httpEndpoint) {
+  const reporter = new HttpReporter(ERROR_REPORTING.httpEndpoint);
+  errorReportingCleanups.push(ErrorHandler.addReporter(reporter));
+}
+if (ERROR_REPORTING.parentOrigin && window.parent !== window) {
+  const reporter = new PostMessageReporter(window.parent, ERROR_REPORTING.parentOrigin);
+  errorReportingCleanups.push(ErrorHandler.addReporter(reporter));
+}
+const errorConsole = import.meta.env.DEV ? new ErrorConsole(errorLog) : null;
+
+// UI strings, before any scene builds its text
+i18n.registerCatalogs(LOCALE_CATALOGS);
+
 // Initialize application
 const app = new Application();
+app.assets.addManifest(ASSET_MANIFEST);
+app.assets.keepWarmMs = ASSET_LIFECYCLE.keepWarmMs;
+app.sound.registerBanks(SOUND_BANKS);
+app.games.register(GAME_DEFINITIONS);
+
+// Live display tree of the current scene (F2), for layout debugging
+const inspector = import.meta.env.DEV
+  ? new SceneInspector(
+      app.input,
+      app.pixi.stage,
+      () => app.scenes.current?.container ?? null,
+      SCENE_INSPECTOR
+    )
+  : null;
+if (inspector) {
+  inspector.attachTo(app.pixi.ticker);
+  app.capture.exclude(inspector.indicator);
+}
+
+/** Game scene currently shown (null on the main menu) */
+let activeGame: { key: string; scene: GameScene } | null = null;
 
 /**
- * Navigate to a specific game scene (lazy-loaded).
+ * Number of routes from the address bar still being applied.
+ * URL updates made meanwhile replace the history entry instead of adding one.
+ */
+let applyingRoutes = 0;
+
+/**
+ * Deep links: #/<game>/<mode>?<params>, e.g. #/ace/creative?layout=crown
+ * Browser back/forward and manual URL edits are routed through applyRoute().
+ */
+const router = new Router(route => {
+  applyRoute(route).catch(error => {
+    ErrorHandler.handle(error, 'route', { hash: window.location.hash });
+  });
+});
+
+/**
+ * Navigate to a registered game's scene (lazy-loaded).
  * Each scene is loaded only when the user navigates to it,
  * enabling code splitting and reducing initial bundle size.
  */
-async function goToGame(key: 'ace' | 'magic' | 'phoenix'): Promise<void> {
-  switch (key) {
-    case 'ace': {
-      const { AceOfShadowsScene } = await import('./scenes/AceOfShadowsScene');
-      await app.scenes.start(new AceOfShadowsScene(app, goToMainMenu));
-      break;
-    }
-    case 'magic': {
-      const { MagicWordsScene } = await import('./scenes/MagicWordsScene');
-      await app.scenes.start(new MagicWordsScene(app, goToMainMenu));
-      break;
-    }
-    case 'phoenix': {
-      const { PhoenixFlameScene } = await import('./scenes/PhoenixFlameScene');
-      await app.scenes.start(new PhoenixFlameScene(app, goToMainMenu));
-      break;
-    }
-  }
+async function goToGame(game: GameDefinition): Promise<GameScene> {
+  const { key } = game;
+  router.navigate({ segments: [key], params: {} }, { replace: applyingRoutes > 0 });
+
+  // Keep the URL in sync with the scene's sub-mode (ignored once it's no longer active)
+  const onRouteChange: GameSceneHooks['onRouteChange'] = (mode, params) => {
+    if (activeGame?.scene !== scene) return;
+    router.navigate(
+      { segments: mode ? [key, mode] : [key], params },
+      { replace: applyingRoutes > 0 }
+    );
+  };
+
+  const scene = await game.createScene(app, game, { onBack: goToMainMenu, onRouteChange });
+  activeGame = { key, scene };
+  await app.scenes.start(scene, SCENE_TRANSITIONS.enterGame);
+  return scene;
 }
 
 /**
  * Navigate to the main menu
+ * (no transition on first load - there is nothing to transition from)
  */
 function goToMainMenu(): void {
+  activeGame = null;
+  router.navigate(MENU_ROUTE, { replace: applyingRoutes > 0 });
+
   const mainMenu = new MainMenuScene(app, {
-    onGameSelect: key => {
-      goToGame(key as 'ace' | 'magic' | 'phoenix');
+    onGameSelect: game => {
+      goToGame(game);
     },
   });
-  app.scenes.start(mainMenu);
+  app.scenes.start(mainMenu, app.scenes.current ? SCENE_TRANSITIONS.exitGame : undefined);
+}
+
+/**
+ * Show the scene (and sub-mode) a route points to.
+ * Unknown (or disabled) games fall back to the main menu, unknown modes to the selection screen.
+ */
+async function applyRoute(route: Route): Promise<void> {
+  const [key, mode = null] = route.segments;
+  const game = key === undefined ? null : app.games.get(key);
+
+  applyingRoutes++;
+  try {
+    if (!game) {
+      if (activeGame || !app.scenes.current) {
+        goToMainMenu();
+      } else {
+        router.navigate(MENU_ROUTE, { replace: true });
+      }
+      return;
+    }
+
+    const scene = activeGame?.key === game.key ? activeGame.scene : await goToGame(game);
+    if (mode !== null && !game.modes.includes(mode)) {
+      // Not a sub-mode of this game: drop it (and its params) from the URL
+      router.navigate({ segments: [game.key], params: {} }, { replace: true });
+      await scene.openRoute(null, {});
+      return;
+    }
+    await scene.openRoute(mode, route.params);
+  } finally {
+    applyingRoutes--;
+  }
 }
 
-// Start with main menu
-goToMainMenu();
+// Open the linked scene (main menu when there is no hash)
+router.start();
+
+// Offline support and update prompt (production only: the dev server has no worker)
+const pwa = import.meta.env.PROD ? new PwaUpdater(PWA) : null;
+pwa?.start().catch(error => ErrorHandler.handle(error, 'service-worker'));
 
 console.log('BESTGAMES - Game Developer Tasks initialized');
 
@@ -73,6 +196,10 @@ console.log('BESTGAMES - Game Developer Tasks initialized');
  */
 if (import.meta.hot) {
   import.meta.hot.dispose(() => {
+    router.destroy();
+    inspector?.destroy();
     app.destroy();
+    errorConsole?.destroy();
+    for (const cleanup of errorReportingCleanups) cleanup();
   });
 }
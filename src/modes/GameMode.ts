@@ -1,6 +1,15 @@
 import type { Container, Spritesheet, Texture } from 'pixi.js';
 
+import type { AnimationScope } from '../core/AnimationScope';
+import type { AssetLoader } from '../core/AssetLoader';
+import type { ActionHandler, InputAction } from '../core/InputManager';
+import type { PerfMetric } from '../core/PerfHUD';
+import type { QualityListener } from '../core/QualityManager';
+import type { Random } from '../core/Random';
+import type { SafeAreaInsets } from '../core/SafeArea';
+import type { PlayOptions } from '../core/SoundManager';
 import type { DeviceState } from '../scenes/BaseGameScene';
+import type { MessageOverlayOptions } from '../scenes/MessageOverlayScene';
 
 /**
  * Design bounds for responsive layout
@@ -26,6 +35,22 @@ export interface GameModeContext {
   /** Scene's gameContainer for coordinate conversions and scaling */
   readonly gameContainer: Container;
 
+  /** Shared asset loader - look up textures/spritesheets of loaded bundles */
+  readonly assets: AssetLoader;
+
+  /**
+   * The mode's animations: create tweens through it instead of gsap directly.
+   * Paused with the scene and disposed by it when the mode stops.
+   */
+  readonly animations: AnimationScope;
+
+  /**
+   * Load an asset bundle (see config/assetManifest.ts) behind the shared loading screen.
+   * Resolves immediately when the bundle is already loaded.
+   * The bundle stays loaded until the mode is left.
+   */
+  loadBundle(name: string, title: string): Promise<void>;
+
   /** Get current device state (phonePortrait, phoneLandscape, desktop) */
   getDeviceState(): DeviceState;
 
@@ -38,8 +63,62 @@ export interface GameModeContext {
   /** Get screen dimensions */
   getScreenSize(): { width: number; height: number };
 
-  /** Generate texture from Graphics (for shadows, etc.) */
+  /** Notch / home indicator insets, as the content sees them (rotated with it, see preferredOrientation) */
+  getSafeInsets(): SafeAreaInsets;
+
+  /**
+   * Generate texture from Graphics (for shadows, etc.).
+   * The graphics is kept to redraw the texture after a WebGL context loss and is
+   * destroyed with the texture - don't destroy it yourself.
+   */
   generateTexture(graphics: Container): Texture;
+
+  /** Texture of a canvas the mode drew (uploaded again after a WebGL context loss) */
+  canvasTexture(canvas: HTMLCanvasElement): Texture;
+
+  /**
+   * Show a message overlay above the scene (win dialogs, notices).
+   * The scene is paused until the overlay closes; resolves once it is gone.
+   */
+  showMessage(options: MessageOverlayOptions): Promise<void>;
+
+  /** Route params the mode was opened with (e.g. { layout: 'crown' } from a deep link) */
+  getRouteParams(): Record<string, string>;
+
+  /** Update the mode's route params (keeps the URL in sync with in-mode choices) */
+  setRouteParams(params: Record<string, string>): void;
+
+  /**
+   * Show a custom counter in the performance HUD.
+   * @returns Function that removes it - call it from stop()
+   */
+  registerMetric(metric: PerfMetric): () => void;
+
+  /**
+   * Handle a keyboard action (see config/sharedSettings.ts INPUT) while the scene is on top.
+   * @returns Function that unsubscribes - call it from stop()
+   */
+  onAction(action: InputAction, handler: ActionHandler): () => void;
+
+  /**
+   * Follow the rendering quality tier (see config/sharedSettings.ts QUALITY):
+   * called right away with the current profile, then whenever the tier changes.
+   * @returns Function that unsubscribes - call it from stop()
+   */
+  onQualityChange(listener: QualityListener): () => void;
+
+  /**
+   * Named random stream of this run (see config/sharedSettings.ts RANDOM).
+   * Use it instead of Math.random() so a run can be replayed from its seed;
+   * separate names keep systems independent (e.g. 'deck' vs 'particles').
+   */
+  random(stream: string): Random;
+
+  /** Play a sound from the scene's bank (see config/soundBanks.ts) */
+  playSound(name: string, options?: PlayOptions): void;
+
+  /** Read a message to screen reader users through the live region (e.g. a dialogue line) */
+  announce(message: string): void;
 }
 
 /**
@@ -61,9 +140,10 @@ export interface GameMode {
   start(): void | Promise<void>;
 
   /**
-   * Stop the mode - cleanup resources, kill animations.
+   * Stop the mode - cleanup resources.
    * Called when user navigates back to selection screen.
-   * Must clean up ALL resources to prevent memory leaks.
+   * Must clean up ALL resources to prevent memory leaks (animations made
+   * through context.animations are already killed by then).
    */
   stop(): void;
 
@@ -80,4 +160,16 @@ export interface GameMode {
    * Optional - implement if mode needs to rebuild UI for different devices.
    */
   onDeviceStateChange?(newState: DeviceState, oldState: DeviceState): void;
+
+  /**
+   * Suspend timers while the app is paused (tab hidden, window blurred).
+   * The Pixi tickers and GSAP are frozen by the app - only self-managed
+   * timers (setInterval, requestAnimationFrame loops) need handling here.
+   */
+  onPause?(): void;
+
+  /**
+   * Restart whatever onPause() suspended.
+   */
+  onResume?(): void;
 }
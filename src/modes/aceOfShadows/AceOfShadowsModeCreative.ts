@@ -1,4 +1,3 @@
-import gsap from 'gsap';
 import { Container, Sprite, Texture, Graphics, Text, TextStyle, Spritesheet } from 'pixi.js';
 
 import {
@@ -10,7 +9,7 @@ import {
   type TableauLayoutType,
   type TableauLayout,
 } from '../../config/aceOfShadowsSettings';
-import { killTweensRecursive } from '../../core';
+import { t } from '../../core';
 import type { DeviceState } from '../../scenes/BaseGameScene';
 import type { GameMode, GameModeContext } from '../GameMode';
 
@@ -57,9 +56,6 @@ interface TableauCard {
 export class AceOfShadowsModeCreative implements GameMode {
   private context: GameModeContext;
 
-  /** GSAP context for scoped animation cleanup (no global clear) */
-  private gsapCtx: gsap.Context | null = null;
-
   /** Flag to prevent callbacks from accessing destroyed objects */
   private isDisposed = false;
 
@@ -103,7 +99,6 @@ export class AceOfShadowsModeCreative implements GameMode {
 
   // Game state
   private gameEnded = false;
-  private messageOverlay: Container | null = null;
 
   // Layout selection
   private currentLayoutType: TableauLayoutType = TRIPEAKS_CONFIG.defaultLayout;
@@ -112,8 +107,18 @@ export class AceOfShadowsModeCreative implements GameMode {
   // Layout selector UI
   private layoutSelector: Container | null = null;
 
+  // Unsubscribe functions of the keyboard/gamepad actions
+  private removeActions: (() => void)[] = [];
+
   constructor(context: GameModeContext) {
     this.context = context;
+
+    // Deep links can pick the layout (e.g. #/ace/creative?layout=crown)
+    const { layout } = context.getRouteParams();
+    if (layout && layout in TABLEAU_LAYOUTS) {
+      this.currentLayoutType = layout as TableauLayoutType;
+      this.currentLayout = TABLEAU_LAYOUTS[this.currentLayoutType];
+    }
   }
 
   // ============================================================
@@ -124,9 +129,6 @@ export class AceOfShadowsModeCreative implements GameMode {
     // Reset disposed flag for new session
     this.isDisposed = false;
 
-    // Initialize GSAP context for scoped animation cleanup
-    this.gsapCtx = gsap.context(() => {});
-
     // Create layer hierarchy
     this.tableauLayer = new Container();
     this.playerAreaLayer = new Container();
@@ -144,6 +146,11 @@ export class AceOfShadowsModeCreative implements GameMode {
     this.buildBlockingRelationships();
     this.buildStockPile();
     this.buildWastePile();
+    this.removeActions = [
+      this.context.onAction('draw-from-stock', () => this.drawFromStock()),
+      this.context.onAction('previous-layout', () => this.cycleLayout(-1)),
+      this.context.onAction('next-layout', () => this.cycleLayout(1)),
+    ];
 
     // Build layout selector UI
     this.buildLayoutSelector();
@@ -163,21 +170,12 @@ export class AceOfShadowsModeCreative implements GameMode {
     // Mark as disposed FIRST to prevent callbacks from accessing destroyed objects
     this.isDisposed = true;
 
-    // Kill all GSAP animations recursively on our containers BEFORE destroying them
-    // This prevents "transform is null" errors from animations on destroyed objects
-    if (this.tableauLayer) {
-      killTweensRecursive(this.tableauLayer);
-    }
-    if (this.playerAreaLayer) {
-      killTweensRecursive(this.playerAreaLayer);
-    }
-    if (this.flyingCardLayer) {
-      killTweensRecursive(this.flyingCardLayer);
-    }
+    for (const remove of this.removeActions) remove();
+    this.removeActions = [];
 
-    // Also revert context if it tracked anything
-    this.gsapCtx?.revert();
-    this.gsapCtx = null;
+    // Kill the animations BEFORE destroying what they animate. The scene does this
+    // when it stops the mode, but restartGame() stops it from within.
+    this.context.animations.kill();
 
     // Clean up tableau cards
     this.tableauCards = [];
@@ -198,12 +196,6 @@ export class AceOfShadowsModeCreative implements GameMode {
       this.flyingCardLayer = null;
     }
 
-    // Clean up message overlay
-    if (this.messageOverlay) {
-      this.messageOverlay.destroy({ children: true });
-      this.messageOverlay = null;
-    }
-
     // Clean up textures
     if (this.shadowTexture) {
       this.shadowTexture.destroy(true);
@@ -270,7 +262,6 @@ export class AceOfShadowsModeCreative implements GameMode {
     shadowGraphics.endFill();
 
     this.shadowTexture = this.context.generateTexture(shadowGraphics);
-    shadowGraphics.destroy();
   }
 
   // ============================================================
@@ -320,16 +311,6 @@ export class AceOfShadowsModeCreative implements GameMode {
     return diff === 1 || diff === 12;
   }
 
-  /**
-   * Shuffle an array in place (Fisher-Yates)
-   */
-  private shuffleArray<T>(array: T[]): void {
-    for (let i = array.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [array[i], array[j]] = [array[j], array[i]];
-    }
-  }
-
   /**
    * Get appropriate card back texture based on suit (row)
    *
@@ -489,7 +470,7 @@ export class AceOfShadowsModeCreative implements GameMode {
     }
 
     // Roll for helpfulness - only sometimes give a helpful card
-    const isHelpful = Math.random() < this.REVEAL_HELPFUL_CHANCE;
+    const isHelpful = this.context.random('reveal').chance(this.REVEAL_HELPFUL_CHANCE);
 
     if (isHelpful) {
       // Try to find a helpful card (±1 from target)
@@ -629,7 +610,7 @@ export class AceOfShadowsModeCreative implements GameMode {
 
     // Initialize unassigned card pool with all 52 cards
     this.unassignedCards = this.getPokerCardNames();
-    this.shuffleArray(this.unassignedCards);
+    this.context.random('deck').shuffle(this.unassignedCards);
 
     // Clear initial dealt ranks tracker
     this.initialDealtRanks.clear();
@@ -994,15 +975,16 @@ export class AceOfShadowsModeCreative implements GameMode {
 
     // Flip animation
     const flipDuration = 0.25;
+    this.context.playSound('card-flip');
 
-    gsap.to(card.container.scale, {
+    this.context.animations.to(card.container.scale, {
       x: 0,
       duration: flipDuration / 2,
       ease: 'power2.in',
       onComplete: () => {
         if (this.isDisposed) return;
         cardSprite.texture = card.faceTexture!;
-        gsap.to(card.container.scale, {
+        this.context.animations.to(card.container.scale, {
           x: TRIPEAKS_CONFIG.cardScale,
           duration: flipDuration / 2,
           ease: 'power2.out',
@@ -1158,7 +1140,7 @@ export class AceOfShadowsModeCreative implements GameMode {
     const needsFlip = !card.isFaceUp;
 
     // Create GSAP timeline
-    const tl = gsap.timeline({
+    const tl = this.context.animations.timeline({
       onComplete: () => {
         if (this.isDisposed) return;
         this.onCardLanded(card, source);
@@ -1204,6 +1186,8 @@ export class AceOfShadowsModeCreative implements GameMode {
       const flipDuration = 0.2;
       const flipStart = duration * 0.25;
 
+      tl.call(() => this.context.playSound('card-flip'), [], flipStart);
+
       // Scale X to 0 (card edge-on)
       tl.to(
         container.scale,
@@ -1495,72 +1479,25 @@ export class AceOfShadowsModeCreative implements GameMode {
 
   /**
    * Show game won message and restart after delay
+   * (overlay is pushed above the paused scene, countdown runs in the overlay)
    */
   private showWinMessage(): void {
     if (this.gameEnded) return;
     this.gameEnded = true;
 
     if (import.meta.env.DEV) console.log('[GAME] YOU WON!');
+    this.context.playSound('win');
 
-    // Create overlay
-    this.messageOverlay = new Container();
-
-    // Semi-transparent background
-    const bg = new Graphics();
-    bg.beginFill(0x000000, 0.7);
-    bg.drawRect(-500, -300, 1000, 600);
-    bg.endFill();
-    this.messageOverlay.addChild(bg);
-
-    // Win message
-    const winText = new Text(
-      '🎉 Game Won! 🎉',
-      new TextStyle({
-        fontFamily: 'Arial, sans-serif',
-        fontSize: 48,
-        fontWeight: 'bold',
-        fill: '#FFD700',
-        stroke: '#000000',
-        strokeThickness: 4,
-        dropShadow: true,
-        dropShadowColor: '#000000',
-        dropShadowDistance: 3,
+    this.context
+      .showMessage({
+        title: t('common.gameWon'),
+        countdown: 3,
+        countdownText: remaining => t('common.restartingIn', { count: remaining }),
       })
-    );
-    winText.anchor.set(0.5);
-    winText.y = -30;
-    this.messageOverlay.addChild(winText);
-
-    // Restart countdown
-    const countdownText = new Text(
-      'Restarting in 3...',
-      new TextStyle({
-        fontFamily: 'Arial, sans-serif',
-        fontSize: 24,
-        fill: '#FFFFFF',
-      })
-    );
-    countdownText.anchor.set(0.5);
-    countdownText.y = 40;
-    this.messageOverlay.addChild(countdownText);
-
-    // Position overlay at center
-    this.messageOverlay.x = TRIPEAKS_CONFIG.tableauCenterX;
-    this.messageOverlay.y = 250;
-
-    this.context.container.addChild(this.messageOverlay);
-
-    // Countdown and restart
-    let countdown = 3;
-    const countdownInterval = setInterval(() => {
-      countdown--;
-      if (countdown > 0) {
-        countdownText.text = `Restarting in ${countdown}...`;
-      } else {
-        clearInterval(countdownInterval);
+      .then(() => {
+        if (this.isDisposed) return;
         this.restartGame();
-      }
-    }, 1000);
+      });
   }
 
   /**
@@ -1679,6 +1616,14 @@ export class AceOfShadowsModeCreative implements GameMode {
     this.context.container.addChild(this.layoutSelector);
   }
 
+  /** Switch to the previous (-1) or next (1) layout, wrapping around */
+  private cycleLayout(step: number): void {
+    if (this.gameEnded) return;
+    const types = Object.keys(TABLEAU_LAYOUTS) as TableauLayoutType[];
+    const index = types.indexOf(this.currentLayoutType);
+    this.setLayout(types[(index + step + types.length) % types.length]);
+  }
+
   /** Set layout type and restart the game */
   private setLayout(layoutType: TableauLayoutType): void {
     if (this.currentLayoutType === layoutType) return;
@@ -1691,6 +1636,8 @@ export class AceOfShadowsModeCreative implements GameMode {
     const label = this.layoutSelector?.getChildByName('layoutLabel') as Text;
     if (label) label.text = this.currentLayout.name;
 
+    this.context.setRouteParams({ layout: layoutType });
+
     this.restartGame();
   }
 }
@@ -14,7 +14,6 @@ import {
   saveSettings,
   getDefaultSettings,
 } from '../../config/aceOfShadowsSettings';
-import { killTweensRecursive } from '../../core';
 import type { DeviceState } from '../../scenes/BaseGameScene';
 import type { GameMode, GameModeContext } from '../GameMode';
 
@@ -37,9 +36,6 @@ type AnimationMode = 'linear' | 'spiral';
 export class AceOfShadowsModeLiteral implements GameMode {
   private context: GameModeContext;
 
-  /** GSAP context for scoped animation cleanup (no global clear) */
-  private gsapCtx: gsap.Context | null = null;
-
   /** Flag to prevent callbacks from accessing destroyed objects */
   private isDisposed = false;
 
@@ -83,10 +79,17 @@ export class AceOfShadowsModeLiteral implements GameMode {
 
   // Settings UI
   private settingsPanel: LiteralModeSettingsPanel | null = null;
+  private removeSettingsAction: (() => void) | null = null;
 
   // Animation state
   private moveIntervalId: ReturnType<typeof setInterval> | null = null;
+  private intervalSuspended = false;
+  private removeTweenMetric: (() => void) | null = null;
   private isAnimating = false;
+
+  /** Moving cards are motion blurred unless the quality tier turns it off */
+  private motionBlurEnabled = true;
+  private removeQualityListener: (() => void) | null = null;
   private movingToRight = true;
 
   // Settings values
@@ -140,9 +143,6 @@ export class AceOfShadowsModeLiteral implements GameMode {
     // Reset disposed flag for new session
     this.isDisposed = false;
 
-    // Initialize GSAP context for scoped animation cleanup
-    this.gsapCtx = gsap.context(() => {});
-
     // Create layer hierarchy for proper z-ordering
     this.shadowLayer = new Container();
     this.cardLayer = new Container();
@@ -165,9 +165,16 @@ export class AceOfShadowsModeLiteral implements GameMode {
     this.movingCardLayer = new Container();
     this.cardLayer.addChild(this.movingCardLayer);
 
+    this.removeQualityListener = this.context.onQualityChange(({ motionBlur }) => {
+      this.motionBlurEnabled = motionBlur;
+    });
+
     this.createShadowTexture();
     this.createCardStacks();
     this.createSettingsPanel();
+    this.removeSettingsAction = this.context.onAction('toggle-settings', () =>
+      this.settingsPanel?.toggleVisible()
+    );
 
     // If preserved settings had activeDeck as 'right', reset cards there
     if (this.activeDeck === 'right') {
@@ -176,6 +183,11 @@ export class AceOfShadowsModeLiteral implements GameMode {
 
     this.startCardAnimation();
 
+    this.removeTweenMetric = this.context.registerMetric({
+      label: 'Card tweens',
+      read: () => this.countCardTweens(),
+    });
+
     // Set design bounds based on device state
     const deviceState = this.context.getDeviceState();
     if (deviceState === 'phonePortrait') {
@@ -193,49 +205,15 @@ export class AceOfShadowsModeLiteral implements GameMode {
     // Mark as disposed FIRST to prevent callbacks from accessing destroyed objects
     this.isDisposed = true;
 
-    // Save settings before cleanup
-    saveSettings({
-      interval: this.moveInterval,
-      duration: this.moveDuration,
-      motionBlur: this.motionBlurStrength,
-      arcHeightA: this.arcHeightA,
-      arcHeightB: this.arcHeightB,
-      realisticShadows: this.realisticShadows,
-      animationMode: this.animationMode,
-      keepSettings: this.keepSettings,
-      activeDeck: this.activeDeck,
-    });
-
-    // Kill tweens on ALL cards in both stacks explicitly
-    // This catches any in-flight animations that might have been started
-    for (const card of this.leftStack) {
-      gsap.killTweensOf(card);
-      gsap.killTweensOf(card.scale);
-      gsap.killTweensOf(card.position);
-    }
-    for (const card of this.rightStack) {
-      gsap.killTweensOf(card);
-      gsap.killTweensOf(card.scale);
-      gsap.killTweensOf(card.position);
-    }
-
-    // Kill all GSAP animations recursively on our containers BEFORE destroying them
-    // This prevents "transform is null" errors from animations on destroyed objects
-    killTweensRecursive(this.leftContainer);
-    killTweensRecursive(this.rightContainer);
-    if (this.movingCardLayer) {
-      killTweensRecursive(this.movingCardLayer);
-    }
-    if (this.shadowLayer) {
-      killTweensRecursive(this.shadowLayer);
-    }
-    if (this.stackShadowLayer) {
-      killTweensRecursive(this.stackShadowLayer);
-    }
+    this.removeTweenMetric?.();
+    this.removeTweenMetric = null;
+    this.removeSettingsAction?.();
+    this.removeSettingsAction = null;
+    this.removeQualityListener?.();
+    this.removeQualityListener = null;
 
-    // Also revert context if it tracked anything
-    this.gsapCtx?.revert();
-    this.gsapCtx = null;
+    // Save settings before cleanup
+    this.persistSettings();
 
     // Stop animation interval
     if (this.moveIntervalId) {
@@ -329,7 +307,6 @@ export class AceOfShadowsModeLiteral implements GameMode {
     shadowGraphics.endFill();
 
     this.shadowTexture = this.context.generateTexture(shadowGraphics);
-    shadowGraphics.destroy();
   }
 
   private getPokerCardNames(): string[] {
@@ -344,6 +321,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
 
   private buildDeck(): string[] {
     const pokerCards = this.getPokerCardNames();
+    const random = this.context.random('deck');
     const deck: string[] = [];
 
     deck.push(...pokerCards);
@@ -351,19 +329,10 @@ export class AceOfShadowsModeLiteral implements GameMode {
 
     const remaining = CARD_CONFIG.totalCards - deck.length;
     for (let i = 0; i < remaining; i++) {
-      const randomIndex = Math.floor(Math.random() * pokerCards.length);
-      deck.push(pokerCards[randomIndex]);
+      deck.push(random.pick(pokerCards));
     }
 
-    this.shuffleArray(deck);
-    return deck;
-  }
-
-  private shuffleArray<T>(array: T[]): void {
-    for (let i = array.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [array[i], array[j]] = [array[j], array[i]];
-    }
+    return random.shuffle(deck);
   }
 
   private createCardWithShadow(cardTexture: Texture, textureName: string): CardContainer {
@@ -587,6 +556,12 @@ export class AceOfShadowsModeLiteral implements GameMode {
     this.startCardAnimation();
   }
 
+  /** Running tweens on cards (position/alpha and scale) - shown in the performance HUD */
+  private countCardTweens(): number {
+    const cards = [...this.leftStack, ...this.rightStack];
+    return gsap.getTweensOf([...cards, ...cards.map(card => card.scale)], true).length;
+  }
+
   private moveCard(): void {
     if (this.isAnimating) return;
 
@@ -610,6 +585,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
   private moveTopCardToRight(): void {
     const cardContainer = this.leftStack.pop()!;
     this.isAnimating = true;
+    this.context.playSound('card-whoosh');
 
     // Capture reset version to invalidate callbacks if reset occurs during animation
     const animationResetVersion = this.resetVersion;
@@ -630,6 +606,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
     let prevX = gamePos.x;
     let prevY = gamePos.y;
     const motionBlur = new MotionBlurFilter([0, 0], 9);
+    motionBlur.enabled = this.motionBlurEnabled;
     cardContainer.filters = [motionBlur];
 
     const totalDistance = Math.sqrt(
@@ -659,7 +636,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
       const flipDuration = 0.4;
       const arcDuration = this.moveDuration * 0.6;
 
-      const tl = gsap.timeline({
+      const tl = this.context.animations.timeline({
         onUpdate: () => {
           // Guard: Don't access destroyed objects
           if (this.isDisposed || !cardContainer.transform) return;
@@ -684,13 +661,13 @@ export class AceOfShadowsModeLiteral implements GameMode {
 
           if (!arcStarted && isClear) {
             arcStarted = true;
-            gsap.to(cardContainer, {
+            this.context.animations.to(cardContainer, {
               y: midY,
               duration: arcDuration / 2,
               ease: 'power2.out',
               onComplete: () => {
                 if (this.isDisposed) return;
-                gsap.to(cardContainer, {
+                this.context.animations.to(cardContainer, {
                   y: targetGameY,
                   duration: arcDuration / 2,
                   ease: 'power2.in',
@@ -701,7 +678,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
 
           if (!flipStarted && isClear) {
             flipStarted = true;
-            gsap.to(cardContainer.scale, {
+            this.context.animations.to(cardContainer.scale, {
               x: 0,
               duration: flipDuration / 2,
               ease: 'power2.in',
@@ -711,7 +688,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
                   cardSprite.texture = backTexture;
                   hasFlipped = true;
                 }
-                gsap.to(cardContainer.scale, {
+                this.context.animations.to(cardContainer.scale, {
                   x: CARD_CONFIG.scale,
                   duration: flipDuration / 2,
                   ease: 'power2.out',
@@ -729,8 +706,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
           // Guard: Don't complete if disposed or reset occurred during animation
           if (this.isDisposed || this.resetVersion !== animationResetVersion) return;
 
-          gsap.killTweensOf(cardContainer);
-          gsap.killTweensOf(cardContainer.scale);
+          this.context.animations.killTweensOf([cardContainer, cardContainer.scale]);
 
           cardContainer.filters = [];
           cardContainer.scale.x = CARD_CONFIG.scale;
@@ -745,6 +721,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
           cardContainer.y = targetY;
 
           this.rightStack.push(cardContainer);
+          this.context.playSound('card-land');
           this.isAnimating = false;
 
           if (attachedShadow) attachedShadow.visible = true;
@@ -762,7 +739,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
         0
       );
     } else {
-      gsap.to(cardContainer, {
+      this.context.animations.to(cardContainer, {
         x: targetGameX,
         y: targetGameY,
         duration: this.moveDuration,
@@ -801,6 +778,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
           cardContainer.y = targetY;
 
           this.rightStack.push(cardContainer);
+          this.context.playSound('card-land');
           this.isAnimating = false;
 
           if (attachedShadow) attachedShadow.visible = true;
@@ -813,6 +791,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
   private moveBottomCardToLeft(): void {
     const cardContainer = this.rightStack.shift()!;
     this.isAnimating = true;
+    this.context.playSound('card-whoosh');
 
     // Capture reset version to invalidate callbacks if reset occurs during animation
     const animationResetVersion = this.resetVersion;
@@ -833,6 +812,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
     let prevX2 = gamePos.x;
     let prevY2 = gamePos.y;
     const motionBlur = new MotionBlurFilter([0, 0], 9);
+    motionBlur.enabled = this.motionBlurEnabled;
     cardContainer.filters = [motionBlur];
 
     const totalDistance2 = Math.sqrt(
@@ -863,7 +843,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
       const flipDuration = 0.4;
       const arcDuration = this.moveDuration * 0.6;
 
-      const tl = gsap.timeline({
+      const tl = this.context.animations.timeline({
         onUpdate: () => {
           // Guard: Don't access destroyed objects
           if (this.isDisposed || !cardContainer.transform) return;
@@ -896,13 +876,13 @@ export class AceOfShadowsModeLiteral implements GameMode {
 
           if (!arcStarted && isClear) {
             arcStarted = true;
-            gsap.to(cardContainer, {
+            this.context.animations.to(cardContainer, {
               y: midY,
               duration: arcDuration / 2,
               ease: 'power2.out',
               onComplete: () => {
                 if (this.isDisposed) return;
-                gsap.to(cardContainer, {
+                this.context.animations.to(cardContainer, {
                   y: targetGameY,
                   duration: arcDuration / 2,
                   ease: 'power2.in',
@@ -913,7 +893,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
 
           if (!flipStarted && isClear) {
             flipStarted = true;
-            gsap.to(cardContainer.scale, {
+            this.context.animations.to(cardContainer.scale, {
               x: 0,
               duration: flipDuration / 2,
               ease: 'power2.in',
@@ -923,7 +903,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
                   cardSprite.texture = cardContainer.faceTexture;
                   hasFlipped = true;
                 }
-                gsap.to(cardContainer.scale, {
+                this.context.animations.to(cardContainer.scale, {
                   x: CARD_CONFIG.scale,
                   duration: flipDuration / 2,
                   ease: 'power2.out',
@@ -941,8 +921,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
           // Guard: Don't complete if disposed or reset occurred during animation
           if (this.isDisposed || this.resetVersion !== animationResetVersion) return;
 
-          gsap.killTweensOf(cardContainer);
-          gsap.killTweensOf(cardContainer.scale);
+          this.context.animations.killTweensOf([cardContainer, cardContainer.scale]);
 
           cardContainer.filters = [];
           cardContainer.scale.x = CARD_CONFIG.scale;
@@ -961,6 +940,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
           cardContainer.y = targetY;
 
           this.leftStack.push(cardContainer);
+          this.context.playSound('card-land');
           this.isAnimating = false;
 
           if (attachedShadow) attachedShadow.visible = true;
@@ -978,7 +958,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
         0
       );
     } else {
-      gsap.to(cardContainer, {
+      this.context.animations.to(cardContainer, {
         x: targetGameX,
         y: targetGameY,
         duration: this.moveDuration,
@@ -1029,6 +1009,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
           cardContainer.y = targetY;
 
           this.leftStack.push(cardContainer);
+          this.context.playSound('card-land');
           this.isAnimating = false;
 
           if (attachedShadow) attachedShadow.visible = true;
@@ -1039,7 +1020,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
 
     this.rightStack.forEach((card, index) => {
       const newY = -index * CARD_CONFIG.stackOffset;
-      gsap.to(card, {
+      this.context.animations.to(card, {
         y: newY,
         duration: this.moveDuration * 0.5,
         ease: 'power2.out',
@@ -1061,6 +1042,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
     const panelContext: SettingsPanelContext = {
       getDeviceState: () => this.context.getDeviceState(),
       getScreenSize: () => this.context.getScreenSize(),
+      getSafeInsets: () => this.context.getSafeInsets(),
       getGameContainerScale: () => this.context.gameContainer.scale.x,
       getGameContainerY: () => this.context.gameContainer.y,
       getContentBottomY: () => this.leftContainer.y + this.cardHeight / 2,
@@ -1086,7 +1068,7 @@ export class AceOfShadowsModeLiteral implements GameMode {
         paddingY: PANEL_UI.paddingY,
         radius: PANEL_UI.radius,
         backgroundAlpha: 0.7,
-        backgroundColor: 0x000000,
+        backgroundColor: 'panel',
         designX: 400,
         designY: 540,
       },
@@ -1096,31 +1078,40 @@ export class AceOfShadowsModeLiteral implements GameMode {
         onIntervalChange: value => {
           self.moveInterval = value;
           self.restartAnimation();
+          self.persistSettings();
         },
         onDurationChange: value => {
           self.moveDuration = value;
+          self.persistSettings();
         },
         onBlurChange: value => {
           self.motionBlurStrength = value;
+          self.persistSettings();
         },
         onArcAChange: value => {
           self.arcHeightA = value;
+          self.persistSettings();
         },
         onArcBChange: value => {
           self.arcHeightB = value;
+          self.persistSettings();
         },
         onShadowsChange: value => {
           self.realisticShadows = value;
+          self.persistSettings();
         },
         onSpiralChange: value => {
           self.animationMode = value ? 'spiral' : 'linear';
+          self.persistSettings();
         },
         onKeepSettingsChange: value => {
           self.keepSettings = value;
+          self.persistSettings();
         },
         onResetDeck: target => {
           self.activeDeck = target;
           self.resetAllCardsTo(target);
+          self.persistSettings();
 
           // Force update button colors after reset (workaround for class field init issues)
           if (self.settingsPanel) {
@@ -1133,6 +1124,23 @@ export class AceOfShadowsModeLiteral implements GameMode {
     this.context.container.addChild(this.settingsPanel);
   }
 
+  /**
+   * Save the current settings (cleared instead while Keep Settings is off)
+   */
+  private persistSettings(): void {
+    saveSettings({
+      interval: this.moveInterval,
+      duration: this.moveDuration,
+      motionBlur: this.motionBlurStrength,
+      arcHeightA: this.arcHeightA,
+      arcHeightB: this.arcHeightB,
+      realisticShadows: this.realisticShadows,
+      animationMode: this.animationMode,
+      keepSettings: this.keepSettings,
+      activeDeck: this.activeDeck,
+    });
+  }
+
   /**
    * Remove the settings panel
    */
@@ -1143,6 +1151,21 @@ export class AceOfShadowsModeLiteral implements GameMode {
     }
   }
 
+  onPause(): void {
+    // setInterval keeps firing in hidden tabs and would queue up moves
+    if (this.moveIntervalId) {
+      clearInterval(this.moveIntervalId);
+      this.moveIntervalId = null;
+      this.intervalSuspended = true;
+    }
+  }
+
+  onResume(): void {
+    if (!this.intervalSuspended) return;
+    this.intervalSuspended = false;
+    if (!this.isDisposed) this.startCardAnimation();
+  }
+
   private resetAllCardsTo(target: 'left' | 'right'): void {
     // Block shadow updates for this frame to prevent stale shadow appearing
     if (this.resetFrameId) {
@@ -1161,18 +1184,8 @@ export class AceOfShadowsModeLiteral implements GameMode {
       this.moveIntervalId = null;
     }
 
-    // Kill ALL animations recursively on all containers (complete cleanup)
-    killTweensRecursive(this.leftContainer);
-    killTweensRecursive(this.rightContainer);
-    if (this.movingCardLayer) {
-      killTweensRecursive(this.movingCardLayer);
-    }
-    if (this.shadowLayer) {
-      killTweensRecursive(this.shadowLayer);
-    }
-    if (this.stackShadowLayer) {
-      killTweensRecursive(this.stackShadowLayer);
-    }
+    // Kill ALL of the mode's animations (complete cleanup)
+    this.context.animations.kill();
 
     this.hideDualShadows();
 
@@ -15,6 +15,7 @@ import {
   PANEL_UI,
   SCENE_LAYOUT,
 } from '../../config/aceOfShadowsSettings';
+import { t } from '../../core';
 import type { DeviceState } from '../../scenes/BaseGameScene';
 
 /** Animation mode type */
@@ -178,7 +179,7 @@ export class LiteralModeSettingsPanel extends GameSettingsPanel {
     // Create all controls
     let intervalCell!: SettingsCell;
     const intervalSlider = new Slider({
-      label: 'Interval',
+      label: t('ace.settings.interval'),
       value: settings.moveInterval,
       min: TIMING_SLIDER.min,
       max: TIMING_SLIDER.max,
@@ -195,7 +196,7 @@ export class LiteralModeSettingsPanel extends GameSettingsPanel {
 
     let durationCell!: SettingsCell;
     const durationSlider = new Slider({
-      label: 'Duration',
+      label: t('ace.settings.duration'),
       value: settings.moveDuration,
       min: TIMING_SLIDER.min,
       max: TIMING_SLIDER.max,
@@ -212,7 +213,7 @@ export class LiteralModeSettingsPanel extends GameSettingsPanel {
 
     let blurCell!: SettingsCell;
     const blurSlider = new Slider({
-      label: 'Blur',
+      label: t('ace.settings.blur'),
       value: settings.motionBlurStrength,
       min: BLUR_SLIDER.min,
       max: BLUR_SLIDER.max,
@@ -229,7 +230,7 @@ export class LiteralModeSettingsPanel extends GameSettingsPanel {
     });
 
     const shadowToggle = new Toggle({
-      label: '3D Shadows',
+      label: t('ace.settings.shadows'),
       value: settings.realisticShadows,
       onChange: value => {
         this.settings.realisticShadows = value;
@@ -238,7 +239,7 @@ export class LiteralModeSettingsPanel extends GameSettingsPanel {
     });
 
     const spiralToggle = new Toggle({
-      label: 'Spiral',
+      label: t('ace.settings.spiral'),
       value: settings.animationMode === 'spiral',
       onChange: value => {
         this.settings.animationMode = value ? 'spiral' : 'linear';
@@ -248,7 +249,7 @@ export class LiteralModeSettingsPanel extends GameSettingsPanel {
 
     let arcACell!: SettingsCell;
     const arcASlider = new Slider({
-      label: 'Arc A→B',
+      label: t('ace.settings.arcForward'),
       value: settings.arcHeightA,
       min: ARC_SLIDER.min,
       max: ARC_SLIDER.max,
@@ -266,7 +267,7 @@ export class LiteralModeSettingsPanel extends GameSettingsPanel {
 
     let arcBCell!: SettingsCell;
     const arcBSlider = new Slider({
-      label: 'Arc B→A',
+      label: t('ace.settings.arcBack'),
       value: settings.arcHeightB,
       min: ARC_SLIDER.min,
       max: ARC_SLIDER.max,
@@ -283,7 +284,7 @@ export class LiteralModeSettingsPanel extends GameSettingsPanel {
     });
 
     const keepSettingsToggle = new Toggle({
-      label: 'Keep Settings',
+      label: t('common.keepSettings'),
       value: settings.keepSettings,
       onChange: value => {
         this.settings.keepSettings = value;
@@ -1,22 +1,5 @@
-import gsap from 'gsap';
-import {
-  Container,
-  Text,
-  TextStyle,
-  Graphics,
-  Sprite,
-  Assets,
-  Texture,
-  Spritesheet,
-  BlurFilter,
-} from 'pixi.js';
-
-import bigbangBgPng from '../../assets/sprites/bigbang-bg/bigbang-bg.png';
-import bigbangChars0Json from '../../assets/sprites/bigbang-chars/bigbang-chars-0.json';
-import bigbangChars0Png from '../../assets/sprites/bigbang-chars/bigbang-chars-0.png';
-import bigbangChars1Json from '../../assets/sprites/bigbang-chars/bigbang-chars-1.json';
-import bigbangChars1Png from '../../assets/sprites/bigbang-chars/bigbang-chars-1.png';
-import dialogBubbleImage from '../../assets/sprites/dialog/dialog-bubble.png';
+import { Container, Text, TextStyle, Graphics, Sprite, Texture, BlurFilter } from 'pixi.js';
+
 import { RichText } from '../../components/RichText';
 import { SpeechBubble } from '../../components/SpeechBubble';
 import {
@@ -25,11 +8,8 @@ import {
   type MagicWordsData,
   type DialogueLine,
 } from '../../config/magicWordsSettings';
-import { ErrorHandler, killTweensRecursive } from '../../core';
+import { ErrorHandler, t } from '../../core';
 
-// Import spritesheets
-
-// Background image
 import type { DeviceState } from '../../scenes/BaseGameScene';
 import type { GameMode, GameModeContext } from '../GameMode';
 
@@ -67,15 +47,9 @@ const CHARACTERS: CharacterDef[] = [
  * from local spritesheets instead of API-loaded avatars.
  */
 export class MagicWordsModeCreative implements GameMode {
-  /** Static cache for character spritesheets (prevents re-parsing warnings) */
-  private static spritesheetCache: { sheet0: Spritesheet; sheet1: Spritesheet } | null = null;
-
   private context: GameModeContext;
   private content: Container | null = null;
 
-  /** GSAP context for scoped animation cleanup (no global clear) */
-  private gsapCtx: gsap.Context | null = null;
-
   /** Character textures by name */
   private characterTextures = new Map<string, Texture>();
 
@@ -97,6 +71,12 @@ export class MagicWordsModeCreative implements GameMode {
   /** Is dialogue complete */
   private isComplete = false;
 
+  /** Unsubscribes the keyboard 'advance' action */
+  private removeAdvanceAction: (() => void) | null = null;
+
+  /** Stops following the quality tier (background blur) */
+  private removeQualityListener: (() => void) | null = null;
+
   /** UI Elements */
   private leftAvatar: Sprite | null = null;
   private rightAvatar: Sprite | null = null;
@@ -137,9 +117,6 @@ export class MagicWordsModeCreative implements GameMode {
   // ============================================================
 
   async start(): Promise<void> {
-    // Initialize GSAP context for scoped animation cleanup
-    this.gsapCtx = gsap.context(() => {});
-
     this.content = new Container();
     this.context.container.addChild(this.content);
 
@@ -152,15 +129,13 @@ export class MagicWordsModeCreative implements GameMode {
     });
     this.context.requestLayout();
 
-    // Show loading
-    this.showLoading();
-
     try {
-      // Load character spritesheets and fetch dialogue in parallel
+      // Load the cast bundle (shared loading screen) and fetch dialogue in parallel
       const [, apiData] = await Promise.all([
-        this.loadCharacterSpritesheets(),
+        this.context.loadBundle('magic-words-creative', t('magic.loadingCast')),
         this.fetchDialogueData(),
       ]);
+      this.loadCharacterSpritesheets();
 
       // Store dialogue data
       this.dialogueData = apiData.dialogue;
@@ -168,12 +143,10 @@ export class MagicWordsModeCreative implements GameMode {
       // Build emoji map from API data
       this.buildEmojiMap(apiData);
 
-      this.hideLoading();
       this.buildUI();
       this.showDialogue(0);
     } catch (error) {
-      this.hideLoading();
-      this.showError('Failed to load data');
+      this.showError(t('magic.dataFailed'));
       console.error('Load Error:', error);
     }
   }
@@ -197,14 +170,10 @@ export class MagicWordsModeCreative implements GameMode {
   }
 
   stop(): void {
-    // Kill ALL GSAP animations recursively on all content and its descendants
-    if (this.content) {
-      killTweensRecursive(this.content);
-    }
-
-    // Also revert context if it tracked anything
-    this.gsapCtx?.revert();
-    this.gsapCtx = null;
+    this.removeAdvanceAction?.();
+    this.removeAdvanceAction = null;
+    this.removeQualityListener?.();
+    this.removeQualityListener = null;
 
     if (this.content) {
       this.content.destroy({ children: true });
@@ -241,40 +210,12 @@ export class MagicWordsModeCreative implements GameMode {
   // Asset Loading
   // ============================================================
 
-  private async loadCharacterSpritesheets(): Promise<void> {
-    let spritesheet0: Spritesheet;
-    let spritesheet1: Spritesheet;
-
-    // Check static class cache first, then Assets cache for HMR resilience
-    if (MagicWordsModeCreative.spritesheetCache) {
-      spritesheet0 = MagicWordsModeCreative.spritesheetCache.sheet0;
-      spritesheet1 = MagicWordsModeCreative.spritesheetCache.sheet1;
-    } else if (Assets.cache.has('bigbang-chars-cache')) {
-      // Recover from HMR - spritesheets were parsed before but static cache was reset
-      const cached = Assets.cache.get('bigbang-chars-cache') as {
-        sheet0: Spritesheet;
-        sheet1: Spritesheet;
-      };
-      spritesheet0 = cached.sheet0;
-      spritesheet1 = cached.sheet1;
-      MagicWordsModeCreative.spritesheetCache = cached;
-    } else {
-      // Load both spritesheet textures
-      const baseTexture0 = await Assets.load(bigbangChars0Png);
-      const baseTexture1 = await Assets.load(bigbangChars1Png);
-
-      // Create spritesheets
-      spritesheet0 = new Spritesheet(baseTexture0, bigbangChars0Json);
-      spritesheet1 = new Spritesheet(baseTexture1, bigbangChars1Json);
-
-      // Parse spritesheets
-      await spritesheet0.parse();
-      await spritesheet1.parse();
-
-      // Cache for future use (both static and Assets for HMR resilience)
-      MagicWordsModeCreative.spritesheetCache = { sheet0: spritesheet0, sheet1: spritesheet1 };
-      Assets.cache.set('bigbang-chars-cache', MagicWordsModeCreative.spritesheetCache);
-    }
+  /**
+   * Pick up the character textures (spritesheets are parsed once by the shared AssetLoader)
+   */
+  private loadCharacterSpritesheets(): void {
+    const spritesheet0 = this.context.assets.getSpritesheet('bigbang-chars-0');
+    const spritesheet1 = this.context.assets.getSpritesheet('bigbang-chars-1');
 
     // Extract textures for each character
     // Spritesheet 0: Sheldon, Neighbour
@@ -305,75 +246,6 @@ export class MagicWordsModeCreative implements GameMode {
   // UI Building
   // ============================================================
 
-  private showLoading(): void {
-    if (!this.content) return;
-
-    const { bubble } = DIALOGUE_CONFIG;
-
-    const bubbleY = this.designHeight - bubble.height - bubble.bottomMargin;
-    const bubbleCenterY = bubbleY + bubble.height / 2;
-
-    const loadingContainer = new Container();
-    loadingContainer.name = 'loading';
-    this.content.addChild(loadingContainer);
-
-    // Theatrical loading message
-    const mainStyle = new TextStyle({
-      fontFamily: 'Georgia, serif',
-      fontSize: 42,
-      fill: '#f5e6c8',
-      align: 'center',
-      fontStyle: 'italic',
-    });
-
-    const mainText = new Text('🎬 Loading the cast...', mainStyle);
-    mainText.resolution = 2;
-    mainText.anchor.set(0.5);
-    mainText.x = this.designWidth / 2;
-    mainText.y = bubbleCenterY - 15;
-    loadingContainer.addChild(mainText);
-
-    // Subtitle
-    const subStyle = new TextStyle({
-      fontFamily: 'Arial, sans-serif',
-      fontSize: 18,
-      fill: '#888888',
-      align: 'center',
-    });
-
-    const subText = new Text('Preparing the Big Bang...', subStyle);
-    subText.resolution = 2;
-    subText.anchor.set(0.5);
-    subText.x = this.designWidth / 2;
-    subText.y = bubbleCenterY + 30;
-    loadingContainer.addChild(subText);
-
-    // Fade in
-    loadingContainer.alpha = 0;
-    gsap.to(loadingContainer, {
-      alpha: 1,
-      duration: 0.5,
-      ease: 'power2.out',
-    });
-
-    // Pulse animation
-    gsap.to(mainText, {
-      alpha: 0.6,
-      duration: 1.2,
-      ease: 'power1.inOut',
-      yoyo: true,
-      repeat: -1,
-    });
-  }
-
-  private hideLoading(): void {
-    if (!this.content) return;
-    const loading = this.content.getChildByName('loading');
-    if (loading) {
-      loading.destroy();
-    }
-  }
-
   private showError(message: string): void {
     if (!this.content) return;
 
@@ -404,20 +276,19 @@ export class MagicWordsModeCreative implements GameMode {
     this.background.y = this.designHeight; // Position at screen bottom
     this.content.addChild(this.background);
 
-    // Add blur filter to background
+    // Add blur filter to background (off on lower quality tiers)
     const bgBlur = new BlurFilter(3, 4); // (blur strength, quality)
     this.background.filters = [bgBlur];
-
-    // Load and set background texture
-    Assets.load(bigbangBgPng).then(texture => {
-      if (this.background) {
-        this.background.texture = texture;
-        // Scale to width only (maintain aspect ratio)
-        const scale = this.designWidth / texture.width;
-        this.background.scale.set(scale);
-      }
+    this.removeQualityListener = this.context.onQualityChange(({ blur }) => {
+      bgBlur.enabled = blur;
     });
 
+    // Set background texture (loaded with the mode bundle)
+    const bgTexture = this.context.assets.getTexture('bigbang-bg');
+    this.background.texture = bgTexture;
+    // Scale to width only (maintain aspect ratio)
+    this.background.scale.set(this.designWidth / bgTexture.width);
+
     // Dialog box centered
     const bubbleWidth = this.currentBubbleWidth;
     const bubbleX = (this.designWidth - bubbleWidth) / 2;
@@ -454,7 +325,7 @@ export class MagicWordsModeCreative implements GameMode {
     this.speechBubble = new SpeechBubble({
       width: bubbleWidth,
       height: bubble.height,
-      texture: dialogBubbleImage,
+      texture: this.context.assets.getTexture('dialog-bubble'),
       sliceMargins: [120, 150, 120, 120],
       borderScale: 0.4,
       textureDefaultTailSide: 'left',
@@ -481,7 +352,7 @@ export class MagicWordsModeCreative implements GameMode {
 
     // Animate chevron
     const baseY = bubble.height - bubble.paddingY - 10;
-    gsap.to(this.advanceIndicator, {
+    this.context.animations.to(this.advanceIndicator, {
       y: baseY - 5,
       duration: 0.5,
       ease: 'power1.inOut',
@@ -498,6 +369,7 @@ export class MagicWordsModeCreative implements GameMode {
     this.content.cursor = 'pointer';
     this.content.hitArea = { contains: () => true };
     this.content.on('pointerdown', () => this.advanceDialogue());
+    this.removeAdvanceAction = this.context.onAction('advance', () => this.advanceDialogue());
   }
 
   // ============================================================
@@ -594,13 +466,14 @@ export class MagicWordsModeCreative implements GameMode {
 
     await this.currentRichText.waitForReady();
 
-    this.currentRichText.x = bubble.paddingX;
+    this.context.announce(`${line.name}: ${this.currentRichText.plainText}`);
+    this.alignBubbleContent();
     this.currentRichText.y = bubble.paddingY;
     this.currentRichText.alpha = 0;
     this.bubbleContainer.addChild(this.currentRichText);
 
     // Animate text appearing
-    gsap.to(this.currentRichText, {
+    this.context.animations.to(this.currentRichText, {
       alpha: 1,
       duration: animation.textDuration,
       ease: 'power2.out',
@@ -610,6 +483,23 @@ export class MagicWordsModeCreative implements GameMode {
     });
   }
 
+  /**
+   * Start the line (and put the advance indicator) on the side its script reads from
+   */
+  private alignBubbleContent(): void {
+    if (!this.speechBubble) return;
+    const { paddingX } = DIALOGUE_CONFIG.bubble;
+
+    if (this.currentRichText) {
+      this.speechBubble.setDirection(this.currentRichText.direction);
+      this.currentRichText.x = this.speechBubble.alignInline(this.currentRichText.width, paddingX);
+    }
+    if (this.advanceIndicator) {
+      // Center-anchored chevron in a 30px slot
+      this.advanceIndicator.x = this.speechBubble.alignInline(30, paddingX, 'end') + 15;
+    }
+  }
+
   private updateAvatars(speakerName: string, isLeft: boolean): void {
     if (!this.leftAvatar || !this.rightAvatar) return;
 
@@ -628,10 +518,12 @@ export class MagicWordsModeCreative implements GameMode {
     }
 
     // Kill existing tweens
-    gsap.killTweensOf(activeAvatar);
-    gsap.killTweensOf(activeAvatar.scale);
-    gsap.killTweensOf(inactiveAvatar);
-    gsap.killTweensOf(inactiveAvatar.scale);
+    this.context.animations.killTweensOf([
+      activeAvatar,
+      activeAvatar.scale,
+      inactiveAvatar,
+      inactiveAvatar.scale,
+    ]);
 
     // Calculate base scale
     const activeBaseScale = texture ? this.avatarSize / texture.width : 1;
@@ -656,14 +548,14 @@ export class MagicWordsModeCreative implements GameMode {
       activeAvatar.alpha = 1;
       activeAvatar.tint = ACTIVE_TINT; // Full brightness for speaker
 
-      gsap.to(activeAvatar.scale, {
+      this.context.animations.to(activeAvatar.scale, {
         x: targetScale,
         y: targetScale,
         duration: animation.avatarDuration * 1.2,
         ease: 'back.out(2)',
       });
     } else {
-      gsap.to(activeAvatar, {
+      this.context.animations.to(activeAvatar, {
         alpha: 1,
         duration: animation.avatarDuration,
         ease: 'power2.out',
@@ -677,7 +569,7 @@ export class MagicWordsModeCreative implements GameMode {
 
     if (shouldDisappear && isCurrentlyVisible) {
       const shrinkScale = inactiveBaseScale * 0.7;
-      gsap.to(inactiveAvatar.scale, {
+      this.context.animations.to(inactiveAvatar.scale, {
         x: shrinkScale,
         y: shrinkScale,
         duration: animation.avatarDuration,
@@ -691,7 +583,7 @@ export class MagicWordsModeCreative implements GameMode {
       // Darken inactive speaker (keep full alpha, use tint)
       inactiveAvatar.alpha = 1;
       inactiveAvatar.tint = INACTIVE_TINT;
-      gsap.to(inactiveAvatar.scale, {
+      this.context.animations.to(inactiveAvatar.scale, {
         x: inactiveBaseScale,
         y: inactiveBaseScale,
         duration: animation.avatarDuration,
@@ -701,9 +593,10 @@ export class MagicWordsModeCreative implements GameMode {
   }
 
   private advanceDialogue(): void {
+    this.context.playSound('dialogue-advance');
     if (this.isAnimating) {
       // Skip animation
-      gsap.globalTimeline.progress(1);
+      this.context.animations.skipToEnd();
       this.isAnimating = false;
       return;
     }
@@ -727,7 +620,7 @@ export class MagicWordsModeCreative implements GameMode {
     // Show advance indicator again
     if (this.advanceIndicator) {
       this.advanceIndicator.alpha = 1;
-      gsap.to(this.advanceIndicator, {
+      this.context.animations.to(this.advanceIndicator, {
         y: DIALOGUE_CONFIG.bubble.height - 20,
         duration: 0.5,
         ease: 'power1.inOut',
@@ -757,7 +650,7 @@ export class MagicWordsModeCreative implements GameMode {
     const { bubble } = DIALOGUE_CONFIG;
 
     this.endText = new Text(
-      '— Click to restart —',
+      t('common.clickToRestart'),
       new TextStyle({
         fontFamily: 'Georgia, serif',
         fontSize: 24,
@@ -773,7 +666,7 @@ export class MagicWordsModeCreative implements GameMode {
 
     // Hide advance indicator
     if (this.advanceIndicator) {
-      gsap.killTweensOf(this.advanceIndicator);
+      this.context.animations.killTweensOf(this.advanceIndicator);
       this.advanceIndicator.alpha = 0;
     }
   }
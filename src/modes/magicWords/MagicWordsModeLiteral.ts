@@ -1,4 +1,3 @@
-import gsap from 'gsap';
 import { Container, Text, TextStyle, Graphics, Sprite, Assets, Texture } from 'pixi.js';
 
 import dialogBubbleImage from '../../assets/sprites/dialog/dialog-bubble.png';
@@ -19,7 +18,7 @@ import {
   type AvatarDef,
 } from '../../config/magicWordsSettings';
 import { SCENE_LAYOUT } from '../../config/sharedSettings';
-import { ErrorHandler, killTweensRecursive } from '../../core';
+import { ErrorHandler, t } from '../../core';
 import type { DeviceState } from '../../scenes/BaseGameScene';
 import type { GameMode, GameModeContext } from '../GameMode';
 
@@ -37,9 +36,6 @@ export class MagicWordsModeLiteral implements GameMode {
   private context: GameModeContext;
   private content: Container | null = null;
 
-  /** GSAP context for scoped animation cleanup (no global clear) */
-  private gsapCtx: gsap.Context | null = null;
-
   /** Current dialogue data */
   private dialogueData: DialogueLine[] = [];
 
@@ -69,6 +65,9 @@ export class MagicWordsModeLiteral implements GameMode {
   private settingsPanel: MagicWordsSettingsPanel | null = null;
   private endText: Text | null = null;
 
+  /** Unsubscribe functions of the keyboard actions */
+  private removeActions: (() => void)[] = [];
+
   /** Current avatar size (configurable) */
   private avatarSize: number;
 
@@ -112,11 +111,11 @@ export class MagicWordsModeLiteral implements GameMode {
   // ============================================================
 
   async start(): Promise<void> {
-    // Initialize GSAP context for scoped animation cleanup
-    this.gsapCtx = gsap.context(() => {});
-
     this.content = new Container();
     this.context.container.addChild(this.content);
+    this.removeActions.push(
+      this.context.onAction('toggle-settings', () => this.settingsPanel?.toggleVisible())
+    );
 
     // Set design bounds for full screen visual novel
     this.context.setDesignBounds({
@@ -151,20 +150,14 @@ export class MagicWordsModeLiteral implements GameMode {
       this.showDialogue(0);
     } catch (error) {
       this.hideLoading();
-      this.showError('Failed to load dialogue data');
+      this.showError(t('magic.dialogueFailed'));
       console.error('API Error:', error);
     }
   }
 
   stop(): void {
-    // Kill ALL GSAP animations recursively on all content and its descendants
-    if (this.content) {
-      killTweensRecursive(this.content);
-    }
-
-    // Also revert context if it tracked anything
-    this.gsapCtx?.revert();
-    this.gsapCtx = null;
+    for (const remove of this.removeActions) remove();
+    this.removeActions = [];
 
     if (this.content) {
       this.content.destroy({ children: true });
@@ -339,7 +332,7 @@ export class MagicWordsModeLiteral implements GameMode {
       fontStyle: 'italic',
     });
 
-    const mainText = new Text('The show is about to start', mainStyle);
+    const mainText = new Text(t('magic.showStarting'), mainStyle);
     mainText.resolution = 2;
     mainText.anchor.set(0.5);
     mainText.x = this.designWidth / 2;
@@ -354,7 +347,7 @@ export class MagicWordsModeLiteral implements GameMode {
       align: 'center',
     });
 
-    const subText = new Text('Loading dialogue...', subStyle);
+    const subText = new Text(t('magic.loadingDialogue'), subStyle);
     subText.resolution = 2;
     subText.anchor.set(0.5);
     subText.x = this.designWidth / 2;
@@ -363,14 +356,14 @@ export class MagicWordsModeLiteral implements GameMode {
 
     // Fade in animation
     loadingContainer.alpha = 0;
-    gsap.to(loadingContainer, {
+    this.context.animations.to(loadingContainer, {
       alpha: 1,
       duration: 0.5,
       ease: 'power2.out',
     });
 
     // Pulsing animation on main text
-    gsap.to(mainText, {
+    this.context.animations.to(mainText, {
       alpha: 0.6,
       duration: 1.2,
       ease: 'power1.inOut',
@@ -488,7 +481,7 @@ export class MagicWordsModeLiteral implements GameMode {
 
     // Animate chevron (bouncing)
     const baseY = bubble.height - bubble.paddingY - 10;
-    gsap.to(this.advanceIndicator, {
+    this.context.animations.to(this.advanceIndicator, {
       y: baseY - 5,
       duration: 0.5,
       ease: 'power1.inOut',
@@ -506,11 +499,12 @@ export class MagicWordsModeLiteral implements GameMode {
       this.content.addChild(this.settingsPanel);
     }
 
-    // Click anywhere to advance
+    // Click anywhere (or press an advance key) to advance
     this.content.eventMode = 'static';
     this.content.cursor = 'pointer';
     this.content.hitArea = { contains: () => true };
     this.content.on('pointerdown', () => this.advanceDialogue());
+    this.removeActions.push(this.context.onAction('advance', () => this.advanceDialogue()));
   }
 
   private createSettingsPanel(): MagicWordsSettingsPanel {
@@ -524,7 +518,7 @@ export class MagicWordsModeLiteral implements GameMode {
       paddingY: ui.paddingTop,
       radius: ui.radius,
       backgroundAlpha: ui.backgroundAlpha,
-      backgroundColor: 0x333333, // Dark grey background
+      backgroundColor: 'surface',
       designX: this.designWidth / 2, // Center horizontally (panel is centered at this X)
       designY: ui.topOffset + 180, // Center Y of panel (top + ~half panel height)
     };
@@ -533,6 +527,7 @@ export class MagicWordsModeLiteral implements GameMode {
     const context: SettingsPanelContext = {
       getDeviceState: () => this.context.getDeviceState(),
       getScreenSize: () => this.context.getScreenSize(),
+      getSafeInsets: () => this.context.getSafeInsets(),
       getGameContainerScale: () => this.context.gameContainer.scale.x,
       getGameContainerY: () => this.context.gameContainer.y,
       getContentBottomY: () => {
@@ -620,12 +615,11 @@ export class MagicWordsModeLiteral implements GameMode {
     this.speechBubble.setSize(bubbleWidth, bubble.height);
     this.speechBubble.setTailSide(this.currentSpeakerIsLeft ? 'left' : 'right');
 
-    // Update advance indicator position
+    // Restart the advance indicator bounce (x follows the line, see alignBubbleContent)
     if (this.advanceIndicator) {
-      this.advanceIndicator.x = bubbleWidth - bubble.paddingX - 15;
       const baseY = bubble.height - bubble.paddingY - 10;
-      gsap.killTweensOf(this.advanceIndicator);
-      gsap.to(this.advanceIndicator, {
+      this.context.animations.killTweensOf(this.advanceIndicator);
+      this.context.animations.to(this.advanceIndicator, {
         y: baseY - 5,
         duration: 0.5,
         ease: 'power1.inOut',
@@ -651,6 +645,7 @@ export class MagicWordsModeLiteral implements GameMode {
       const textMaxWidth = bubbleWidth - bubble.paddingX * 2 - textMargin;
       this.currentRichText.setMaxWidth(textMaxWidth);
     }
+    this.alignBubbleContent();
     // Avatars stay fixed - bubble can overlap them
   }
 
@@ -756,13 +751,14 @@ export class MagicWordsModeLiteral implements GameMode {
 
     await this.currentRichText.waitForReady();
 
-    this.currentRichText.x = bubble.paddingX;
+    this.context.announce(`${line.name}: ${this.currentRichText.plainText}`);
+    this.alignBubbleContent();
     this.currentRichText.y = bubble.paddingY;
     this.currentRichText.alpha = 0;
     this.bubbleContainer.addChild(this.currentRichText);
 
     // Animate text appearing
-    gsap.to(this.currentRichText, {
+    this.context.animations.to(this.currentRichText, {
       alpha: 1,
       duration: animation.textDuration,
       ease: 'power2.out',
@@ -772,6 +768,24 @@ export class MagicWordsModeLiteral implements GameMode {
     });
   }
 
+  /**
+   * Place the line and the advance indicator for the line's reading direction
+   * (right-to-left lines start at the right edge, the indicator moves to the left)
+   */
+  private alignBubbleContent(): void {
+    if (!this.speechBubble) return;
+    const { paddingX } = DIALOGUE_CONFIG.bubble;
+
+    if (this.currentRichText) {
+      this.speechBubble.setDirection(this.currentRichText.direction);
+      this.currentRichText.x = this.speechBubble.alignInline(this.currentRichText.width, paddingX);
+    }
+    if (this.advanceIndicator) {
+      // Center-anchored chevron in a 30px slot
+      this.advanceIndicator.x = this.speechBubble.alignInline(30, paddingX, 'end') + 15;
+    }
+  }
+
   private updateAvatars(speakerName: string, isLeft: boolean): void {
     if (!this.leftAvatar || !this.rightAvatar) return;
 
@@ -790,10 +804,12 @@ export class MagicWordsModeLiteral implements GameMode {
     }
 
     // Kill any existing tweens
-    gsap.killTweensOf(activeAvatar);
-    gsap.killTweensOf(activeAvatar.scale);
-    gsap.killTweensOf(inactiveAvatar);
-    gsap.killTweensOf(inactiveAvatar.scale);
+    this.context.animations.killTweensOf([
+      activeAvatar,
+      activeAvatar.scale,
+      inactiveAvatar,
+      inactiveAvatar.scale,
+    ]);
 
     // Calculate base scale from avatarSize (what width/height would set internally)
     // This is the scale needed to display at this.avatarSize pixels
@@ -821,7 +837,7 @@ export class MagicWordsModeLiteral implements GameMode {
       activeAvatar.tint = ACTIVE_TINT; // Full brightness for speaker
 
       // Bounce to active scale (slightly bigger than rest)
-      gsap.to(activeAvatar.scale, {
+      this.context.animations.to(activeAvatar.scale, {
         x: targetScale,
         y: targetScale,
         duration: animation.avatarDuration * 1.2,
@@ -829,7 +845,7 @@ export class MagicWordsModeLiteral implements GameMode {
       });
     } else {
       // No texture, just fade in
-      gsap.to(activeAvatar, {
+      this.context.animations.to(activeAvatar, {
         alpha: 1,
         duration: animation.avatarDuration,
         ease: 'power2.out',
@@ -844,7 +860,7 @@ export class MagicWordsModeLiteral implements GameMode {
     if (shouldDisappear && isCurrentlyVisible) {
       // Bounce out when disappearing completely
       const shrinkScale = inactiveBaseScale * 0.7;
-      gsap.to(inactiveAvatar.scale, {
+      this.context.animations.to(inactiveAvatar.scale, {
         x: shrinkScale,
         y: shrinkScale,
         duration: animation.avatarDuration,
@@ -859,7 +875,7 @@ export class MagicWordsModeLiteral implements GameMode {
       // Darken inactive speaker (keep full alpha, use tint)
       inactiveAvatar.alpha = 1;
       inactiveAvatar.tint = INACTIVE_TINT;
-      gsap.to(inactiveAvatar.scale, {
+      this.context.animations.to(inactiveAvatar.scale, {
         x: inactiveBaseScale,
         y: inactiveBaseScale,
         duration: animation.avatarDuration,
@@ -869,9 +885,10 @@ export class MagicWordsModeLiteral implements GameMode {
   }
 
   private advanceDialogue(): void {
+    this.context.playSound('dialogue-advance');
     if (this.isAnimating) {
       // Skip animation and show full text immediately
-      gsap.globalTimeline.progress(1);
+      this.context.animations.skipToEnd();
       this.isAnimating = false;
       return;
     }
@@ -898,7 +915,7 @@ export class MagicWordsModeLiteral implements GameMode {
     // Show advance indicator again
     if (this.advanceIndicator) {
       this.advanceIndicator.alpha = 1;
-      gsap.to(this.advanceIndicator, {
+      this.context.animations.to(this.advanceIndicator, {
         y: DIALOGUE_CONFIG.bubble.height - 20,
         duration: 0.5,
         ease: 'power1.inOut',
@@ -931,7 +948,7 @@ export class MagicWordsModeLiteral implements GameMode {
     const { bubble } = DIALOGUE_CONFIG;
 
     this.endText = new Text(
-      '— Click to restart —',
+      t('common.clickToRestart'),
       new TextStyle({
         fontFamily: 'Georgia, serif',
         fontSize: 24,
@@ -947,7 +964,7 @@ export class MagicWordsModeLiteral implements GameMode {
 
     // Hide advance indicator
     if (this.advanceIndicator) {
-      gsap.killTweensOf(this.advanceIndicator);
+      this.context.animations.killTweensOf(this.advanceIndicator);
       this.advanceIndicator.alpha = 0;
     }
   }
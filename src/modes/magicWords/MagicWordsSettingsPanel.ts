@@ -11,6 +11,7 @@ import { Slider } from '../../components/Slider';
 import { Toggle } from '../../components/Toggle';
 import {
   DIALOGUE_CONFIG,
+  FAKE_LAG_SLIDER,
   SETTINGS_PANEL_UI,
   PRESETS,
   type MagicWordsSettings,
@@ -18,6 +19,7 @@ import {
   clearPreservedSettings,
 } from '../../config/magicWordsSettings';
 import { SCENE_LAYOUT } from '../../config/sharedSettings';
+import { t } from '../../core';
 import type { DeviceState } from '../../scenes/BaseGameScene';
 
 /**
@@ -159,7 +161,7 @@ export class MagicWordsSettingsPanel extends GameSettingsPanel {
 
     // Dialog Box Width slider
     this.dialogSlider = new Slider({
-      label: 'Dialog Box',
+      label: t('magic.settings.dialogBox'),
       min: dialogBox.minWidth,
       max: dialogBox.maxWidth,
       value: settings.dialogBoxWidth,
@@ -178,7 +180,7 @@ export class MagicWordsSettingsPanel extends GameSettingsPanel {
 
     // Avatar Size slider
     this.avatarSlider = new Slider({
-      label: 'Avatar Size',
+      label: t('magic.settings.avatarSize'),
       min: avatar.minSize,
       max: avatar.maxSize,
       value: settings.avatarSize,
@@ -197,9 +199,9 @@ export class MagicWordsSettingsPanel extends GameSettingsPanel {
 
     // Avatar Y Offset slider
     this.yOffsetSlider = new Slider({
-      label: 'Avatar Y Offset',
-      min: -300,
-      max: 300,
+      label: t('magic.settings.avatarYOffset'),
+      min: avatar.minYOffset,
+      max: avatar.maxYOffset,
       value: settings.avatarYOffset,
       step: 50,
       unit: 'px',
@@ -216,12 +218,12 @@ export class MagicWordsSettingsPanel extends GameSettingsPanel {
 
     // Preset dropdown
     const presetOptions = Object.entries(PRESETS).map(([key, preset]) => ({
-      label: preset.label,
+      label: t(preset.labelKey),
       value: key,
     }));
 
     this.presetDropdown = new Dropdown({
-      label: 'Preset',
+      label: t('magic.settings.preset'),
       options: presetOptions,
       value: settings.preset,
       width: dropdownWidth,
@@ -232,11 +234,11 @@ export class MagicWordsSettingsPanel extends GameSettingsPanel {
 
     // Fake Lag slider (for debugging loading screen)
     this.fakeLagSlider = new Slider({
-      label: 'Fake Lag',
-      min: 0,
-      max: 4,
+      label: t('magic.settings.fakeLag'),
+      min: FAKE_LAG_SLIDER.min,
+      max: FAKE_LAG_SLIDER.max,
       value: settings.fakeLag,
-      step: 0.5,
+      step: FAKE_LAG_SLIDER.step,
       unit: 's',
       decimals: 1,
       width: sliderWidth,
@@ -251,7 +253,7 @@ export class MagicWordsSettingsPanel extends GameSettingsPanel {
 
     // Keep Settings toggle (horizontal layout - label and toggle on same line)
     this.keepSettingsToggle = new Toggle({
-      label: 'Keep Settings',
+      label: t('common.keepSettings'),
       value: settings.keepSettings,
       horizontal: true,
       width: sliderWidth,
@@ -401,6 +403,7 @@ export class MagicWordsSettingsPanel extends GameSettingsPanel {
     const minPadding = useCompactPadding
       ? SCENE_LAYOUT.screenPaddingPhone
       : SCENE_LAYOUT.screenPadding;
+    const insets = this.context.getSafeInsets();
 
     // Physical portrait detection (important because Magic Words can auto-rotate content)
     const isPhone = Math.min(cssWidth, cssHeight) < SCENE_LAYOUT.phoneBreakpoint;
@@ -419,9 +422,11 @@ export class MagicWordsSettingsPanel extends GameSettingsPanel {
     const panelScreenW = panelDesignWidth * containerScale;
     const panelScreenH = panelDesignHeight * containerScale;
 
-    const availableWidth = screenW - minPadding.left - minPadding.right;
+    const availableWidth =
+      screenW - minPadding.left - minPadding.right - insets.left - insets.right;
     // Keep it in the top portion but allow it to grow (especially on portrait)
-    const availableHeight = screenH - minPadding.top - minPadding.bottom;
+    const availableHeight =
+      screenH - minPadding.top - minPadding.bottom - insets.top - insets.bottom;
 
     const scaleX = availableWidth / panelScreenW;
     const scaleY = availableHeight / panelScreenH;
@@ -445,8 +450,8 @@ export class MagicWordsSettingsPanel extends GameSettingsPanel {
     // So we anchor the panel's *screen* top, then convert that to design coords using gameContainer.y + scale.
     this.x = this.config.designX;
 
-    // Desired screen top padding (pixels from screen top). Keep it tight.
-    const desiredScreenTop = SETTINGS_PANEL_UI.topOffset;
+    // Desired screen top padding (pixels from the safe area top). Keep it tight.
+    const desiredScreenTop = SETTINGS_PANEL_UI.topOffset + insets.top;
     const gameContainerY = this.context.getGameContainerY();
 
     // Convert desired screen top to design coordinates (parent space of this panel)
@@ -1,6 +1,7 @@
-import gsap from 'gsap';
 import { Container, AnimatedSprite, Texture, FederatedPointerEvent } from 'pixi.js';
 
+import type { AnimationScope } from '../../core';
+
 /**
  * Represents an evolving landed flame/egg sprite
  */
@@ -56,6 +57,7 @@ export class EvolvingLandedManager {
   private pool: EvolvingSprite[] = [];
   private activeCount = 0;
   private readonly container: Container;
+  private readonly animations: AnimationScope;
   private config: EvolvingLandedConfig; // Mutable for runtime adjustment
 
   /** Flag to prevent callbacks from accessing destroyed objects */
@@ -72,6 +74,7 @@ export class EvolvingLandedManager {
 
   constructor(
     container: Container,
+    animations: AnimationScope,
     level0Textures: Texture[],
     level1Textures: Texture[],
     level2Textures: Texture[],
@@ -81,6 +84,7 @@ export class EvolvingLandedManager {
     config: Partial<EvolvingLandedConfig> = {}
   ) {
     this.container = container;
+    this.animations = animations;
     this.level0Textures = level0Textures;
     this.level1Textures = level1Textures;
     this.level2Textures = level2Textures;
@@ -176,7 +180,7 @@ export class EvolvingLandedManager {
     const recoveryScale = evolvingSprite.originalScale;
 
     // Animate scale recovery with a nice bounce
-    gsap.to(evolvingSprite.sprite.scale, {
+    this.animations.to(evolvingSprite.sprite.scale, {
       x: recoveryScale,
       y: recoveryScale,
       duration: 0.2,
@@ -236,7 +240,7 @@ export class EvolvingLandedManager {
     const currentScale = evolvingSprite.sprite.scale.x;
     const scaleTarget = { value: currentScale };
 
-    evolvingSprite.shrinkTween = gsap
+    evolvingSprite.shrinkTween = this.animations
       .timeline()
       .to({}, { duration: this.config.pauseBeforeShrink / 1000 })
       .to(scaleTarget, {
@@ -415,8 +419,7 @@ export class EvolvingLandedManager {
     this.reset();
     for (const evolvingSprite of this.pool) {
       // Kill any pending GSAP animations before destroying
-      gsap.killTweensOf(evolvingSprite.sprite);
-      gsap.killTweensOf(evolvingSprite.sprite.scale);
+      this.animations.killTweensOf([evolvingSprite.sprite, evolvingSprite.sprite.scale]);
       evolvingSprite.sprite.off('pointerdown');
       evolvingSprite.sprite.stop();
       evolvingSprite.sprite.destroy();
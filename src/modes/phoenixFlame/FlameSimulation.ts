@@ -0,0 +1,130 @@
+import type { Ticker } from 'pixi.js';
+
+import { FixedStepClock, type FixedStepOptions } from '../../core';
+
+/**
+ * Physics state of a flying particle (no display object: FlyingParticle adds the sprite)
+ */
+export interface ParticleBody {
+  /** Simulated position (drawn between prevX/Y and x/y) */
+  x: number;
+  y: number;
+  /** Position before the last step */
+  prevX: number;
+  prevY: number;
+  velocityX: number;
+  velocityY: number;
+  /** Seconds in flight, and the lifetime the scale curve is measured against */
+  age: number;
+  maxAge: number;
+  /** Current scale (grows to the peak early in the flight, sets the collision height) */
+  scale: number;
+}
+
+/**
+ * Flight parameters, read once per step (they follow the settings panel and layout)
+ */
+export interface FlightParams {
+  /** Gravity (px/s²) */
+  gravity: number;
+  /** Design y the particles land on */
+  floorY: number;
+  /** Unscaled particle height (its bottom edge touches the floor) */
+  height: number;
+  /** Scale at spawn */
+  initialScale: number;
+  /** Scale reached at 5% of the lifetime and held afterwards */
+  peakScale: number;
+}
+
+/**
+ * What the simulation reads and reports (the mode owns the particles)
+ */
+export interface FlameSimulationHooks<T extends ParticleBody> {
+  /** Particles in flight */
+  bodies: () => Iterable<T>;
+  /** Current flight parameters */
+  params: () => FlightParams;
+  /** A particle reached the floor this step (the hook takes it out of the flight) */
+  onLand: (body: T, floorY: number) => void;
+  /** After the physics of a step (spawning) */
+  onStep?: (stepMs: number) => void;
+  /** Once per frame, after the steps (alpha: progress towards the next step) */
+  onRender?: (alpha: number) => void;
+}
+
+/** Share of the lifetime spent growing to the peak scale */
+const GROW_SHARE = 0.05;
+
+/**
+ * FlameSimulation
+ *
+ * Flight physics of the Phoenix Flame particles: gravity, the grow-to-peak
+ * scale and landing on the floor, in fixed steps of a FixedStepClock. It holds
+ * no display objects, so tests can drive it at any frame rate with advance()
+ * or step() and compare the results.
+ */
+export class FlameSimulation<T extends ParticleBody> {
+  private hooks: FlameSimulationHooks<T>;
+
+  private clock: FixedStepClock;
+
+  constructor(options: FixedStepOptions, hooks: FlameSimulationHooks<T>) {
+    this.hooks = hooks;
+    this.clock = new FixedStepClock(options, this.stepOnce, hooks.onRender);
+  }
+
+  /**
+   * Advance with every frame of a ticker (paused tickers stop the simulation)
+   */
+  attachTo(ticker: Ticker): void {
+    this.clock.attachTo(ticker);
+  }
+
+  /**
+   * Stop following the ticker
+   */
+  detach(): void {
+    this.clock.detach();
+  }
+
+  /**
+   * Simulate a frame of the given length
+   * @returns Number of steps run
+   */
+  advance(frameMs: number): number {
+    return this.clock.advance(frameMs);
+  }
+
+  /**
+   * Run steps right away, independent of frame time
+   */
+  step(count = 1): void {
+    this.clock.step(count);
+  }
+
+  private stepOnce = (stepMs: number): void => {
+    const params = this.hooks.params();
+    const deltaSec = stepMs / 1000;
+
+    for (const body of this.hooks.bodies()) {
+      body.velocityY += params.gravity * deltaSec;
+      body.prevX = body.x;
+      body.prevY = body.y;
+      body.x += body.velocityX * deltaSec;
+      body.y += body.velocityY * deltaSec;
+      body.age += deltaSec;
+
+      const grow = Math.min(1, body.age / body.maxAge / GROW_SHARE);
+      body.scale = params.initialScale + (params.peakScale - params.initialScale) * grow;
+    }
+
+    // Collect first: onLand takes bodies out of the flight
+    const landed = [...this.hooks.bodies()].filter(
+      body => body.y + (params.height * body.scale) / 2 >= params.floorY
+    );
+    for (const body of landed) this.hooks.onLand(body, params.floorY);
+
+    this.hooks.onStep?.(stepMs);
+  };
+}
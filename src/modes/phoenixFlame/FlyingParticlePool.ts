@@ -1,15 +1,15 @@
 import { Container, AnimatedSprite, Texture } from 'pixi.js';
 
+import { swapTextures } from '../../core';
+
+import type { ParticleBody } from './FlameSimulation';
+
 /**
- * Represents a flying particle with physics state.
+ * Represents a flying particle: physics state (FlameSimulation) plus its sprite.
  */
-export interface FlyingParticle {
+export interface FlyingParticle extends ParticleBody {
   sprite: AnimatedSprite;
-  velocityX: number;
-  velocityY: number;
   slotId: number; // Which trajectory slot this particle uses (-1 if spacing disabled)
-  age: number;
-  maxAge: number;
   isActive: boolean;
 }
 
@@ -27,7 +27,7 @@ export interface FlyingParticle {
 export class FlyingParticlePool {
   private pool: FlyingParticle[] = [];
   private readonly container: Container;
-  private readonly textures: Texture[];
+  private textures: Texture[];
   private readonly maxPoolSize: number;
   private readonly animationSpeed: number;
 
@@ -55,16 +55,29 @@ export class FlyingParticlePool {
 
       this.pool.push({
         sprite,
+        x: 0,
+        y: 0,
+        prevX: 0,
+        prevY: 0,
         velocityX: 0,
         velocityY: 0,
         slotId: -1,
         age: 0,
         maxAge: 0,
+        scale: 1,
         isActive: false,
       });
     }
   }
 
+  /**
+   * Switch every pooled sprite to other frames (e.g. LQ flames), keeping its place in the animation
+   */
+  setTextures(textures: Texture[]): void {
+    this.textures = textures;
+    for (const { sprite } of this.pool) swapTextures(sprite, textures);
+  }
+
   /**
    * Acquire a particle from the pool.
    * Returns null if pool is exhausted.
@@ -80,6 +93,15 @@ export class FlyingParticlePool {
     return particle ?? null;
   }
 
+  /**
+   * Put a particle at a position without interpolating from the old one (e.g. on spawn)
+   */
+  place(particle: FlyingParticle, x: number, y: number): void {
+    particle.x = particle.prevX = x;
+    particle.y = particle.prevY = y;
+    particle.sprite.position.set(x, y);
+  }
+
   /**
    * Release a particle back to the pool.
    */
@@ -92,31 +114,22 @@ export class FlyingParticlePool {
   }
 
   /**
-   * Update all active particles (physics).
+   * Draw active particles between their last two simulated positions,
+   * facing their direction of flight.
    *
-   * @param deltaSec - Time delta in seconds
-   * @param gravity - Gravity acceleration in pixels/second²
+   * @param alpha - Progress towards the next physics step (0..1)
    * @param rotationOffset - Offset to add to rotation (degrees)
    */
-  update(deltaSec: number, gravity: number, rotationOffset = 270): void {
+  render(alpha: number, rotationOffset = 270): void {
     const rotationOffsetRad = (rotationOffset * Math.PI) / 180;
 
     for (const particle of this.pool) {
       if (!particle.isActive) continue;
-
-      // Update velocity (gravity)
-      particle.velocityY += gravity * deltaSec;
-
-      // Update position
-      particle.sprite.x += particle.velocityX * deltaSec;
-      particle.sprite.y += particle.velocityY * deltaSec;
-
-      // Update rotation to face movement direction + offset
+      particle.sprite.x = particle.prevX + (particle.x - particle.prevX) * alpha;
+      particle.sprite.y = particle.prevY + (particle.y - particle.prevY) * alpha;
       particle.sprite.rotation =
         Math.atan2(particle.velocityY, particle.velocityX) + rotationOffsetRad;
-
-      // Update age
-      particle.age += deltaSec;
+      particle.sprite.scale.set(particle.scale);
     }
   }
 
@@ -1,6 +1,7 @@
-import gsap from 'gsap';
 import { Container, AnimatedSprite, Texture } from 'pixi.js';
 
+import { swapTextures, type AnimationScope } from '../../core';
+
 /**
  * Manages a pool of sprites for the "landed" state of particles.
  *
@@ -17,15 +18,23 @@ export class LandedSpriteManager {
   private pool: AnimatedSprite[] = [];
   private activeCount = 0;
   private readonly container: Container;
-  private readonly textures: Texture[];
+  private readonly animations: AnimationScope;
+  private textures: Texture[];
   private readonly maxPoolSize: number;
   private readonly animationSpeed: number;
 
   /** Flag to prevent callbacks from accessing destroyed objects */
   private isDisposed = false;
 
-  constructor(container: Container, textures: Texture[], maxPoolSize = 4, animationSpeed = 0.15) {
+  constructor(
+    container: Container,
+    animations: AnimationScope,
+    textures: Texture[],
+    maxPoolSize = 4,
+    animationSpeed = 0.15
+  ) {
     this.container = container;
+    this.animations = animations;
     this.textures = textures;
     this.maxPoolSize = maxPoolSize;
     this.animationSpeed = animationSpeed;
@@ -112,7 +121,7 @@ export class LandedSpriteManager {
     // GSAP timeline: pause → shrink → hide
     // We tween a proxy object and apply to sprite.scale each update
     // This ensures PixiJS's ObservablePoint is properly updated
-    gsap
+    this.animations
       .timeline()
       .to({}, { duration: pauseDuration / 1000 }) // Pause phase
       .to(scaleTarget, {
@@ -139,6 +148,14 @@ export class LandedSpriteManager {
     return true;
   }
 
+  /**
+   * Switch every pooled sprite to other frames (e.g. LQ flames), keeping its place in the animation
+   */
+  public setTextures(textures: Texture[]): void {
+    this.textures = textures;
+    for (const sprite of this.pool) swapTextures(sprite, textures);
+  }
+
   /**
    * Get the number of currently active (visible) landed sprites
    */
@@ -167,8 +184,7 @@ export class LandedSpriteManager {
   public reset(): void {
     // Kill all GSAP tweens on pool sprites
     for (const sprite of this.pool) {
-      gsap.killTweensOf(sprite);
-      gsap.killTweensOf(sprite.scale);
+      this.animations.killTweensOf([sprite, sprite.scale]);
       if (sprite.transform) {
         sprite.visible = false;
         sprite.scale.set(1);
@@ -186,7 +202,7 @@ export class LandedSpriteManager {
 
     this.reset();
     for (const sprite of this.pool) {
-      gsap.killTweensOf(sprite);
+      this.animations.killTweensOf(sprite);
       sprite.stop();
       sprite.destroy();
     }
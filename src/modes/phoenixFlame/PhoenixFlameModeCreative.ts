@@ -1,7 +1,5 @@
 import { Spine } from '@esotericsoftware/spine-pixi-v7';
-import gsap from 'gsap';
 import {
-  Assets,
   Container,
   Graphics,
   Text,
@@ -13,11 +11,8 @@ import {
   Sprite,
 } from 'pixi.js';
 
-import flameEggSheetJson from '../../assets/sprites/flame-egg-levels/flame-egg.json';
-import flameEggSheetPng from '../../assets/sprites/flame-egg-levels/flame-egg.png';
-// Spine assets loaded from public folder (no Vite hashing - atlas references phoenix.png by name)
 import { Slider } from '../../components/Slider';
-import { killTweensRecursive, prefixSpritesheetFrames } from '../../core';
+import { t, type QualityProfile } from '../../core';
 import type { GameModeContext } from '../GameMode';
 
 import { EvolvingLandedManager } from './EvolvingLandedManager';
@@ -37,9 +32,6 @@ import { PhoenixFlameModeLiteral } from './PhoenixFlameModeLiteral';
  * - Eggs stay permanently until collected
  */
 export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
-  /** Static cache for flame-egg spritesheet (prevents re-parsing warnings) */
-  private static flameEggSpritesheetCache: Spritesheet | null = null;
-
   private phoenix: Spine | null = null;
   private phoenixShadow: Sprite | null = null;
   private shadowTexture: Texture | null = null;
@@ -99,12 +91,13 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
     this.content = new Container();
     this.context.container.addChild(this.content);
 
-    // Load spritesheets
-    await this.loadSpritesheetPublic(); // Parent's flame spritesheet
-    await this.loadFlameEggSpritesheet();
+    // Load flame, flame-egg and Spine phoenix bundle (shared loading screen)
+    await this.context.loadBundle('phoenix-flame-creative', t('phoenix.summoning'));
+    this.loadSpritesheetPublic(); // Parent's flame spritesheet
+    this.loadFlameEggSpritesheet();
 
-    // Load Phoenix character first (renders behind particles)
-    await this.loadPhoenix();
+    // Create Phoenix character first (renders behind particles)
+    this.createPhoenix();
 
     // Create particle containers (in front of phoenix)
     this.createParticleContainersPublic();
@@ -112,6 +105,9 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
     // Initialize particle system with evolving manager
     this.createEvolvingParticleSystem();
 
+    // Particle budget follows the quality tier
+    this.followQuality();
+
     // Start game loop
     this.startGameLoopPublic();
 
@@ -128,27 +124,10 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
   }
 
   /**
-   * Load the flame-egg evolution spritesheet (uses static cache to prevent re-parse warnings)
+   * Pick up the flame-egg evolution spritesheet (frames are prefixed with 'flame-')
    */
-  private async loadFlameEggSpritesheet(): Promise<void> {
-    // Use cached spritesheet if available (prevents "already had an entry" warnings)
-    // Check static class cache first, then Assets cache for HMR resilience
-    if (PhoenixFlameModeCreative.flameEggSpritesheetCache) {
-      this.flameEggSpritesheet = PhoenixFlameModeCreative.flameEggSpritesheetCache;
-    } else if (Assets.cache.has('flame-egg-spritesheet')) {
-      // Recover from HMR - spritesheet was parsed before but static cache was reset
-      this.flameEggSpritesheet = Assets.cache.get('flame-egg-spritesheet') as Spritesheet;
-      PhoenixFlameModeCreative.flameEggSpritesheetCache = this.flameEggSpritesheet;
-    } else {
-      const texture = await Assets.load<Texture>(flameEggSheetPng);
-      // Prefix frame names to avoid collision with Ace of Shadows spritesheet
-      const prefixedJson = prefixSpritesheetFrames(flameEggSheetJson, 'flame-');
-      this.flameEggSpritesheet = new Spritesheet(texture, prefixedJson);
-      await this.flameEggSpritesheet.parse();
-      PhoenixFlameModeCreative.flameEggSpritesheetCache = this.flameEggSpritesheet;
-      // Also store in Assets cache for HMR resilience
-      Assets.cache.set('flame-egg-spritesheet', this.flameEggSpritesheet);
-    }
+  private loadFlameEggSpritesheet(): void {
+    this.flameEggSpritesheet = this.context.assets.getSpritesheet('flame-egg-spritesheet');
 
     // Get textures for each evolution level (4 levels: flame→egg transition)
     this.level1Textures = this.flameEggSpritesheet.animations['level1'] || [];
@@ -324,7 +303,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
 
     // 1. Scale slider (affects both flying and landed particles)
     const scaleSlider = new Slider({
-      label: 'Scale',
+      label: t('phoenix.settings.scale'),
       value: this.particleScale,
       min: 1.0,
       max: 3.0,
@@ -346,7 +325,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
 
     // 2. Shrink Offset slider (default 15px)
     const shrinkSlider = new Slider({
-      label: 'Shrink Pivot',
+      label: t('phoenix.settings.shrinkPivot'),
       value: this.creativeShrinkOffset,
       min: 0,
       max: 100,
@@ -365,7 +344,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
 
     // 3. Egg Y Offset slider
     const eggYSlider = new Slider({
-      label: 'Egg Y Offset',
+      label: t('phoenix.settings.eggYOffset'),
       value: this.eggYOffset,
       min: -100,
       max: 100,
@@ -384,7 +363,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
 
     // 4. Egg Icon Scale slider (for UI egg size)
     const eggIconSlider = new Slider({
-      label: 'Egg Icon',
+      label: t('phoenix.settings.eggIcon'),
       value: this.eggIconScale,
       min: 0.1,
       max: 0.5,
@@ -406,7 +385,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
 
     // 5. Phoenix Y Offset slider
     const phoenixYSlider = new Slider({
-      label: 'Phoenix Y',
+      label: t('phoenix.settings.phoenixY'),
       value: this.phoenixYOffset,
       min: -200,
       max: 200,
@@ -428,7 +407,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
 
     // 6. Shadow X Offset slider
     const shadowXSlider = new Slider({
-      label: 'Shadow X',
+      label: t('phoenix.settings.shadowX'),
       value: this.shadowXOffset,
       min: -100,
       max: 100,
@@ -447,7 +426,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
 
     // 7. Shadow Y Offset slider
     const shadowYSlider = new Slider({
-      label: 'Shadow Y',
+      label: t('phoenix.settings.shadowY'),
       value: this.shadowYOffset,
       min: -50,
       max: 100,
@@ -466,7 +445,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
 
     // 8. Shadow Opacity slider
     const shadowOpacitySlider = new Slider({
-      label: 'Shadow',
+      label: t('phoenix.settings.shadow'),
       value: this.shadowOpacity,
       min: 0,
       max: 1,
@@ -486,7 +465,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
 
     // 9. Shadow Scale slider
     const shadowScaleSlider = new Slider({
-      label: 'Shadow Size',
+      label: t('phoenix.settings.shadowSize'),
       value: this.shadowScale,
       min: 0.5,
       max: 3.0,
@@ -561,6 +540,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
       // Use new spritesheet for all levels: sprite-1 through sprite-4
       this.evolvingManager = new EvolvingLandedManager(
         this.landedContainer,
+        this.context.animations,
         this.level1Textures, // Level 0: sprite-1 (flames with egg core)
         this.level2Textures, // Level 1: sprite-2 (more egg-like)
         this.level3Textures, // Level 2: sprite-3 (egg with flame aura)
@@ -588,6 +568,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
       console.log(
         `[PhoenixCreative] Egg created at (${x.toFixed(0)}, ${y.toFixed(0)}), flying to counter...`
       );
+    this.context.playSound('egg-created');
 
     // Trigger egg-made animation on phoenix
     if (this.phoenix) {
@@ -630,7 +611,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
     this.content.addChild(eggSprite);
 
     // Animate along bezier curve using GSAP
-    gsap.to(progress, {
+    this.context.animations.to(progress, {
       t: 1,
       duration: 0.8,
       ease: 'power2.inOut',
@@ -681,8 +662,8 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
   protected override onParticleLand(particle: FlyingParticle, floorY: number): void {
     if (!this.flyingPool) return;
 
-    const x = particle.sprite.x;
-    const scale = particle.sprite.scale.x;
+    const x = particle.x;
+    const scale = particle.scale;
 
     // Release flying particle back to pool
     this.flyingPool.release(particle);
@@ -703,22 +684,11 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
   }
 
   /**
-   * Load Phoenix Spine character
+   * Create Phoenix Spine character (skeleton + atlas come from the mode bundle)
    */
-  private async loadPhoenix(): Promise<void> {
+  private createPhoenix(): void {
     if (!this.content) return;
 
-    // Only add assets if not already registered (prevents cache warnings on re-entry)
-    // Assets are in public/spine/ folder (no Vite hashing - atlas references phoenix.png by name)
-    const basePath = import.meta.env.BASE_URL + 'spine/';
-    if (!Assets.cache.has('phoenixSkeleton')) {
-      Assets.add({ alias: 'phoenixSkeleton', src: basePath + 'phoenix.json' });
-    }
-    if (!Assets.cache.has('phoenixAtlas')) {
-      Assets.add({ alias: 'phoenixAtlas', src: basePath + 'phoenix.atlas' });
-    }
-    await Assets.load(['phoenixSkeleton', 'phoenixAtlas']);
-
     // Create shadow first (renders behind phoenix)
     this.createPhoenixShadow();
 
@@ -777,7 +747,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
     ctx.fill();
     ctx.restore();
 
-    return Texture.from(canvas);
+    return this.context.canvasTexture(canvas);
   }
 
   /**
@@ -849,10 +819,10 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
       return { x: this.designWidth / 2, y: this.designHeight / 2 };
     }
 
-    const x = this.phoenix.x + (Math.random() - 0.5) * 60;
+    const x = this.phoenix.x + (this.random.next() - 0.5) * 60;
     // Head is ~250px above feet (body at 140 + head at 55 + head height)
     const pivotY = this.phoenix.y - 300; // Head area (above character)
-    const randomOffset = Math.random() * this.spawnHeightRange * 0.3;
+    const randomOffset = this.random.next() * this.spawnHeightRange * 0.3;
     const y = pivotY - randomOffset;
 
     return { x, y };
@@ -872,6 +842,13 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
     // No animation on spawn - egg-made triggers on egg creation
   }
 
+  /**
+   * Only the particle budget follows the quality tier (the egg evolution frames have no LQ version)
+   */
+  protected override applyQuality(profile: QualityProfile): void {
+    this.particleBudgetScale = profile.particleScale;
+  }
+
   /**
    * Override to check Phoenix instead of flame sprite
    */
@@ -900,7 +877,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
       fill: '#ff6b35',
       fontWeight: 'bold',
     });
-    const title = new Text('🔥 Phoenix Flame 🔥', titleStyle);
+    const title = new Text(t('phoenix.creativeTitle'), titleStyle);
     title.anchor.set(0.5, 0);
 
     // Background box
@@ -932,9 +909,7 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
       this.debugUpdateLoop = null;
     }
 
-    // Kill GSAP tweens recursively on containers before destroying
     if (this.eggCounterPanel) {
-      killTweensRecursive(this.eggCounterPanel);
       this.eggCounterPanel.destroy({ children: true });
       this.eggCounterPanel = null;
       this.eggCounterText = null;
@@ -943,7 +918,6 @@ export class PhoenixFlameModeCreative extends PhoenixFlameModeLiteral {
     }
 
     if (this.creativeSettingsPanel) {
-      killTweensRecursive(this.creativeSettingsPanel);
       this.creativeSettingsPanel.destroy({ children: true });
       this.creativeSettingsPanel = null;
       this.debugCounterText = null;
@@ -1,17 +1,5 @@
-import {
-  AnimatedSprite,
-  Assets,
-  Container,
-  Graphics,
-  Spritesheet,
-  Text,
-  TextStyle,
-  Texture,
-  Ticker,
-} from 'pixi.js';
-
-import flameSheetJson from '../../assets/sprites/flame-hq/flames-hq-spritesheet.json';
-import flameSheetPng from '../../assets/sprites/flame-hq/flames-hq.png';
+import { AnimatedSprite, Container, Graphics, Spritesheet, Texture, Ticker } from 'pixi.js';
+
 import type {
   GameSettingsPanelConfig,
   SettingsPanelContext,
@@ -21,16 +9,19 @@ import {
   DESIGN_BOUNDS,
   SPRITE_BUDGET,
   PARTICLE_CONFIG,
+  SIMULATION_CONFIG,
+  getPreservedSettings,
+  saveSettings,
+  type PhoenixFlameSettings,
 } from '../../config/phoenixFlameSettings';
-import { killTweensRecursive } from '../../core';
+import { alignFrames, swapTextures, t, type QualityProfile, type Random } from '../../core';
 import type { GameMode, GameModeContext } from '../GameMode';
 
+import { FlameSimulation, type FlightParams } from './FlameSimulation';
 import { FlyingParticlePool, type FlyingParticle } from './FlyingParticlePool';
 import { LandedSpriteManager } from './LandedSpriteManager';
 import { PhoenixFlameSettingsPanel } from './PhoenixFlameSettingsPanel';
 
-// Import spritesheet assets (HQ version)
-
 /**
  * PhoenixFlameModeLiteral
  *
@@ -49,10 +40,9 @@ import { PhoenixFlameSettingsPanel } from './PhoenixFlameSettingsPanel';
  * Key principle: Validate BEFORE create. Never spawn then kill.
  */
 export class PhoenixFlameModeLiteral implements GameMode {
-  /** Static cache for flame spritesheet (prevents re-parsing warnings) */
-  private static spritesheetCache: Spritesheet | null = null;
-
   protected readonly context: GameModeContext;
+  /** Spawn positions, angles and speeds (seeded per run) */
+  protected readonly random: Random;
   protected content: Container | null = null;
   protected flameSprite: AnimatedSprite | null = null;
   protected spritesheet: Spritesheet | null = null;
@@ -65,6 +55,19 @@ export class PhoenixFlameModeLiteral implements GameMode {
   protected landedManager: LandedSpriteManager | null = null;
   protected flameTextures: Texture[] = [];
 
+  /** Flame frames per texture quality (the LQ ones are created here, aligned to the HQ frames) */
+  private hqFlameTextures: Texture[] = [];
+  private lqFlameTextures: Texture[] = [];
+
+  /** Share of the flying particle budget the quality tier allows */
+  protected particleBudgetScale = 1;
+
+  // Quality tier subscription (removed on stop)
+  private removeQualityListener: (() => void) | null = null;
+
+  // Fixed-step flight physics (runs while the mode is started)
+  private simulation: FlameSimulation<FlyingParticle> | null = null;
+
   // Spawn control
   protected spawnTimer = 0;
   protected spawnInterval: number = 1000 / PARTICLE_CONFIG.spawnRate; // ms between spawns
@@ -87,6 +90,13 @@ export class PhoenixFlameModeLiteral implements GameMode {
   protected gravity: number = PARTICLE_CONFIG.gravity;
   protected bigFlamePivotOffset: number = PARTICLE_CONFIG.bigFlamePivotOffset;
   protected spawnHeightRange: number = PARTICLE_CONFIG.spawnHeightRange;
+  private keepSettings = false;
+
+  // Performance HUD counters (removed on stop)
+  private removeMetrics: (() => void)[] = [];
+
+  // Keyboard 'toggle-settings' subscription (removed on stop)
+  private removeSettingsAction: (() => void) | null = null;
 
   // Debug: pivot marker
   protected pivotMarker: Graphics | null = null;
@@ -98,14 +108,15 @@ export class PhoenixFlameModeLiteral implements GameMode {
 
   constructor(context: GameModeContext) {
     this.context = context;
+    this.random = context.random('particles');
   }
 
   // ============================================================
   // Public methods for subclass access
   // ============================================================
 
-  public async loadSpritesheetPublic(): Promise<void> {
-    await this.loadSpritesheet();
+  public loadSpritesheetPublic(): void {
+    this.loadSpritesheet();
   }
 
   public createParticleContainersPublic(): void {
@@ -137,7 +148,7 @@ export class PhoenixFlameModeLiteral implements GameMode {
 
     const x = this.flameSprite.x;
     const pivotY = this.flameSprite.y;
-    const randomOffset = Math.random() * this.spawnHeightRange;
+    const randomOffset = this.random.next() * this.spawnHeightRange;
     const y = pivotY - randomOffset;
 
     return { x, y };
@@ -183,14 +194,13 @@ export class PhoenixFlameModeLiteral implements GameMode {
     this.content = new Container();
     this.context.container.addChild(this.content);
 
-    // Show loading state
-    this.showLoading();
+    // Load flame bundle (shared loading screen)
+    await this.context.loadBundle('phoenix-flame-literal', t('phoenix.igniting'));
+    this.loadSpritesheet();
+    this.loadLqFlameTextures();
 
-    // Load spritesheet
-    await this.loadSpritesheet();
-
-    // Hide loading
-    this.hideLoading();
+    // Restore kept settings before anything is built from them
+    this.applyPreservedSettings();
 
     // Create main flame
     this.createFlame();
@@ -207,24 +217,32 @@ export class PhoenixFlameModeLiteral implements GameMode {
     // Initialize flying particle pool
     this.createFlyingPool();
 
+    // Textures and particle budget follow the quality tier
+    this.followQuality();
+
     // Start the game loop
     this.startGameLoop();
 
     // Create settings panel
     this.createSettingsPanel();
+    this.removeSettingsAction = this.context.onAction('toggle-settings', () =>
+      this.settingsPanel?.toggleVisible()
+    );
 
-    // Start sprite counter update loop (updates panel's counter display)
-    this.startCounterUpdate();
+    // Sprite budget counters in the performance HUD
+    this.registerSpriteMetrics();
   }
 
   stop(): void {
     // Stop game loop
     this.stopGameLoop();
 
-    // Kill all GSAP animations recursively BEFORE destroying
-    if (this.content) {
-      killTweensRecursive(this.content);
-    }
+    for (const remove of this.removeMetrics) remove();
+    this.removeMetrics = [];
+    this.removeQualityListener?.();
+    this.removeQualityListener = null;
+    this.removeSettingsAction?.();
+    this.removeSettingsAction = null;
 
     // Destroy flying pool
     if (this.flyingPool) {
@@ -268,10 +286,13 @@ export class PhoenixFlameModeLiteral implements GameMode {
       this.content = null;
     }
 
-    // Don't destroy cached spritesheet - just clear reference
-    // The static cache keeps it alive for scene re-entry
+    // Don't destroy the spritesheet - it belongs to the asset bundle, which the scene releases
     this.spritesheet = null;
 
+    // The aligned LQ frames are ours; their base texture belongs to the bundle
+    for (const texture of this.lqFlameTextures) texture.destroy();
+    this.hqFlameTextures = [];
+    this.lqFlameTextures = [];
     this.flameTextures = [];
   }
 
@@ -280,64 +301,64 @@ export class PhoenixFlameModeLiteral implements GameMode {
   }
 
   // ============================================================
-  // Loading
+  // Spritesheet Loading
   // ============================================================
 
-  private showLoading(): void {
-    if (!this.content) return;
+  /**
+   * Pick up the flame spritesheet (parsed once by the shared AssetLoader)
+   */
+  private loadSpritesheet(): void {
+    this.spritesheet = this.context.assets.getSpritesheet('phoenix-flame-spritesheet');
 
-    const loadingText = new Text(
-      '🔥 Igniting...',
-      new TextStyle({
-        fontFamily: 'Georgia, serif',
-        fontSize: 32,
-        fill: '#ff6600',
-        align: 'center',
-      })
-    );
-    loadingText.name = 'loading';
-    loadingText.anchor.set(0.5);
-    loadingText.x = this.designWidth / 2;
-    loadingText.y = this.designHeight / 2;
-    this.content.addChild(loadingText);
+    // Cache flame textures for pools
+    const frames = this.spritesheet.animations['flame'];
+    if (frames) {
+      this.flameTextures = frames;
+      this.hqFlameTextures = frames;
+    }
   }
 
-  private hideLoading(): void {
-    if (!this.content) return;
-    const loading = this.content.getChildByName('loading');
-    if (loading) {
-      this.content.removeChild(loading);
-      loading.destroy();
+  /**
+   * Low quality tier frames, given the HQ geometry so sizes, anchors and floor math stay the same
+   */
+  private loadLqFlameTextures(): void {
+    const frames = this.context.assets.getSpritesheet('phoenix-flame-spritesheet-lq').animations[
+      'flame'
+    ];
+    if (frames && this.hqFlameTextures.length > 0) {
+      this.lqFlameTextures = alignFrames(frames, this.hqFlameTextures);
     }
   }
 
   // ============================================================
-  // Spritesheet Loading
+  // Quality
   // ============================================================
 
-  private async loadSpritesheet(): Promise<void> {
-    // Use cached spritesheet if available (prevents "already had an entry" warnings)
-    // Check static class cache first, then Assets cache for HMR resilience
-    if (PhoenixFlameModeLiteral.spritesheetCache) {
-      this.spritesheet = PhoenixFlameModeLiteral.spritesheetCache;
-    } else if (Assets.cache.has('phoenix-flame-spritesheet')) {
-      // Recover from HMR - spritesheet was parsed before but static cache was reset
-      this.spritesheet = Assets.cache.get('phoenix-flame-spritesheet') as Spritesheet;
-      PhoenixFlameModeLiteral.spritesheetCache = this.spritesheet;
-    } else {
-      const texture = await Assets.load(flameSheetPng);
-      this.spritesheet = new Spritesheet(texture, flameSheetJson);
-      await this.spritesheet.parse();
-      PhoenixFlameModeLiteral.spritesheetCache = this.spritesheet;
-      // Also store in Assets cache for HMR resilience
-      Assets.cache.set('phoenix-flame-spritesheet', this.spritesheet);
-    }
+  /**
+   * Apply the quality tier now and whenever it changes (undone in stop())
+   */
+  protected followQuality(): void {
+    this.removeQualityListener = this.context.onQualityChange(profile =>
+      this.applyQuality(profile)
+    );
+  }
 
-    // Cache flame textures for pools
-    const frames = this.spritesheet.animations['flame'];
-    if (frames) {
-      this.flameTextures = frames;
-    }
+  /**
+   * Swap HQ/LQ flame frames and scale the particle budget
+   */
+  protected applyQuality(profile: QualityProfile): void {
+    this.particleBudgetScale = profile.particleScale;
+
+    const textures =
+      profile.textures === 'lq' && this.lqFlameTextures.length > 0
+        ? this.lqFlameTextures
+        : this.hqFlameTextures;
+    if (textures.length === 0 || textures === this.flameTextures) return;
+
+    this.flameTextures = textures;
+    if (this.flameSprite) swapTextures(this.flameSprite, textures);
+    this.flyingPool?.setTextures(textures);
+    this.landedManager?.setTextures(textures);
   }
 
   // ============================================================
@@ -447,6 +468,7 @@ export class PhoenixFlameModeLiteral implements GameMode {
 
     this.landedManager = new LandedSpriteManager(
       this.landedContainer,
+      this.context.animations,
       this.flameTextures,
       PARTICLE_CONFIG.maxLandedSprites,
       PARTICLE_CONFIG.animationSpeed
@@ -463,83 +485,32 @@ export class PhoenixFlameModeLiteral implements GameMode {
   // ============================================================
 
   private startGameLoop(): void {
-    let lastTime = performance.now();
-
-    const gameLoop = () => {
-      const now = performance.now();
-      const deltaMs = now - lastTime;
-      const deltaSec = deltaMs / 1000;
-      lastTime = now;
-
-      // Update flying particles physics
-      this.updateFlyingParticles(deltaSec);
-
-      // Check for floor collisions
-      this.checkFloorCollisions();
-
-      // Try to spawn new particles
-      this.updateSpawning(deltaMs);
-    };
-
-    // Add to shared ticker
-    Ticker.shared.add(gameLoop);
-
-    // Store for cleanup
-    (this as { _gameLoop?: () => void })._gameLoop = gameLoop;
+    // Physics runs in fixed steps (same at 30 and 144 Hz); the ticker stops while
+    // the app is paused and the step cap drops the backlog of any long frame
+    this.simulation = new FlameSimulation<FlyingParticle>(SIMULATION_CONFIG, {
+      bodies: () => this.flyingPool?.getActive() ?? [],
+      params: () => this.getFlightParams(),
+      onLand: (particle, floorY) => this.onParticleLand(particle, floorY),
+      onStep: stepMs => this.updateSpawning(stepMs),
+      onRender: alpha => this.flyingPool?.render(alpha),
+    });
+    this.simulation.attachTo(Ticker.shared);
   }
 
   private stopGameLoop(): void {
-    const loop = (this as { _gameLoop?: () => void })._gameLoop;
-    if (loop) {
-      Ticker.shared.remove(loop);
-      delete (this as { _gameLoop?: () => void })._gameLoop;
-    }
+    this.simulation?.detach();
+    this.simulation = null;
   }
 
-  private updateFlyingParticles(deltaSec: number): void {
-    if (!this.flyingPool) return;
-
-    // Update physics for all flying particles
-    this.flyingPool.update(deltaSec, this.gravity, 270);
-
-    // Update scale animation (grow from initial to peak)
-    for (const particle of this.flyingPool.getActive()) {
-      const lifeProgress = particle.age / particle.maxAge;
-
-      // Scale: small → peak quickly (at 5% of lifetime)
-      const initialScale = PARTICLE_CONFIG.initialScale * this.currentScale;
-      const peakScale = this.particlePeakScale * this.currentScale;
-
-      let currentScale: number;
-      if (lifeProgress < 0.05) {
-        // Grow to peak in first 5%
-        const growProgress = lifeProgress / 0.05;
-        currentScale = initialScale + (peakScale - initialScale) * growProgress;
-      } else {
-        // Hold at peak
-        currentScale = peakScale;
-      }
-
-      particle.sprite.scale.set(currentScale);
-    }
-  }
-
-  private checkFloorCollisions(): void {
-    if (!this.flyingPool) return;
-
-    const floorY = this.getFlameBaseY() + this.floorOffset;
-
-    // Check each active particle for floor collision
-    for (const particle of this.flyingPool.getActive()) {
-      // Check if particle bottom has hit the floor
-      const textureHeight = FLAME_CONFIG.frameHeight;
-      const halfHeight = (textureHeight * particle.sprite.scale.x) / 2;
-      const particleBottomY = particle.sprite.y + halfHeight;
-
-      if (particleBottomY >= floorY) {
-        this.onParticleLand(particle, floorY);
-      }
-    }
+  /** Flight parameters from the current settings and layout */
+  private getFlightParams(): FlightParams {
+    return {
+      gravity: this.gravity,
+      floorY: this.getFlameBaseY() + this.floorOffset,
+      height: FLAME_CONFIG.frameHeight,
+      initialScale: PARTICLE_CONFIG.initialScale * this.currentScale,
+      peakScale: this.particlePeakScale * this.currentScale,
+    };
   }
 
   private updateSpawning(deltaMs: number): void {
@@ -567,6 +538,13 @@ export class PhoenixFlameModeLiteral implements GameMode {
       return false; // Budget exhausted - don't spawn
     }
 
+    // Lower quality tiers fly fewer particles at once
+    const maxFlying = Math.max(
+      1,
+      Math.round(PARTICLE_CONFIG.maxFlyingParticles * this.particleBudgetScale)
+    );
+    if (flyingCount >= maxFlying) return false;
+
     // 2. Generate angle (with optional threshold for variety)
     const halfSpread = this.angleSpread / 2;
     const minAngle = -90 - halfSpread;
@@ -592,13 +570,13 @@ export class PhoenixFlameModeLiteral implements GameMode {
     const spawnPos = this.getSpawnPosition();
     const angleRad = (angle * Math.PI) / 180;
 
-    particle.sprite.x = spawnPos.x;
-    particle.sprite.y = spawnPos.y;
+    this.flyingPool.place(particle, spawnPos.x, spawnPos.y);
     particle.velocityX = Math.cos(angleRad) * speed;
     particle.velocityY = Math.sin(angleRad) * speed;
     particle.slotId = -1;
     particle.maxAge = PARTICLE_CONFIG.lifetime;
-    particle.sprite.scale.set(PARTICLE_CONFIG.initialScale * this.currentScale);
+    particle.scale = PARTICLE_CONFIG.initialScale * this.currentScale;
+    particle.sprite.scale.set(particle.scale);
 
     // 7. Notify subclass of spawn (e.g., for animations)
     this.onParticleSpawned();
@@ -614,13 +592,13 @@ export class PhoenixFlameModeLiteral implements GameMode {
 
     if (this.angleThreshold <= 0 || range <= 0) {
       // No threshold - fully random
-      return minAngle + Math.random() * range;
+      return minAngle + this.random.next() * range;
     }
 
     // Generate angle that's at least threshold degrees away from last
     const attempts = 10; // Max attempts to find valid angle
     for (let i = 0; i < attempts; i++) {
-      const angle = minAngle + Math.random() * range;
+      const angle = minAngle + this.random.next() * range;
       const diff = Math.abs(angle - this.lastSpawnAngle);
 
       if (diff >= this.angleThreshold) {
@@ -632,10 +610,10 @@ export class PhoenixFlameModeLiteral implements GameMode {
     const centerAngle = (minAngle + maxAngle) / 2;
     if (this.lastSpawnAngle > centerAngle) {
       // Last was right, go left
-      return minAngle + Math.random() * (range / 2);
+      return minAngle + this.random.next() * (range / 2);
     } else {
       // Last was left, go right
-      return centerAngle + Math.random() * (range / 2);
+      return centerAngle + this.random.next() * (range / 2);
     }
   }
 
@@ -648,13 +626,13 @@ export class PhoenixFlameModeLiteral implements GameMode {
 
     if (this.speedThreshold <= 0) {
       // No threshold - fully random
-      return minSpeed + Math.random() * (maxSpeed - minSpeed);
+      return minSpeed + this.random.next() * (maxSpeed - minSpeed);
     }
 
     // Generate speed that's at least threshold away from last
     const attempts = 10; // Max attempts to find valid speed
     for (let i = 0; i < attempts; i++) {
-      const speed = minSpeed + Math.random() * (maxSpeed - minSpeed);
+      const speed = minSpeed + this.random.next() * (maxSpeed - minSpeed);
       const diff = Math.abs(speed - this.lastSpawnSpeed);
 
       if (diff >= this.speedThreshold) {
@@ -665,10 +643,10 @@ export class PhoenixFlameModeLiteral implements GameMode {
     // Fallback: force opposite side of last speed
     if (this.lastSpawnSpeed > baseSpeed) {
       // Last was fast, go slow
-      return minSpeed + Math.random() * variation * 0.5;
+      return minSpeed + this.random.next() * variation * 0.5;
     } else {
       // Last was slow, go fast
-      return baseSpeed + Math.random() * variation * 0.5;
+      return baseSpeed + this.random.next() * variation * 0.5;
     }
   }
 
@@ -680,8 +658,8 @@ export class PhoenixFlameModeLiteral implements GameMode {
   protected onParticleLand(particle: FlyingParticle, floorY: number): void {
     if (!this.landedManager || !this.flyingPool) return;
 
-    const x = particle.sprite.x;
-    const scale = particle.sprite.scale.x;
+    const x = particle.x;
+    const scale = particle.scale;
 
     // Release flying particle back to pool
     this.flyingPool.release(particle);
@@ -710,20 +688,19 @@ export class PhoenixFlameModeLiteral implements GameMode {
   // Sprite Counter
   // ============================================================
 
-  private startCounterUpdate(): void {
-    const updateCounter = () => {
-      if (!this.settingsPanel) return;
+  private registerSpriteMetrics(): void {
+    const flying = (): number => this.flyingPool?.getActiveCount() ?? 0;
+    const landed = (): number => this.landedManager?.getActiveCount() ?? 0;
 
-      const flying = this.flyingPool?.getActiveCount() ?? 0;
-      const landed = this.landedManager?.getActiveCount() ?? 0;
-      const total = 1 + flying + landed; // 1 = main flame
-
-      this.settingsPanel.updateSpriteCounter(total, flying, landed);
-
-      requestAnimationFrame(updateCounter);
-    };
-
-    requestAnimationFrame(updateCounter);
+    this.removeMetrics = [
+      this.context.registerMetric({
+        label: 'Sprites',
+        read: () => 1 + flying() + landed(), // 1 = main flame
+        max: SPRITE_BUDGET.max,
+      }),
+      this.context.registerMetric({ label: 'Flying', read: flying }),
+      this.context.registerMetric({ label: 'Landed', read: landed }),
+    ];
   }
 
   // ============================================================
@@ -738,7 +715,7 @@ export class PhoenixFlameModeLiteral implements GameMode {
       paddingY: 20,
       radius: 12,
       backgroundAlpha: 0.7,
-      backgroundColor: 0x1a1a1a,
+      backgroundColor: 'panel',
       // These are ignored by PhoenixFlameSettingsPanel.scaleToFit (it anchors to screen bounds),
       // but GameSettingsPanel requires them.
       designX: 0,
@@ -748,12 +725,55 @@ export class PhoenixFlameModeLiteral implements GameMode {
     const panelContext: SettingsPanelContext = {
       getDeviceState: () => this.context.getDeviceState(),
       getScreenSize: () => this.context.getScreenSize(),
+      getSafeInsets: () => this.context.getSafeInsets(),
       getGameContainerScale: () => this.context.gameContainer.scale.x,
       getGameContainerY: () => this.context.gameContainer.y,
       getContentBottomY: () => this.designHeight,
     };
 
-    const settings = {
+    const settings = this.getSettings();
+
+    // Every change is saved right away (a reload doesn't stop the mode)
+    const persist =
+      <T>(update: (value: T) => void) =>
+      (value: T) => {
+        update(value);
+        saveSettings(this.getSettings());
+      };
+
+    const callbacks = {
+      onScaleChange: persist((value: number) => this.updateFlameScale(value)),
+      onParticleMaxScaleChange: persist((value: number) => this.updateParticlePeakScale(value)),
+      onHeightChange: persist((value: number) => this.updateHeightMultiplier(value)),
+      onSpreadChange: persist((value: number) => this.updateAngleSpread(value)),
+      onFloorOffsetChange: persist((value: number) => this.updateFloorOffset(value)),
+      onFlameYOffsetChange: persist((value: number) => this.updateFlameYOffset(value)),
+      onLandingPauseChange: persist((value: number) => this.updateLandingPause(value)),
+      onShrinkOffsetChange: persist((value: number) => this.updateShrinkOffset(value)),
+      onBigFlamePivotOffsetChange: persist((value: number) =>
+        this.updateBigFlamePivotOffset(value)
+      ),
+      onShowPivotMarkerChange: persist((value: boolean) => this.updateShowPivotMarker(value)),
+      onSpawnHeightRangeChange: persist((value: number) => this.updateSpawnHeightRange(value)),
+      onGravityChange: persist((value: number) => this.updateGravity(value)),
+      onAngleThresholdChange: persist((value: number) => this.updateAngleThreshold(value)),
+      onSpeedThresholdChange: persist((value: number) => this.updateSpeedThreshold(value)),
+      onKeepSettingsChange: persist((value: boolean) => (this.keepSettings = value)),
+    };
+
+    this.settingsPanel = new PhoenixFlameSettingsPanel(config, panelContext, settings, callbacks);
+
+    // Attach the panel to screen bounds (not inside the scaled/rotated game content).
+    // We mount it to the scene root container: rotationWrapper.parent == BaseGameScene.container.
+    const sceneRoot = this.context.gameContainer.parent?.parent;
+    (sceneRoot ?? this.content).addChild(this.settingsPanel);
+  }
+
+  /**
+   * Current slider/toggle values
+   */
+  private getSettings(): PhoenixFlameSettings {
+    return {
       scale: this.currentScale,
       particleMaxScale: this.particlePeakScale,
       height: this.heightMultiplier,
@@ -768,31 +788,33 @@ export class PhoenixFlameModeLiteral implements GameMode {
       gravity: this.gravity,
       angleThreshold: this.angleThreshold,
       speedThreshold: this.speedThreshold,
+      keepSettings: this.keepSettings,
     };
+  }
 
-    const callbacks = {
-      onScaleChange: (value: number) => this.updateFlameScale(value),
-      onParticleMaxScaleChange: (value: number) => this.updateParticlePeakScale(value),
-      onHeightChange: (value: number) => this.updateHeightMultiplier(value),
-      onSpreadChange: (value: number) => this.updateAngleSpread(value),
-      onFloorOffsetChange: (value: number) => this.updateFloorOffset(value),
-      onFlameYOffsetChange: (value: number) => this.updateFlameYOffset(value),
-      onLandingPauseChange: (value: number) => this.updateLandingPause(value),
-      onShrinkOffsetChange: (value: number) => this.updateShrinkOffset(value),
-      onBigFlamePivotOffsetChange: (value: number) => this.updateBigFlamePivotOffset(value),
-      onShowPivotMarkerChange: (value: boolean) => this.updateShowPivotMarker(value),
-      onSpawnHeightRangeChange: (value: number) => this.updateSpawnHeightRange(value),
-      onGravityChange: (value: number) => this.updateGravity(value),
-      onAngleThresholdChange: (value: number) => this.updateAngleThreshold(value),
-      onSpeedThresholdChange: (value: number) => this.updateSpeedThreshold(value),
-    };
-
-    this.settingsPanel = new PhoenixFlameSettingsPanel(config, panelContext, settings, callbacks);
-
-    // Attach the panel to screen bounds (not inside the scaled/rotated game content).
-    // We mount it to the scene root container: rotationWrapper.parent == BaseGameScene.container.
-    const sceneRoot = this.context.gameContainer.parent?.parent;
-    (sceneRoot ?? this.content).addChild(this.settingsPanel);
+  /**
+   * Load settings kept from an earlier visit (Literal Task only - the creative
+   * mode drives these fields itself)
+   */
+  private applyPreservedSettings(): void {
+    const preserved = getPreservedSettings();
+    if (!preserved?.keepSettings) return;
+
+    this.currentScale = preserved.scale;
+    this.particlePeakScale = preserved.particleMaxScale;
+    this.heightMultiplier = preserved.height;
+    this.angleSpread = preserved.spread;
+    this.floorOffset = preserved.floorOffset;
+    this.flameYOffset = preserved.flameYOffset;
+    this.landingPause = preserved.landingPause;
+    this.shrinkOffset = preserved.shrinkOffset;
+    this.bigFlamePivotOffset = preserved.bigFlamePivotOffset;
+    this.showPivotMarker = preserved.showPivotMarker;
+    this.spawnHeightRange = preserved.spawnHeightRange;
+    this.gravity = preserved.gravity;
+    this.angleThreshold = preserved.angleThreshold;
+    this.speedThreshold = preserved.speedThreshold;
+    this.keepSettings = preserved.keepSettings;
   }
 
   // ============================================================
@@ -825,7 +847,7 @@ export class PhoenixFlameModeLiteral implements GameMode {
 
   private updateFloorOffset(value: number): void {
     this.floorOffset = value;
-    // Floor collision is checked dynamically in checkFloorCollisions()
+    // Floor collision is checked dynamically in FlameSimulation (getFlightParams)
   }
 
   private updateFlameYOffset(value: number): void {
@@ -1,4 +1,4 @@
-import { Container, Text, TextStyle } from 'pixi.js';
+import { Container } from 'pixi.js';
 
 import {
   GameSettingsPanel,
@@ -7,30 +7,15 @@ import {
 } from '../../components/GameSettingsPanel';
 import { Slider } from '../../components/Slider';
 import { Toggle } from '../../components/Toggle';
-import { PARTICLE_CONFIG } from '../../config/phoenixFlameSettings';
+import {
+  FLAME_CONFIG,
+  PARTICLE_CONFIG,
+  type PhoenixFlameSettings,
+} from '../../config/phoenixFlameSettings';
 import { SCENE_LAYOUT } from '../../config/sharedSettings';
+import { t } from '../../core';
 import type { DeviceState } from '../../scenes/BaseGameScene';
 
-/**
- * Settings for Phoenix Flame mode
- */
-export interface PhoenixFlameSettings {
-  scale: number;
-  particleMaxScale: number;
-  height: number;
-  spread: number;
-  floorOffset: number;
-  flameYOffset: number;
-  landingPause: number;
-  shrinkOffset: number;
-  bigFlamePivotOffset: number;
-  showPivotMarker: boolean;
-  spawnHeightRange: number;
-  gravity: number;
-  angleThreshold: number;
-  speedThreshold: number;
-}
-
 /**
  * Callbacks for settings changes
  */
@@ -49,6 +34,7 @@ export interface PhoenixFlameSettingsCallbacks {
   onGravityChange: (value: number) => void;
   onAngleThresholdChange: (value: number) => void;
   onSpeedThresholdChange: (value: number) => void;
+  onKeepSettingsChange: (value: boolean) => void;
 }
 
 /**
@@ -75,7 +61,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
   private bigFlamePivotSlider: Slider | null = null;
   private pivotMarkerToggle: Toggle | null = null;
   private spawnHeightRangeSlider: Slider | null = null;
-  private spriteCounterText: Text | null = null;
+  private keepSettingsToggle: Toggle | null = null;
 
   constructor(
     config: GameSettingsPanelConfig,
@@ -119,10 +105,10 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Main flame scale slider (HQ flames are large, so smaller scale values)
     this.scaleSlider = new Slider({
-      label: 'Big Flame',
+      label: t('phoenix.settings.bigFlame'),
       value: this.settings.scale,
-      min: 0.1,
-      max: 1.5,
+      min: FLAME_CONFIG.scaleMin,
+      max: FLAME_CONFIG.scaleMax,
       step: 0.05,
       unit: '×',
       decimals: 2,
@@ -136,7 +122,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Particle max scale slider
     this.particleScaleSlider = new Slider({
-      label: 'Particle Scale',
+      label: t('phoenix.settings.particleScale'),
       value: this.settings.particleMaxScale,
       min: PARTICLE_CONFIG.peakScaleMin,
       max: PARTICLE_CONFIG.peakScaleMax,
@@ -153,7 +139,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Height slider
     this.heightSlider = new Slider({
-      label: 'Height',
+      label: t('phoenix.settings.height'),
       value: this.settings.height,
       min: PARTICLE_CONFIG.heightMultiplierMin,
       max: PARTICLE_CONFIG.heightMultiplierMax,
@@ -170,7 +156,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Spread slider
     this.spreadSlider = new Slider({
-      label: 'Spread',
+      label: t('phoenix.settings.spread'),
       value: this.settings.spread,
       min: PARTICLE_CONFIG.angleSpreadMin,
       max: PARTICLE_CONFIG.angleSpreadMax,
@@ -187,7 +173,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Floor offset slider
     this.floorOffsetSlider = new Slider({
-      label: 'Floor Offset',
+      label: t('phoenix.settings.floorOffset'),
       value: this.settings.floorOffset,
       min: PARTICLE_CONFIG.floorOffsetMin,
       max: PARTICLE_CONFIG.floorOffsetMax,
@@ -204,7 +190,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Flame Y offset slider
     this.flameYOffsetSlider = new Slider({
-      label: 'Flame Y Pos',
+      label: t('phoenix.settings.flameY'),
       value: this.settings.flameYOffset,
       min: PARTICLE_CONFIG.flameYOffsetMin,
       max: PARTICLE_CONFIG.flameYOffsetMax,
@@ -221,7 +207,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Landing pause slider
     this.landingPauseSlider = new Slider({
-      label: 'Land Pause',
+      label: t('phoenix.settings.landPause'),
       value: this.settings.landingPause,
       min: PARTICLE_CONFIG.landingPauseMin,
       max: PARTICLE_CONFIG.landingPauseMax,
@@ -238,7 +224,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Gravity slider (acceleration when falling)
     this.gravitySlider = new Slider({
-      label: 'Gravity',
+      label: t('phoenix.settings.gravity'),
       value: this.settings.gravity,
       min: PARTICLE_CONFIG.gravityMin,
       max: PARTICLE_CONFIG.gravityMax,
@@ -255,7 +241,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Shrink offset slider (adjusts where the shrink pivot is)
     this.shrinkOffsetSlider = new Slider({
-      label: 'Shrink Offset',
+      label: t('phoenix.settings.shrinkOffset'),
       value: this.settings.shrinkOffset,
       min: PARTICLE_CONFIG.shrinkOffsetMin,
       max: PARTICLE_CONFIG.shrinkOffsetMax,
@@ -272,7 +258,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Big flame pivot offset slider (adjusts where big flame scales from)
     this.bigFlamePivotSlider = new Slider({
-      label: 'Flame Pivot',
+      label: t('phoenix.settings.flamePivot'),
       value: this.settings.bigFlamePivotOffset,
       min: PARTICLE_CONFIG.bigFlamePivotOffsetMin,
       max: PARTICLE_CONFIG.bigFlamePivotOffsetMax,
@@ -289,7 +275,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Pivot marker toggle (debug visualization)
     this.pivotMarkerToggle = new Toggle({
-      label: 'Show Pivot',
+      label: t('phoenix.settings.showPivot'),
       value: this.settings.showPivotMarker,
       horizontal: true,
       width: sliderWidth,
@@ -302,7 +288,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Spawn height range slider (how far up from pivot particles can spawn)
     this.spawnHeightRangeSlider = new Slider({
-      label: 'Spawn Range',
+      label: t('phoenix.settings.spawnRange'),
       value: this.settings.spawnHeightRange,
       min: PARTICLE_CONFIG.spawnHeightRangeMin,
       max: PARTICLE_CONFIG.spawnHeightRangeMax,
@@ -319,7 +305,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Angle threshold slider (0 = disabled, forces variety in angles)
     this.angleThresholdSlider = new Slider({
-      label: 'Angle Thresh',
+      label: t('phoenix.settings.angleThreshold'),
       value: this.settings.angleThreshold,
       min: PARTICLE_CONFIG.angleThresholdMin,
       max: PARTICLE_CONFIG.angleThresholdMax,
@@ -336,7 +322,7 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
 
     // Speed threshold slider (0 = disabled, forces variety in speeds)
     this.speedThresholdSlider = new Slider({
-      label: 'Speed Thresh',
+      label: t('phoenix.settings.speedThreshold'),
       value: this.settings.speedThreshold,
       min: PARTICLE_CONFIG.speedThresholdMin,
       max: PARTICLE_CONFIG.speedThresholdMax,
@@ -351,7 +337,20 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
       },
     });
 
-    // Layout: 5 rows grid + counter row
+    // Keep Settings toggle (persists the settings above across visits and reloads)
+    this.keepSettingsToggle = new Toggle({
+      label: t('common.keepSettings'),
+      value: this.settings.keepSettings,
+      horizontal: true,
+      width: sliderWidth,
+      fontSize,
+      onChange: value => {
+        this.settings.keepSettings = value;
+        this.callbacks.onKeepSettingsChange(value);
+      },
+    });
+
+    // Layout: 5 rows grid
     const cell1 = new Container();
     cell1.addChild(this.scaleSlider);
     this.content.addChild(cell1);
@@ -408,7 +407,11 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
     cell14.addChild(this.speedThresholdSlider!);
     this.content.addChild(cell14);
 
-    // Position controls in 5 rows x 3 cols grid + counter row
+    const cell15 = new Container();
+    cell15.addChild(this.keepSettingsToggle);
+    this.content.addChild(cell15);
+
+    // Position controls in 5 rows x 3 cols grid
     const cols = 3;
     const totalWidth = sliderWidth * cols + gapX * (cols - 1);
     const row1Y = 0;
@@ -416,7 +419,6 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
     const row3Y = gapY * 2;
     const row4Y = gapY * 3;
     const row5Y = gapY * 4;
-    const counterRowY = gapY * 4.7; // Smaller gap for counter row
 
     // Row 1: Big Flame, Flame Pivot, Particle Scale
     cell1.x = -totalWidth / 2;
@@ -450,41 +452,13 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
     cell10.x = -totalWidth / 2 + (sliderWidth + gapX) * 2;
     cell10.y = row4Y;
 
-    // Row 5: Angle Thresh, Speed Thresh
+    // Row 5: Angle Thresh, Speed Thresh, Keep Settings
     cell13.x = -totalWidth / 2;
     cell13.y = row5Y;
     cell14.x = -totalWidth / 2 + sliderWidth + gapX;
     cell14.y = row5Y;
-
-    // Sprite counter text (Row 6 - full width, left aligned)
-    const counterStyle = new TextStyle({
-      fontFamily: 'Arial, sans-serif',
-      fontSize: fontSize,
-      fontWeight: 'bold',
-      fill: 0x44ff44,
-      stroke: 0x000000,
-      strokeThickness: 2,
-    });
-    this.spriteCounterText = new Text('Sprites: 1/10 (0 fly + 0 land + 1 main)', counterStyle);
-    this.spriteCounterText.anchor.set(0, 0.5);
-    this.spriteCounterText.x = -totalWidth / 2;
-    this.spriteCounterText.y = counterRowY;
-    this.content.addChild(this.spriteCounterText);
-  }
-
-  /**
-   * Update the sprite counter display
-   * @param total - Total visible sprite instances (main flame + flying + landed)
-   * @param flying - Number of flying particles
-   * @param landed - Number of landed/shrinking particles
-   */
-  public updateSpriteCounter(total: number, flying: number, landed: number): void {
-    if (!this.spriteCounterText) return;
-
-    // Color code based on usage (green = good, yellow = high, red = at limit)
-    const color = total >= 10 ? 0xff4444 : total >= 8 ? 0xffaa00 : 0x44ff44;
-    this.spriteCounterText.style.fill = color;
-    this.spriteCounterText.text = `Sprites: ${total}/10 (${flying} fly + ${landed} land + 1 main)`;
+    cell15.x = -totalWidth / 2 + (sliderWidth + gapX) * 2;
+    cell15.y = row5Y;
   }
 
   /**
@@ -497,9 +471,11 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
     this.scale.set(1);
 
     // Place panel in the design top-left, under the floating back button.
-    // Back button uses ~10px padding and ~36px height; add a little extra separation.
-    const marginLeft = 10;
-    const marginTop = 10 + 36 + 10; // padding + buttonHeight + gap
+    // Back button uses ~10px padding (inside the safe area) and ~36px height;
+    // add a little extra separation.
+    const insets = this.context.getSafeInsets();
+    const marginLeft = 10 + insets.left;
+    const marginTop = 10 + 36 + 10 + insets.top; // padding + buttonHeight + gap
 
     // Scale for phones
     const isPhone = Math.min(screenW, screenH) < SCENE_LAYOUT.phoneBreakpoint;
@@ -516,12 +492,12 @@ export class PhoenixFlameSettingsPanel extends GameSettingsPanel {
     // Clamp to screen bounds so it stays attached to the screen (even on tiny screens)
     const padding = 8;
     targetX = Math.max(
-      padding + scaledBounds.width / 2,
-      Math.min(screenW - padding - scaledBounds.width / 2, targetX)
+      padding + insets.left + scaledBounds.width / 2,
+      Math.min(screenW - padding - insets.right - scaledBounds.width / 2, targetX)
     );
     targetY = Math.max(
-      padding + scaledBounds.height / 2,
-      Math.min(screenH - padding - scaledBounds.height / 2, targetY)
+      padding + insets.top + scaledBounds.height / 2,
+      Math.min(screenH - padding - insets.bottom - scaledBounds.height / 2, targetY)
     );
 
     this.x = targetX;
@@ -6,6 +6,8 @@ export { PhoenixFlameModeCreative } from './PhoenixFlameModeCreative';
 export { PhoenixFlameSettingsPanel } from './PhoenixFlameSettingsPanel';
 
 // Particle system components (Senior approach: object pooling)
+export { FlameSimulation } from './FlameSimulation';
+export type { FlameSimulationHooks, FlightParams, ParticleBody } from './FlameSimulation';
 export { FlyingParticlePool } from './FlyingParticlePool';
 export type { FlyingParticle } from './FlyingParticlePool';
 export { LandedSpriteManager } from './LandedSpriteManager';
@@ -1,20 +1,15 @@
 import { Container, Spritesheet } from 'pixi.js';
 
-import spritesheetJson from '../assets/sprites/ultimate-minimalist-card-asset/ace-of-shadows-spritesheet.json';
-import spritesheetPng from '../assets/sprites/ultimate-minimalist-card-asset/ace-of-shadows-spritesheet.png';
 import { ModeSelectionPanel } from '../components/ModeSelectionPanel';
 import { SELECTION_PANEL, SCENE_LAYOUT } from '../config/aceOfShadowsSettings';
 import type { Application } from '../core/Application';
+import type { GameDefinition, GameSceneHooks } from '../core/GameRegistry';
+import { t } from '../core/I18n';
 import { AceOfShadowsModeLiteral, AceOfShadowsModeCreative } from '../modes/aceOfShadows';
 import type { GameMode, GameModeContext } from '../modes/GameMode';
 
 import { BaseGameScene, type DeviceState } from './BaseGameScene';
 
-// Spritesheet assets
-
-/** Scene mode */
-type SceneMode = 'selection' | 'literal' | 'creative';
-
 /**
  * AceOfShadowsScene
  *
@@ -31,11 +26,11 @@ export class AceOfShadowsScene extends BaseGameScene {
   /** Loaded spritesheet (shared across modes) */
   private spritesheet: Spritesheet | null = null;
 
-  /** Current scene mode - tracked for debugging */
-  private currentMode: SceneMode = 'selection';
+  /** Current scene mode ('selection' or a sub-mode key) - tracked for debugging */
+  private currentMode = 'selection';
 
   /** Get current scene mode (for debugging/testing) */
-  get mode(): SceneMode {
+  get mode(): string {
     return this.currentMode;
   }
 
@@ -48,12 +43,14 @@ export class AceOfShadowsScene extends BaseGameScene {
   /** Selection screen container */
   private selectionContainer: Container | null = null;
 
-  constructor(app: Application, onBack: () => void) {
+  constructor(app: Application, game: GameDefinition, { onBack, onRouteChange }: GameSceneHooks) {
     super(app, {
-      title: 'Ace of Shadows',
+      game,
       onBack,
+      onRouteChange,
       contentPadding: SCENE_LAYOUT.screenPadding,
       maxScale: SCENE_LAYOUT.maxScale,
+      soundBank: 'ace-of-shadows',
     });
   }
 
@@ -82,12 +79,20 @@ export class AceOfShadowsScene extends BaseGameScene {
     }
   }
 
+  onAppPause(): void {
+    this.activeMode?.onPause?.();
+  }
+
+  onAppResume(): void {
+    this.activeMode?.onResume?.();
+  }
+
   onStop(): void {
-    super.onStop(); // Clears GSAP timeline in base class
+    super.onStop(); // Kills the scene's animations (the mode's included)
 
     // Stop active mode
     if (this.activeMode) {
-      this.activeMode.stop();
+      this.stopMode(this.activeMode);
       this.activeMode = null;
     }
 
@@ -109,24 +114,24 @@ export class AceOfShadowsScene extends BaseGameScene {
    */
   private buildSelectionScreen(): void {
     this.currentMode = 'selection';
+    this.setRoute(null);
     this.selectionContainer = new Container();
     this.gameContainer.addChild(this.selectionContainer);
 
     // Create mode selection panel using config and reusable component
     const panel = new ModeSelectionPanel({
-      title: 'Ace of Shadows',
-      description:
-        'Create 144 sprites stacked like cards in a deck. Every 1 second, the top card moves to a different stack with a 2-second animation.',
+      title: this.title,
+      description: this.description,
       buttons: [
         {
-          label: '📋 Literal Task',
-          backgroundColor: 0x2e7d32,
-          onClick: () => this.startMode('literal'),
+          label: t('common.literalTask'),
+          backgroundColor: 'modeLiteral',
+          onClick: () => this.transitionContent(() => this.startMode('literal')),
         },
         {
-          label: '✨ Creative Take',
-          backgroundColor: 0x7b1fa2,
-          onClick: () => this.startMode('creative'),
+          label: t('common.creativeTake'),
+          backgroundColor: 'modeCreative',
+          onClick: () => this.transitionContent(() => this.startMode('creative')),
         },
       ],
       // Use centralized config values
@@ -152,6 +157,17 @@ export class AceOfShadowsScene extends BaseGameScene {
     this.requestLayout();
   }
 
+  /**
+   * Rebuild the selection panel in the new locale
+   * (a running mode keeps its text; its settings panel relabels itself)
+   */
+  protected override onLocaleChange(): void {
+    if (this.currentMode !== 'selection' || !this.selectionContainer) return;
+    this.selectionContainer.destroy({ children: true });
+    this.selectionContainer = null;
+    this.buildSelectionScreen();
+  }
+
   // ============================================================
   // Mode Management
   // ============================================================
@@ -159,8 +175,9 @@ export class AceOfShadowsScene extends BaseGameScene {
   /**
    * Start the selected mode
    */
-  private startMode(mode: 'literal' | 'creative'): void {
+  protected startMode(mode: string, params: Record<string, string> = {}): void {
     this.currentMode = mode;
+    this.setRoute(mode, params);
 
     // Remove selection screen
     if (this.selectionContainer) {
@@ -173,7 +190,7 @@ export class AceOfShadowsScene extends BaseGameScene {
     this.gameContainer.position.set(0);
 
     // Enable sub-mode navigation (hides menu button, shows back button)
-    this.enableSubModeNavigation(() => this.returnToSelection());
+    this.enableSubModeNavigation(() => this.transitionContent(() => this.returnToSelection()));
 
     // Create container for mode content
     this.modeContainer = new Container();
@@ -195,16 +212,17 @@ export class AceOfShadowsScene extends BaseGameScene {
   /**
    * Return to the selection screen from a sub-mode
    */
-  private returnToSelection(): void {
+  protected returnToSelection(): void {
     // Stop active mode
     if (this.activeMode) {
-      this.activeMode.stop();
+      this.stopMode(this.activeMode);
       this.activeMode = null;
     }
 
-    // Clean up mode container
+    // Clean up mode container (and the asset bundles the mode loaded)
     if (this.modeContainer) {
       this.modeContainer.destroy({ children: true });
+      this.releaseAssets(this.modeContainer);
       this.modeContainer = null;
     }
 
@@ -225,11 +243,17 @@ export class AceOfShadowsScene extends BaseGameScene {
    */
   private createModeContext(): GameModeContext {
     const self = this;
+    const modeContainer = this.modeContainer!;
 
     return {
-      container: this.modeContainer!,
+      container: modeContainer,
       spritesheet: this.spritesheet!,
       gameContainer: this.gameContainer,
+      assets: this.app.assets,
+      animations: this.createModeAnimations(),
+
+      // Mode bundles belong to the mode container, released when the mode is left
+      loadBundle: (name, title) => self.loadAssets(name, title, modeContainer),
 
       getDeviceState: () => self.getDeviceState(),
 
@@ -242,7 +266,26 @@ export class AceOfShadowsScene extends BaseGameScene {
         height: self.app.height || window.innerHeight,
       }),
 
-      generateTexture: graphics => self.app.pixi.renderer.generateTexture(graphics),
+      getSafeInsets: () => self.getSafeInsets(),
+
+      generateTexture: graphics => self.app.generatedTextures.render(graphics),
+
+      canvasTexture: canvas => self.app.generatedTextures.fromCanvas(canvas),
+
+      showMessage: options => self.showMessage(options),
+
+      getRouteParams: () => ({ ...self.routeParams }),
+
+      setRouteParams: params => self.setRoute(self.currentMode, params),
+
+      registerMetric: metric => self.app.perfHud.registerMetric(metric),
+
+      onAction: (action, handler) => self.onAction(action, handler),
+      onQualityChange: listener => self.onQualityChange(listener),
+      random: stream => self.random(stream),
+
+      playSound: (name, options) => self.playSound(name, options),
+      announce: message => self.announce(message),
     };
   }
 
@@ -251,16 +294,12 @@ export class AceOfShadowsScene extends BaseGameScene {
   // ============================================================
 
   /**
-   * Load the spritesheet and set up background
-   * Uses base class caching to avoid re-parsing on scene re-entry
+   * Load the spritesheet bundle and set up background
+   * (the shared AssetLoader keeps it parsed across scene re-entries)
    */
   private async loadSpritesheetAndBackground(): Promise<void> {
-    // Use base class spritesheet loader with caching
-    this.spritesheet = await this.loadSpritesheet(
-      spritesheetJson,
-      spritesheetPng,
-      'ace-of-shadows'
-    );
+    await this.loadAssets('ace-of-shadows', t('ace.loading'));
+    this.spritesheet = this.app.assets.getSpritesheet('ace-of-shadows');
 
     // Set background from spritesheet using base class method
     const bgTexture = this.spritesheet.textures['castle-bg.png'];
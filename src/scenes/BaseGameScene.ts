@@ -1,25 +1,39 @@
-import gsap from 'gsap';
-import {
-  Container,
-  Sprite,
-  Assets,
-  Spritesheet,
-  Texture,
-  BlurFilter,
-  Text,
-  TextStyle,
-  Graphics,
-  type ISpritesheetData,
-} from 'pixi.js';
+import { Container, Sprite, Texture, BlurFilter, Text, TextStyle, Graphics } from 'pixi.js';
 
 import { Button } from '../components/Button';
-import { SCENE_LAYOUT } from '../config/sharedSettings';
+import { LoadingScreen } from '../components/LoadingScreen';
+import {
+  RANDOM,
+  SCENE_LAYOUT,
+  SCENE_TRANSITIONS,
+  type ScreenPadding,
+} from '../config/sharedSettings';
+import { AnimationScope } from '../core/AnimationScope';
 import type { Application } from '../core/Application';
+import { ErrorHandler } from '../core/ErrorHandler';
+import type { GameDefinition } from '../core/GameRegistry';
+import { i18n, t } from '../core/I18n';
+import type { ActionHandler, InputAction } from '../core/InputManager';
+import type { QualityListener } from '../core/QualityManager';
+import { createSeed, Random } from '../core/Random';
+import { rotateInsetsCounterClockwise, type SafeAreaInsets } from '../core/SafeArea';
 import type { Scene } from '../core/SceneManager';
+import type { PlayOptions } from '../core/SoundManager';
+import { themeManager, type ThemeOverrides } from '../core/ThemeManager';
+import type { GameMode } from '../modes/GameMode';
+
+import { MessageOverlayScene, type MessageOverlayOptions } from './MessageOverlayScene';
+
+/**
+ * Reports a scene's sub-mode route.
+ * @param mode Sub-mode key (e.g. 'creative'), or null for the selection screen
+ * @param params Route params of the sub-mode (e.g. { layout: 'crown' })
+ */
+export type SubModeRouteListener = (mode: string | null, params: Record<string, string>) => void;
 
 export interface BaseGameSceneOptions {
-  /** Scene title (shown in browser tab) */
-  title: string;
+  /** Registry entry of the game: title (browser tab), description and sub-modes */
+  game: GameDefinition;
   /** Callback when back button is clicked */
   onBack: () => void;
   /** Optional fullscreen background image URL */
@@ -38,6 +52,12 @@ export interface BaseGameSceneOptions {
    * - 'any' (default): no rotation, adapt to current orientation
    */
   preferredOrientation?: 'landscape' | 'portrait' | 'any';
+  /** Called whenever the user moves between sub-modes (keeps the URL in sync) */
+  onRouteChange?: SubModeRouteListener;
+  /** Sound bank played by playSound() (see config/soundBanks.ts) */
+  soundBank?: string;
+  /** Theme tokens this game replaces while it runs (ignored by fixed themes) */
+  theme?: ThemeOverrides;
 }
 
 /** Design constants for game scenes */
@@ -55,7 +75,8 @@ const SCENE_DESIGN = {
  * Abstract base class for game scenes. Provides:
  * - Fullscreen background image (optional, covers entire screen)
  * - Browser tab title updates to game name
- * - Back to menu button (floating, top-left)
+ * - Back to menu button (floating, top-left), also on the 'back' key
+ * - Relabels its chrome on locale change (subclasses refresh the rest in onLocaleChange)
  * - Responsive content container that scales to fit
  *
  * Extend this class and override buildContent() to add game logic.
@@ -104,12 +125,21 @@ export abstract class BaseGameScene implements Scene {
   /** Sub-mode back button (for scenes with multiple modes) */
   protected subModeBackButton: Button | null = null;
 
+  /** Floating mute toggle (next to whichever back button is showing) */
+  private muteButton: Button | null = null;
+
+  /** Stops the mute button following SoundManager changes */
+  private unsubscribeSound: (() => void) | null = null;
+
+  /** Stops relabeling on locale changes */
+  private unsubscribeLocale: (() => void) | null = null;
+
+  /** Removes this game's theme overrides (set while the scene runs) */
+  private removeThemeOverrides: (() => void) | null = null;
+
   /** Original document title (to restore on exit) */
   private originalTitle: string;
 
-  /** Static cache for spritesheets (persists across scene instances) */
-  private static spritesheetCache = new Map<string, Spritesheet>();
-
   /** Track device state for responsive rebuild detection */
   private lastDeviceState: DeviceState | null = null;
 
@@ -130,6 +160,39 @@ export abstract class BaseGameScene implements Scene {
   /** Whether content is currently rotated for orientation preference */
   private isRotatedForOrientation = false;
 
+  /** Sub-mode of the last reported route (null = selection screen) */
+  private routeMode: string | null = null;
+
+  /** Params of the last reported route (e.g. { layout: 'crown' }) */
+  protected routeParams: Record<string, string> = {};
+
+  /** Owners (this scene, sub-mode containers) holding asset bundles */
+  private assetOwners = new Set<object>();
+
+  /** Where the 'back' key goes while a sub-mode is open (set by enableSubModeNavigation) */
+  private subModeBack: (() => void) | null = null;
+
+  /** Keyboard action subscriptions, dropped when the scene stops */
+  private actionSubscriptions = new Set<() => void>();
+
+  /** Quality listeners of this scene and its modes (dropped in onStop) */
+  private qualitySubscriptions = new Set<() => void>();
+
+  /** Randomness of the running sub-mode (reseeded whenever a sub-mode starts) */
+  private randomRun: Random | null = null;
+
+  /** Removes the seed row from the perf HUD */
+  private removeSeedMetric: (() => void) | null = null;
+
+  /**
+   * Animations of this scene: paused under overlays, killed in onStop.
+   * Sub-modes get a child scope (see createModeAnimations).
+   */
+  protected readonly animations = new AnimationScope();
+
+  /** Animation scope of the running sub-mode (GameModeContext.animations) */
+  private modeAnimations: AnimationScope | null = null;
+
   constructor(app: Application, options: BaseGameSceneOptions) {
     this.app = app;
     this.options = options;
@@ -138,6 +201,9 @@ export abstract class BaseGameScene implements Scene {
     this.container = new Container();
     this.rotationWrapper = new Container();
     this.gameContainer = new Container();
+    // Named for the scene inspector
+    this.rotationWrapper.name = 'rotationWrapper';
+    this.gameContainer.name = 'gameContainer';
     this.rotationWrapper.addChild(this.gameContainer);
   }
 
@@ -150,16 +216,37 @@ export abstract class BaseGameScene implements Scene {
   }
 
   /**
-   * Get responsive padding based on screen size.
+   * Get responsive padding of the physical screen edges, based on screen size.
    * Uses CSS pixels (window.innerWidth/Height) for consistent detection across devices.
    * Single source of truth: SCENE_LAYOUT.largePaddingBreakpoint.
+   *
+   * The padding is measured from the safe area, so content keeps the same
+   * breathing room next to a notch or home indicator as next to a plain edge.
    */
-  private getResponsivePadding(): { left: number; right: number; top: number; bottom: number } {
+  private getResponsivePadding(): ScreenPadding {
     const screenW = window.innerWidth;
     const screenH = window.innerHeight;
     const useCompactPadding = Math.min(screenW, screenH) < SCENE_LAYOUT.largePaddingBreakpoint;
+    const padding = useCompactPadding
+      ? SCENE_LAYOUT.screenPaddingPhone
+      : SCENE_LAYOUT.screenPadding;
+    const insets = this.app.safeArea.insets;
+
+    return {
+      left: padding.left + insets.left,
+      right: padding.right + insets.right,
+      top: padding.top + insets.top,
+      bottom: padding.bottom + insets.bottom,
+    };
+  }
 
-    return useCompactPadding ? SCENE_LAYOUT.screenPaddingPhone : SCENE_LAYOUT.screenPadding;
+  /**
+   * Safe-area insets of the content's edges: the physical ones, mapped to the
+   * content's sides while it is rotated for preferredOrientation.
+   */
+  protected getSafeInsets(): SafeAreaInsets {
+    const insets = this.app.safeArea.insets;
+    return this.isRotatedForOrientation ? rotateInsetsCounterClockwise(insets) : insets;
   }
 
   /**
@@ -202,15 +289,16 @@ export abstract class BaseGameScene implements Scene {
 
     // Create sub-mode back button
     this.subModeBackButton = new Button({
-      label: '← Back',
+      label: t('common.back'),
       width: 80,
       height: 36,
-      backgroundColor: 0x000000,
+      backgroundColor: 'panel',
       fontSize: 14,
       radius: 8,
       onClick: onBack,
     });
     this.subModeBackButton.alpha = 0.4;
+    this.subModeBack = onBack;
 
     // Hover effects
     this.subModeBackButton.on('pointerover', () => {
@@ -231,6 +319,7 @@ export abstract class BaseGameScene implements Scene {
    * Call this when returning to the mode selection screen.
    */
   protected disableSubModeNavigation(): void {
+    this.subModeBack = null;
     if (this.subModeBackButton) {
       this.subModeBackButton.destroy();
       this.subModeBackButton = null;
@@ -239,39 +328,277 @@ export abstract class BaseGameScene implements Scene {
     if (this.backButton) {
       this.backButton.visible = true;
     }
+    this.positionBackButton();
+  }
+
+  /**
+   * Swap sub-mode content (e.g. selection screen → Literal Task) behind the
+   * shared sub-mode transition. Input is blocked until the effect finishes.
+   * @param swap Tears down the current content and builds the next one
+   */
+  protected transitionContent(swap: () => void | Promise<void>): Promise<void> {
+    return this.app.scenes.transition(this, swap, SCENE_TRANSITIONS.subMode);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // ROUTING
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Open a sub-mode from a route (deep link or browser back/forward),
+   * behind the sub-mode transition
+   * @param mode Sub-mode key, or null for the selection screen
+   * @param params Route params handed to the sub-mode
+   */
+  async openRoute(mode: string | null, params: Record<string, string>): Promise<void> {
+    const target = mode !== null && this.options.game.modes.includes(mode) ? mode : null;
+    if (this.isCurrentRoute(target, target ? params : {})) return;
+
+    if (target === null) {
+      if (this.routeMode === null) {
+        // Unknown sub-mode or stray params - just report the canonical route
+        this.setRoute(null);
+        return;
+      }
+      await this.transitionContent(() => this.returnToSelection());
+      return;
+    }
+
+    await this.transitionContent(async () => {
+      if (this.routeMode !== null) await this.returnToSelection();
+      await this.startMode(target, params);
+    });
+  }
+
+  /**
+   * Replace the selection screen with a sub-mode (one of the game's modes)
+   * @param params Route params handed to the sub-mode
+   */
+  protected abstract startMode(mode: string, params?: Record<string, string>): void | Promise<void>;
+
+  /**
+   * Stop the running sub-mode and rebuild the selection screen
+   */
+  protected abstract returnToSelection(): void | Promise<void>;
+
+  /**
+   * Record the current sub-mode and report it to onRouteChange.
+   * Call whenever the selection screen or a sub-mode is shown.
+   */
+  protected setRoute(mode: string | null, params: Record<string, string> = {}): void {
+    const seedParam = RANDOM.routeParam;
+    if (mode !== this.routeMode) {
+      if (mode === null) this.clearRandom();
+      else this.seedRandom(params[seedParam]);
+    } else if (mode !== null && this.routeParams[seedParam] && !(seedParam in params)) {
+      // A seed from the URL stays in it while the sub-mode runs, so the link still replays the run
+      params = { ...params, [seedParam]: this.routeParams[seedParam] };
+    }
+
+    this.routeMode = mode;
+    this.routeParams = { ...params };
+    this.options.onRouteChange?.(mode, { ...params });
+  }
+
+  /**
+   * Whether the given route is already the one being shown
+   */
+  protected isCurrentRoute(mode: string | null, params: Record<string, string>): boolean {
+    const keys = Object.keys(params);
+    return (
+      mode === this.routeMode &&
+      keys.length === Object.keys(this.routeParams).length &&
+      keys.every(key => this.routeParams[key] === params[key])
+    );
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // OVERLAYS
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Push a message overlay above this scene (the scene is paused underneath).
+   * @param options Overlay content and close behaviour
+   * @returns Resolves once the overlay has been closed and popped
+   */
+  protected showMessage(options: MessageOverlayOptions): Promise<void> {
+    return new Promise(resolve => {
+      const overlay = new MessageOverlayScene(this.app, options, resolve);
+      void this.app.scenes.push(overlay, SCENE_TRANSITIONS.overlay);
+    });
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // KEYBOARD INPUT
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Subscribe to a keyboard action for as long as this scene runs.
+   * The handler only fires while the scene is on top (not under an overlay);
+   * otherwise the key is passed on.
+   * @returns Unsubscribe function (remaining subscriptions are dropped in onStop)
+   */
+  protected onAction(action: InputAction, handler: ActionHandler): () => void {
+    const unsubscribe = this.app.input.on(action, () => {
+      if (this.app.scenes.current !== this) return false;
+      return handler();
+    });
+
+    const remove = (): void => {
+      unsubscribe();
+      this.actionSubscriptions.delete(remove);
+    };
+    this.actionSubscriptions.add(remove);
+    return remove;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // ANIMATION
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Animation scope for a sub-mode that is starting (the previous mode's scope is disposed)
+   */
+  protected createModeAnimations(): AnimationScope {
+    this.modeAnimations?.dispose();
+    this.modeAnimations = this.animations.createChild();
+    return this.modeAnimations;
+  }
+
+  /**
+   * Stop a sub-mode. Its animations are disposed first, so none of them runs
+   * on the objects stop() destroys.
+   */
+  protected stopMode(mode: GameMode): void {
+    this.modeAnimations?.dispose();
+    this.modeAnimations = null;
+    mode.stop();
+  }
+
+  /** An overlay covers the scene: its animations wait underneath */
+  onPause(): void {
+    this.animations.pause();
+  }
+
+  onResume(): void {
+    this.animations.resume();
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // QUALITY
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Follow the rendering quality tier for as long as this scene runs.
+   * The listener is called right away with the current profile, then on every change.
+   * @returns Unsubscribe function (remaining subscriptions are dropped in onStop)
+   */
+  protected onQualityChange(listener: QualityListener): () => void {
+    const unsubscribe = this.app.quality.subscribe(listener);
+    listener(this.app.quality.profile, this.app.quality.tier);
+
+    const remove = (): void => {
+      unsubscribe();
+      this.qualitySubscriptions.delete(remove);
+    };
+    this.qualitySubscriptions.add(remove);
+    return remove;
   }
 
   // ─────────────────────────────────────────────────────────────────────────────
-  // SPRITESHEET LOADING
+  // RANDOMNESS
   // ─────────────────────────────────────────────────────────────────────────────
 
   /**
-   * Load a spritesheet with automatic caching.
-   * Cached spritesheets persist across scene instances to avoid re-parsing.
-   * @param jsonData The spritesheet JSON data (imported)
-   * @param pngPath The spritesheet PNG path (imported)
-   * @param cacheKey Unique key for caching (e.g., 'ace-of-shadows')
-   * @returns The parsed Spritesheet
-   */
-  protected async loadSpritesheet(
-    jsonData: ISpritesheetData,
-    pngPath: string,
-    cacheKey: string
-  ): Promise<Spritesheet> {
-    // Return cached if available
-    if (BaseGameScene.spritesheetCache.has(cacheKey)) {
-      return BaseGameScene.spritesheetCache.get(cacheKey)!;
+   * Named random stream of the running sub-mode (see config/sharedSettings.ts RANDOM).
+   * Every sub-mode run is seeded when its route is set; the seed shows in the perf HUD.
+   */
+  protected random(stream: string): Random {
+    if (!this.randomRun) this.seedRandom();
+    return this.randomRun!.stream(stream);
+  }
+
+  /**
+   * Start a run from the given seed, the configured one, or a fresh one
+   */
+  private seedRandom(seed?: string): void {
+    this.clearRandom();
+    const run = new Random(seed || RANDOM.seed || createSeed());
+    this.randomRun = run;
+    this.removeSeedMetric = this.app.perfHud.registerMetric({
+      label: 'Seed',
+      read: () => run.seed,
+    });
+    if (import.meta.env.DEV)
+      console.log(`Seed: ${run.seed} (replay with ?${RANDOM.routeParam}=${run.seed})`);
+  }
+
+  private clearRandom(): void {
+    this.removeSeedMetric?.();
+    this.removeSeedMetric = null;
+    this.randomRun = null;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // AUDIO
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Play a sound from this scene's bank (no-op when the scene has none)
+   * @param name Sound name in the bank
+   */
+  protected playSound(name: string, options?: PlayOptions): void {
+    if (!this.options.soundBank) return;
+    this.app.sound.play(this.options.soundBank, name, options);
+  }
+
+  /**
+   * Read a message to screen reader users (e.g. a dialogue line)
+   */
+  protected announce(message: string): void {
+    this.app.a11y.announce(message);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // ASSET LOADING
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Load an asset bundle (see config/assetManifest.ts) behind the shared loading screen.
+   * The screen is added on top of the stage, so it also shows while this scene is
+   * still hidden by its entrance transition. Loaded bundles resolve without UI.
+   * @param bundle Bundle name from the manifest
+   * @param title Loading screen headline
+   * @param owner Holds the bundle until releaseAssets(owner) (defaults to the scene,
+   *   which releases it on destroy)
+   */
+  protected async loadAssets(bundle: string, title: string, owner: object = this): Promise<void> {
+    this.assetOwners.add(owner);
+    if (this.app.assets.isLoaded(bundle)) {
+      await this.app.assets.loadBundle(bundle, owner);
+      return;
     }
 
-    // Load and parse
-    const texture = await Assets.load(pngPath);
-    const spritesheet = new Spritesheet(texture, jsonData);
-    await spritesheet.parse();
+    const loadingScreen = new LoadingScreen({ title });
+    loadingScreen.position.set(this.app.width / 2, this.app.height / 2);
+    loadingScreen.resize(this.app.width, this.app.height);
+    this.app.pixi.stage.addChild(loadingScreen);
 
-    // Cache for future use
-    BaseGameScene.spritesheetCache.set(cacheKey, spritesheet);
+    try {
+      await this.app.assets.loadBundle(bundle, owner, progress =>
+        loadingScreen.setProgress(progress)
+      );
+    } finally {
+      loadingScreen.destroy({ children: true });
+    }
+  }
 
-    return spritesheet;
+  /**
+   * Let go of the bundles loaded for an owner (e.g. a sub-mode that was left)
+   */
+  protected releaseAssets(owner: object): void {
+    this.app.assets.release(owner);
+    this.assetOwners.delete(owner);
   }
 
   // ─────────────────────────────────────────────────────────────────────────────
@@ -294,11 +621,12 @@ export abstract class BaseGameScene implements Scene {
     this.background.anchor.set(0.5);
     this.backgroundOptions = options ?? {};
 
-    // Apply blur if specified
+    // Apply blur if specified (off on lower quality tiers)
     if (options?.blur) {
       const blurFilter = new BlurFilter();
       blurFilter.blur = options.blur;
       blurFilter.quality = 4;
+      blurFilter.enabled = this.app.quality.profile.blur;
       this.background.filters = [blurFilter];
     }
 
@@ -309,7 +637,12 @@ export abstract class BaseGameScene implements Scene {
 
   async onStart(): Promise<void> {
     // Update browser tab title
-    document.title = this.options.title;
+    document.title = this.title;
+
+    // Game theme first, so everything below is drawn with it
+    if (this.options.theme) {
+      this.removeThemeOverrides = themeManager.applyOverrides(this.options.theme);
+    }
 
     // Build in order: background → rotationWrapper (contains gameContainer) → UI
     this.buildBackground();
@@ -319,23 +652,30 @@ export abstract class BaseGameScene implements Scene {
     try {
       await this.buildContent();
     } catch (error) {
-      console.error(`[${this.options.title}] Failed to build content:`, error);
-      this.showErrorState(error instanceof Error ? error.message : 'Failed to load content');
+      ErrorHandler.handle(error, 'scene-build', { scene: this.options.game.key });
+      this.showErrorState(error instanceof Error ? error.message : t('common.loadFailed'));
       // Continue with layout so back button is accessible
     }
 
     this.buildBackButton();
+    this.buildMuteButton();
+    // Same target as whichever back button is showing
+    this.onAction('back', () => (this.subModeBack ?? this.options.onBack)());
+    this.onQualityChange(({ blur }) => {
+      for (const filter of this.background?.filters ?? []) filter.enabled = blur;
+    });
+    this.unsubscribeLocale = i18n.subscribe(() => this.relabel());
     this.layoutScene();
     // Must be AFTER layoutScene() because layoutScene decides whether we're rotated.
     this.positionBackButton();
-    this.positionFPSCounter();
+    this.positionPerfHUD();
   }
 
   onResize(): void {
     this.layoutBackground();
     this.layoutScene();
     this.positionBackButton();
-    this.positionFPSCounter();
+    this.positionPerfHUD();
 
     // Detect device state changes (phone/tablet/desktop, portrait/landscape)
     const currentState = this.getDeviceState();
@@ -412,10 +752,10 @@ export abstract class BaseGameScene implements Scene {
    */
   private buildBackButton(): void {
     this.backButton = new Button({
-      label: '← Menu',
+      label: t('common.menu'),
       width: 100,
       height: 36,
-      backgroundColor: 0x000000,
+      backgroundColor: 'panel',
       fontSize: 14,
       radius: 8,
       onClick: this.options.onBack,
@@ -434,6 +774,37 @@ export abstract class BaseGameScene implements Scene {
     this.positionBackButton();
   }
 
+  /**
+   * Build the floating mute toggle (placed by positionBackButton)
+   */
+  private buildMuteButton(): void {
+    const muteButton = new Button({
+      label: muteLabel(this.app.sound.muted),
+      accessibleLabel: muteAccessibleLabel(this.app.sound.muted),
+      width: 44,
+      height: 36,
+      backgroundColor: 'panel',
+      fontSize: 16,
+      radius: 8,
+      onClick: () => {
+        this.app.sound.toggleMute();
+        if (!this.app.sound.muted) this.app.sound.play('ui', 'click');
+      },
+    });
+    muteButton.alpha = 0.4;
+    muteButton.on('pointerover', () => (muteButton.alpha = 0.9));
+    muteButton.on('pointerout', () => (muteButton.alpha = 0.4));
+    this.muteButton = muteButton;
+
+    // Mute can also change from elsewhere (another scene, a settings panel)
+    this.unsubscribeSound = this.app.sound.subscribe(() => {
+      muteButton.setLabel(muteLabel(this.app.sound.muted));
+      muteButton.setAccessibleLabel(muteAccessibleLabel(this.app.sound.muted));
+    });
+
+    this.container.addChild(muteButton);
+  }
+
   /**
    * Position back buttons in the physical top-left corner.
    *
@@ -441,16 +812,17 @@ export abstract class BaseGameScene implements Scene {
    * - Rotate with the game (same angle as the rotated content)
    * - Move to the corresponding *effective-landscape* corner
    *
-   * For our 90° RIGHT (clockwise) rotation, the effective landscape top-left corner
+   * For our 90° counter-clockwise rotation, the effective landscape top-left corner
    * maps to the physical BOTTOM-left corner. So the back button should sit at
    * physical bottom-left when rotated.
    *
    * Note: `Button` is centered around its (x,y), so we place it using bounds.
+   * The corner is inset by the safe area (notch, home indicator).
    */
   private positionBackButton(): void {
     const screenW = this.app.width || window.innerWidth;
     const screenH = this.app.height || window.innerHeight;
-    const padding = 10;
+    const inset = cornerInsets(10, this.app.safeArea.insets);
 
     const desiredRotation = this.isRotatedForOrientation ? this.rotationWrapper.rotation : 0;
 
@@ -461,8 +833,8 @@ export abstract class BaseGameScene implements Scene {
       btn.position.set(0, 0);
       const b = btn.getBounds();
 
-      const desiredX = padding;
-      const desiredY = corner === 'topLeft' ? padding : screenH - padding - b.height;
+      const desiredX = inset.left;
+      const desiredY = corner === 'topLeft' ? inset.top : screenH - inset.bottom - b.height;
 
       // Move so its bounds top-left matches the desired corner position.
       btn.x += desiredX - b.x;
@@ -472,10 +844,12 @@ export abstract class BaseGameScene implements Scene {
       const b2 = btn.getBounds();
       let dx = 0;
       let dy = 0;
-      if (b2.x < padding) dx += padding - b2.x;
-      if (b2.y < padding) dy += padding - b2.y;
-      if (b2.x + b2.width > screenW - padding) dx -= b2.x + b2.width - (screenW - padding);
-      if (b2.y + b2.height > screenH - padding) dy -= b2.y + b2.height - (screenH - padding);
+      if (b2.x < inset.left) dx += inset.left - b2.x;
+      if (b2.y < inset.top) dy += inset.top - b2.y;
+      if (b2.x + b2.width > screenW - inset.right) dx -= b2.x + b2.width - (screenW - inset.right);
+      if (b2.y + b2.height > screenH - inset.bottom) {
+        dy -= b2.y + b2.height - (screenH - inset.bottom);
+      }
       if (dx !== 0 || dy !== 0) {
         btn.x += dx;
         btn.y += dy;
@@ -488,53 +862,65 @@ export abstract class BaseGameScene implements Scene {
       : 'topLeft';
     if (this.backButton) placeInCorner(this.backButton, corner);
     if (this.subModeBackButton) placeInCorner(this.subModeBackButton, corner);
+
+    // Mute toggle sits right after the visible back button, along its (rotated) x axis
+    const back = this.subModeBackButton ?? this.backButton;
+    if (this.muteButton && back) {
+      const gap = 8;
+      const offset = back.width / 2 + gap + this.muteButton.width / 2;
+      this.muteButton.rotation = desiredRotation;
+      this.muteButton.position.set(
+        back.x + Math.cos(desiredRotation) * offset,
+        back.y + Math.sin(desiredRotation) * offset
+      );
+    }
   }
 
   /**
-   * Position FPS counter DOM element.
+   * Position the performance HUD DOM element.
    *
-   * When the scene is auto-rotated, the FPS counter should:
+   * When the scene is auto-rotated, the HUD should:
    * - Rotate with the game (same direction)
    * - Move to the corresponding *effective-landscape* top-right corner
    *
-   * For our 90° RIGHT (clockwise) rotation, the effective landscape top-right corner
-   * maps to the physical TOP-left corner. So FPS should sit at physical top-left when rotated.
+   * For our 90° counter-clockwise rotation, the effective landscape top-right corner
+   * maps to the physical TOP-left corner. So the HUD should sit at physical top-left when rotated.
    */
-  private positionFPSCounter(): void {
-    const fpsElement = document.getElementById('fps-counter');
-    if (!fpsElement) return;
+  private positionPerfHUD(): void {
+    const hudElement = document.getElementById('perf-hud');
+    if (!hudElement) return;
 
-    const padding = 10;
+    const inset = cornerInsets(10, this.app.safeArea.insets);
 
     if (this.isRotatedForOrientation) {
       // Place at physical top-left, rotate with the game (-90°).
-      let left = padding;
-      let top = padding;
-      fpsElement.style.left = `${left}px`;
-      fpsElement.style.top = `${top}px`;
-      fpsElement.style.right = 'auto';
-      fpsElement.style.bottom = 'auto';
-      fpsElement.style.transform = 'rotate(-90deg)';
-      fpsElement.style.transformOrigin = 'top left';
+      let left = inset.left;
+      let top = inset.top;
+      hudElement.style.left = `${left}px`;
+      hudElement.style.top = `${top}px`;
+      hudElement.style.right = 'auto';
+      hudElement.style.bottom = 'auto';
+      hudElement.style.transform = 'rotate(-90deg)';
+      hudElement.style.transformOrigin = 'top left';
 
       // Clamp in-bounds based on actual DOM rect after transform
-      const rect = fpsElement.getBoundingClientRect();
+      const rect = hudElement.getBoundingClientRect();
       const screenW = window.innerWidth;
       const screenH = window.innerHeight;
-      if (rect.left < padding) left += padding - rect.left;
-      if (rect.top < padding) top += padding - rect.top;
-      if (rect.right > screenW - padding) left -= rect.right - (screenW - padding);
-      if (rect.bottom > screenH - padding) top -= rect.bottom - (screenH - padding);
-      fpsElement.style.left = `${left}px`;
-      fpsElement.style.top = `${top}px`;
+      if (rect.left < inset.left) left += inset.left - rect.left;
+      if (rect.top < inset.top) top += inset.top - rect.top;
+      if (rect.right > screenW - inset.right) left -= rect.right - (screenW - inset.right);
+      if (rect.bottom > screenH - inset.bottom) top -= rect.bottom - (screenH - inset.bottom);
+      hudElement.style.left = `${left}px`;
+      hudElement.style.top = `${top}px`;
     } else {
       // Default: physical top-right, no rotation (matches CSS)
-      fpsElement.style.top = `${padding}px`;
-      fpsElement.style.right = `${padding}px`;
-      fpsElement.style.left = 'auto';
-      fpsElement.style.bottom = 'auto';
-      fpsElement.style.transform = 'none';
-      fpsElement.style.transformOrigin = '';
+      hudElement.style.top = `${inset.top}px`;
+      hudElement.style.right = `${inset.right}px`;
+      hudElement.style.left = 'auto';
+      hudElement.style.bottom = 'auto';
+      hudElement.style.transform = 'none';
+      hudElement.style.transformOrigin = '';
     }
   }
 
@@ -559,7 +945,7 @@ export abstract class BaseGameScene implements Scene {
   /**
    * Scale and position the game container to fit available space.
    * Uses explicit designBounds (set via setDesignBounds) for consistent layout.
-   * Uses getResponsivePadding() for dynamic phone/desktop padding.
+   * Uses getResponsivePadding() for dynamic phone/desktop padding (safe area included).
    * Handles orientation rotation when preferredOrientation is set.
    */
   private layoutScene(): void {
@@ -579,8 +965,8 @@ export abstract class BaseGameScene implements Scene {
     this.isRotatedForOrientation = needsRotation;
 
     if (needsRotation) {
-      // Rotate the wrapper 90° to the RIGHT (clockwise)
-      // (Pixi rotation is CCW-positive, so clockwise is negative)
+      // Rotate the wrapper 90° counter-clockwise
+      // (Pixi's y axis points down, so positive rotation is clockwise on screen)
       this.rotationWrapper.rotation = -Math.PI / 2;
 
       // Keep the rotated content fully on-screen:
@@ -600,12 +986,14 @@ export abstract class BaseGameScene implements Scene {
 
     // Use dynamic responsive padding (phone vs desktop/tablet)
     // This is the single source of truth for device-specific padding
-    const p = this.getResponsivePadding();
+    // When rotated, map the physical edges to the content's (a notch on the
+    // physical top becomes the rotated content's right side)
+    const physicalPadding = this.getResponsivePadding();
+    const p = needsRotation ? rotateInsetsCounterClockwise(physicalPadding) : physicalPadding;
 
     // Available space (fullscreen with per-side padding)
-    // When rotated, swap padding left/right with top/bottom conceptually
-    const availableW = screenW - (needsRotation ? p.top + p.bottom : p.left + p.right);
-    const availableH = screenH - (needsRotation ? p.left + p.right : p.top + p.bottom);
+    const availableW = screenW - p.left - p.right;
+    const availableH = screenH - p.top - p.bottom;
 
     // Use explicit design bounds (never getLocalBounds - that's inconsistent)
     const { x: boundsX, y: boundsY, width: contentW, height: contentH } = this.designBounds;
@@ -622,12 +1010,38 @@ export abstract class BaseGameScene implements Scene {
     const scaledW = contentW * scale;
     const scaledH = contentH * scale;
 
-    // Padding offsets (swap when rotated)
-    const padLeft = needsRotation ? p.top : p.left;
-    const padTop = needsRotation ? p.left : p.top;
+    this.gameContainer.x = p.left + (availableW - scaledW) / 2 - boundsX * scale;
+    this.gameContainer.y = p.top + (availableH - scaledH) / 2 - boundsY * scale;
+  }
 
-    this.gameContainer.x = padLeft + (availableW - scaledW) / 2 - boundsX * scale;
-    this.gameContainer.y = padTop + (availableH - scaledH) / 2 - boundsY * scale;
+  /** Scene title in the current locale */
+  protected get title(): string {
+    return t(this.options.game.titleKey);
+  }
+
+  /** Task description (mode selection screen) in the current locale */
+  protected get description(): string {
+    return t(this.options.game.descriptionKey);
+  }
+
+  /**
+   * Translate the floating buttons and tab title, then let the scene rebuild its own text
+   */
+  private relabel(): void {
+    document.title = this.title;
+    this.backButton?.setLabel(t('common.menu'));
+    this.subModeBackButton?.setLabel(t('common.back'));
+    this.muteButton?.setAccessibleLabel(muteAccessibleLabel(this.app.sound.muted));
+    this.onLocaleChange();
+    this.positionBackButton();
+  }
+
+  /**
+   * Called after the locale changed. Override to rebuild text the scene built
+   * itself (selection panel, settings panels rebuild on their own).
+   */
+  protected onLocaleChange(): void {
+    // Nothing scene-specific by default
   }
 
   /**
@@ -642,16 +1056,17 @@ export abstract class BaseGameScene implements Scene {
    */
   protected showErrorState(message: string): void {
     // Semi-transparent overlay
+    const theme = themeManager.theme;
     const overlay = new Graphics();
-    overlay.beginFill(0x000000, 0.7);
+    overlay.beginFill(theme.colors.backdrop, 0.7);
     overlay.drawRect(0, 0, SCENE_DESIGN.contentWidth, SCENE_DESIGN.contentHeight);
     overlay.endFill();
 
     // Error text
     const style = new TextStyle({
-      fontFamily: 'Arial',
+      fontFamily: theme.typography.fontFamily,
       fontSize: 24,
-      fill: '#ff6b6b',
+      fill: theme.colors.error,
       align: 'center',
       wordWrap: true,
       wordWrapWidth: SCENE_DESIGN.contentWidth - 80,
@@ -673,17 +1088,28 @@ export abstract class BaseGameScene implements Scene {
   }
 
   onStop(): void {
-    // Kill GSAP tweens on this scene's containers (scoped, not global)
-    // Individual modes should handle their own GSAP cleanup via gsapCtx.revert()
-    gsap.killTweensOf(this.gameContainer);
-    gsap.killTweensOf(this.container);
+    for (const unsubscribe of [...this.actionSubscriptions]) unsubscribe();
+    for (const unsubscribe of [...this.qualitySubscriptions]) unsubscribe();
+    this.clearRandom();
+    this.unsubscribeSound?.();
+    this.unsubscribeSound = null;
+    this.unsubscribeLocale?.();
+    this.unsubscribeLocale = null;
+    this.removeThemeOverrides?.();
+    this.removeThemeOverrides = null;
+
+    // This scene's animations and its sub-mode's (other scenes' keep running)
+    this.animations.kill();
 
     // Restore original document title when leaving scene
-    document.title = this.originalTitle;
+    // (unless the incoming scene already set its own during a transition)
+    if (document.title === this.title) {
+      document.title = this.originalTitle;
+    }
 
-    // Reset FPS counter position (in case it was rotated)
+    // Reset HUD position (in case it was rotated)
     this.isRotatedForOrientation = false;
-    this.positionFPSCounter();
+    this.positionPerfHUD();
   }
 
   destroy(): void {
@@ -700,5 +1126,39 @@ export abstract class BaseGameScene implements Scene {
       this.subModeBackButton.destroy();
       this.subModeBackButton = null;
     }
+    this.unsubscribeSound?.();
+    this.unsubscribeSound = null;
+    this.unsubscribeLocale?.();
+    this.unsubscribeLocale = null;
+    this.removeThemeOverrides?.();
+    this.removeThemeOverrides = null;
+    if (this.muteButton) {
+      this.muteButton.destroy();
+      this.muteButton = null;
+    }
+    for (const owner of this.assetOwners) {
+      this.app.assets.release(owner);
+    }
+    this.assetOwners.clear();
   }
 }
+
+/** Mute toggle label for the current state */
+function muteLabel(muted: boolean): string {
+  return muted ? '🔇' : '🔊';
+}
+
+/** Screen reader name of the mute toggle (what pressing it does) */
+function muteAccessibleLabel(muted: boolean): string {
+  return t(muted ? 'common.unmute' : 'common.mute');
+}
+
+/** Margin from each screen edge for corner UI: a fixed gap inside the safe area */
+function cornerInsets(gap: number, insets: SafeAreaInsets): SafeAreaInsets {
+  return {
+    left: gap + insets.left,
+    right: gap + insets.right,
+    top: gap + insets.top,
+    bottom: gap + insets.bottom,
+  };
+}
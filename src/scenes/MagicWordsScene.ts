@@ -1,17 +1,17 @@
-import { Assets, BlurFilter, Container, Sprite } from 'pixi.js';
+import { BlurFilter, Container, Sprite } from 'pixi.js';
 
-import bigbangBgUrl from '../assets/sprites/bigbang-bg/bigbang-bg.png';
 import { ModeSelectionPanel } from '../components/ModeSelectionPanel';
-import { SELECTION_PANEL } from '../config/magicWordsSettings';
+import { SELECTION_PANEL, THEME_OVERRIDES } from '../config/magicWordsSettings';
 import { SCENE_LAYOUT } from '../config/sharedSettings';
 import type { Application } from '../core/Application';
+import { ErrorHandler } from '../core/ErrorHandler';
+import type { GameDefinition, GameSceneHooks } from '../core/GameRegistry';
+import { t } from '../core/I18n';
 import type { GameMode, GameModeContext } from '../modes/GameMode';
 import { MagicWordsModeLiteral, MagicWordsModeCreative } from '../modes/magicWords';
 
 import { BaseGameScene, type DeviceState } from './BaseGameScene';
 
-// Background image for mode selection
-
 /**
  * MagicWordsScene
  *
@@ -24,11 +24,11 @@ import { BaseGameScene, type DeviceState } from './BaseGameScene';
  * - Forwards lifecycle events to active mode
  */
 export class MagicWordsScene extends BaseGameScene {
-  /** Current scene mode - tracked for debugging */
-  private currentMode: 'selection' | 'literal' | 'creative' = 'selection';
+  /** Current scene mode ('selection' or a sub-mode key) - tracked for debugging */
+  private currentMode = 'selection';
 
   /** Get current scene mode (for debugging/testing) */
-  get mode(): 'selection' | 'literal' | 'creative' {
+  get mode(): string {
     return this.currentMode;
   }
 
@@ -44,12 +44,15 @@ export class MagicWordsScene extends BaseGameScene {
   /** Background sprite for selection screen */
   private selectionBg: Sprite | null = null;
 
-  constructor(app: Application, onBack: () => void) {
+  constructor(app: Application, game: GameDefinition, { onBack, onRouteChange }: GameSceneHooks) {
     super(app, {
-      title: 'Magic Words',
+      game,
       onBack,
+      onRouteChange,
       contentPadding: SCENE_LAYOUT.screenPadding,
       maxScale: SCENE_LAYOUT.maxScale,
+      soundBank: 'magic-words',
+      theme: THEME_OVERRIDES,
       preferredOrientation: 'landscape', // Auto-rotate content when device is portrait
     });
   }
@@ -59,6 +62,10 @@ export class MagicWordsScene extends BaseGameScene {
   // ============================================================
 
   protected async buildContent(): Promise<void> {
+    // The selection background is rebuilt on every return - follow it here once
+    this.onQualityChange(({ blur }) => {
+      for (const filter of this.selectionBg?.filters ?? []) filter.enabled = blur;
+    });
     await this.buildSelectionScreen();
   }
 
@@ -106,12 +113,20 @@ export class MagicWordsScene extends BaseGameScene {
     }
   }
 
+  onAppPause(): void {
+    this.activeMode?.onPause?.();
+  }
+
+  onAppResume(): void {
+    this.activeMode?.onResume?.();
+  }
+
   onStop(): void {
     super.onStop();
 
     // Stop active mode
     if (this.activeMode) {
-      this.activeMode.stop();
+      this.stopMode(this.activeMode);
       this.activeMode = null;
     }
 
@@ -130,18 +145,21 @@ export class MagicWordsScene extends BaseGameScene {
 
   private async buildSelectionScreen(): Promise<void> {
     this.currentMode = 'selection';
+    this.setRoute(null);
     this.selectionContainer = new Container();
     this.gameContainer.addChild(this.selectionContainer);
 
     // Load and add background image with blur
-    const bgTexture = await Assets.load(bigbangBgUrl);
+    await this.loadAssets('magic-words', t('magic.loading'));
+    const bgTexture = this.app.assets.getTexture('bigbang-bg');
     this.selectionBg = new Sprite(bgTexture);
     this.selectionBg.anchor.set(0.5, 0.35); // Shift up to show more of the sofa
 
-    // Apply blur filter like AceOfShadows
+    // Apply blur filter like AceOfShadows (off on lower quality tiers)
     const blurFilter = new BlurFilter();
     blurFilter.blur = 16;
     blurFilter.quality = 8;
+    blurFilter.enabled = this.app.quality.profile.blur;
     this.selectionBg.filters = [blurFilter];
 
     this.selectionContainer.addChild(this.selectionBg);
@@ -149,19 +167,18 @@ export class MagicWordsScene extends BaseGameScene {
 
     // Create mode selection panel
     const panel = new ModeSelectionPanel({
-      title: 'Magic Words',
-      description:
-        'A system that combines text and images like custom emojis. Render a dialogue between characters with data from an API endpoint.',
+      title: this.title,
+      description: this.description,
       buttons: [
         {
-          label: '📋 Literal Task',
-          backgroundColor: 0x1565c0, // Blue for text/dialogue
-          onClick: () => this.startMode('literal'),
+          label: t('common.literalTask'),
+          backgroundColor: 'modeLiteral',
+          onClick: () => this.transitionContent(() => this.startMode('literal')),
         },
         {
-          label: '✨ Creative Take',
-          backgroundColor: 0x7b1fa2,
-          onClick: () => this.startMode('creative'),
+          label: t('common.creativeTake'),
+          backgroundColor: 'modeCreative',
+          onClick: () => this.transitionContent(() => this.startMode('creative')),
         },
       ],
       centerX: SELECTION_PANEL.centerX,
@@ -186,12 +203,27 @@ export class MagicWordsScene extends BaseGameScene {
     this.requestLayout();
   }
 
+  /**
+   * Rebuild the selection screen in the new locale
+   * (its bundle is already loaded, so this doesn't show a loading screen)
+   */
+  protected override onLocaleChange(): void {
+    if (this.currentMode !== 'selection' || !this.selectionContainer) return;
+    this.selectionContainer.destroy({ children: true });
+    this.selectionContainer = null;
+    this.selectionBg = null;
+    this.buildSelectionScreen().catch(error => {
+      ErrorHandler.handle(error, 'scene-build', { scene: this.options.game.key });
+    });
+  }
+
   // ============================================================
   // Mode Management
   // ============================================================
 
-  private async startMode(mode: 'literal' | 'creative'): Promise<void> {
+  protected async startMode(mode: string, params: Record<string, string> = {}): Promise<void> {
     this.currentMode = mode;
+    this.setRoute(mode, params);
 
     // Remove selection screen and background
     if (this.selectionContainer) {
@@ -205,7 +237,7 @@ export class MagicWordsScene extends BaseGameScene {
     this.gameContainer.position.set(0);
 
     // Enable sub-mode navigation
-    this.enableSubModeNavigation(() => this.returnToSelection());
+    this.enableSubModeNavigation(() => this.transitionContent(() => this.returnToSelection()));
 
     // Create container for mode content
     this.modeContainer = new Container();
@@ -224,16 +256,17 @@ export class MagicWordsScene extends BaseGameScene {
     await this.activeMode.start();
   }
 
-  private returnToSelection(): void {
+  protected async returnToSelection(): Promise<void> {
     // Stop active mode
     if (this.activeMode) {
-      this.activeMode.stop();
+      this.stopMode(this.activeMode);
       this.activeMode = null;
     }
 
-    // Clean up mode container
+    // Clean up mode container (and the asset bundles the mode loaded)
     if (this.modeContainer) {
       this.modeContainer.destroy({ children: true });
+      this.releaseAssets(this.modeContainer);
       this.modeContainer = null;
     }
 
@@ -246,16 +279,22 @@ export class MagicWordsScene extends BaseGameScene {
     this.gameContainer.position.set(0);
 
     // Rebuild selection screen
-    this.buildSelectionScreen();
+    await this.buildSelectionScreen();
   }
 
   private createModeContext(): GameModeContext {
     const self = this;
+    const modeContainer = this.modeContainer!;
 
     return {
-      container: this.modeContainer!,
+      container: modeContainer,
       spritesheet: undefined, // MagicWords modes load their own assets
       gameContainer: this.gameContainer,
+      assets: this.app.assets,
+      animations: this.createModeAnimations(),
+
+      // Mode bundles belong to the mode container, released when the mode is left
+      loadBundle: (name, title) => self.loadAssets(name, title, modeContainer),
 
       getDeviceState: () => self.getDeviceState(),
 
@@ -268,7 +307,26 @@ export class MagicWordsScene extends BaseGameScene {
         height: self.app.height || window.innerHeight,
       }),
 
-      generateTexture: graphics => self.app.pixi.renderer.generateTexture(graphics),
+      getSafeInsets: () => self.getSafeInsets(),
+
+      generateTexture: graphics => self.app.generatedTextures.render(graphics),
+
+      canvasTexture: canvas => self.app.generatedTextures.fromCanvas(canvas),
+
+      showMessage: options => self.showMessage(options),
+
+      getRouteParams: () => ({ ...self.routeParams }),
+
+      setRouteParams: params => self.setRoute(self.currentMode, params),
+
+      registerMetric: metric => self.app.perfHud.registerMetric(metric),
+
+      onAction: (action, handler) => self.onAction(action, handler),
+      onQualityChange: listener => self.onQualityChange(listener),
+      random: stream => self.random(stream),
+
+      playSound: (name, options) => self.playSound(name, options),
+      announce: message => self.announce(message),
     };
   }
 }
@@ -1,37 +1,28 @@
 import { Container, Text, TextStyle, Graphics } from 'pixi.js';
 
-// Thumbnail imports (Vite bundles these)
-import aceThumbUrl from '../assets/sprites/thumbnails/ace-of-shadows-thumbnail.png';
-import magicThumbUrl from '../assets/sprites/thumbnails/magic-words-thumbnail.png';
-import phoenixThumbUrl from '../assets/sprites/thumbnails/phoenix-flames-thumbnail.png';
+import { Dropdown } from '../components/Dropdown';
 import { MenuTile } from '../components/MenuTile';
-import { DESIGN, BRAND_ORANGE } from '../config/design';
+import { DESIGN } from '../config/design';
 import type { Application } from '../core/Application';
+import type { GameDefinition } from '../core/GameRegistry';
+import { i18n, t } from '../core/I18n';
+import type { QualityMode } from '../core/QualityManager';
 import type { Scene } from '../core/SceneManager';
-
-/**
- * Menu tile data
- */
-const MENU_TILES = [
-  { key: 'ace', label: 'Ace of Shadows', thumbnailUrl: aceThumbUrl },
-  { key: 'magic', label: 'Magic Words', thumbnailUrl: magicThumbUrl },
-  { key: 'phoenix', label: 'Phoenix Flame', thumbnailUrl: phoenixThumbUrl },
-] as const;
-
-export type MenuTileKey = (typeof MENU_TILES)[number]['key'];
+import { themeManager } from '../core/ThemeManager';
 
 export interface MainMenuSceneOptions {
   /** Callback when a game tile is clicked */
-  onGameSelect?: (key: MenuTileKey) => void;
+  onGameSelect?: (game: GameDefinition) => void;
 }
 
 /**
  * MainMenuScene
  *
  * The main menu with:
- * - BESTGAMES-style orange title banner
- * - Subtitle
- * - Grid of game tiles with thumbnails
+ * - BESTGAMES-style brand title banner
+ * - Subtitle, language, theme and quality pickers (the menu rebuilds in the picked locale/theme)
+ * - Grid of game tiles with thumbnails, one per game in app.games (titled
+ *   sections when the games span several categories)
  * - Responsive layout (2 columns on wide screens, 1 on narrow)
  */
 export class MainMenuScene implements Scene {
@@ -42,6 +33,12 @@ export class MainMenuScene implements Scene {
   private menuContainer: Container;
   private tiles: MenuTile[] = [];
 
+  /** Stops rebuilding on locale changes */
+  private unsubscribeLocale: (() => void) | null = null;
+
+  /** Stops rebuilding on theme changes */
+  private unsubscribeTheme: (() => void) | null = null;
+
   constructor(app: Application, options: MainMenuSceneOptions = {}) {
     this.app = app;
     this.options = options;
@@ -52,6 +49,14 @@ export class MainMenuScene implements Scene {
 
   onStart(): void {
     this.buildUI();
+    this.unsubscribeLocale = i18n.subscribe(() => {
+      this.buildUI();
+      this.layoutMenu();
+    });
+    this.unsubscribeTheme = themeManager.subscribe(() => {
+      this.buildUI();
+      this.layoutMenu();
+    });
   }
 
   onResize(): void {
@@ -66,16 +71,17 @@ export class MainMenuScene implements Scene {
     this.menuContainer.removeChildren();
     this.tiles = [];
 
+    const theme = themeManager.theme;
     let currentY = 0;
 
-    // ---- Title (Orange banner with white text) ----
+    // ---- Title (brand banner) ----
     const titleContainer = new Container();
 
     const titleStyle = new TextStyle({
-      fontFamily: 'Arial, sans-serif',
+      fontFamily: theme.typography.fontFamily,
       fontSize: DESIGN.title.fontSize,
       fontWeight: 'bold',
-      fill: '#ffffff',
+      fill: theme.colors.textOnBrand,
       letterSpacing: 2,
     });
 
@@ -83,7 +89,7 @@ export class MainMenuScene implements Scene {
     title.anchor.set(0.5);
 
     const titleBg = new Graphics();
-    titleBg.beginFill(BRAND_ORANGE);
+    titleBg.beginFill(theme.colors.brand);
     titleBg.drawRect(
       -title.width / 2 - DESIGN.title.paddingX,
       -title.height / 2 - DESIGN.title.paddingY,
@@ -100,19 +106,84 @@ export class MainMenuScene implements Scene {
 
     // ---- Subtitle ----
     const subtitleStyle = new TextStyle({
-      fontFamily: 'Arial, sans-serif',
+      fontFamily: theme.typography.fontFamily,
       fontSize: DESIGN.subtitle.fontSize,
-      fill: '#666666',
+      fill: theme.colors.textOnBackground,
     });
 
-    const subtitle = new Text('Game Developer Tasks by Javier Moreno', subtitleStyle);
+    const subtitle = new Text(t('menu.subtitle'), subtitleStyle);
     subtitle.anchor.set(0.5, 0);
     subtitle.x = 0;
     subtitle.y = currentY;
     this.menuContainer.addChild(subtitle);
     currentY += subtitle.height + DESIGN.subtitle.marginBottom;
 
-    // ---- Game Tiles ----
+    // ---- Language, theme and quality pickers ----
+    const { width: pickerWidth, fontSize: pickerFontSize, gap: pickerGap } = DESIGN.pickers;
+    const localePicker = new Dropdown({
+      accessibleLabel: t('menu.language'),
+      options: i18n.locales.map(({ code, name }) => ({ label: name, value: code })),
+      value: i18n.locale,
+      width: pickerWidth,
+      fontSize: pickerFontSize,
+      onChange: locale => i18n.setLocale(locale),
+    });
+    const themePicker = new Dropdown({
+      accessibleLabel: t('menu.theme'),
+      options: themeManager.names.map(name => ({ label: t(`theme.${name}`), value: name })),
+      value: themeManager.name,
+      width: pickerWidth,
+      fontSize: pickerFontSize,
+      onChange: name => themeManager.setTheme(name),
+    });
+    const quality = this.app.quality;
+    const qualityPicker = new Dropdown({
+      accessibleLabel: t('menu.quality'),
+      options: quality.modes.map(mode => ({ label: t(`quality.${mode}`), value: mode })),
+      value: quality.mode,
+      width: pickerWidth,
+      fontSize: pickerFontSize,
+      onChange: mode => quality.setMode(mode as QualityMode),
+    });
+    // Own cell, so an open list is raised above the tiles (see Dropdown.openMenu)
+    const pickerCell = new Container();
+    pickerCell.y = currentY;
+    const pickers = [localePicker, themePicker, qualityPicker];
+    pickers.forEach((picker, i) => {
+      picker.x = (i - pickers.length / 2) * (pickerWidth + pickerGap) + pickerGap / 2;
+      pickerCell.addChild(picker);
+    });
+    this.menuContainer.sortableChildren = true;
+    this.menuContainer.addChild(pickerCell);
+    currentY += pickerCell.height + DESIGN.pickers.marginBottom;
+
+    // ---- Game Tiles (by section) ----
+    const sections = this.app.games.sections();
+    for (const { category, games } of sections) {
+      if (category && sections.length > 1) {
+        const sectionTitle = new Text(
+          t(category),
+          new TextStyle({
+            fontFamily: theme.typography.fontFamily,
+            fontSize: DESIGN.section.fontSize,
+            fontWeight: 'bold',
+            fill: theme.colors.textOnBackground,
+          })
+        );
+        sectionTitle.anchor.set(0.5, 0);
+        sectionTitle.y = currentY;
+        this.menuContainer.addChild(sectionTitle);
+        currentY += sectionTitle.height + DESIGN.section.marginBottom;
+      }
+      currentY = this.buildTileGrid(games, currentY);
+    }
+  }
+
+  /**
+   * Lay out one tile per game
+   * @returns Y below the grid
+   */
+  private buildTileGrid(games: GameDefinition[], startY: number): number {
     const { width: w, height: h, gap } = DESIGN.tile;
 
     const screenW = this.app.width;
@@ -121,13 +192,13 @@ export class MainMenuScene implements Scene {
     const isSmallHeight = screenH < 600;
 
     // Layout modes:
-    // - Landscape on mobile/tablet (small height): horizontal row (3 columns)
+    // - Landscape on mobile/tablet (small height): horizontal row (one column per game)
     // - Wide desktop (>= 900px): 2 columns
     // - Portrait/narrow: 1 column (vertical stack)
     let cols: number;
     if (isLandscape && isSmallHeight) {
       // Mobile/tablet landscape: arrange all tiles in a horizontal row
-      cols = MENU_TILES.length;
+      cols = games.length;
     } else if (screenW >= 900) {
       cols = 2;
     } else {
@@ -142,19 +213,24 @@ export class MainMenuScene implements Scene {
       colX.push(startX + i * (w + gap));
     }
 
-    const lastIndex = MENU_TILES.length - 1;
-    const hasOddLastRow = cols === 2 && MENU_TILES.length % 2 === 1;
+    const lastIndex = games.length - 1;
+    const hasOddLastRow = cols === 2 && games.length % 2 === 1;
 
-    MENU_TILES.forEach((tileData, idx) => {
+    games.forEach((game, idx) => {
       const tile = new MenuTile({
-        label: tileData.label,
-        thumbnailUrl: tileData.thumbnailUrl,
+        label: t(game.titleKey),
+        thumbnailUrl: game.thumbnailUrl,
         onClick: () => {
-          if (import.meta.env.DEV) console.log(`Selected: ${tileData.key}`);
-          this.options.onGameSelect?.(tileData.key);
+          if (import.meta.env.DEV) console.log(`Selected: ${game.key}`);
+          this.options.onGameSelect?.(game);
         },
       });
 
+      // Hovering (or touching) a tile is a strong hint - start downloading its game
+      const prefetch = (): void => this.app.assets.prefetch(game.bundle);
+      tile.once('pointerover', prefetch);
+      tile.once('pointerdown', prefetch);
+
       const row = Math.floor(idx / cols);
       const col = idx % cols;
 
@@ -164,11 +240,13 @@ export class MainMenuScene implements Scene {
       } else {
         tile.x = colX[col] ?? 0;
       }
-      tile.y = currentY + row * (h + gap);
+      tile.y = startY + row * (h + gap);
 
       this.tiles.push(tile);
       this.menuContainer.addChild(tile);
     });
+
+    return startY + Math.ceil(games.length / cols) * (h + gap);
   }
 
   /**
@@ -177,9 +255,11 @@ export class MainMenuScene implements Scene {
   private layoutMenu(): void {
     const screenW = this.app.width;
     const screenH = this.app.height;
+    const insets = this.app.safeArea.insets;
 
-    const availableW = screenW - DESIGN.padding * 2;
-    const availableH = screenH - DESIGN.padding * 2;
+    // Padding is kept inside the safe area (notch, home indicator)
+    const availableW = screenW - DESIGN.padding * 2 - insets.left - insets.right;
+    const availableH = screenH - DESIGN.padding * 2 - insets.top - insets.bottom;
 
     // Get bounds at scale 1
     this.menuContainer.scale.set(1);
@@ -194,12 +274,18 @@ export class MainMenuScene implements Scene {
 
     this.menuContainer.scale.set(scale);
 
-    // Center
-    this.menuContainer.x = screenW / 2 - (bounds.x + bounds.width / 2) * scale;
-    this.menuContainer.y = (screenH - contentH * scale) / 2 - bounds.y * scale;
+    // Center in the safe area
+    const centerX = insets.left + (screenW - insets.left - insets.right) / 2;
+    const centerY = insets.top + (screenH - insets.top - insets.bottom) / 2;
+    this.menuContainer.x = centerX - (bounds.x + bounds.width / 2) * scale;
+    this.menuContainer.y = centerY - (contentH * scale) / 2 - bounds.y * scale;
   }
 
   destroy(): void {
+    this.unsubscribeLocale?.();
+    this.unsubscribeLocale = null;
+    this.unsubscribeTheme?.();
+    this.unsubscribeTheme = null;
     this.tiles = [];
     this.menuContainer.removeChildren();
   }
@@ -0,0 +1,222 @@
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+
+import { SCENE_TRANSITIONS } from '../config/sharedSettings';
+import type { Application } from '../core/Application';
+import { t } from '../core/I18n';
+import type { Scene } from '../core/SceneManager';
+import { themeManager } from '../core/ThemeManager';
+
+export interface MessageOverlayOptions {
+  /** Headline text (e.g. '🎉 Game Won! 🎉') */
+  title: string;
+  /** Optional secondary line under the title */
+  message?: string;
+  /**
+   * Auto-close after this many seconds.
+   * While counting down, the message line is produced by countdownText.
+   */
+  countdown?: number;
+  /** Formats the remaining whole seconds (default: 'Closing in N seconds...', translated) */
+  countdownText?: (remaining: number) => string;
+  /**
+   * Close when the overlay is clicked or confirm/back is pressed
+   * (default: true when there is no countdown)
+   */
+  dismissOnClick?: boolean;
+  /** Backdrop opacity (default: 0.7) */
+  backdropAlpha?: number;
+}
+
+/** Design constants for the message panel */
+const OVERLAY_DESIGN = {
+  /** Space between the panel and the screen edges */
+  padding: 40,
+  /** Gap between title and message */
+  gap: 30,
+  /** Largest scale the panel is allowed to grow to */
+  maxScale: 1.5,
+};
+
+/**
+ * MessageOverlayScene
+ *
+ * Generic overlay pushed on top of a paused scene:
+ * - Dimmed fullscreen backdrop that swallows input
+ * - Centered title + message
+ * - Optional countdown (driven by the scene update loop, so it pauses with the app)
+ *
+ * Close it with close(); onClose fires once the overlay has been popped, or when
+ * a navigation tears it down first (so an awaited showMessage always settles).
+ */
+export class MessageOverlayScene implements Scene {
+  public readonly container: Container;
+
+  private app: Application;
+  private options: MessageOverlayOptions;
+
+  /** Called once, after the overlay was popped off the stack or destroyed */
+  private onClose: (() => void) | null;
+
+  private backdrop: Graphics;
+  private panel: Container;
+  private messageText: Text | null = null;
+
+  /** Seconds left on the countdown (null when not counting down) */
+  private remaining: number | null = null;
+
+  /** Guards against closing twice (click during the countdown's last frame) */
+  private isClosing = false;
+
+  /** Unsubscribe functions of the confirm/back key handlers */
+  private removeActions: (() => void)[] = [];
+
+  constructor(app: Application, options: MessageOverlayOptions, onClose?: () => void) {
+    this.app = app;
+    this.options = options;
+    this.onClose = onClose ?? null;
+
+    this.container = new Container();
+    this.backdrop = new Graphics();
+    this.panel = new Container();
+    this.container.addChild(this.backdrop);
+    this.container.addChild(this.panel);
+  }
+
+  onStart(): void {
+    const { title, message, countdown } = this.options;
+    const theme = themeManager.theme;
+
+    const titleText = new Text(
+      title,
+      new TextStyle({
+        fontFamily: theme.typography.fontFamily,
+        fontSize: 48,
+        fontWeight: 'bold',
+        fill: theme.colors.highlight,
+        stroke: '#000000',
+        strokeThickness: 4,
+        dropShadow: true,
+        dropShadowColor: '#000000',
+        dropShadowDistance: 3,
+        align: 'center',
+      })
+    );
+    titleText.anchor.set(0.5);
+    this.panel.addChild(titleText);
+
+    if (countdown !== undefined) {
+      this.remaining = countdown;
+    }
+
+    const line = this.remaining !== null ? this.formatCountdown(this.remaining) : message;
+    if (line) {
+      this.messageText = new Text(
+        line,
+        new TextStyle({
+          fontFamily: theme.typography.fontFamily,
+          fontSize: 24,
+          fill: theme.colors.text,
+          align: 'center',
+        })
+      );
+      this.messageText.anchor.set(0.5);
+      this.messageText.y = titleText.height / 2 + OVERLAY_DESIGN.gap;
+      this.panel.addChild(this.messageText);
+    }
+
+    // Backdrop swallows clicks so nothing underneath can be hit
+    this.backdrop.eventMode = 'static';
+    const dismissOnClick = this.options.dismissOnClick ?? countdown === undefined;
+    if (dismissOnClick) {
+      this.backdrop.cursor = 'pointer';
+      this.backdrop.on('pointertap', () => this.close());
+      this.removeActions = [
+        this.app.input.on('confirm', () => this.close()),
+        this.app.input.on('back', () => this.close()),
+      ];
+    }
+
+    this.layout();
+  }
+
+  onResize(): void {
+    this.layout();
+  }
+
+  onUpdate(delta: number): void {
+    if (this.remaining === null || this.isClosing) return;
+
+    const before = Math.ceil(this.remaining);
+    // Ticker delta is in 60fps frames
+    this.remaining -= delta / 60;
+
+    if (this.remaining <= 0) {
+      this.close();
+      return;
+    }
+
+    const now = Math.ceil(this.remaining);
+    if (now !== before && this.messageText) {
+      this.messageText.text = this.formatCountdown(now);
+    }
+  }
+
+  /**
+   * Pop this overlay off the scene stack
+   */
+  close(): void {
+    if (this.isClosing) return;
+    this.isClosing = true;
+
+    // Only pop if we're still on top (a full navigation may have removed us already)
+    if (this.app.scenes.current !== this) return;
+
+    // Take onClose so destroy() (during the pop) leaves it for after the pop
+    const onClose = this.onClose;
+    this.onClose = null;
+    this.app.scenes.pop(SCENE_TRANSITIONS.overlay).then(() => onClose?.());
+  }
+
+  private formatCountdown(remaining: number): string {
+    const seconds = Math.ceil(remaining);
+    return this.options.countdownText?.(seconds) ?? t('common.closingIn', { count: seconds });
+  }
+
+  /**
+   * Cover the screen with the backdrop and scale the panel to fit
+   */
+  private layout(): void {
+    const screenW = this.app.width;
+    const screenH = this.app.height;
+
+    this.backdrop.clear();
+    this.backdrop.beginFill(themeManager.theme.colors.backdrop, this.options.backdropAlpha ?? 0.7);
+    this.backdrop.drawRect(0, 0, screenW, screenH);
+    this.backdrop.endFill();
+
+    this.panel.scale.set(1);
+    const bounds = this.panel.getLocalBounds();
+    const availableW = screenW - OVERLAY_DESIGN.padding * 2;
+    const availableH = screenH - OVERLAY_DESIGN.padding * 2;
+    const scale = Math.min(
+      availableW / Math.max(bounds.width, 1),
+      availableH / Math.max(bounds.height, 1),
+      OVERLAY_DESIGN.maxScale
+    );
+
+    this.panel.scale.set(scale);
+    this.panel.x = screenW / 2 - (bounds.x + bounds.width / 2) * scale;
+    this.panel.y = screenH / 2 - (bounds.y + bounds.height / 2) * scale;
+  }
+
+  destroy(): void {
+    for (const remove of this.removeActions) remove();
+    this.removeActions = [];
+    this.container.destroy({ children: true });
+
+    // Torn down without close() (e.g. SceneManager.start() replaced the stack)
+    const onClose = this.onClose;
+    this.onClose = null;
+    onClose?.();
+  }
+}
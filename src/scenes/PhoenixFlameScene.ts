@@ -1,17 +1,16 @@
-import { Assets, Container, Sprite } from 'pixi.js';
+import { Container, Sprite } from 'pixi.js';
 
-import phoenixFlameBg from '../assets/sprites/phoenix-flame/phoenix-flame-bg.jpeg';
 import { ModeSelectionPanel } from '../components/ModeSelectionPanel';
-import { SELECTION_PANEL } from '../config/phoenixFlameSettings';
+import { SELECTION_PANEL, THEME_OVERRIDES } from '../config/phoenixFlameSettings';
 import { SCENE_LAYOUT } from '../config/sharedSettings';
 import type { Application } from '../core/Application';
+import type { GameDefinition, GameSceneHooks } from '../core/GameRegistry';
+import { t } from '../core/I18n';
 import type { GameMode, GameModeContext } from '../modes/GameMode';
 import { PhoenixFlameModeLiteral, PhoenixFlameModeCreative } from '../modes/phoenixFlame';
 
 import { BaseGameScene, type DeviceState } from './BaseGameScene';
 
-// Background image
-
 /**
  * PhoenixFlameScene
  *
@@ -24,11 +23,11 @@ import { BaseGameScene, type DeviceState } from './BaseGameScene';
  * - Forwards lifecycle events to active mode
  */
 export class PhoenixFlameScene extends BaseGameScene {
-  /** Current scene mode - tracked for debugging */
-  private currentMode: 'selection' | 'literal' | 'creative' = 'selection';
+  /** Current scene mode ('selection' or a sub-mode key) - tracked for debugging */
+  private currentMode = 'selection';
 
   /** Get current scene mode (for debugging/testing) */
-  get mode(): 'selection' | 'literal' | 'creative' {
+  get mode(): string {
     return this.currentMode;
   }
 
@@ -44,12 +43,15 @@ export class PhoenixFlameScene extends BaseGameScene {
   /** Background sprite */
   private backgroundSprite: Sprite | null = null;
 
-  constructor(app: Application, onBack: () => void) {
+  constructor(app: Application, game: GameDefinition, { onBack, onRouteChange }: GameSceneHooks) {
     super(app, {
-      title: 'Phoenix Flame',
+      game,
       onBack,
+      onRouteChange,
       contentPadding: SCENE_LAYOUT.screenPadding,
       maxScale: SCENE_LAYOUT.maxScale,
+      soundBank: 'phoenix-flame',
+      theme: THEME_OVERRIDES,
       preferredOrientation: 'landscape', // Auto-rotate content when device is portrait
     });
   }
@@ -66,7 +68,8 @@ export class PhoenixFlameScene extends BaseGameScene {
   }
 
   private async loadBackground(): Promise<void> {
-    const texture = await Assets.load(phoenixFlameBg);
+    await this.loadAssets('phoenix-flame', t('phoenix.loading'));
+    const texture = this.app.assets.getTexture('phoenix-flame-bg');
     this.backgroundSprite = new Sprite(texture);
 
     // Add to container at index 0 (behind everything)
@@ -121,12 +124,20 @@ export class PhoenixFlameScene extends BaseGameScene {
     }
   }
 
+  onAppPause(): void {
+    this.activeMode?.onPause?.();
+  }
+
+  onAppResume(): void {
+    this.activeMode?.onResume?.();
+  }
+
   onStop(): void {
     super.onStop();
 
     // Stop active mode
     if (this.activeMode) {
-      this.activeMode.stop();
+      this.stopMode(this.activeMode);
       this.activeMode = null;
     }
 
@@ -152,24 +163,24 @@ export class PhoenixFlameScene extends BaseGameScene {
 
   private buildSelectionScreen(): void {
     this.currentMode = 'selection';
+    this.setRoute(null);
     this.selectionContainer = new Container();
     this.gameContainer.addChild(this.selectionContainer);
 
     // Create mode selection panel
     const panel = new ModeSelectionPanel({
-      title: 'Phoenix Flame',
-      description:
-        'A particle-effect demo showing a great fire effect. Keep the number of images at max 10 sprites on screen at the same time.',
+      title: this.title,
+      description: this.description,
       buttons: [
         {
-          label: '🔥 Literal Task',
-          backgroundColor: 0xe65100, // Deep orange for fire
-          onClick: () => this.startMode('literal'),
+          label: t('phoenix.literalTask'),
+          backgroundColor: 'modeLiteral',
+          onClick: () => this.transitionContent(() => this.startMode('literal')),
         },
         {
-          label: '✨ Creative Take',
-          backgroundColor: 0x7b1fa2,
-          onClick: () => this.startMode('creative'),
+          label: t('common.creativeTake'),
+          backgroundColor: 'modeCreative',
+          onClick: () => this.transitionContent(() => this.startMode('creative')),
         },
       ],
       centerX: SELECTION_PANEL.centerX,
@@ -195,12 +206,24 @@ export class PhoenixFlameScene extends BaseGameScene {
     this.requestLayout();
   }
 
+  /**
+   * Rebuild the selection panel in the new locale
+   * (a running mode keeps its text; its settings panel relabels itself)
+   */
+  protected override onLocaleChange(): void {
+    if (this.currentMode !== 'selection' || !this.selectionContainer) return;
+    this.selectionContainer.destroy({ children: true });
+    this.selectionContainer = null;
+    this.buildSelectionScreen();
+  }
+
   // ============================================================
   // Mode Management
   // ============================================================
 
-  private async startMode(mode: 'literal' | 'creative'): Promise<void> {
+  protected async startMode(mode: string, params: Record<string, string> = {}): Promise<void> {
     this.currentMode = mode;
+    this.setRoute(mode, params);
 
     // Remove selection screen
     if (this.selectionContainer) {
@@ -213,7 +236,7 @@ export class PhoenixFlameScene extends BaseGameScene {
     this.gameContainer.position.set(0);
 
     // Enable sub-mode navigation
-    this.enableSubModeNavigation(() => this.returnToSelection());
+    this.enableSubModeNavigation(() => this.transitionContent(() => this.returnToSelection()));
 
     // Create container for mode content
     this.modeContainer = new Container();
@@ -232,16 +255,17 @@ export class PhoenixFlameScene extends BaseGameScene {
     await this.activeMode.start();
   }
 
-  private returnToSelection(): void {
+  protected returnToSelection(): void {
     // Stop active mode
     if (this.activeMode) {
-      this.activeMode.stop();
+      this.stopMode(this.activeMode);
       this.activeMode = null;
     }
 
-    // Clean up mode container
+    // Clean up mode container (and the asset bundles the mode loaded)
     if (this.modeContainer) {
       this.modeContainer.destroy({ children: true });
+      this.releaseAssets(this.modeContainer);
       this.modeContainer = null;
     }
 
@@ -259,11 +283,17 @@ export class PhoenixFlameScene extends BaseGameScene {
 
   private createModeContext(): GameModeContext {
     const self = this;
+    const modeContainer = this.modeContainer!;
 
     return {
-      container: this.modeContainer!,
+      container: modeContainer,
       spritesheet: undefined, // Phoenix modes load their own spritesheets
       gameContainer: this.gameContainer,
+      assets: this.app.assets,
+      animations: this.createModeAnimations(),
+
+      // Mode bundles belong to the mode container, released when the mode is left
+      loadBundle: (name, title) => self.loadAssets(name, title, modeContainer),
 
       getDeviceState: () => self.getDeviceState(),
 
@@ -276,7 +306,26 @@ export class PhoenixFlameScene extends BaseGameScene {
         height: self.app.height || window.innerHeight,
       }),
 
-      generateTexture: graphics => self.app.pixi.renderer.generateTexture(graphics),
+      getSafeInsets: () => self.getSafeInsets(),
+
+      generateTexture: graphics => self.app.generatedTextures.render(graphics),
+
+      canvasTexture: canvas => self.app.generatedTextures.fromCanvas(canvas),
+
+      showMessage: options => self.showMessage(options),
+
+      getRouteParams: () => ({ ...self.routeParams }),
+
+      setRouteParams: params => self.setRoute(self.currentMode, params),
+
+      registerMetric: metric => self.app.perfHud.registerMetric(metric),
+
+      onAction: (action, handler) => self.onAction(action, handler),
+      onQualityChange: listener => self.onQualityChange(listener),
+      random: stream => self.random(stream),
+
+      playSound: (name, options) => self.playSound(name, options),
+      announce: message => self.announce(message),
     };
   }
 }
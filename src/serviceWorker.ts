@@ -0,0 +1,141 @@
+/**
+ * BESTGAMES - Service Worker
+ *
+ * Makes the demos work offline (trade-show booths with flaky Wi-Fi):
+ * - Precaches the whole build: Vite output (scenes, spritesheets, styles),
+ *   plus public/ (Spine files, favicon, manifest). The list is injected at
+ *   build time (see the pwa plugin in vite.config.ts)
+ * - Serves precached files cache-first: their names are content-hashed, and a
+ *   new build ships a new worker with a new precache
+ * - Serves the Magic Words API and emoji/avatar images stale-while-revalidate
+ *
+ * A new worker waits until the page asks it to take over (the "update
+ * available" prompt, see core/PwaUpdater.ts).
+ *
+ * Built as a separate entry: import nothing the app imports, or the shared
+ * code ends up in a chunk the worker can't load.
+ */
+
+/** Files to precache, relative to the worker's scope (injected at build time) */
+declare const __PRECACHE_MANIFEST__: string[];
+
+/** Build fingerprint (injected at build time) */
+declare const __BUILD_ID__: string;
+
+// Service worker events and scope (the DOM lib doesn't declare them, and the
+// WebWorker lib conflicts with it)
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  readonly request: Request;
+  respondWith(response: Response | Promise<Response>): void;
+}
+
+interface ServiceWorkerScope {
+  readonly registration: ServiceWorkerRegistration;
+  readonly clients: { claim(): Promise<void> };
+  skipWaiting(): Promise<void>;
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+}
+
+const worker = self as unknown as ServiceWorkerScope;
+
+const PRECACHE = `precache-${__BUILD_ID__}`;
+
+/**
+ * Responses kept stale-while-revalidate: answered from cache at once, refreshed in the background
+ */
+const RUNTIME_CACHES = [
+  /** Magic Words dialogue (API_URL in config/magicWordsSettings.ts) */
+  {
+    name: 'runtime-magic-words-api',
+    prefix: 'https://private-624120-softgamesassignment.apiary-mock.com/',
+  },
+  /** Emoji and avatar images from the API (and RichText's fallback emojis) */
+  { name: 'runtime-dicebear', prefix: 'https://api.dicebear.com/' },
+];
+
+/** Absolute URL of a file in the worker's scope */
+function scopedUrl(path: string): string {
+  return new URL(path, worker.registration.scope).href;
+}
+
+worker.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(PRECACHE).then(cache => cache.addAll(__PRECACHE_MANIFEST__.map(scopedUrl)))
+  );
+});
+
+worker.addEventListener('activate', event => {
+  const current = new Set([PRECACHE, ...RUNTIME_CACHES.map(({ name }) => name)]);
+  event.waitUntil(
+    caches
+      .keys()
+      .then(names =>
+        Promise.all(names.filter(name => !current.has(name)).map(name => caches.delete(name)))
+      )
+      .then(() => worker.clients.claim())
+  );
+});
+
+// Sent by the page when the player accepts the update prompt
+worker.addEventListener('message', event => {
+  if ((event.data as { type?: string } | null)?.type === 'skip-waiting') void worker.skipWaiting();
+});
+
+worker.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  // Page loads get the precached index.html (the game routes live in the hash)
+  if (request.mode === 'navigate') {
+    event.respondWith(fromPrecache(scopedUrl('index.html'), request));
+    return;
+  }
+
+  const runtime = RUNTIME_CACHES.find(({ prefix }) => request.url.startsWith(prefix));
+  if (runtime) {
+    event.respondWith(staleWhileRevalidate(runtime.name, event));
+    return;
+  }
+
+  if (request.url.startsWith(worker.registration.scope)) {
+    event.respondWith(fromPrecache(request.url, request));
+  }
+});
+
+/**
+ * Answer from the precache, or from the network for files it doesn't hold
+ */
+async function fromPrecache(url: string, request: Request): Promise<Response> {
+  const cache = await caches.open(PRECACHE);
+  return (await cache.match(url, { ignoreSearch: true })) ?? fetch(request);
+}
+
+/**
+ * Answer from the cache right away and refresh it in the background;
+ * only the first request (nothing cached yet) waits for the network
+ */
+async function staleWhileRevalidate(cacheName: string, event: FetchEvent): Promise<Response> {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(event.request);
+
+  const refresh = fetch(event.request).then(async response => {
+    // Opaque responses (no-cors images) can't be checked, but are still worth keeping offline
+    if (response.ok || response.type === 'opaque') {
+      await cache.put(event.request, response.clone());
+    }
+    return response;
+  });
+
+  if (cached) {
+    // Offline: keep the cached copy and let the refresh fail quietly
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+}
@@ -1,8 +1,62 @@
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+
+import { defineConfig, type Plugin } from 'vite';
+
+/**
+ * Offline support: builds src/serviceWorker.ts as sw.js and injects the files
+ * it precaches - everything Vite emitted plus public/ (copied as-is, so not
+ * part of the bundle). The build id changes with any file, which makes
+ * browsers install the new worker (and show the update prompt).
+ */
+function serviceWorker(): Plugin {
+  let publicDir = '';
+
+  return {
+    name: 'bestgames:service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    buildStart() {
+      this.emitFile({ type: 'chunk', id: 'src/serviceWorker.ts', fileName: 'sw.js' });
+    },
+    generateBundle(_options, bundle) {
+      const worker = bundle['sw.js'];
+      if (worker?.type !== 'chunk') return;
+
+      const hash = createHash('sha256');
+      const files: string[] = [];
+      for (const [fileName, output] of Object.entries(bundle)) {
+        if (fileName === 'sw.js' || fileName.endsWith('.map')) continue;
+        files.push(fileName);
+        hash.update(fileName).update(output.type === 'chunk' ? output.code : output.source);
+      }
+      for (const fileName of listFiles(publicDir)) {
+        files.push(fileName);
+        hash.update(fileName).update(readFileSync(join(publicDir, fileName)));
+      }
+
+      worker.code = worker.code
+        .replaceAll('__PRECACHE_MANIFEST__', JSON.stringify(files.map(encodeURI)))
+        .replaceAll('__BUILD_ID__', JSON.stringify(hash.digest('hex').slice(0, 12)));
+    },
+  };
+}
+
+/** Files below a directory, as URL paths relative to it */
+function listFiles(dir: string): string[] {
+  return readdirSync(dir, { recursive: true, encoding: 'utf8' })
+    .filter(path => statSync(join(dir, path)).isFile())
+    .map(path => relative(dir, join(dir, path)).split(sep).join('/'));
+}
 
 export default defineConfig(({ command }) => ({
   // Base URL: use repo name for production (GitHub Pages), root for dev
   base: command === 'build' ? '/Game-Developer-Tasks/' : '/',
+  plugins: [serviceWorker()],
   optimizeDeps: {
     include: [
       'pixi.js',